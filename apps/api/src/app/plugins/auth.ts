@@ -23,5 +23,5 @@ const auth: FastifyPluginAsync = async (fastify) => {
 
 export default fp(auth, {
     name: 'auth',
-    dependencies: ['database'] // Ensure database is loaded first
+    dependencies: ['database', 'rbac'] // Ensure database is loaded first; roles and permission version for access tokens
 });
@@ -11,19 +11,31 @@ import { config } from '@aegisx/core-config';
  * Features:
  * - รองรับการตั้งค่า origin และ credentials จาก config
  * - ปรับแต่งได้ตาม environment
+ * - Cookie session (credentials) ใช้ได้เฉพาะ origin ที่ระบุชัดเจน ไม่ใช่ '*'
  */
 export default fp(
   async function corsPlugin(fastify: FastifyInstance) {
     const appConfig = config.get('app');
+    const { origin } = appConfig.cors;
+
+    // เบราว์เซอร์ไม่รับ credentials คู่กับ Access-Control-Allow-Origin: *
+    const anyOrigin = origin === '*' || (Array.isArray(origin) && origin.includes('*'));
+    const credentials = appConfig.cors.credentials && !anyOrigin;
+
+    if (appConfig.cors.credentials && anyOrigin) {
+      fastify.log.warn(
+        'CORS credentials disabled for origin "*": set CORS_ORIGIN to the web app origins to use cookie sessions'
+      );
+    }
 
     await fastify.register(cors, {
-      origin: appConfig.cors.origin,
-      credentials: appConfig.cors.credentials,
+      origin,
+      credentials,
     });
 
     fastify.log.info('✅ CORS enabled', {
-      origin: appConfig.cors.origin,
-      credentials: appConfig.cors.credentials,
+      origin,
+      credentials,
     });
   },
   {
@@ -0,0 +1,23 @@
+import fp from 'fastify-plugin';
+import { FastifyPluginAsync } from 'fastify';
+import { rbacPlugin, type RbacPluginOptions } from '@aegisx/core-rbac';
+
+const rbac: FastifyPluginAsync = async (fastify) => {
+    if (!fastify.db) {
+        throw new Error('Database must be registered before rbac plugin. Make sure database plugin is loaded first.');
+    }
+
+    const options: RbacPluginOptions = {
+        knex: fastify.db
+    };
+
+    // Provides fastify.authorize, which the users and tenants routes check permissions with
+    await fastify.register(rbacPlugin, options);
+
+    fastify.log.info('✅ RBAC plugin registered');
+};
+
+export default fp(rbac, {
+    name: 'rbac',
+    dependencies: ['database'] // Roles and permissions live in the database
+});
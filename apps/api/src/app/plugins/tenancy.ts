@@ -0,0 +1,46 @@
+import fp from 'fastify-plugin';
+import { FastifyPluginAsync } from 'fastify';
+import { container } from 'tsyringe';
+import { TokenService } from '@aegisx/core-auth';
+import { tenancyPlugin, type TenancyPluginOptions } from '@aegisx/core-database';
+import { tenantsPlugin } from '@aegisx/features-system-tenants';
+
+const tenancy: FastifyPluginAsync = async (fastify) => {
+    if (process.env['MULTI_TENANCY'] !== 'true') {
+        fastify.log.info('Multi-tenancy disabled (set MULTI_TENANCY=true to enable)');
+        return;
+    }
+    if (!fastify.db) {
+        throw new Error('Database must be registered before tenancy plugin. Make sure database plugin is loaded first.');
+    }
+
+    // Tokens carry the tenant in a claim only when the real auth services are running
+    const tokenService = container.isRegistered('TokenService')
+        ? container.resolve<TokenService>('TokenService')
+        : undefined;
+
+    const options: TenancyPluginOptions = {
+        knex: fastify.db,
+        // Platform routes (auth, users, docs) serve no tenant; tenant routes set config.tenant = true
+        required: false,
+        resolution: {
+            baseDomain: process.env['TENANT_BASE_DOMAIN'],
+            verifyToken: tokenService && ((token) => tokenService.verifyAccessToken(token))
+        },
+        // Schema-per-tenant and database-per-tenant need the migrations to run in each tenant
+        ...(process.env['TENANT_MIGRATIONS_DIR'] && {
+            provisioning: { migrationsDir: process.env['TENANT_MIGRATIONS_DIR'] }
+        })
+    };
+
+    await fastify.register(tenancyPlugin, options);
+    await fastify.register(tenantsPlugin, { prefix: '/api/tenants' });
+
+    fastify.log.info('✅ Tenancy plugin registered');
+    fastify.log.info('✅ Tenant administration endpoints available at /api/tenants');
+};
+
+export default fp(tenancy, {
+    name: 'tenancy',
+    dependencies: ['database', 'auth', 'rbac'] // Tenant registry in the database, token verification from auth, fastify.authorize
+});
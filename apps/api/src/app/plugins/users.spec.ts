@@ -0,0 +1,80 @@
+import 'reflect-metadata';
+import Fastify, { FastifyInstance } from 'fastify';
+import fp from 'fastify-plugin';
+import knex from 'knex';
+import { container } from 'tsyringe';
+import { TokenDenylist, TokenService } from '@aegisx/core-auth';
+import { PermissionString, RbacService } from '@aegisx/core-rbac';
+import { SecurityEvents } from '@aegisx/features-system-auth';
+import { UserManagementRepository } from '@aegisx/features-system-users';
+import rbac from './rbac';
+import users from './users';
+
+jest.mock('@aegisx/core-config', () => ({ config: { isDevelopment: () => false } }));
+jest.mock('@aegisx/core-logger', () => ({ logger: console }));
+
+describe('users plugin', () => {
+  let server: FastifyInstance;
+  let tokenService: TokenService;
+  let permissions: PermissionString[];
+
+  beforeEach(async () => {
+    tokenService = new TokenService({
+      jwt: {
+        secret: 'test-secret-key-that-is-at-least-32-characters',
+        issuer: 'aegisx-platform',
+        algorithm: 'HS256',
+        accessTokenExpiry: '15m',
+        refreshTokenExpiry: '7d',
+      },
+      security: {
+        maxLoginAttempts: 5,
+        lockoutDuration: 30,
+        passwordMinLength: 6,
+        requireEmailVerification: false,
+      },
+    }, { denylist: new TokenDenylist() });
+    container.registerInstance('TokenService', tokenService);
+    container.registerInstance('AuthService', {});
+    container.registerInstance('SecurityEvents', new SecurityEvents());
+
+    permissions = [];
+    jest.spyOn(RbacService.prototype, 'getEffectivePermissions').mockImplementation(async (userId) => ({
+      userId,
+      roles: [],
+      permissions,
+    }));
+    jest.spyOn(UserManagementRepository.prototype, 'list').mockResolvedValue({ users: [], total: 0 });
+
+    // Stand-ins for the database and auth plugins, which need PostgreSQL
+    server = Fastify();
+    server.register(fp(async (fastify) => {
+      fastify.decorate('db', knex({ client: 'pg' }));
+    }, { name: 'database' }));
+    server.register(fp(async () => undefined, { name: 'auth' }));
+    server.register(rbac);
+    server.register(users);
+    await server.ready();
+  });
+
+  afterEach(async () => {
+    await server.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should check the permissions of /api/users with the RBAC plugin', async () => {
+    const request = {
+      method: 'GET' as const,
+      url: '/api/users',
+      headers: { authorization: `Bearer ${tokenService.generateAccessToken('admin-1', 'admin@aegisx.com')}` },
+    };
+
+    expect((await server.inject(request)).statusCode).toBe(403);
+
+    permissions = ['users:read'];
+    const response = await server.inject(request);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().users).toEqual([]);
+  });
+});
@@ -0,0 +1,25 @@
+import fp from 'fastify-plugin';
+import { FastifyPluginAsync } from 'fastify';
+import { usersPlugin, type UsersPluginOptions } from '@aegisx/features-system-users';
+import { config } from '@aegisx/core-config';
+
+const users: FastifyPluginAsync = async (fastify) => {
+    // User management needs the real auth services, which the mock does not provide
+    if (config.isDevelopment() && process.env.NODE_ENV === 'test') {
+        fastify.log.info('Users plugin skipped: auth plugin runs with the mock implementation');
+        return;
+    }
+
+    const options: UsersPluginOptions = {
+        prefix: '/api/users'
+    };
+
+    await fastify.register(usersPlugin, options);
+
+    fastify.log.info(`✅ User management endpoints available at ${options.prefix}`);
+};
+
+export default fp(users, {
+    name: 'users',
+    dependencies: ['auth', 'rbac'] // Uses the services registered by the auth plugin and fastify.authorize
+});
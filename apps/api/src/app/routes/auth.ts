@@ -1,42 +1,66 @@
 import { FastifyInstance } from 'fastify';
-import { TokenService, AuthConfig, JwtUtils } from '@aegisx/core-auth';
+import { container } from 'tsyringe';
+import {
+  authPlugin,
+  TokenService,
+  TokenDenylist,
+  DirectoryJwtKeyPersistence,
+  JwtUtils,
+} from '@aegisx/core-auth';
+import { createJwtConfig, initializeJwtKeys } from '@aegisx/features-system-auth';
 
 /**
  * Authentication Routes
  * Uses @aegisx/core-auth for JWT token management
  */
 export default async function authRoutes(fastify: FastifyInstance) {
-  // Initialize auth configuration (this should come from @aegisx/core-config)
-  const authConfig: AuthConfig = {
-    jwt: {
-      secret: process.env.JWT_SECRET || JwtUtils.generateSecureSecret(),
-      accessTokenExpiry: process.env.JWT_ACCESS_TOKEN_EXPIRY || '15m',
-      refreshTokenExpiry: process.env.JWT_REFRESH_TOKEN_EXPIRY || '7d',
-      issuer: process.env.JWT_ISSUER || 'aegisx-api',
-      algorithm: (process.env.JWT_ALGORITHM as any) || 'HS256',
-    },
-    security: {
-      maxLoginAttempts: 5,
-      lockoutDuration: 15,
-      passwordMinLength: 8,
-      requireEmailVerification: true,
-    },
-  };
-
-  // Validate configuration
-  const validation = JwtUtils.validateJwtConfig(authConfig.jwt);
-  if (!validation.valid) {
-    fastify.log.error('Invalid JWT configuration:', validation.errors);
-    throw new Error(
-      `Invalid JWT configuration: ${validation.errors.join(', ')}`
-    );
-  }
+  // The auth feature's token service signs the tokens users get, so the
+  // JWKS must publish its keys; the mock auth mode registers none
+  const tokenService = container.isRegistered('TokenService')
+    ? container.resolve<TokenService>('TokenService')
+    : await createStandaloneTokenService(fastify);
 
-  // Initialize token service
-  const tokenService = new TokenService(authConfig);
+  // Register token service and the authenticate preHandler
+  await fastify.register(authPlugin, { tokenService });
 
-  // Register token service to Fastify instance
-  fastify.decorate('tokenService', tokenService);
+  /**
+   * GET /.well-known/jwks.json
+   * Public signing keys for services that verify our tokens
+   */
+  fastify.get(
+    '/.well-known/jwks.json',
+    {
+      schema: {
+        description: 'JSON Web Key Set used to verify access tokens',
+        tags: ['Authentication'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              keys: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    kty: { type: 'string' },
+                    kid: { type: 'string' },
+                    use: { type: 'string' },
+                    alg: { type: 'string' },
+                    n: { type: 'string' },
+                    e: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (_request, reply) => {
+      reply.header('Cache-Control', 'public, max-age=300');
+      return tokenService.getJwks();
+    }
+  );
 
   /**
    * POST /auth/login
@@ -110,7 +134,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
       const { email, password, rememberMe } = request.body as any;
 
       try {
-        // TODO: Replace with actual user validation using @aegisx/feature-user-management
+        // TODO: Replace with AuthService.login from @aegisx/features-system-auth
         const user = await validateUserCredentials(email, password);
 
         if (!user) {
@@ -256,7 +280,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
   fastify.post(
     '/auth/logout',
     {
-      preHandler: [authenticate], // Requires authentication
+      preHandler: [fastify.authenticate], // Requires authentication
       schema: {
         description: 'User logout',
         tags: ['Authentication'],
@@ -285,11 +309,16 @@ export default async function authRoutes(fastify: FastifyInstance) {
     async (request: any, reply) => {
       try {
         // TODO: Invalidate session in database
-        // TODO: Add token to blacklist if needed
+        const token = tokenService.extractTokenFromHeader(
+          request.headers.authorization
+        );
+        if (token) {
+          await tokenService.revokeToken(token);
+        }
 
         fastify.log.info('User logged out', {
           userId: request.user.id,
-          sessionId: request.sessionId,
+          sessionId: request.user.sessionId,
         });
 
         return reply.code(200).send({
@@ -314,7 +343,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
   fastify.get(
     '/auth/me',
     {
-      preHandler: [authenticate], // Requires authentication
+      preHandler: [fastify.authenticate], // Requires authentication
       schema: {
         description: 'Get current user profile',
         tags: ['Authentication'],
@@ -353,7 +382,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
     },
     async (request: any, reply) => {
       try {
-        // TODO: Fetch full user details from database using @aegisx/feature-user-management
+        // TODO: Fetch full user details with UserManagementService from @aegisx/features-system-users
         const user = await getUserById(request.user.id);
 
         if (!user) {
@@ -379,89 +408,40 @@ export default async function authRoutes(fastify: FastifyInstance) {
     }
   );
 
-  /**
-   * Authentication middleware
-   * Uses @aegisx/core-auth TokenService
-   */
-  async function authenticate(request: any, reply: any) {
-    try {
-      const authHeader = request.headers.authorization;
-
-      if (!authHeader) {
-        return reply.code(401).send({
-          success: false,
-          error: 'MISSING_AUTH_HEADER',
-          message: 'Authorization header is required',
-        });
-      }
-
-      const token = tokenService.extractTokenFromHeader(authHeader);
-
-      if (!token) {
-        return reply.code(401).send({
-          success: false,
-          error: 'INVALID_AUTH_FORMAT',
-          message: 'Authorization header must be in format: Bearer <token>',
-        });
-      }
-
-      const payload = tokenService.verifyAccessToken(token);
-
-      // Attach user info to request
-      request.user = {
-        id: payload.sub,
-        email: payload.email,
-      };
-
-      // Attach session ID if available
-      if (payload.jti) {
-        request.sessionId = payload.jti;
-      }
-    } catch (error) {
-      if (error instanceof Error) {
-        switch (error.message) {
-          case 'AUTH_TOKEN_EXPIRED':
-            return reply.code(401).send({
-              success: false,
-              error: 'TOKEN_EXPIRED',
-              message:
-                'Token has expired. Please refresh your token or login again.',
-            });
-          case 'AUTH_TOKEN_INVALID':
-          case 'AUTH_INVALID_TOKEN_TYPE':
-            return reply.code(401).send({
-              success: false,
-              error: 'INVALID_TOKEN',
-              message: 'The provided token is invalid',
-            });
-          case 'AUTH_TOKEN_NOT_ACTIVE':
-            return reply.code(401).send({
-              success: false,
-              error: 'TOKEN_NOT_ACTIVE',
-              message: 'This token cannot be used yet',
-            });
-          default:
-            fastify.log.error('Authentication error:', error);
-            return reply.code(401).send({
-              success: false,
-              error: 'AUTHENTICATION_FAILED',
-              message: 'Unable to authenticate request',
-            });
-        }
-      }
+  fastify.log.info('🔐 Authentication routes registered successfully');
+}
 
-      return reply.code(500).send({
-        success: false,
-        error: 'AUTH_ERROR',
-        message: 'An unexpected error occurred during authentication',
-      });
+/**
+ * Token service for the mock auth mode, signing with the same JWT_*
+ * settings as the auth feature
+ */
+async function createStandaloneTokenService(
+  fastify: FastifyInstance
+): Promise<TokenService> {
+  const tokenService = new TokenService(
+    {
+      jwt: createJwtConfig(),
+      security: {
+        maxLoginAttempts: 5,
+        lockoutDuration: 15,
+        passwordMinLength: 8,
+        requireEmailVerification: true,
+      },
+    },
+    {
+      denylist: new TokenDenylist(),
+      // Rotated keys survive restarts and are shared by instances mounting the directory
+      keyPersistence: process.env.JWT_KEY_DIR
+        ? new DirectoryJwtKeyPersistence(process.env.JWT_KEY_DIR)
+        : undefined,
     }
-  }
+  );
 
-  fastify.log.info('🔐 Authentication routes registered successfully');
+  await initializeJwtKeys(fastify, tokenService);
+  return tokenService;
 }
 
-// Mock functions - Replace with actual implementations from @aegisx/feature-user-management
+// Mock functions - Replace with @aegisx/features-system-auth and @aegisx/features-system-users
 async function validateUserCredentials(email: string, password: string) {
   // TODO: Implement actual user validation
   // This should:
@@ -484,7 +464,7 @@ async function validateUserCredentials(email: string, password: string) {
 }
 
 async function getUserById(id: string) {
-  // TODO: Fetch user from database using @aegisx/feature-user-management
+  // TODO: Fetch user from database using @aegisx/features-system-users
   // Mock implementation
   return {
     id,
@@ -496,18 +476,3 @@ async function getUserById(id: string) {
     lastLoginAt: new Date().toISOString(),
   };
 }
-
-// Extend Fastify types for request user
-declare module 'fastify' {
-  interface FastifyRequest {
-    user?: {
-      id: string;
-      email: string;
-    };
-    sessionId?: string;
-  }
-
-  interface FastifyInstance {
-    tokenService?: TokenService;
-  }
-}
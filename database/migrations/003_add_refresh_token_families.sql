@@ -0,0 +1,10 @@
+-- Migration: Track refresh token families for reuse detection (Knex compatible)
+-- Created: 2026-10-18
+-- Description: Every login starts a family; rotated tokens stay in it.
+--              Replaying a rotated token revokes the whole family.
+
+ALTER TABLE refresh_tokens
+    ADD COLUMN IF NOT EXISTS family_id UUID NOT NULL DEFAULT gen_random_uuid(),
+    ADD COLUMN IF NOT EXISTS rotated_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id);
@@ -0,0 +1,26 @@
+-- Migration: Create user_sessions table (Knex compatible)
+-- Created: 2026-10-18
+-- Description: One row per login with device metadata. The session id is
+--              the refresh token family id and the access token jti.
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    device_info VARCHAR(255),
+    ip_address VARCHAR(64),
+    user_agent VARCHAR(512),
+    last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL,
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_active ON user_sessions(user_id, revoked_at, expires_at);
+
+DROP TRIGGER IF EXISTS update_user_sessions_updated_at ON user_sessions;
+CREATE TRIGGER update_user_sessions_updated_at 
+    BEFORE UPDATE ON user_sessions 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,27 @@
+-- Migration: Create the tenant registry (Knex compatible)
+-- Created: 2026-10-18
+-- Description: Registry of tenants in the tenants schema. The slug names a
+--              tenant in the X-Tenant-ID header, as subdomain or in the
+--              tenantId token claim; only active tenants are resolved.
+--              Tenant-scoped tables carry a tenant_id column referencing it.
+
+CREATE SCHEMA IF NOT EXISTS tenants;
+
+CREATE TABLE IF NOT EXISTS tenants.registry (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    slug VARCHAR(63) NOT NULL UNIQUE,
+    name VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'suspended', 'inactive')),
+    config JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_registry_status ON tenants.registry(status);
+
+DROP TRIGGER IF EXISTS update_tenant_registry_updated_at ON tenants.registry;
+CREATE TRIGGER update_tenant_registry_updated_at
+    BEFORE UPDATE ON tenants.registry
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,10 @@
+-- Migration: Tenant membership of users (Knex compatible)
+-- Created: 2026-10-18
+-- Description: The tenant a user belongs to. Access tokens carry it in the
+--              tenantId claim, which the tenancy plugin trusts over the
+--              X-Tenant-ID header and subdomain. Platform users have none.
+
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES tenants.registry(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_tenant_id ON users(tenant_id) WHERE tenant_id IS NOT NULL;
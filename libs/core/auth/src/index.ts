@@ -3,9 +3,58 @@ export * from './lib/types/auth.types';
 
 // Export services
 export * from './lib/services/token.service';
+export * from './lib/services/key-store.service';
+export * from './lib/services/directory-jwt-key.persistence';
+
+// Export token denylist
+export * from './lib/denylist/token-denylist';
+export * from './lib/denylist/redis-token-denylist.store';
+
+// Export login throttle
+export * from './lib/throttle/login-throttle';
+export * from './lib/throttle/redis-login-throttle.store';
+
+// Export password policy
+export * from './lib/password/password-policy';
+export * from './lib/password/breached-passwords';
+export * from './lib/password/breached-password-prefixes';
+
+// Export TOTP
+export * from './lib/totp/totp';
+
+// Export WebAuthn
+export * from './lib/webauthn/webauthn';
+export * from './lib/webauthn/cose';
+export * from './lib/webauthn/cbor';
+export * from './lib/webauthn/software-authenticator';
+
+// Export OpenID Connect client
+export * from './lib/oidc/oidc-client';
+export * from './lib/oidc/mock-oidc-provider';
+
+// Fastify plugin (request authentication)
+export {
+  default as authPlugin,
+  authenticated,
+  createAuthenticate,
+  isAuthenticated,
+} from './lib/fastify-auth.plugin';
+export type {
+  AuthUser,
+  AuthTokenType,
+  AuthStrategy,
+  AuthenticateOptions,
+  AuthenticateHandler,
+  AuthenticatedRequest,
+  FastifyAuthPluginOptions,
+} from './lib/fastify-auth.plugin';
+
+// Export authentication strategies
+export * from './lib/strategies/auth-strategies';
 
 // Export utilities
 export * from './lib/utils/jwt.utils';
+export * from './lib/utils/cookie.utils';
 
 // Export main function
 export * from './lib/core-auth';
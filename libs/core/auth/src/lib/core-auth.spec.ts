@@ -1,6 +1,32 @@
+import * as jwt from 'jsonwebtoken';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Fastify, { FastifyInstance, FastifyRequest } from 'fastify';
+import { RedisTokenDenylistStore } from './denylist/redis-token-denylist.store';
+import { TokenDenylist } from './denylist/token-denylist';
+import { LoginThrottle } from './throttle/login-throttle';
+import { RedisLoginThrottleStore } from './throttle/redis-login-throttle.store';
+import { JwtKeyStore } from './services/key-store.service';
+import { DirectoryJwtKeyPersistence } from './services/directory-jwt-key.persistence';
+import { BreachedPasswordList } from './password/breached-passwords';
+import { PasswordPolicy, PasswordRuleCode } from './password/password-policy';
 import { TokenService } from './services/token.service';
+import { Totp } from './totp/totp';
+import { MockOidcProvider } from './oidc/mock-oidc-provider';
+import { OidcClient } from './oidc/oidc-client';
+import { decodeCbor, encodeCbor } from './webauthn/cbor';
+import { SoftwareAuthenticator } from './webauthn/software-authenticator';
+import { WebAuthn } from './webauthn/webauthn';
 import { JwtUtils } from './utils/jwt.utils';
-import { AuthConfig } from './types/auth.types';
+import { CookieUtils } from './utils/cookie.utils';
+import authPlugin, { authenticated, createAuthenticate, isAuthenticated } from './fastify-auth.plugin';
+import {
+  apiKeyStrategy,
+  jwtStrategy,
+  sessionCookieStrategy,
+} from './strategies/auth-strategies';
+import { AuthConfig, JwtSigningKey } from './types/auth.types';
 import { coreAuth } from './core-auth';
 
 describe('coreAuth', () => {
@@ -108,6 +134,117 @@ describe('TokenService', () => {
     });
   });
 
+  describe('custom claims', () => {
+    it('should embed roles, tenant and permission version', () => {
+      const token = tokenService.generateAccessToken(
+        'user123',
+        'test@example.com',
+        undefined,
+        { roles: ['admin'], tenantId: 'tenant-1', permissionVersion: 3 }
+      );
+      const payload = tokenService.verifyAccessToken(token);
+
+      expect(payload.roles).toEqual(['admin']);
+      expect(payload.tenantId).toBe('tenant-1');
+      expect(payload.permissionVersion).toBe(3);
+    });
+
+    it('should not let custom claims override standard claims', () => {
+      const token = tokenService.generateAccessToken(
+        'user123',
+        'test@example.com',
+        undefined,
+        { roles: ['user'], sub: 'someone-else' } as never
+      );
+      const payload = tokenService.verifyAccessToken(token);
+
+      expect(payload.sub).toBe('user123');
+      expect(payload).not.toHaveProperty('tenantId');
+    });
+
+    it('should keep refresh tokens free of custom claims', () => {
+      const tokens = tokenService.generateTokenPair(
+        'user123',
+        'test@example.com',
+        undefined,
+        { roles: ['admin'] }
+      );
+
+      expect(tokenService.verifyAccessToken(tokens.accessToken).roles).toEqual([
+        'admin',
+      ]);
+      expect(
+        tokenService.verifyRefreshToken(tokens.refreshToken).roles
+      ).toBeUndefined();
+    });
+
+    it('should reject a permission version mismatch', () => {
+      const token = tokenService.generateAccessToken(
+        'user123',
+        'test@example.com',
+        undefined,
+        { permissionVersion: 3 }
+      );
+
+      expect(
+        tokenService.verifyAccessToken(token, { permissionVersion: 3 }).sub
+      ).toBe('user123');
+      expect(() =>
+        tokenService.verifyAccessToken(token, { permissionVersion: 4 })
+      ).toThrow('AUTH_PERMISSION_VERSION_MISMATCH');
+    });
+  });
+
+  describe('MFA challenge tokens', () => {
+    it('should only verify as MFA challenges', () => {
+      const challenge = tokenService.generateMfaChallengeToken('user123', 'test@example.com');
+      const { accessToken } = tokenService.generateTokenPair('user123', 'test@example.com');
+
+      expect(tokenService.verifyMfaChallengeToken(challenge).sub).toBe('user123');
+      expect(() => tokenService.verifyAccessToken(challenge)).toThrow('AUTH_INVALID_TOKEN_TYPE');
+      expect(() => tokenService.verifyMfaChallengeToken(accessToken)).toThrow(
+        'AUTH_INVALID_TOKEN_TYPE'
+      );
+    });
+  });
+
+  describe('OAuth access tokens', () => {
+    it('should carry client and scope and only verify as OAuth tokens', () => {
+      const token = tokenService.generateOAuthAccessToken({
+        subject: 'user123',
+        clientId: 'partner-app',
+        scope: 'profile email',
+        expiresIn: '5m'
+      });
+
+      expect(tokenService.verifyOAuthAccessToken(token)).toMatchObject({
+        sub: 'user123',
+        client_id: 'partner-app',
+        scope: 'profile email'
+      });
+      expect(tokenService.getTimeToExpiry(token)).toBeLessThanOrEqual(300);
+      expect(() => tokenService.verifyAccessToken(token)).toThrow('AUTH_INVALID_TOKEN_TYPE');
+    });
+  });
+
+  describe('impersonation tokens', () => {
+    it('should be access tokens that name the acting administrator', () => {
+      const token = tokenService.generateImpersonationToken({
+        userId: 'user123',
+        email: 'test@example.com',
+        actor: { sub: 'admin1', email: 'admin@example.com' },
+        expiresIn: '10m'
+      });
+
+      expect(tokenService.verifyAccessToken(token)).toMatchObject({
+        sub: 'user123',
+        type: 'access',
+        act: { sub: 'admin1', email: 'admin@example.com' }
+      });
+      expect(tokenService.getTimeToExpiry(token)).toBeLessThanOrEqual(600);
+    });
+  });
+
   describe('extractTokenFromHeader', () => {
     it('should extract token from Bearer header', () => {
       const token = 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9';
@@ -125,6 +262,1139 @@ describe('TokenService', () => {
   });
 });
 
+describe('token denylist', () => {
+  let tokenService: TokenService;
+
+  beforeEach(() => {
+    tokenService = new TokenService(
+      {
+        jwt: {
+          secret: JwtUtils.generateSecureSecret(),
+          accessTokenExpiry: '15m',
+          refreshTokenExpiry: '7d',
+          issuer: 'test-issuer',
+          algorithm: 'HS256',
+        },
+        security: {
+          maxLoginAttempts: 5,
+          lockoutDuration: 15,
+          passwordMinLength: 8,
+          requireEmailVerification: true,
+        },
+      },
+      { denylist: new TokenDenylist() }
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should reject a revoked token and keep others valid', async () => {
+    const revoked = tokenService.generateAccessToken('user123', 'test@example.com');
+    const other = tokenService.generateAccessToken('user123', 'test@example.com');
+
+    await tokenService.revokeToken(revoked);
+
+    await expect(tokenService.verifyActiveAccessToken(revoked)).rejects.toThrow(
+      'AUTH_TOKEN_REVOKED'
+    );
+    expect((await tokenService.verifyActiveAccessToken(other)).sub).toBe('user123');
+    // Signature checks alone do not consult the denylist
+    expect(tokenService.verifyAccessToken(revoked).sub).toBe('user123');
+  });
+
+  it('should ignore forged tokens and cap the entry at one token lifetime', async () => {
+    const victim = tokenService.generateAccessToken('user123', 'test@example.com', 'session-1');
+    const forged = jwt.sign(
+      { sub: 'user123', jti: 'session-1', type: 'access' },
+      'attacker-secret',
+      { issuer: 'test-issuer', expiresIn: '3650d' }
+    );
+
+    await tokenService.revokeToken(forged);
+    expect((await tokenService.verifyActiveAccessToken(victim)).sub).toBe('user123');
+
+    jest.useFakeTimers();
+    const longLived = tokenService.generateImpersonationToken({
+      userId: 'user123',
+      email: 'test@example.com',
+      actor: { sub: 'admin-1' },
+      expiresIn: '3650d',
+    });
+    await tokenService.revokeToken(longLived);
+    await expect(tokenService.verifyActiveAccessToken(longLived)).rejects.toThrow(
+      'AUTH_TOKEN_REVOKED'
+    );
+
+    jest.advanceTimersByTime(16 * 60 * 1000);
+    expect((await tokenService.verifyActiveAccessToken(longLived)).sub).toBe('user123');
+  });
+
+  it('should revoke every token sharing a session id', async () => {
+    const first = tokenService.generateAccessToken('user123', 'test@example.com', 'session-1');
+    const second = tokenService.generateAccessToken('user123', 'test@example.com', 'session-1');
+
+    await tokenService.revokeTokenId('session-1');
+
+    await expect(tokenService.verifyActiveAccessToken(first)).rejects.toThrow(
+      'AUTH_TOKEN_REVOKED'
+    );
+    await expect(tokenService.verifyActiveAccessToken(second)).rejects.toThrow(
+      'AUTH_TOKEN_REVOKED'
+    );
+  });
+
+  it('should drop entries once the token has expired', async () => {
+    jest.useFakeTimers();
+    const denylist = new TokenDenylist();
+
+    await denylist.revoke('jti-1', new Date(Date.now() + 60_000));
+    expect(await denylist.isRevoked('jti-1')).toBe(true);
+
+    jest.advanceTimersByTime(61_000);
+    expect(await denylist.isRevoked('jti-1')).toBe(false);
+  });
+
+  it('should revoke every token issued before the cutoff', async () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+    const before = tokenService.generateAccessToken('user123', 'test@example.com');
+    const otherUser = tokenService.generateAccessToken('user456', 'other@example.com');
+
+    jest.advanceTimersByTime(5_000);
+    await tokenService.revokeAllUserTokens('user123');
+    jest.advanceTimersByTime(1_000);
+    const after = tokenService.generateAccessToken('user123', 'test@example.com');
+
+    await expect(tokenService.verifyActiveAccessToken(before)).rejects.toThrow(
+      'AUTH_TOKEN_REVOKED'
+    );
+    expect((await tokenService.verifyActiveAccessToken(after)).sub).toBe('user123');
+    expect((await tokenService.verifyActiveAccessToken(otherUser)).sub).toBe(
+      'user456'
+    );
+  });
+
+  it('should store entries with TTLs in Redis', async () => {
+    const calls: [string, string, string, number][] = [];
+    const data = new Map<string, string>();
+    const store = new RedisTokenDenylistStore({
+      get: async (key) => data.get(key) ?? null,
+      set: async (key, value, mode, ttl) => {
+        calls.push([key, value, mode, ttl]);
+        data.set(key, value);
+        return 'OK';
+      },
+    });
+    const denylist = new TokenDenylist(store);
+
+    await denylist.revoke('jti-1', new Date(Date.now() + 60_000));
+
+    expect(calls).toEqual([['auth:denylist:jti:jti-1', '1', 'EX', 60]]);
+    expect(await denylist.isRevoked('jti-1')).toBe(true);
+  });
+
+  it('should require a denylist to revoke tokens', async () => {
+    const withoutDenylist = new TokenService({
+      jwt: {
+        secret: JwtUtils.generateSecureSecret(),
+        accessTokenExpiry: '15m',
+        refreshTokenExpiry: '7d',
+        issuer: 'test-issuer',
+        algorithm: 'HS256',
+      },
+      security: {
+        maxLoginAttempts: 5,
+        lockoutDuration: 15,
+        passwordMinLength: 8,
+        requireEmailVerification: true,
+      },
+    });
+
+    await expect(withoutDenylist.revokeAllUserTokens('user123')).rejects.toThrow(
+      'Token denylist is not configured'
+    );
+  });
+});
+
+describe('LoginThrottle', () => {
+  const config = {
+    jwt: {
+      secret: 'test-secret-key-that-is-at-least-32-characters',
+      accessTokenExpiry: '15m',
+      refreshTokenExpiry: '7d',
+      issuer: 'test-issuer',
+      algorithm: 'HS256' as const,
+    },
+    security: {
+      maxLoginAttempts: 3,
+      lockoutDuration: 10,
+      passwordMinLength: 8,
+      requireEmailVerification: false,
+    },
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should double the delay after every failure', async () => {
+    const throttle = LoginThrottle.fromAuthConfig(config);
+
+    expect(await throttle.recordFailure('account', 'user-1')).toMatchObject({
+      failedAttempts: 1,
+      locked: false,
+      retryAfter: 0,
+    });
+    expect((await throttle.recordFailure('account', 'user-1')).retryAfter).toBe(1);
+    jest.advanceTimersByTime(1_000);
+    expect((await throttle.status('account', 'user-1')).retryAfter).toBe(0);
+
+    const throttleWithMoreAttempts = LoginThrottle.fromAuthConfig({
+      ...config,
+      security: { ...config.security, maxLoginAttempts: 10 },
+    });
+    for (let i = 0; i < 3; i++) {
+      await throttleWithMoreAttempts.recordFailure('account', 'user-1');
+    }
+    expect((await throttleWithMoreAttempts.recordFailure('account', 'user-1')).retryAfter).toBe(4);
+    // Other accounts are not affected
+    expect((await throttle.status('account', 'user-2')).failedAttempts).toBe(0);
+  });
+
+  it('should lock for the configured duration and start over afterwards', async () => {
+    const throttle = LoginThrottle.fromAuthConfig(config);
+
+    await throttle.recordFailure('account', 'user-1');
+    await throttle.recordFailure('account', 'user-1');
+    const locked = await throttle.recordFailure('account', 'user-1');
+
+    expect(locked.locked).toBe(true);
+    expect(locked.retryAfter).toBe(600);
+    expect(locked.lockedUntil).toEqual(new Date('2025-01-01T00:10:00Z'));
+
+    jest.advanceTimersByTime(600_000);
+    expect(await throttle.status('account', 'user-1')).toEqual({
+      failedAttempts: 0,
+      locked: false,
+      retryAfter: 0,
+    });
+    expect((await throttle.recordFailure('account', 'user-1')).failedAttempts).toBe(1);
+  });
+
+  it('should allow more failures per IP and lift locks on reset', async () => {
+    const throttle = LoginThrottle.fromAuthConfig({
+      ...config,
+      security: { ...config.security, ipMaxLoginAttempts: 4, loginBackoff: { maxDelay: 2 } },
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await throttle.recordFailure('ip', '10.0.0.1');
+    }
+    expect(await throttle.status('ip', '10.0.0.1')).toMatchObject({ locked: false, retryAfter: 2 });
+    expect((await throttle.recordFailure('ip', '10.0.0.1')).locked).toBe(true);
+
+    await throttle.reset('ip', '10.0.0.1');
+    expect((await throttle.status('ip', '10.0.0.1')).locked).toBe(false);
+  });
+
+  it('should count concurrent failures without losing any', async () => {
+    const throttle = LoginThrottle.fromAuthConfig(config);
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => throttle.recordFailure('account', 'user-1'))
+    );
+
+    expect(results.map((result) => result.failedAttempts).sort()).toEqual([1, 2, 3, 4, 5]);
+    expect(results.filter((result) => result.locked)).toHaveLength(3);
+    expect((await throttle.status('account', 'user-1')).locked).toBe(true);
+  });
+
+  it('should count failures with INCR and store entries with TTLs in Redis', async () => {
+    const data = new Map<string, string>();
+    const ttls = new Map<string, number>();
+    const store = new RedisLoginThrottleStore({
+      get: async (key) => data.get(key) ?? null,
+      set: async (key, value, _mode, ttl) => {
+        ttls.set(key, ttl);
+        data.set(key, value);
+        return 'OK';
+      },
+      del: async (key) => data.delete(key),
+      incr: async (key) => {
+        const value = parseInt(data.get(key) ?? '0', 10) + 1;
+        data.set(key, String(value));
+        return value;
+      },
+      expire: async (key, ttl) => ttls.set(key, ttl),
+    });
+    const throttle = LoginThrottle.fromAuthConfig(config, store);
+
+    await throttle.recordFailure('account', 'user-1');
+    await throttle.recordFailure('account', 'user-1');
+    expect(data.get('auth:throttle:account:user-1')).toBe('2');
+    expect(ttls.get('auth:throttle:account:user-1')).toBe(600);
+    expect((await throttle.status('account', 'user-1')).failedAttempts).toBe(2);
+
+    await throttle.recordFailure('account', 'user-1');
+    expect([...data.keys()]).toEqual(['auth:throttle:account:user-1:lock']);
+    expect(ttls.get('auth:throttle:account:user-1:lock')).toBe(600);
+
+    await throttle.reset('account', 'user-1');
+    expect(data.size).toBe(0);
+  });
+});
+
+describe('asymmetric signing', () => {
+  const firstKey = JwtKeyStore.generateKeyPair('key-1');
+  let authConfig: AuthConfig;
+
+  beforeEach(() => {
+    authConfig = {
+      jwt: {
+        keys: [firstKey],
+        rotation: { interval: '30d', gracePeriod: '1d' },
+        accessTokenExpiry: '15m',
+        refreshTokenExpiry: '7d',
+        issuer: 'test-issuer',
+        algorithm: 'RS256',
+      },
+      security: {
+        maxLoginAttempts: 5,
+        lockoutDuration: 15,
+        passwordMinLength: 8,
+        requireEmailVerification: true,
+      },
+    };
+  });
+
+  it('should sign with the key pair and set the kid header', () => {
+    const tokenService = new TokenService(authConfig);
+    const token = tokenService.generateAccessToken('user123', 'test@example.com');
+
+    const decoded = jwt.decode(token, { complete: true });
+    expect(decoded?.header.alg).toBe('RS256');
+    expect(decoded?.header.kid).toBe('key-1');
+    expect(tokenService.verifyAccessToken(token).sub).toBe('user123');
+  });
+
+  it('should require keys instead of a secret', () => {
+    authConfig.jwt.keys = [];
+    expect(() => new TokenService(authConfig)).toThrow(
+      'JWT keys must be specified for RS algorithms'
+    );
+  });
+
+  it('should let other services verify through the JWKS only', () => {
+    const issuer = new TokenService(authConfig);
+    const token = issuer.generateAccessToken('user123', 'test@example.com');
+
+    const jwks = issuer.getJwks();
+    expect(jwks.keys).toHaveLength(1);
+    expect(jwks.keys[0]).toMatchObject({ kid: 'key-1', kty: 'RSA', use: 'sig' });
+    expect(jwks.keys[0]).not.toHaveProperty('d');
+
+    const verifier = new TokenService(
+      { ...authConfig, jwt: { ...authConfig.jwt, keys: undefined } },
+      { keyStore: JwtKeyStore.fromJwks('RS256', jwks) }
+    );
+    expect(verifier.verifyAccessToken(token).sub).toBe('user123');
+    expect(() =>
+      verifier.generateAccessToken('user123', 'test@example.com')
+    ).toThrow('AUTH_SIGNING_KEY_NOT_FOUND');
+  });
+
+  it('should keep old keys verifying during the grace period after rotation', () => {
+    const tokenService = new TokenService(authConfig);
+    const keyStore = tokenService.keyStore;
+    expect(keyStore).toBeDefined();
+    if (!keyStore) return;
+    const oldToken = tokenService.generateAccessToken('user123', 'test@example.com');
+
+    const newKey = keyStore.rotate();
+    const newToken = tokenService.generateAccessToken('user123', 'test@example.com');
+
+    expect(jwt.decode(newToken, { complete: true })?.header.kid).toBe(newKey.kid);
+    expect(tokenService.verifyAccessToken(oldToken).sub).toBe('user123');
+    expect(tokenService.getJwks().keys).toHaveLength(2);
+
+    const afterGrace = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+    expect(keyStore.getVerificationKey('key-1', afterGrace)).toBeNull();
+    expect(keyStore.getJwks(afterGrace).keys).toHaveLength(1);
+  });
+
+  it('should rotate only when the signing key is due', () => {
+    const keyStore = new JwtKeyStore('RS256', [firstKey], authConfig.jwt.rotation);
+
+    expect(keyStore.rotateIfDue()).toBe(false);
+
+    const createdAt = firstKey.createdAt;
+    expect(createdAt).toBeDefined();
+    if (!createdAt) return;
+    const later = new Date(createdAt.getTime() + 31 * 24 * 60 * 60 * 1000);
+    expect(keyStore.rotateIfDue(later)).toBe(true);
+    expect(keyStore.getSigningKey().kid).not.toBe('key-1');
+  });
+
+  it('should persist rotated keys for restarts and other instances', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'jwt-keys-'));
+    try {
+      const createdAt = firstKey.createdAt ?? new Date();
+      const later = new Date(createdAt.getTime() + 31 * 24 * 60 * 60 * 1000);
+      const rotation = authConfig.jwt.rotation;
+      const instance = () =>
+        new JwtKeyStore('RS256', [firstKey], rotation, new DirectoryJwtKeyPersistence(directory));
+
+      const first = instance();
+      expect(await first.syncRotation(later)).toBe(true);
+      const rotatedKid = first.getSigningKey().kid;
+
+      // Restarted or second instance: picks up the rotation instead of rotating again
+      const second = instance();
+      expect(await second.syncRotation(later)).toBe(false);
+      expect(second.getSigningKey().kid).toBe(rotatedKid);
+      expect(second.getJwks(later).keys.map((key) => key.kid).sort()).toEqual(
+        first.getJwks(later).keys.map((key) => key.kid).sort()
+      );
+
+      await expect(
+        new JwtKeyStore('RS256', [firstKey], rotation).startRotation()
+      ).rejects.toThrow('JWT key rotation requires a key persistence');
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should reload persisted keys for an unknown kid, at most every 30 seconds', async () => {
+    const saved = new Map<string, JwtSigningKey>();
+    const persistence = {
+      load: jest.fn(async () => Array.from(saved.values())),
+      save: async (key: JwtSigningKey) => {
+        saved.set(key.kid, key);
+      },
+      delete: async (kid: string) => {
+        saved.delete(kid);
+      },
+    };
+    const instance = () =>
+      new TokenService(authConfig, { denylist: new TokenDenylist(), keyPersistence: persistence });
+    const first = instance();
+    const second = instance();
+
+    // The first instance rotates; the second has never seen the new key
+    first.keyStore?.rotate();
+    for (const key of first.keyStore?.getVerificationKeys() ?? []) {
+      await persistence.save(key);
+    }
+    const token = first.generateAccessToken('user123', 'test@example.com');
+
+    expect(() => second.verifyAccessToken(token)).toThrow('AUTH_TOKEN_INVALID');
+    expect((await second.verifyActiveAccessToken(token)).sub).toBe('user123');
+    expect(persistence.load).toHaveBeenCalledTimes(1);
+
+    const forged = jwt.sign({ sub: 'user123' }, 'secret', { header: { alg: 'HS256', kid: 'made-up' } });
+    await expect(second.verifyActiveAccessToken(forged)).rejects.toThrow('AUTH_TOKEN_INVALID');
+    await expect(second.verifyActiveAccessToken(forged)).rejects.toThrow('AUTH_TOKEN_INVALID');
+    expect(persistence.load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject tokens signed with an unknown kid', () => {
+    const other = new TokenService({
+      ...authConfig,
+      jwt: { ...authConfig.jwt, keys: [JwtKeyStore.generateKeyPair('other')] },
+    });
+    const token = other.generateAccessToken('user123', 'test@example.com');
+
+    expect(() => new TokenService(authConfig).verifyAccessToken(token)).toThrow(
+      'AUTH_TOKEN_INVALID'
+    );
+  });
+});
+
+describe('PasswordPolicy', () => {
+  const codes = (policy: PasswordPolicy, password: string, email?: string) =>
+    policy.evaluate(password, { email }).violations.map((v) => v.code);
+
+  it('should accept long, uncommon passwords with the defaults', () => {
+    const result = new PasswordPolicy().evaluate('correct horse battery');
+
+    expect(result.valid).toBe(true);
+    expect(result.score).toBeGreaterThanOrEqual(3);
+  });
+
+  it('should report a code for every broken rule', () => {
+    const policy = new PasswordPolicy({
+      minLength: 12,
+      requireLowercase: true,
+      requireUppercase: true,
+      requireDigit: true,
+      requireSymbol: true
+    });
+
+    expect(codes(policy, 'ABC')).toEqual([
+      PasswordRuleCode.TOO_SHORT,
+      PasswordRuleCode.MISSING_LOWERCASE,
+      PasswordRuleCode.MISSING_DIGIT,
+      PasswordRuleCode.MISSING_SYMBOL,
+      PasswordRuleCode.TOO_WEAK
+    ]);
+    expect(codes(policy, 'Tr0ub4dor&3-horse')).toEqual([]);
+  });
+
+  it('should reject passwords longer than maxLength', () => {
+    expect(codes(new PasswordPolicy({ maxLength: 16 }), 'x'.repeat(10) + 'yz-7a9!Q')).toContain(
+      PasswordRuleCode.TOO_LONG
+    );
+  });
+
+  it('should reject breached passwords from the bundled list', () => {
+    const policy = new PasswordPolicy();
+
+    expect(codes(policy, 'password123')).toContain(PasswordRuleCode.BREACHED);
+    expect(codes(policy, 'Qwerty123')).toContain(PasswordRuleCode.BREACHED);
+    expect(policy.evaluate('password123').score).toBe(0);
+    expect(codes(new PasswordPolicy({ checkBreached: false }), 'password123')).not.toContain(
+      PasswordRuleCode.BREACHED
+    );
+  });
+
+  it('should accept custom breached lists of SHA-1 prefixes', () => {
+    // SHA-1('hunter22') starts with 60b3af8bfe
+    const list = new BreachedPasswordList(['60b3af8bfe']);
+
+    expect(list.has('hunter22')).toBe(true);
+    expect(list.has('hunter23')).toBe(false);
+    expect(() => new BreachedPasswordList(['ABC', 'ABCD'])).toThrow();
+  });
+
+  it('should reject denylisted words case-insensitively', () => {
+    const policy = new PasswordPolicy({ denylist: ['AegisX-Platform'] });
+
+    expect(codes(policy, 'aegisx-platform')).toContain(PasswordRuleCode.DENYLISTED);
+  });
+
+  it('should reject the email address and its local part', () => {
+    const policy = new PasswordPolicy();
+
+    expect(codes(policy, 'jane.doe@example.com', 'jane.doe@example.com')).toContain(
+      PasswordRuleCode.CONTAINS_EMAIL
+    );
+    expect(codes(policy, 'Jane.Doe-1999-x', 'jane.doe@example.com')).toContain(
+      PasswordRuleCode.CONTAINS_EMAIL
+    );
+    expect(codes(new PasswordPolicy({ disallowEmail: false }), 'jane.doe-1999-x', 'jane.doe@example.com'))
+      .toEqual([]);
+  });
+
+  it('should score repeated and sequential characters low', () => {
+    const policy = new PasswordPolicy();
+
+    expect(policy.score('')).toBe(0);
+    expect(policy.score('aaaaaaaaaaaa')).toBe(0);
+    expect(policy.score('abcdefghijkl')).toBe(0);
+    expect(policy.score('zqmvtrhpxk')).toBe(2);
+    expect(policy.score('Zq7!mV-tr9#hPx')).toBe(4);
+  });
+
+  it('should take defaults from AuthConfig.security', () => {
+    const config = {
+      security: { passwordMinLength: 10, passwordPolicy: { requireDigit: true } }
+    } as AuthConfig;
+    const policy = PasswordPolicy.fromAuthConfig(config);
+
+    expect(codes(policy, 'zqmvtrhp')).toEqual([
+      PasswordRuleCode.TOO_SHORT,
+      PasswordRuleCode.MISSING_DIGIT
+    ]);
+  });
+});
+
+describe('Totp', () => {
+  // RFC 6238 appendix B, SHA-1 seed "12345678901234567890"
+  const rfcSecret = Totp.base32Encode(Buffer.from('12345678901234567890'));
+
+  it('should match the RFC 6238 test vectors', () => {
+    const totp = new Totp({ digits: 8 });
+
+    expect(totp.generate(rfcSecret, totp.timeStep(59 * 1000))).toBe('94287082');
+    expect(totp.generate(rfcSecret, totp.timeStep(1111111109 * 1000))).toBe('07081804');
+    expect(totp.generate(rfcSecret, totp.timeStep(2000000000 * 1000))).toBe('69279037');
+  });
+
+  it('should round-trip base32 secrets', () => {
+    const secret = Totp.generateSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(Totp.base32Encode(Totp.base32Decode(secret))).toBe(secret);
+    expect(() => Totp.base32Decode('not base32!')).toThrow('TOTP_INVALID_SECRET');
+  });
+
+  it('should accept codes within the drift window and return their step', () => {
+    const totp = new Totp();
+    const secret = Totp.generateSecret();
+    const now = Date.now();
+    const step = totp.timeStep(now);
+
+    expect(totp.verify(secret, totp.generate(secret, step), now)).toBe(step);
+    expect(totp.verify(secret, totp.generate(secret, step - 1), now)).toBe(step - 1);
+    expect(totp.verify(secret, totp.generate(secret, step - 3), now)).toBeNull();
+    expect(totp.verify(secret, 'abcdef', now)).toBeNull();
+  });
+
+  it('should build otpauth URIs for authenticator apps', () => {
+    const uri = new Totp().keyUri({
+      secret: 'JBSWY3DPEHPK3PXP',
+      accountName: 'alice@example.com',
+      issuer: 'AegisX'
+    });
+
+    expect(uri).toBe(
+      'otpauth://totp/AegisX%3Aalice%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=AegisX&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+});
+
+describe('WebAuthn', () => {
+  const origin = 'https://app.example.com';
+  const webAuthn = new WebAuthn({ rpId: 'example.com', rpName: 'Example', origins: [origin] });
+
+  const register = (authenticator: SoftwareAuthenticator) => {
+    const challenge = WebAuthn.generateChallenge();
+    const options = webAuthn.registrationOptions({
+      challenge,
+      userId: 'user-1',
+      userName: 'alice@example.com'
+    });
+    return webAuthn.verifyRegistration(authenticator.createCredential(options), challenge);
+  };
+
+  it('should round-trip CBOR values', () => {
+    const value = new Map<number | string, unknown>([
+      [1, 2],
+      [-7, 'text'],
+      ['bytes', Buffer.from([1, 2, 3])],
+      ['list', [true, false, null, 300, 70000]]
+    ]);
+
+    expect(decodeCbor(encodeCbor(value as never)).value).toEqual(value);
+  });
+
+  it('should register a credential with none attestation', () => {
+    const registration = register(new SoftwareAuthenticator(origin));
+
+    expect(registration.credentialId).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(registration.counter).toBe(1);
+    expect(registration.userVerified).toBe(true);
+    expect(registration.aaguid).toBe('00000000-0000-0000-0000-000000000000');
+  });
+
+  it('should reject wrong challenges and origins', () => {
+    const challenge = WebAuthn.generateChallenge();
+    const options = webAuthn.registrationOptions({ challenge, userId: 'user-1', userName: 'alice' });
+
+    const response = new SoftwareAuthenticator(origin).createCredential(options);
+    expect(() => webAuthn.verifyRegistration(response, WebAuthn.generateChallenge())).toThrow(
+      'WEBAUTHN_CHALLENGE_MISMATCH'
+    );
+    expect(WebAuthn.challengeOf(response)).toBe(challenge);
+
+    const phished = new SoftwareAuthenticator('https://examp1e.com').createCredential(options);
+    expect(() => webAuthn.verifyRegistration(phished, challenge)).toThrow('WEBAUTHN_ORIGIN_MISMATCH');
+  });
+
+  it('should verify assertions and advance the counter', () => {
+    const authenticator = new SoftwareAuthenticator(origin);
+    const credential = register(authenticator);
+
+    const challenge = WebAuthn.generateChallenge();
+    const assertion = authenticator.getAssertion(webAuthn.authenticationOptions({ challenge }));
+    const result = webAuthn.verifyAuthentication(assertion, challenge, credential);
+
+    expect(result).toEqual({ credentialId: credential.credentialId, counter: 2, userVerified: true });
+  });
+
+  it('should reject signatures from another key', () => {
+    const credential = register(new SoftwareAuthenticator(origin));
+    const other = new SoftwareAuthenticator(origin);
+    const otherCredential = register(other);
+
+    const challenge = WebAuthn.generateChallenge();
+    const assertion = other.getAssertion(webAuthn.authenticationOptions({ challenge }));
+
+    expect(() =>
+      webAuthn.verifyAuthentication(assertion, challenge, {
+        ...credential,
+        credentialId: otherCredential.credentialId
+      })
+    ).toThrow('WEBAUTHN_INVALID_SIGNATURE');
+  });
+
+  it('should detect counters that do not increase', () => {
+    const authenticator = new SoftwareAuthenticator(origin);
+    const credential = register(authenticator);
+    const challenge = WebAuthn.generateChallenge();
+    const options = webAuthn.authenticationOptions({ challenge, allowCredentials: [credential] });
+
+    const older = authenticator.getAssertion(options);
+    const newer = authenticator.getAssertion(options);
+    const { counter } = webAuthn.verifyAuthentication(newer, challenge, credential);
+
+    expect(() =>
+      webAuthn.verifyAuthentication(older, challenge, { ...credential, counter })
+    ).toThrow('WEBAUTHN_COUNTER_REPLAY');
+  });
+
+  it('should require user verification when configured', () => {
+    const strict = new WebAuthn({
+      rpId: 'example.com',
+      rpName: 'Example',
+      origins: [origin],
+      userVerification: 'required'
+    });
+    const challenge = WebAuthn.generateChallenge();
+    const options = strict.registrationOptions({ challenge, userId: 'user-1', userName: 'alice' });
+    const response = new SoftwareAuthenticator(origin, { userVerified: false }).createCredential(options);
+
+    expect(() => strict.verifyRegistration(response, challenge)).toThrow('WEBAUTHN_USER_NOT_VERIFIED');
+  });
+});
+
+describe('OidcClient', () => {
+  const provider = new MockOidcProvider({ clientId: 'aegisx', clientSecret: 'provider-secret' });
+  let client: OidcClient;
+
+  beforeAll(async () => {
+    await provider.start();
+  });
+
+  afterAll(async () => {
+    await provider.stop();
+  });
+
+  beforeEach(() => {
+    client = new OidcClient({
+      issuer: provider.issuer,
+      clientId: 'aegisx',
+      clientSecret: 'provider-secret',
+      redirectUri: 'https://app.example.com/callback'
+    });
+  });
+
+  const user = { sub: 'idp-42', email: 'alice@example.com', emailVerified: true };
+
+  it('should build authorization URLs with state, nonce and PKCE', async () => {
+    const request = await client.createAuthorizationRequest();
+    const params = new URL(request.url).searchParams;
+
+    expect(request.url.startsWith(`${provider.issuer}/authorize?`)).toBe(true);
+    expect(params.get('scope')).toBe('openid email profile');
+    expect(params.get('state')).toBe(request.state);
+    expect(params.get('nonce')).toBe(request.nonce);
+    expect(params.get('code_challenge')).toBe(OidcClient.codeChallenge(request.codeVerifier));
+  });
+
+  it('should exchange the code and validate the ID token', async () => {
+    const request = await client.createAuthorizationRequest();
+    const { code } = provider.authorize(request.url, user);
+
+    const tokens = await client.exchangeCode(code, request.codeVerifier);
+    const claims = await client.verifyIdToken(tokens.id_token, request.nonce);
+
+    expect(claims).toMatchObject({ sub: 'idp-42', email: 'alice@example.com', email_verified: true });
+  });
+
+  it('should reject a wrong PKCE verifier', async () => {
+    const request = await client.createAuthorizationRequest();
+    const { code } = provider.authorize(request.url, user);
+
+    await expect(client.exchangeCode(code, 'wrong-verifier')).rejects.toThrow('OIDC_TOKEN_EXCHANGE_FAILED');
+  });
+
+  it('should reject ID tokens with a wrong nonce or audience', async () => {
+    await expect(
+      client.verifyIdToken(provider.signIdToken({ sub: 'idp-42', nonce: 'other' }), 'expected')
+    ).rejects.toThrow('OIDC_NONCE_MISMATCH');
+    await expect(
+      client.verifyIdToken(provider.signIdToken({ sub: 'idp-42', aud: 'someone-else', nonce: 'n' }), 'n')
+    ).rejects.toThrow('OIDC_INVALID_ID_TOKEN');
+  });
+
+  it('should reject ID tokens signed by another key', async () => {
+    const impostor = new MockOidcProvider({ clientId: 'aegisx' });
+    impostor.issuer = provider.issuer;
+
+    await expect(
+      client.verifyIdToken(impostor.signIdToken({ sub: 'idp-42', nonce: 'n' }), 'n')
+    ).rejects.toThrow('OIDC_INVALID_ID_TOKEN');
+  });
+
+  it('should fail discovery for an issuer mismatch', async () => {
+    const misconfigured = new OidcClient({
+      issuer: `${provider.issuer}/tenant`,
+      clientId: 'aegisx',
+      redirectUri: 'https://app.example.com/callback'
+    });
+
+    await expect(misconfigured.discover()).rejects.toThrow('OIDC_DISCOVERY_FAILED');
+  });
+});
+
+describe('authPlugin', () => {
+  let app: FastifyInstance;
+  let tokenService: TokenService;
+
+  beforeEach(async () => {
+    tokenService = new TokenService(
+      {
+        jwt: {
+          secret: JwtUtils.generateSecureSecret(),
+          accessTokenExpiry: '15m',
+          refreshTokenExpiry: '7d',
+          issuer: 'test-issuer',
+          algorithm: 'HS256',
+        },
+        security: {
+          maxLoginAttempts: 5,
+          lockoutDuration: 15,
+          passwordMinLength: 8,
+          requireEmailVerification: true,
+        },
+      },
+      { denylist: new TokenDenylist() }
+    );
+
+    app = Fastify({ logger: false });
+
+    await app.register(authPlugin, {
+      tokenService,
+      strategies: [
+        jwtStrategy(tokenService),
+        apiKeyStrategy(async (key) => {
+          if (key !== 'agx_valid') throw new Error('AUTH_INVALID_API_KEY');
+          return {
+            id: 'sa-1',
+            email: '',
+            apiKeyId: 'key-1',
+            scopes: ['reports:read'],
+            tenantId: 'tenant-a',
+          };
+        }),
+        sessionCookieStrategy(tokenService),
+      ],
+    });
+
+    // Stand-in for the core-database tenancy plugin: X-Tenant-ID names the tenant by slug
+    app.decorateRequest('tenant', null);
+    app.addHook('onRequest', async (request) => {
+      const slug = request.headers['x-tenant-id'];
+      if (typeof slug === 'string') {
+        Object.assign(request, { tenant: { id: `tenant-${slug}`, slug } });
+      }
+    });
+
+    const whoami = authenticated(async (request) => request.user);
+
+    app.get('/me', { preHandler: app.authenticate }, whoami);
+    app.post('/me', { preHandler: app.authenticate }, whoami);
+    app.get('/feed', { preHandler: app.optionalAuth }, async (request) => ({
+      user: isAuthenticated(request) ? request.user : null,
+    }));
+    app.get('/unguarded', whoami);
+    app.get(
+      '/partner',
+      { preHandler: app.authenticateWith({ tokenTypes: ['oauth_access'] }) },
+      whoami
+    );
+    app.get(
+      '/keys-only',
+      { preHandler: app.authenticateWith({ strategies: ['apiKey'] }) },
+      whoami
+    );
+
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should set request.user from a Bearer access token', async () => {
+    const { accessToken } = tokenService.generateTokenPair(
+      'user123',
+      'test@example.com',
+      'session-1'
+    );
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/me',
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      id: 'user123',
+      email: 'test@example.com',
+      sessionId: 'session-1',
+      strategy: 'jwt',
+      tokenType: 'access',
+    });
+  });
+
+  it('should expose the impersonating administrator as actorId', async () => {
+    const token = tokenService.generateImpersonationToken({
+      userId: 'user123',
+      email: 'test@example.com',
+      actor: { sub: 'admin1' },
+    });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/me',
+      headers: { authorization: `Bearer ${token}` },
+    });
+
+    expect(response.json()).toMatchObject({ id: 'user123', actorId: 'admin1' });
+  });
+
+  it('should return 401 envelope without credentials', async () => {
+    const response = await app.inject({ method: 'GET', url: '/me' });
+
+    expect(response.statusCode).toBe(401);
+    const payload = response.json();
+    expect(payload.error).toBe('UnauthorizedError');
+    expect(payload.message).toBe('Authentication required');
+    expect(payload).toHaveProperty('timestamp');
+    // Typed handlers refuse requests that skipped the preHandler
+    expect((await app.inject({ method: 'GET', url: '/unguarded' })).statusCode).toBe(401);
+  });
+
+  it('should reject revoked and invalid tokens', async () => {
+    const { accessToken } = tokenService.generateTokenPair('user123', 'test@example.com');
+    await tokenService.revokeToken(accessToken);
+
+    const revoked = await app.inject({
+      method: 'GET',
+      url: '/me',
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+    const invalid = await app.inject({
+      method: 'GET',
+      url: '/me',
+      headers: { authorization: 'Bearer not-a-jwt' },
+    });
+
+    expect(revoked.statusCode).toBe(401);
+    expect(revoked.json().message).toBe('Token has been revoked');
+    expect(invalid.statusCode).toBe(401);
+    expect(invalid.json().message).toBe('Invalid or expired token');
+  });
+
+  it('should let optional routes through without credentials but not with bad ones', async () => {
+    const anonymous = await app.inject({ method: 'GET', url: '/feed' });
+    const invalid = await app.inject({
+      method: 'GET',
+      url: '/feed',
+      headers: { authorization: 'Bearer not-a-jwt' },
+    });
+
+    expect(anonymous.statusCode).toBe(200);
+    expect(anonymous.json()).toEqual({ user: null });
+    expect(invalid.statusCode).toBe(401);
+  });
+
+  it('should only accept the token types a route selects', async () => {
+    const { accessToken } = tokenService.generateTokenPair('user123', 'test@example.com');
+    const oauthToken = tokenService.generateOAuthAccessToken({
+      subject: 'user123',
+      clientId: 'partner-app',
+      scope: 'profile users:read',
+      expiresIn: '5m',
+    });
+
+    const partner = await app.inject({
+      method: 'GET',
+      url: '/partner',
+      headers: { authorization: `Bearer ${oauthToken}` },
+    });
+    const firstParty = await app.inject({
+      method: 'GET',
+      url: '/partner',
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+    const oauthOnMe = await app.inject({
+      method: 'GET',
+      url: '/me',
+      headers: { authorization: `Bearer ${oauthToken}` },
+    });
+
+    expect(partner.statusCode).toBe(200);
+    expect(partner.json()).toMatchObject({ id: 'user123', clientId: 'partner-app', tokenType: 'oauth_access' });
+    // Only permission-form scopes cap what the client may do as the user
+    expect(partner.json().scopes).toEqual(['users:read']);
+    expect(firstParty.statusCode).toBe(401);
+    expect(oauthOnMe.statusCode).toBe(401);
+  });
+
+  it('should authenticate API keys and restrict routes to selected strategies', async () => {
+    const { accessToken } = tokenService.generateTokenPair('user123', 'test@example.com');
+
+    const withKey = await app.inject({
+      method: 'GET',
+      url: '/keys-only',
+      headers: { 'x-api-key': 'agx_valid' },
+    });
+    const badKey = await app.inject({
+      method: 'GET',
+      url: '/me',
+      headers: { 'x-api-key': 'agx_invalid' },
+    });
+    const bearerOnKeysOnly = await app.inject({
+      method: 'GET',
+      url: '/keys-only',
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+
+    expect(withKey.statusCode).toBe(200);
+    expect(withKey.json()).toMatchObject({ id: 'sa-1', strategy: 'apiKey', scopes: ['reports:read'] });
+    expect(badKey.statusCode).toBe(401);
+    expect(bearerOnKeysOnly.statusCode).toBe(401);
+  });
+
+  it('should read the access token from a session cookie', async () => {
+    const { accessToken } = tokenService.generateTokenPair('user123', 'test@example.com');
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/me',
+      headers: { cookie: `theme=dark; access_token=${accessToken}` },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ id: 'user123', strategy: 'sessionCookie' });
+  });
+
+  it('should require the CSRF header to match the cookie on state-changing cookie requests', async () => {
+    const { accessToken } = tokenService.generateTokenPair('user123', 'test@example.com');
+    const csrfToken = CookieUtils.generateCsrfToken();
+    const cookie = `access_token=${accessToken}; XSRF-TOKEN=${csrfToken}`;
+
+    const missing = await app.inject({ method: 'POST', url: '/me', headers: { cookie } });
+    const mismatched = await app.inject({
+      method: 'POST',
+      url: '/me',
+      headers: { cookie, 'x-xsrf-token': CookieUtils.generateCsrfToken() },
+    });
+    const matching = await app.inject({
+      method: 'POST',
+      url: '/me',
+      headers: { cookie, 'x-xsrf-token': csrfToken },
+    });
+    const bearer = await app.inject({
+      method: 'POST',
+      url: '/me',
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+
+    expect(missing.statusCode).toBe(403);
+    expect(missing.json()).toMatchObject({ error: 'ForbiddenError', message: 'Invalid CSRF token' });
+    expect(mismatched.statusCode).toBe(403);
+    expect(matching.statusCode).toBe(200);
+    expect(bearer.statusCode).toBe(200);
+  });
+
+  it('should ask for a refresh when the permission version has changed', async () => {
+    const server = Fastify({ logger: false });
+    server.get(
+      '/me',
+      { preHandler: createAuthenticate([jwtStrategy(tokenService, { permissionVersion: async () => 4 })]) },
+      async (request) => request.user
+    );
+    const request = (token: string) =>
+      server.inject({ method: 'GET', url: '/me', headers: { authorization: `Bearer ${token}` } });
+
+    const stale = await request(
+      tokenService.generateAccessToken('user123', 'test@example.com', undefined, { permissionVersion: 3 })
+    );
+    const current = await request(
+      tokenService.generateAccessToken('user123', 'test@example.com', undefined, { permissionVersion: 4 })
+    );
+    const unversioned = await request(tokenService.generateAccessToken('user123', 'test@example.com'));
+    await server.close();
+
+    expect(stale.statusCode).toBe(401);
+    expect(stale.json()).toMatchObject({
+      code: 'AUTH_PERMISSION_VERSION_MISMATCH',
+      message: 'Permissions have changed; refresh the token',
+    });
+    expect(current.statusCode).toBe(200);
+    expect(unversioned.statusCode).toBe(200);
+  });
+
+  it('should refuse users of other tenants whatever the credential', async () => {
+    const { accessToken } = tokenService.generateTokenPair('user123', 'test@example.com', undefined, {
+      tenantId: 'tenant-a',
+    });
+    const platform = tokenService.generateTokenPair('admin-1', 'admin@example.com');
+    const request = (headers: Record<string, string>, tenant: string) =>
+      app.inject({ method: 'GET', url: '/me', headers: { ...headers, 'x-tenant-id': tenant } });
+
+    const cookieOwn = await request({ cookie: `access_token=${accessToken}` }, 'a');
+    const cookieOther = await request({ cookie: `access_token=${accessToken}` }, 'b');
+    const keyOwn = await request({ 'x-api-key': 'agx_valid' }, 'a');
+    const keyOther = await request({ 'x-api-key': 'agx_valid' }, 'b');
+    const platformCookie = await request({ cookie: `access_token=${platform.accessToken}` }, 'a');
+
+    expect(cookieOwn.statusCode).toBe(200);
+    expect(cookieOwn.json()).toMatchObject({ id: 'user123', tenantId: 'tenant-a' });
+    expect(cookieOther.statusCode).toBe(403);
+    expect(cookieOther.json()).toMatchObject({
+      error: 'ForbiddenError',
+      message: 'Not a member of the requested tenant',
+    });
+    expect(keyOwn.statusCode).toBe(200);
+    expect(keyOther.statusCode).toBe(403);
+    expect(platformCookie.statusCode).toBe(403);
+  });
+
+  it('should reject unknown strategy names when building a preHandler', () => {
+    expect(() => app.authenticateWith({ strategies: ['saml'] })).toThrow(
+      'Unknown authentication strategy: saml'
+    );
+  });
+});
+
+describe('CookieUtils', () => {
+  it('should serialize cookie attributes', () => {
+    const cookie = CookieUtils.serialize('refresh_token', 'a b', {
+      maxAge: 60,
+      path: '/api/auth',
+      httpOnly: true,
+      secure: true,
+      sameSite: 'strict',
+    });
+
+    expect(cookie).toMatch(/^refresh_token=a%20b; Path=\/api\/auth; Max-Age=60; Expires=.+; HttpOnly; Secure; SameSite=Strict$/);
+  });
+
+  it('should read cookies from the Cookie header', () => {
+    const request = { headers: { cookie: 'a=1; access_token=abc%3D; b=2' } } as unknown as FastifyRequest;
+
+    expect(CookieUtils.read(request, 'access_token')).toBe('abc=');
+    expect(CookieUtils.read(request, 'missing')).toBeUndefined();
+  });
+
+  it('should only treat unsafe methods as state-changing', () => {
+    expect(CookieUtils.isStateChanging('GET')).toBe(false);
+    expect(CookieUtils.isStateChanging('options')).toBe(false);
+    expect(CookieUtils.isStateChanging('DELETE')).toBe(true);
+  });
+});
+
 describe('JwtUtils', () => {
   describe('generateSecureSecret', () => {
     it('should generate secret of correct length', () => {
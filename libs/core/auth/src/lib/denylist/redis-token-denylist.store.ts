@@ -0,0 +1,25 @@
+import { TokenDenylistStore } from './token-denylist';
+
+/**
+ * Subset of the Redis client API used by the denylist (ioredis compatible)
+ */
+export interface RedisDenylistClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'EX', ttlSeconds: number): Promise<unknown>;
+}
+
+/**
+ * Redis backed store, shared by every API instance.
+ * Entries expire through Redis TTLs.
+ */
+export class RedisTokenDenylistStore implements TokenDenylistStore {
+  constructor(private client: RedisDenylistClient) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.client.set(key, value, 'EX', ttlSeconds);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Key/value store backing the token denylist
+ */
+export interface TokenDenylistStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+}
+
+export interface TokenDenylistOptions {
+  keyPrefix?: string; // default: 'auth:denylist:'
+}
+
+/**
+ * In-memory store (single process, default)
+ */
+export class InMemoryTokenDenylistStore implements TokenDenylistStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.prune();
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Denylist of revoked access tokens.
+ *
+ * Single tokens are listed by jti until they expire. A user-wide cutoff
+ * revokes every token of the user issued before it; the cutoff is kept
+ * for as long as a token issued just before it could still be valid.
+ */
+export class TokenDenylist {
+  private readonly keyPrefix: string;
+
+  constructor(
+    private store: TokenDenylistStore = new InMemoryTokenDenylistStore(),
+    options: TokenDenylistOptions = {}
+  ) {
+    this.keyPrefix = options.keyPrefix ?? 'auth:denylist:';
+  }
+
+  /**
+   * Revoke a single token until it expires
+   */
+  async revoke(jti: string, expiresAt: Date): Promise<void> {
+    const ttlSeconds = Math.ceil((expiresAt.getTime() - Date.now()) / 1000);
+    if (ttlSeconds <= 0) return;
+
+    await this.store.set(this.jtiKey(jti), '1', ttlSeconds);
+  }
+
+  async isRevoked(jti: string): Promise<boolean> {
+    return (await this.store.get(this.jtiKey(jti))) !== null;
+  }
+
+  /**
+   * Revoke every token of a user issued before `before`
+   */
+  async revokeAllForUser(
+    userId: string,
+    tokenLifetimeSeconds: number,
+    before: Date = new Date()
+  ): Promise<void> {
+    const cutoff = Math.floor(before.getTime() / 1000);
+    const current = await this.getUserCutoff(userId);
+    if (current !== null && current >= cutoff) return;
+
+    const ttlSeconds = Math.max(
+      1,
+      cutoff + tokenLifetimeSeconds - Math.floor(Date.now() / 1000)
+    );
+    await this.store.set(this.userKey(userId), String(cutoff), ttlSeconds);
+  }
+
+  /**
+   * Whether a token issued at `issuedAt` (seconds) falls before the user's cutoff
+   */
+  async isRevokedForUser(userId: string, issuedAt: number): Promise<boolean> {
+    const cutoff = await this.getUserCutoff(userId);
+    return cutoff !== null && issuedAt < cutoff;
+  }
+
+  private async getUserCutoff(userId: string): Promise<number | null> {
+    const raw = await this.store.get(this.userKey(userId));
+    return raw === null ? null : parseInt(raw, 10);
+  }
+
+  private jtiKey(jti: string): string {
+    return `${this.keyPrefix}jti:${jti}`;
+  }
+
+  private userKey(userId: string): string {
+    return `${this.keyPrefix}user:${userId}`;
+  }
+}
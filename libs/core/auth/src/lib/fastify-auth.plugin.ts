@@ -0,0 +1,241 @@
+import fp from 'fastify-plugin';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { TokenService } from './services/token.service';
+import { JwtPayload } from './types/auth.types';
+import { jwtStrategy } from './strategies/auth-strategies';
+
+/**
+ * JWT types a route can accept as credentials
+ */
+export type AuthTokenType = 'access' | 'oauth_access';
+
+/**
+ * Authenticated principal set on request.user, whichever strategy
+ * recognised the request
+ */
+export interface AuthUser {
+  id: string;
+  email: string; // Empty for service accounts and client_credentials tokens
+  strategy: string; // Name of the strategy that authenticated the request
+  sessionId?: string; // jti of a first-party access token
+  tokenType?: AuthTokenType;
+  claims?: JwtPayload; // Verified token payload (JWT strategies)
+  clientId?: string; // OAuth client of an oauth_access token
+  apiKeyId?: string;
+  scopes?: string[]; // Permissions the credential is limited to (resource:action)
+  ownerId?: string; // Owner of a service account
+  actorId?: string; // Administrator impersonating the user (act claim)
+  tenantId?: string; // Tenant the user belongs to; none for platform users
+}
+
+/**
+ * Per-route authentication settings
+ */
+export interface AuthenticateOptions {
+  // Let requests without credentials through (invalid credentials still fail)
+  optional?: boolean;
+  // Strategy names to try, in order (default: every registered strategy)
+  strategies?: string[];
+  // JWT types to accept (default: ['access'])
+  tokenTypes?: AuthTokenType[];
+}
+
+/**
+ * A way to recognise credentials on a request
+ */
+export interface AuthStrategy {
+  name: string;
+  /**
+   * Resolve the user, or null when the request carries no credentials
+   * for this strategy. Throws when the credentials are invalid.
+   */
+  authenticate(
+    request: FastifyRequest,
+    options: AuthenticateOptions
+  ): Promise<Omit<AuthUser, 'strategy'> | null>;
+}
+
+export type AuthenticateHandler = (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => Promise<void>;
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    tokenService: TokenService;
+    authenticate: AuthenticateHandler;
+    optionalAuth: AuthenticateHandler;
+    authenticateWith: (options: AuthenticateOptions) => AuthenticateHandler;
+  }
+
+  interface FastifyRequest {
+    user: AuthUser | null;
+  }
+}
+
+/**
+ * Request after a successful authenticate preHandler
+ */
+export interface AuthenticatedRequest extends FastifyRequest {
+  user: AuthUser;
+}
+
+/**
+ * Narrow a request to AuthenticatedRequest once request.user is set
+ */
+export function isAuthenticated(request: FastifyRequest): request is AuthenticatedRequest {
+  return request.user !== null && request.user !== undefined;
+}
+
+/**
+ * Route handler typed with AuthenticatedRequest, for routes behind an
+ * authenticate preHandler. Answers 401 should request.user be missing anyway.
+ */
+export function authenticated<T>(
+  handler: (request: AuthenticatedRequest, reply: FastifyReply) => Promise<T>
+): (request: FastifyRequest, reply: FastifyReply) => Promise<T | FastifyReply> {
+  return async (request, reply) => {
+    if (!isAuthenticated(request)) {
+      return reply.code(401).send(failure(401, 'Authentication required'));
+    }
+    return handler(request, reply);
+  };
+}
+
+export interface FastifyAuthPluginOptions {
+  // Verifies JWTs; exposed as fastify.tokenService
+  tokenService: TokenService;
+
+  // Strategies tried in order (default: JWT bearer only)
+  strategies?: AuthStrategy[];
+}
+
+// Sent with their code; clients refresh the token on the expired and permission version ones
+const TOKEN_ERROR_MESSAGES: Record<string, string> = {
+  AUTH_TOKEN_EXPIRED: 'Token has expired',
+  AUTH_TOKEN_REVOKED: 'Token has been revoked',
+  AUTH_PERMISSION_VERSION_MISMATCH: 'Permissions have changed; refresh the token',
+};
+
+/**
+ * Tenant resolved for the request by the core-database tenancy plugin
+ */
+interface RequestTenant {
+  id: string;
+  slug: string;
+}
+
+/**
+ * Build a preHandler that sets request.user from the first strategy that
+ * recognises the request, or answers 401 (403 for a failed CSRF check, or
+ * when the user does not belong to the tenant the request names)
+ */
+export function createAuthenticate(
+  strategies: AuthStrategy[],
+  options: AuthenticateOptions = {}
+): AuthenticateHandler {
+  // Fail fast on typos at route registration time
+  const selected = options.strategies
+    ? options.strategies.map((name) => {
+        const strategy = strategies.find((s) => s.name === name);
+        if (!strategy) {
+          throw new Error(`Unknown authentication strategy: ${name}`);
+        }
+        return strategy;
+      })
+    : strategies;
+
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      for (const strategy of selected) {
+        const user = await strategy.authenticate(request, options);
+        if (user) {
+          if (!belongsToTenant(request, user)) {
+            return reply.code(403).send(failure(403, 'Not a member of the requested tenant'));
+          }
+          request.user = { ...user, strategy: strategy.name };
+          return;
+        }
+      }
+    } catch (error) {
+      if ((error as Error).message === 'AUTH_CSRF_TOKEN_INVALID') {
+        return reply.code(403).send(failure(403, 'Invalid CSRF token'));
+      }
+      const { message, code } = describeError(request, error);
+      return reply.code(401).send(failure(401, message, code));
+    }
+
+    if (!options.optional) {
+      return reply.code(401).send(failure(401, 'Authentication required'));
+    }
+  };
+}
+
+/**
+ * The tenant header and subdomain are client-chosen, so once the user is
+ * known they must name the user's own tenant, whatever the credential
+ */
+function belongsToTenant(
+  request: FastifyRequest,
+  user: Omit<AuthUser, 'strategy'>
+): boolean {
+  const tenant = (request as { tenant?: RequestTenant | null }).tenant;
+  if (!tenant) return true;
+
+  return user.tenantId === tenant.id || user.tenantId === tenant.slug;
+}
+
+function describeError(
+  request: FastifyRequest,
+  error: unknown
+): { message: string; code?: string } {
+  const { message, statusCode } = error as { message?: string; statusCode?: number };
+
+  if (statusCode === 401 && message) {
+    return { message }; // Already meant for the client
+  }
+  if (message && TOKEN_ERROR_MESSAGES[message]) {
+    return { message: TOKEN_ERROR_MESSAGES[message], code: message };
+  }
+  if (message?.startsWith('AUTH_')) {
+    return { message: 'Invalid or expired token' };
+  }
+
+  request.log.error({ err: error }, 'Authentication strategy failed');
+  return { message: 'Authentication failed' };
+}
+
+function failure(statusCode: 401 | 403, message: string, code?: string) {
+  return {
+    error: statusCode === 401 ? 'UnauthorizedError' : 'ForbiddenError',
+    message,
+    statusCode,
+    ...(code ? { code } : {}),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+async function authPlugin(
+  fastify: FastifyInstance,
+  options: FastifyAuthPluginOptions
+) {
+  if (!options.tokenService) {
+    throw new Error('Auth plugin requires the tokenService option.');
+  }
+
+  const strategies = options.strategies ?? [jwtStrategy(options.tokenService)];
+
+  fastify.decorate('tokenService', options.tokenService);
+  fastify.decorateRequest('user', null);
+  fastify.decorate('authenticate', createAuthenticate(strategies));
+  fastify.decorate('optionalAuth', createAuthenticate(strategies, { optional: true }));
+  fastify.decorate('authenticateWith', (routeOptions: AuthenticateOptions) =>
+    createAuthenticate(strategies, routeOptions)
+  );
+}
+
+// Export as Fastify plugin
+export default fp(authPlugin, {
+  name: 'aegisx-auth',
+  fastify: '5.x',
+});
@@ -0,0 +1,172 @@
+import * as jwt from 'jsonwebtoken';
+import { generateKeyPairSync, KeyObject, randomBytes } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { OidcClient } from './oidc-client';
+
+/**
+ * User signed in at the mock provider
+ */
+export interface MockOidcUser {
+  sub: string;
+  email?: string;
+  emailVerified?: boolean;
+  givenName?: string;
+  familyName?: string;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  user: MockOidcUser;
+}
+
+/**
+ * Local OpenID Connect provider for tests and development.
+ * Serves discovery, JWKS and the token endpoint over HTTP; the user's
+ * login at the authorization endpoint is simulated with authorize().
+ */
+export class MockOidcProvider {
+  private server?: Server;
+  private readonly codes = new Map<string, PendingCode>();
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+  private readonly kid = randomBytes(8).toString('hex');
+  issuer = '';
+
+  constructor(private client: { clientId: string; clientSecret?: string }) {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+  }
+
+  /**
+   * Listen on a random local port; returns the issuer URL
+   */
+  async start(): Promise<string> {
+    this.server = createServer((request, response) => {
+      this.handle(request, response).catch(() => this.send(response, 500, { error: 'server_error' }));
+    });
+    await new Promise<void>((resolve) => this.server?.listen(0, '127.0.0.1', resolve));
+
+    const { port } = this.server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+    return this.issuer;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      this.server ? this.server.close((error) => (error ? reject(error) : resolve())) : resolve()
+    );
+    this.server = undefined;
+  }
+
+  /**
+   * Simulate the user signing in at an authorization URL.
+   * Returns the code and state the provider redirects back with.
+   */
+  authorize(authorizationUrl: string, user: MockOidcUser): { code: string; state: string } {
+    const params = new URL(authorizationUrl).searchParams;
+    if (params.get('client_id') !== this.client.clientId || params.get('code_challenge_method') !== 'S256') {
+      throw new Error('Invalid authorization request');
+    }
+
+    const code = randomBytes(16).toString('hex');
+    this.codes.set(code, {
+      clientId: this.client.clientId,
+      redirectUri: params.get('redirect_uri') ?? '',
+      codeChallenge: params.get('code_challenge') ?? '',
+      nonce: params.get('nonce') ?? undefined,
+      user
+    });
+
+    return { code, state: params.get('state') ?? '' };
+  }
+
+  /**
+   * Sign arbitrary ID token claims with the provider key (negative tests)
+   */
+  signIdToken(claims: Record<string, unknown>): string {
+    return jwt.sign(
+      { iss: this.issuer, aud: this.client.clientId, ...claims },
+      this.privateKey,
+      { algorithm: 'RS256', keyid: this.kid, expiresIn: '5m' }
+    );
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const path = new URL(request.url ?? '/', this.issuer).pathname;
+
+    if (request.method === 'GET' && path === '/.well-known/openid-configuration') {
+      return this.send(response, 200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256']
+      });
+    }
+
+    if (request.method === 'GET' && path === '/jwks') {
+      const jwk = this.publicKey.export({ format: 'jwk' });
+      return this.send(response, 200, { keys: [{ ...jwk, kid: this.kid, use: 'sig', alg: 'RS256' }] });
+    }
+
+    if (request.method === 'POST' && path === '/token') {
+      return this.token(new URLSearchParams(await this.readBody(request)), response);
+    }
+
+    this.send(response, 404, { error: 'not_found' });
+  }
+
+  private token(params: URLSearchParams, response: ServerResponse): void {
+    const code = params.get('code') ?? '';
+    const pending = this.codes.get(code);
+    this.codes.delete(code);
+
+    const invalid =
+      !pending ||
+      params.get('grant_type') !== 'authorization_code' ||
+      params.get('client_id') !== pending.clientId ||
+      params.get('redirect_uri') !== pending.redirectUri ||
+      (this.client.clientSecret !== undefined && params.get('client_secret') !== this.client.clientSecret) ||
+      OidcClient.codeChallenge(params.get('code_verifier') ?? '') !== pending.codeChallenge;
+    if (!pending || invalid) {
+      return this.send(response, 400, { error: 'invalid_grant' });
+    }
+
+    const { user } = pending;
+    this.send(response, 200, {
+      access_token: randomBytes(16).toString('hex'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: this.signIdToken({
+        sub: user.sub,
+        nonce: pending.nonce,
+        email: user.email,
+        email_verified: user.emailVerified,
+        given_name: user.givenName,
+        family_name: user.familyName
+      })
+    });
+  }
+
+  private readBody(request: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => resolve(body));
+      request.on('error', reject);
+    });
+  }
+
+  private send(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'content-type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
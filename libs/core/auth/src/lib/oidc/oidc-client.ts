@@ -0,0 +1,259 @@
+import * as jwt from 'jsonwebtoken';
+import { createHash, createPublicKey, JsonWebKey, KeyObject, randomBytes } from 'crypto';
+
+/**
+ * External OpenID Connect provider (authorization code + PKCE)
+ */
+export interface OidcProviderConfig {
+  issuer: string; // Discovery runs against {issuer}/.well-known/openid-configuration
+  clientId: string;
+  clientSecret?: string; // Omit for public clients
+  redirectUri: string;
+  scopes?: string[]; // default: ['openid', 'email', 'profile']
+}
+
+/**
+ * Subset of the discovery document used by the client
+ */
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  id_token_signing_alg_values_supported?: string[];
+}
+
+/**
+ * Token endpoint response
+ */
+export interface OidcTokenResponse {
+  access_token: string;
+  id_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+}
+
+/**
+ * Validated ID token claims
+ */
+export interface OidcIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+}
+
+/**
+ * Values to keep until the callback (state, nonce and PKCE verifier)
+ */
+export interface OidcAuthorizationRequest {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/**
+ * The part of fetch the client uses (injectable for tests and proxies)
+ */
+export type OidcFetch = (
+  url: string,
+  init?: { method?: string; headers?: Record<string, string>; body?: string }
+) => Promise<{ ok: boolean; json(): Promise<unknown> }>;
+
+export interface OidcClientOptions {
+  fetch?: OidcFetch; // default: global fetch (Node 18+)
+}
+
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512'];
+
+/**
+ * OpenID Connect relying party for one provider.
+ * Discovery documents and signing keys are cached; an unknown `kid`
+ * refreshes the keys once (provider key rotation).
+ */
+export class OidcClient {
+  private readonly fetch: OidcFetch;
+  private discovery?: Promise<OidcDiscoveryDocument>;
+  private keys?: Map<string, KeyObject>;
+
+  constructor(readonly config: OidcProviderConfig, options: OidcClientOptions = {}) {
+    this.fetch = options.fetch ?? (globalThis as unknown as { fetch: OidcFetch }).fetch;
+  }
+
+  /**
+   * PKCE S256 challenge of a code verifier
+   */
+  static codeChallenge(codeVerifier: string): string {
+    return createHash('sha256').update(codeVerifier).digest('base64url');
+  }
+
+  /**
+   * Fetch (once) and check the discovery document
+   */
+  async discover(): Promise<OidcDiscoveryDocument> {
+    if (!this.discovery) {
+      this.discovery = this.loadDiscovery().catch((error) => {
+        this.discovery = undefined;
+        throw error;
+      });
+    }
+    return this.discovery;
+  }
+
+  /**
+   * Authorization URL with fresh state, nonce and PKCE verifier
+   */
+  async createAuthorizationRequest(): Promise<OidcAuthorizationRequest> {
+    const { authorization_endpoint } = await this.discover();
+    const state = randomBytes(32).toString('base64url');
+    const nonce = randomBytes(32).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+
+    const url = new URL(authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', this.config.redirectUri);
+    url.searchParams.set('scope', (this.config.scopes ?? ['openid', 'email', 'profile']).join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', OidcClient.codeChallenge(codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return { url: url.toString(), state, nonce, codeVerifier };
+  }
+
+  /**
+   * Exchange an authorization code at the token endpoint
+   */
+  async exchangeCode(code: string, codeVerifier: string): Promise<OidcTokenResponse> {
+    const { token_endpoint } = await this.discover();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: codeVerifier
+    });
+    if (this.config.clientSecret) {
+      body.set('client_secret', this.config.clientSecret);
+    }
+
+    const response = await this.fetch(token_endpoint, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/x-www-form-urlencoded',
+        accept: 'application/json'
+      },
+      body: body.toString()
+    });
+    if (!response.ok) {
+      throw new Error('OIDC_TOKEN_EXCHANGE_FAILED');
+    }
+
+    const tokens = (await response.json()) as OidcTokenResponse;
+    if (!tokens.id_token) {
+      throw new Error('OIDC_TOKEN_EXCHANGE_FAILED');
+    }
+    return tokens;
+  }
+
+  /**
+   * Validate signature, issuer, audience, expiry and nonce of an ID token
+   */
+  async verifyIdToken(idToken: string, nonce: string): Promise<OidcIdTokenClaims> {
+    const { issuer } = await this.discover();
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('OIDC_INVALID_ID_TOKEN');
+    }
+
+    const key = await this.getSigningKey(decoded.header.kid);
+
+    let claims: OidcIdTokenClaims;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer,
+        audience: this.config.clientId
+      }) as OidcIdTokenClaims;
+    } catch {
+      throw new Error('OIDC_INVALID_ID_TOKEN');
+    }
+
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== this.config.clientId) {
+      throw new Error('OIDC_INVALID_ID_TOKEN');
+    }
+    if (claims.nonce !== nonce) {
+      throw new Error('OIDC_NONCE_MISMATCH');
+    }
+
+    return claims;
+  }
+
+  private async loadDiscovery(): Promise<OidcDiscoveryDocument> {
+    const issuer = this.config.issuer.replace(/\/$/, '');
+    const response = await this.fetch(`${issuer}/.well-known/openid-configuration`, {
+      headers: { accept: 'application/json' }
+    });
+    if (!response.ok) {
+      throw new Error('OIDC_DISCOVERY_FAILED');
+    }
+
+    const document = (await response.json()) as OidcDiscoveryDocument;
+    if (
+      document.issuer?.replace(/\/$/, '') !== issuer ||
+      !document.authorization_endpoint ||
+      !document.token_endpoint ||
+      !document.jwks_uri
+    ) {
+      throw new Error('OIDC_DISCOVERY_FAILED');
+    }
+    return document;
+  }
+
+  private async getSigningKey(kid?: string): Promise<KeyObject> {
+    const find = () => {
+      if (!this.keys) return undefined;
+      if (kid) return this.keys.get(kid);
+      return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+    };
+
+    let key = find();
+    if (!key) {
+      this.keys = await this.loadKeys();
+      key = find();
+    }
+    if (!key) {
+      throw new Error('OIDC_INVALID_ID_TOKEN');
+    }
+    return key;
+  }
+
+  private async loadKeys(): Promise<Map<string, KeyObject>> {
+    const { jwks_uri } = await this.discover();
+    const response = await this.fetch(jwks_uri, { headers: { accept: 'application/json' } });
+    if (!response.ok) {
+      throw new Error('OIDC_DISCOVERY_FAILED');
+    }
+
+    const { keys = [] } = (await response.json()) as { keys?: Array<JsonWebKey & { kid?: string; use?: string }> };
+    const result = new Map<string, KeyObject>();
+    keys
+      .filter((jwk) => !jwk.use || jwk.use === 'sig')
+      .forEach((jwk, index) => {
+        result.set(jwk.kid ?? `key-${index}`, createPublicKey({ key: jwk, format: 'jwk' }));
+      });
+    return result;
+  }
+}
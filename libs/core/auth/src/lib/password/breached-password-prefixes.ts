@@ -0,0 +1,55 @@
+/**
+ * Bundled breached password list: the first 10 hex characters of the
+ * SHA-1 hash of passwords that appear most often in public breach dumps.
+ * Only hash prefixes are shipped, never the passwords themselves.
+ */
+export const BREACHED_PASSWORD_PREFIXES: readonly string[] = [
+  '7C4A8D09CA', '5BAA61E4C9', '7C222FB292', 'B1B3773A05', 'F7C3BC1D80', '8CB2237D06',
+  '7110EDA4D0', '3D4F2BF07D', '20EABE5D64', 'AF8978B179', '601F188966', 'A2C901C8C6',
+  '6367C48DD1', '2D27B62C59', 'AB87D24BDC', 'B7A875FC1E', 'CEDF41FCCB', 'ED9D3D832A',
+  '4F26AEAFDB', '1411678A0B', 'B0399D2029', '4D9012B4A7', '40123E9C62', '01B307ACBA',
+  '17B9E1C645', 'DD5FEF9C1C', '18C28604DD', 'C6922B6BA9', '74A871ACBF', '48058E0C99',
+  'C984AED014', 'CB45C671CB', '05FE7461C6', '5903347818', 'E68E11BE8B', '1CB5BD5A9E',
+  'E3CD9F6469', '93EC71B227', '7AB515D12B', '6E2F9E6111', '1999E4893F', '5C17FA03E6',
+  'F32157A458', '5C6D9EDC3A', '02E0A999C5', '6C616F7C2D', '8D6E34F987', 'EE8D8728F4',
+  'A4AC914C09', 'D8CD10B920', '12E9293EC6', '5F50A84C1F', 'F2847B1BD9', 'E8126C64C3',
+  '3D0F3B9DDC', '327156AB28', 'A6F375A196', '3ACD0BE86D', '9FD8DE5FC2', 'C60266A8AD',
+  '7212A9E013', '99996B9115', '64356BCFAE', '011C945F30', 'E0C95748A4', 'B7C40B9C66',
+  'A642A77ABD', 'F4EE741506', '7ECFD8F97B', 'FBA9F1C9AE', '9D4E1E23BD', '019DB0BFD5',
+  '3FCFC1F7F3', 'F7A9E24777', '92119E2C63', '775BB961B8', 'D6955D9721', 'BCEF7A0462',
+  '2394EEAC9F', '6420ED4D83', '9F2FEB0F1E', '782F9B1062', '5FEE002399', 'AC137C6AE0',
+  '8C25808565', 'F80D0CA101', '0F12541AFC', 'DD08B58E1D', 'BFE54CAA6D', '23F2916E01',
+  '7EA35D8127', 'BADCFA3C62', '5D74AE093A', 'BF2F749E80', 'C824FE0AFE', 'A36E1F2D2C',
+  'AAF4C61DDC', '54669547A2', 'D53652DE63', 'E5E9FA1BA3', '7073D0FAB1', 'F872CAAD17',
+  '19485E369C', 'BCD5917B85', '7CC918F959', 'F8248E1272', '273A0C7BD3', '05B530AD0F',
+  '6E1A438CFE', '0CE7911E64', 'A94A8FE5CC', 'B1F45ED147', '5D70C3D101', 'CBB7353E6D',
+  '4D0FB475B2', '26F3CD230E', 'EF0EBBB772', '7B21848AC9', 'A77591BE20', '59C826FC85',
+  '320BCA71FC', 'EC5A7C3E21', 'EC461B5480', '22942B7C5C', 'F732DFDBD0', 'D869DB7FE6',
+  '1AA25EAD38', 'CEF7E59218', '75A0A1C981', '0963992090', '5C995BBB81', '41880EE343',
+  'F0D61723FD', 'B14AB48002', '519BC3F0FD', 'C0B137FE2D', 'C590AFA9BB', '2485101364',
+  '5BC1824930', '006839D264', 'FDB87DFD19', '5479F2FA49', '2539D3DF1F', '4614765877',
+  'F11EA65808', '976272B40F', '1C90591709', 'D0A65436A8', 'DE4AB6E26D', '947C844D90',
+  '3559EFC37C', '640FB06193', 'C31405B16F', '0E818BFA06', '263D00820F', '96DE5543D1',
+  '018F4D7F06', '88EA39439E', '8A6B3C5E6B', '79B333C96E', '449938CD38', 'DDF45997A7',
+  'DB25F2FC14', '269A03F47F', 'AFAED75406', 'A0847543CD', '250E77F12A', '9009337CF1',
+  '675DC611BA', 'B2EE60370A', '9EC4236A09', '7F2BE99D71', 'D7966074B3', 'C95259DE1F',
+  'A0C849D62D', 'DEA742E166', '1645EE78DE', '9C881BDB6B', '1F5523A8F5', 'C2577430D9',
+  '44213F9F4D', 'BA5D8027D4', '39DFA55283', 'ABCCF54B83', '6092A03235', '1FC854110E',
+  'EF971EE38B', '62A56A64C1', '5C9688A59F', '5116E40694', 'E07F8C4AB6', '9DC7226A87',
+  '55B5A0F748', '77BCE9FB18', 'C539153BA1', 'B363C6EF45', '889C6853A1', '7AFAA0A74C',
+  '8F2174C83B', 'EFEBDFC78E', '1EE7760A31', '62B487BC84', 'CAE355B615', '9653AF05F2',
+  '1FFF8C7BE7', '5A4F26B21E', 'F0744D60DD', '420FCC6348', 'CBDB0CC7F3', 'C8A50F632C',
+  '5A46B8253D', '6D0EBBBDCE', 'AF2C41EB4E', '1B2D43E95F', 'A08670FF00', '3674951EC2',
+  'D81B69B344', '711C73F64A', '4068F0880B', '85F940C72D', '1E41C98163', 'D714D84569',
+  '473C2D0D09', '48EFC4851E', '5BFD08BDAC', '1EF41AF417', 'A47B5CC8F0', '988506D376',
+  '1FD1B45164', 'F15E518A23', 'EAB0F0D675', 'FFAAAFBDEE', 'EF7830DB5B', '474BA67BDB',
+  '9D61BA8406', '104E03314A', '1F82C942BE', '8BE9377EB2', 'C3F63EE769', '92429D82A4',
+  '0880806510', 'A7D579BA76', 'D6CFE5E76C', 'EC30ADC79E', '814FF90C56', '7CE0359F12',
+  'E38AD21494', 'CBFDAC6008', '7C6A61C68E', '5CEC175B16', 'D033E22AE3', 'F865B53623',
+  'E35BECE6C5', '043A558250', 'FC84AAA687', 'FA9BEB99E4', '9AC20922B0', '4BE30D9814',
+  'D04C1675B2', '23869B733F', 'FAC673092F', 'E6852777C0', '08B314F0E1', '475A74E3C0',
+  '313AFA5189', '03FDF1323C', '2F2BB917A7', 'CDF547ED4C', 'C53255317B', '2891BACEEE',
+  'D5A1BDF9CE', '9CF95DACD2', '0F58D5A551', '267C2F5C46', '89E89C17F8', '929D3BA22D',
+  '57B2AD9904', '36E618512A', 'EBFC791007', '70CCD90073', 'B2E98AD6F6', 'D318F44739',
+  'CC9F816A42'
+];
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { BREACHED_PASSWORD_PREFIXES } from './breached-password-prefixes';
+
+/**
+ * Offline breached password lookup by SHA-1 hash prefix.
+ * Prefixes are compared case-insensitively; longer prefixes mean fewer
+ * false positives (10 hex characters are plenty for short lists).
+ */
+export class BreachedPasswordList {
+  private readonly prefixes: Set<string>;
+  private readonly prefixLength: number;
+
+  constructor(prefixes: readonly string[] = BREACHED_PASSWORD_PREFIXES) {
+    this.prefixes = new Set(prefixes.map((prefix) => prefix.toUpperCase()));
+
+    const lengths = new Set(prefixes.map((prefix) => prefix.length));
+    if (lengths.size > 1) {
+      throw new Error('Breached password prefixes must all have the same length');
+    }
+    this.prefixLength = lengths.values().next().value ?? 10;
+  }
+
+  /**
+   * Whether the password's hash prefix is on the list
+   */
+  has(password: string): boolean {
+    const hash = createHash('sha1').update(password).digest('hex').toUpperCase();
+    return this.prefixes.has(hash.slice(0, this.prefixLength));
+  }
+
+  get size(): number {
+    return this.prefixes.size;
+  }
+}
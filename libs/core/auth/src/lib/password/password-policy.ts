@@ -0,0 +1,168 @@
+import { AuthConfig, PasswordPolicyConfig, PasswordScore } from '../types/auth.types';
+import { BreachedPasswordList } from './breached-passwords';
+
+/**
+ * Error code of each password rule
+ */
+export enum PasswordRuleCode {
+  TOO_SHORT = 'PASSWORD_TOO_SHORT',
+  TOO_LONG = 'PASSWORD_TOO_LONG',
+  MISSING_LOWERCASE = 'PASSWORD_MISSING_LOWERCASE',
+  MISSING_UPPERCASE = 'PASSWORD_MISSING_UPPERCASE',
+  MISSING_DIGIT = 'PASSWORD_MISSING_DIGIT',
+  MISSING_SYMBOL = 'PASSWORD_MISSING_SYMBOL',
+  DENYLISTED = 'PASSWORD_DENYLISTED',
+  CONTAINS_EMAIL = 'PASSWORD_CONTAINS_EMAIL',
+  BREACHED = 'PASSWORD_BREACHED',
+  TOO_WEAK = 'PASSWORD_TOO_WEAK',
+  REUSED = 'PASSWORD_REUSED', // For callers that keep a password history
+}
+
+/**
+ * A broken password rule
+ */
+export interface PasswordViolation {
+  code: PasswordRuleCode;
+  message: string;
+}
+
+/**
+ * Result of checking a password against the policy
+ */
+export interface PasswordEvaluation {
+  valid: boolean;
+  score: PasswordScore;
+  violations: PasswordViolation[];
+}
+
+/**
+ * Information about the account the password is for
+ */
+export interface PasswordContext {
+  email?: string;
+}
+
+/**
+ * Password policy engine: composition rules, denylist, breached password
+ * check and an entropy based strength score.
+ */
+export class PasswordPolicy {
+  private readonly config: Required<PasswordPolicyConfig>;
+  private readonly denylist: Set<string>;
+
+  constructor(
+    config: PasswordPolicyConfig = {},
+    private breachedList: BreachedPasswordList = new BreachedPasswordList()
+  ) {
+    this.config = {
+      minLength: config.minLength ?? 8,
+      maxLength: config.maxLength ?? 128,
+      requireLowercase: config.requireLowercase ?? false,
+      requireUppercase: config.requireUppercase ?? false,
+      requireDigit: config.requireDigit ?? false,
+      requireSymbol: config.requireSymbol ?? false,
+      minScore: config.minScore ?? 2,
+      denylist: config.denylist ?? [],
+      disallowEmail: config.disallowEmail ?? true,
+      checkBreached: config.checkBreached ?? true
+    };
+    this.denylist = new Set(this.config.denylist.map((word) => word.toLowerCase()));
+  }
+
+  /**
+   * Policy from AuthConfig.security (passwordPolicy, falling back to passwordMinLength)
+   */
+  static fromAuthConfig(config: AuthConfig, breachedList?: BreachedPasswordList): PasswordPolicy {
+    const { passwordMinLength, passwordPolicy } = config.security;
+    return new PasswordPolicy(
+      { minLength: passwordMinLength, ...passwordPolicy },
+      breachedList
+    );
+  }
+
+  /**
+   * Check a password against every rule
+   */
+  evaluate(password: string, context: PasswordContext = {}): PasswordEvaluation {
+    const { config } = this;
+    const violations: PasswordViolation[] = [];
+    const fail = (code: PasswordRuleCode, message: string) => violations.push({ code, message });
+
+    if (password.length < config.minLength) {
+      fail(PasswordRuleCode.TOO_SHORT, `Password must be at least ${config.minLength} characters long`);
+    }
+    if (password.length > config.maxLength) {
+      fail(PasswordRuleCode.TOO_LONG, `Password must be at most ${config.maxLength} characters long`);
+    }
+    if (config.requireLowercase && !/[a-z]/.test(password)) {
+      fail(PasswordRuleCode.MISSING_LOWERCASE, 'Password must contain a lowercase letter');
+    }
+    if (config.requireUppercase && !/[A-Z]/.test(password)) {
+      fail(PasswordRuleCode.MISSING_UPPERCASE, 'Password must contain an uppercase letter');
+    }
+    if (config.requireDigit && !/[0-9]/.test(password)) {
+      fail(PasswordRuleCode.MISSING_DIGIT, 'Password must contain a digit');
+    }
+    if (config.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+      fail(PasswordRuleCode.MISSING_SYMBOL, 'Password must contain a symbol');
+    }
+
+    const denylisted = this.denylist.has(password.toLowerCase());
+    if (denylisted) {
+      fail(PasswordRuleCode.DENYLISTED, 'Password is not allowed');
+    }
+
+    const containsEmail = config.disallowEmail && !!context.email && this.matchesEmail(password, context.email);
+    if (containsEmail) {
+      fail(PasswordRuleCode.CONTAINS_EMAIL, 'Password must not match your email address');
+    }
+
+    const breached = config.checkBreached && this.breachedList.has(password);
+    if (breached) {
+      fail(PasswordRuleCode.BREACHED, 'Password has appeared in a data breach');
+    }
+
+    const score = denylisted || containsEmail || breached ? 0 : this.score(password);
+    if (score < config.minScore) {
+      fail(PasswordRuleCode.TOO_WEAK, 'Password is too weak');
+    }
+
+    return { valid: violations.length === 0, score, violations };
+  }
+
+  /**
+   * Strength score from estimated entropy. Repeated and sequential
+   * characters (aaaa, abcd, 4321) count for a quarter.
+   */
+  score(password: string): PasswordScore {
+    if (!password) return 0;
+
+    let charsetSize = 0;
+    if (/[a-z]/.test(password)) charsetSize += 26;
+    if (/[A-Z]/.test(password)) charsetSize += 26;
+    if (/[0-9]/.test(password)) charsetSize += 10;
+    if (/[ -/:-@[-`{-~]/.test(password)) charsetSize += 33;
+    if (/[^\x20-\x7e]/.test(password)) charsetSize += 100;
+
+    let effectiveLength = 1;
+    for (let i = 1; i < password.length; i++) {
+      const step = password.charCodeAt(i) - password.charCodeAt(i - 1);
+      effectiveLength += Math.abs(step) <= 1 ? 0.25 : 1;
+    }
+
+    const bits = effectiveLength * Math.log2(Math.max(charsetSize, 2));
+    if (bits < 28) return 0;
+    if (bits < 36) return 1;
+    if (bits < 60) return 2;
+    if (bits < 80) return 3;
+    return 4;
+  }
+
+  private matchesEmail(password: string, email: string): boolean {
+    const value = password.toLowerCase();
+    const address = email.toLowerCase();
+    const localPart = address.split('@')[0];
+
+    return value === address || (localPart.length >= 3 && value.includes(localPart));
+  }
+}
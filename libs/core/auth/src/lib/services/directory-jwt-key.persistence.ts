@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { JwtSigningKey } from '../types/auth.types';
+import { JwtKeyPersistence } from './key-store.service';
+
+type KeyFile = Omit<JwtSigningKey, 'createdAt' | 'retiredAt'> & {
+  createdAt?: string;
+  retiredAt?: string;
+};
+
+/**
+ * Keys as `<kid>.json` files in a directory. Instances that mount the
+ * same directory sign and publish the same keys. Files hold private keys
+ * and are only readable by the owner.
+ */
+export class DirectoryJwtKeyPersistence implements JwtKeyPersistence {
+  constructor(private directory: string) {}
+
+  async load(): Promise<JwtSigningKey[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const keys: JwtSigningKey[] = [];
+    for (const file of files.filter((name) => name.endsWith('.json'))) {
+      const stored = JSON.parse(
+        await fs.readFile(path.join(this.directory, file), 'utf-8')
+      ) as KeyFile;
+
+      keys.push({
+        ...stored,
+        createdAt: stored.createdAt ? new Date(stored.createdAt) : undefined,
+        retiredAt: stored.retiredAt ? new Date(stored.retiredAt) : undefined,
+      });
+    }
+
+    return keys;
+  }
+
+  async save(key: JwtSigningKey): Promise<void> {
+    const stored: KeyFile = {
+      ...key,
+      createdAt: key.createdAt?.toISOString(),
+      retiredAt: key.retiredAt?.toISOString(),
+    };
+
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+    // Write then rename, so other instances never read a partial file
+    const target = this.keyPath(key.kid);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(stored), { mode: 0o600 });
+    await fs.rename(temporary, target);
+  }
+
+  async delete(kid: string): Promise<void> {
+    await fs.rm(this.keyPath(kid), { force: true });
+  }
+
+  private keyPath(kid: string): string {
+    if (!/^[A-Za-z0-9_.-]+$/.test(kid) || kid.startsWith('.')) {
+      throw new Error('JWT key ids must be file name safe');
+    }
+    return path.join(this.directory, `${kid}.json`);
+  }
+}
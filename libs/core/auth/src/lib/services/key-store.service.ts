@@ -0,0 +1,313 @@
+import { createPublicKey, generateKeyPairSync, randomBytes } from 'crypto';
+import {
+  Jwk,
+  JwkSet,
+  JwtAlgorithm,
+  JwtKeyRotationConfig,
+  JwtSigningKey,
+} from '../types/auth.types';
+import { JwtUtils } from '../utils/jwt.utils';
+
+type StoredKey = JwtSigningKey & { createdAt: Date };
+type SigningKey = StoredKey & { privateKey: string };
+
+// Tokens naming an unknown kid reload the persisted keys at most this often
+const UNKNOWN_KID_RELOAD_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Durable storage of the key store's keys, shared by every API instance
+ */
+export interface JwtKeyPersistence {
+  load(): Promise<JwtSigningKey[]>;
+  save(key: JwtSigningKey): Promise<void>; // Insert or replace by kid
+  delete(kid: string): Promise<void>;
+}
+
+/**
+ * Key store for asymmetric JWT signing.
+ *
+ * The newest non-retired key with a private key signs new tokens.
+ * Rotation retires the signing key instead of deleting it, so tokens it
+ * signed keep verifying until the grace period has passed.
+ *
+ * Scheduled rotation needs a persistence: keys generated in memory only
+ * would be lost on restart and differ between instances. Persisted keys
+ * replace configured keys with the same kid, so a rotated-out key stays
+ * retired after a restart.
+ */
+export class JwtKeyStore {
+  private keys = new Map<string, StoredKey>();
+  private rotationTimer?: NodeJS.Timeout;
+  private lastReloadAt = 0;
+  private reloading?: Promise<void>;
+
+  constructor(
+    private algorithm: JwtAlgorithm,
+    keys: JwtSigningKey[] = [],
+    private rotation?: JwtKeyRotationConfig,
+    private persistence?: JwtKeyPersistence
+  ) {
+    keys.forEach((key) => this.addKey(key));
+  }
+
+  /**
+   * Build a verify-only store from another service's JWKS
+   */
+  static fromJwks(algorithm: JwtAlgorithm, jwks: JwkSet): JwtKeyStore {
+    const keys = jwks.keys.map((jwk) => ({
+      kid: jwk.kid,
+      publicKey: createPublicKey({ key: { ...jwk }, format: 'jwk' })
+        .export({ type: 'spki', format: 'pem' })
+        .toString(),
+    }));
+
+    return new JwtKeyStore(algorithm, keys);
+  }
+
+  /**
+   * Generate a new RSA key pair
+   */
+  static generateKeyPair(kid: string = randomBytes(8).toString('hex')): JwtSigningKey {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+
+    return { kid, publicKey, privateKey, createdAt: new Date() };
+  }
+
+  /**
+   * Add (or replace) a key by kid
+   */
+  addKey(key: JwtSigningKey): void {
+    if (!key.kid || !key.publicKey) {
+      throw new Error('JWT keys require a kid and a public key');
+    }
+
+    this.keys.set(key.kid, { ...key, createdAt: key.createdAt ?? new Date() });
+  }
+
+  /**
+   * Stop signing with a key; it keeps verifying during the grace period
+   */
+  retireKey(kid: string, at: Date = new Date()): void {
+    const key = this.keys.get(kid);
+    if (key && !key.retiredAt) {
+      key.retiredAt = at;
+    }
+  }
+
+  /**
+   * Key used to sign new tokens
+   */
+  getSigningKey(): SigningKey {
+    const candidates = Array.from(this.keys.values())
+      .filter((key): key is SigningKey => !!key.privateKey && !key.retiredAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    if (candidates.length === 0) {
+      throw new Error('AUTH_SIGNING_KEY_NOT_FOUND');
+    }
+
+    return candidates[0];
+  }
+
+  /**
+   * Key able to verify a token signed with `kid`, or null if unknown or expired
+   */
+  getVerificationKey(kid: string, now: Date = new Date()): JwtSigningKey | null {
+    const key = this.keys.get(kid);
+    if (!key) return null;
+
+    return this.isVerifiable(key, now) ? key : null;
+  }
+
+  /**
+   * Make sure a key for `kid` is known, reloading the persisted keys when
+   * it is not, e.g. after another instance rotated. Reloads are shared by
+   * concurrent callers and limited to one every 30 seconds, so tokens with
+   * made-up kids cannot flood the persistence.
+   */
+  async loadUnknownKey(kid: string, now: Date = new Date()): Promise<boolean> {
+    if (this.keys.has(kid)) return true;
+
+    if (!this.reloading) {
+      if (!this.persistence || now.getTime() - this.lastReloadAt < UNKNOWN_KID_RELOAD_INTERVAL_MS) {
+        return false;
+      }
+      this.lastReloadAt = now.getTime();
+      // A failed reload leaves the kid unknown; the token is then refused
+      this.reloading = this.load()
+        .catch(() => undefined)
+        .finally(() => {
+          this.reloading = undefined;
+        });
+    }
+
+    await this.reloading;
+    return this.keys.has(kid);
+  }
+
+  /**
+   * Keys that can still verify tokens
+   */
+  getVerificationKeys(now: Date = new Date()): JwtSigningKey[] {
+    return Array.from(this.keys.values()).filter((key) =>
+      this.isVerifiable(key, now)
+    );
+  }
+
+  /**
+   * Replace the signing key with a freshly generated one
+   */
+  rotate(now: Date = new Date()): JwtSigningKey {
+    for (const key of this.keys.values()) {
+      if (key.privateKey) this.retireKey(key.kid, now);
+    }
+
+    const key = JwtKeyStore.generateKeyPair();
+    key.createdAt = now;
+    this.addKey(key);
+    this.prune(now);
+
+    return key;
+  }
+
+  /**
+   * Rotate when the signing key is older than the rotation interval
+   */
+  rotateIfDue(now: Date = new Date()): boolean {
+    if (!this.rotation) return false;
+
+    const intervalMs =
+      JwtUtils.parseExpiryToSeconds(this.rotation.interval) * 1000;
+    const signingKey = this.findSigningKey();
+
+    if (signingKey && now.getTime() - signingKey.createdAt.getTime() < intervalMs) {
+      this.prune(now);
+      return false;
+    }
+
+    this.rotate(now);
+    return true;
+  }
+
+  /**
+   * Add the persisted keys, e.g. at startup and before rotating
+   */
+  async load(): Promise<void> {
+    if (!this.persistence) return;
+
+    for (const key of await this.persistence.load()) {
+      this.addKey(key);
+    }
+  }
+
+  /**
+   * Load the persisted keys, rotate when due and persist the outcome.
+   * Keys rotated by another instance are picked up instead of rotating again.
+   */
+  async syncRotation(now: Date = new Date()): Promise<boolean> {
+    const persistence = this.requirePersistence();
+    await this.load();
+
+    const before = Array.from(this.keys.keys());
+    const rotated = this.rotateIfDue(now);
+
+    if (rotated) {
+      for (const key of this.keys.values()) {
+        await persistence.save(key);
+      }
+    }
+    for (const kid of before.filter((kid) => !this.keys.has(kid))) {
+      await persistence.delete(kid);
+    }
+
+    return rotated;
+  }
+
+  /**
+   * Check for due rotations periodically (default: every hour).
+   * Resolves after the first check; later failures are retried at the next one.
+   */
+  async startRotation(checkIntervalMs = 60 * 60 * 1000): Promise<void> {
+    if (!this.rotation) {
+      throw new Error('JWT key rotation is not configured');
+    }
+    this.requirePersistence();
+
+    this.stopRotation();
+    await this.syncRotation();
+    this.rotationTimer = setInterval(() => {
+      this.syncRotation().catch(() => undefined);
+    }, checkIntervalMs);
+    this.rotationTimer.unref();
+  }
+
+  stopRotation(): void {
+    if (this.rotationTimer) {
+      clearInterval(this.rotationTimer);
+      this.rotationTimer = undefined;
+    }
+  }
+
+  /**
+   * Public keys as a JSON Web Key Set
+   */
+  getJwks(now: Date = new Date()): JwkSet {
+    return {
+      keys: this.getVerificationKeys(now).map((key) => this.toJwk(key)),
+    };
+  }
+
+  private requirePersistence(): JwtKeyPersistence {
+    if (!this.persistence) {
+      throw new Error('JWT key rotation requires a key persistence');
+    }
+    return this.persistence;
+  }
+
+  private findSigningKey(): SigningKey | null {
+    try {
+      return this.getSigningKey();
+    } catch {
+      return null;
+    }
+  }
+
+  private isVerifiable(key: JwtSigningKey, now: Date): boolean {
+    if (!key.retiredAt) return true;
+
+    const graceMs = this.rotation
+      ? JwtUtils.parseExpiryToSeconds(this.rotation.gracePeriod) * 1000
+      : 0;
+    return key.retiredAt.getTime() + graceMs > now.getTime();
+  }
+
+  /**
+   * Drop retired keys whose grace period has passed
+   */
+  private prune(now: Date): void {
+    for (const key of Array.from(this.keys.values())) {
+      if (!this.isVerifiable(key, now)) {
+        this.keys.delete(key.kid);
+      }
+    }
+  }
+
+  private toJwk(key: JwtSigningKey): Jwk {
+    const { kty, n, e } = createPublicKey(key.publicKey).export({
+      format: 'jwk',
+    });
+
+    return {
+      kty: kty as string,
+      kid: key.kid,
+      use: 'sig',
+      alg: this.algorithm,
+      n: n as string,
+      e: e as string,
+    };
+  }
+}
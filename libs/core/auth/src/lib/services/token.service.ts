@@ -1,25 +1,68 @@
 import * as jwt from 'jsonwebtoken';
 import { randomBytes } from 'crypto';
-import { JwtPayload, TokenPair, AuthConfig } from '../types/auth.types';
+import {
+  AccessTokenClaims,
+  AuthConfig,
+  ImpersonationTokenInput,
+  JwkSet,
+  JwtPayload,
+  OAuthAccessTokenInput,
+  TokenPair,
+  VerifyAccessTokenOptions,
+} from '../types/auth.types';
+import { TokenDenylist } from '../denylist/token-denylist';
+import { JwtUtils } from '../utils/jwt.utils';
+import { JwtKeyPersistence, JwtKeyStore } from './key-store.service';
+
+export interface TokenServiceOptions {
+  // Asymmetric keys (default: built from config.jwt.keys for RS* algorithms)
+  keyStore?: JwtKeyStore;
+
+  // Where the default key store keeps rotated keys (required for rotation)
+  keyPersistence?: JwtKeyPersistence;
+
+  // Revoked access tokens, consulted by verifyActiveAccessToken
+  denylist?: TokenDenylist;
+}
 
 /**
- * Token service for JWT management in Fastify environment
+ * Token service for JWT management in Fastify environment.
+ * HS* algorithms sign with the shared secret; RS* algorithms sign with
+ * the key store's current key and verify by the token's `kid` header.
  */
 export class TokenService {
-  constructor(private config: AuthConfig) {
+  readonly keyStore?: JwtKeyStore;
+  readonly denylist?: TokenDenylist;
+
+  constructor(private config: AuthConfig, options: TokenServiceOptions = {}) {
+    this.denylist = options.denylist;
+
+    if (this.isAsymmetric()) {
+      this.keyStore =
+        options.keyStore ??
+        new JwtKeyStore(
+          config.jwt.algorithm,
+          config.jwt.keys,
+          config.jwt.rotation,
+          options.keyPersistence
+        );
+    }
+
     this.validateConfig();
   }
 
   /**
-   * Generate access token with standard claims
+   * Generate access token with standard claims and optional custom claims
    */
   generateAccessToken(
     userId: string,
     email: string,
-    sessionId?: string
+    sessionId?: string,
+    claims: AccessTokenClaims = {}
   ): string {
     const now = Math.floor(Date.now() / 1000);
     const payload = {
+      ...this.pickClaims(claims),
       sub: userId,
       email,
       type: 'access',
@@ -28,10 +71,7 @@ export class TokenService {
       jti: sessionId || this.generateJti(),
     };
 
-    return jwt.sign(payload, this.config.jwt.secret, {
-      expiresIn: this.config.jwt.accessTokenExpiry,
-      algorithm: this.config.jwt.algorithm,
-    } as jwt.SignOptions);
+    return this.sign(payload, this.config.jwt.accessTokenExpiry);
   }
 
   /**
@@ -52,10 +92,7 @@ export class TokenService {
       jti: sessionId || this.generateJti(),
     };
 
-    return jwt.sign(payload, this.config.jwt.secret, {
-      expiresIn: this.config.jwt.refreshTokenExpiry,
-      algorithm: this.config.jwt.algorithm,
-    } as jwt.SignOptions);
+    return this.sign(payload, this.config.jwt.refreshTokenExpiry);
   }
 
   /**
@@ -64,9 +101,15 @@ export class TokenService {
   generateTokenPair(
     userId: string,
     email: string,
-    sessionId?: string
+    sessionId?: string,
+    claims?: AccessTokenClaims
   ): TokenPair {
-    const accessToken = this.generateAccessToken(userId, email, sessionId);
+    const accessToken = this.generateAccessToken(
+      userId,
+      email,
+      sessionId,
+      claims
+    );
     const refreshToken = this.generateRefreshToken(userId, email, sessionId);
 
     return {
@@ -78,13 +121,18 @@ export class TokenService {
   }
 
   /**
-   * Verify and decode JWT token
+   * Verify and decode JWT token.
+   * `ignoreExpiration` still checks the signature, e.g. to revoke a token.
    */
-  verifyToken(token: string): JwtPayload {
+  verifyToken(
+    token: string,
+    options: { ignoreExpiration?: boolean } = {}
+  ): JwtPayload {
     try {
-      const decoded = jwt.verify(token, this.config.jwt.secret, {
+      const decoded = jwt.verify(token, this.getVerificationKey(token), {
         issuer: this.config.jwt.issuer,
         algorithms: [this.config.jwt.algorithm],
+        ignoreExpiration: options.ignoreExpiration,
       }) as JwtPayload;
 
       return decoded;
@@ -103,18 +151,123 @@ export class TokenService {
   }
 
   /**
-   * Verify access token specifically
+   * Verify access token specifically.
+   * With `permissionVersion`, a token minted for another version throws
+   * AUTH_PERMISSION_VERSION_MISMATCH so the client refreshes it.
    */
-  verifyAccessToken(token: string): JwtPayload {
+  verifyAccessToken(
+    token: string,
+    options: VerifyAccessTokenOptions = {}
+  ): JwtPayload {
     const payload = this.verifyToken(token);
 
     if (payload.type !== 'access') {
       throw new Error('AUTH_INVALID_TOKEN_TYPE');
     }
 
+    if (
+      options.permissionVersion !== undefined &&
+      payload.permissionVersion !== options.permissionVersion
+    ) {
+      throw new Error('AUTH_PERMISSION_VERSION_MISMATCH');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Verify an access token and check it against the denylist
+   */
+  async verifyActiveAccessToken(
+    token: string,
+    options: VerifyAccessTokenOptions = {}
+  ): Promise<JwtPayload> {
+    await this.loadVerificationKey(token);
+    const payload = this.verifyAccessToken(token, options);
+
+    if (await this.isTokenRevoked(payload)) {
+      throw new Error('AUTH_TOKEN_REVOKED');
+    }
+
     return payload;
   }
 
+  /**
+   * Reload the persisted keys when the token names a kid this instance
+   * does not know yet (see JwtKeyStore.loadUnknownKey). Verification is
+   * synchronous, so asynchronous callers run this first.
+   */
+  async loadVerificationKey(token: string): Promise<void> {
+    if (!this.keyStore) return;
+
+    const kid = jwt.decode(token, { complete: true })?.header.kid;
+    if (kid) {
+      await this.keyStore.loadUnknownKey(kid);
+    }
+  }
+
+  /**
+   * Whether the token was revoked by jti or by a user-wide cutoff
+   */
+  async isTokenRevoked(payload: JwtPayload): Promise<boolean> {
+    if (!this.denylist) return false;
+
+    if (payload.jti && (await this.denylist.isRevoked(payload.jti))) {
+      return true;
+    }
+
+    return this.denylist.isRevokedForUser(payload.sub, payload.iat);
+  }
+
+  /**
+   * Deny an access token until it expires.
+   * The jti is the session id when one was given, so this ends the session.
+   * Tokens this service did not sign are ignored, and the entry never
+   * outlives one access token lifetime whatever `exp` the token carries.
+   */
+  async revokeToken(token: string): Promise<void> {
+    const denylist = this.requireDenylist();
+
+    let payload: JwtPayload;
+    try {
+      payload = this.verifyToken(token, { ignoreExpiration: true });
+    } catch {
+      return;
+    }
+
+    if (!payload.jti || !payload.exp) return;
+
+    const lifetimeSeconds = JwtUtils.parseExpiryToSeconds(
+      this.config.jwt.accessTokenExpiry
+    );
+    const expiresAt = Math.min(payload.exp * 1000, Date.now() + lifetimeSeconds * 1000);
+    await denylist.revoke(payload.jti, new Date(expiresAt));
+  }
+
+  /**
+   * Deny access tokens by jti (e.g. a session id) for one access token lifetime
+   */
+  async revokeTokenId(jti: string): Promise<void> {
+    const lifetimeSeconds = JwtUtils.parseExpiryToSeconds(
+      this.config.jwt.accessTokenExpiry
+    );
+    await this.requireDenylist().revoke(
+      jti,
+      new Date(Date.now() + lifetimeSeconds * 1000)
+    );
+  }
+
+  /**
+   * Deny every access token of a user issued before `before` (default: now)
+   */
+  async revokeAllUserTokens(userId: string, before?: Date): Promise<void> {
+    await this.requireDenylist().revokeAllForUser(
+      userId,
+      JwtUtils.parseExpiryToSeconds(this.config.jwt.accessTokenExpiry),
+      before
+    );
+  }
+
   /**
    * Verify refresh token specifically
    */
@@ -128,6 +281,99 @@ export class TokenService {
     return payload;
   }
 
+  /**
+   * Short-lived token proving the password step of a multi-factor login
+   */
+  generateMfaChallengeToken(
+    userId: string,
+    email: string,
+    expiresIn = '5m'
+  ): string {
+    const now = Math.floor(Date.now() / 1000);
+    const payload = {
+      sub: userId,
+      email,
+      type: 'mfa_challenge',
+      iat: now,
+      iss: this.config.jwt.issuer,
+      jti: this.generateJti(),
+    };
+
+    return this.sign(payload, expiresIn);
+  }
+
+  /**
+   * Verify MFA challenge token specifically
+   */
+  verifyMfaChallengeToken(token: string): JwtPayload {
+    const payload = this.verifyToken(token);
+
+    if (payload.type !== 'mfa_challenge') {
+      throw new Error('AUTH_INVALID_TOKEN_TYPE');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Access token for an administrator acting as another user. The `act`
+   * claim names the administrator; no refresh token is issued.
+   */
+  generateImpersonationToken(input: ImpersonationTokenInput): string {
+    const now = Math.floor(Date.now() / 1000);
+    const payload = {
+      sub: input.userId,
+      email: input.email,
+      type: 'access',
+      act: { ...input.actor },
+      iat: now,
+      iss: this.config.jwt.issuer,
+      jti: this.generateJti(),
+    };
+
+    return this.sign(payload, input.expiresIn ?? this.config.jwt.accessTokenExpiry);
+  }
+
+  /**
+   * Access token issued to an OAuth client. It has its own type, so it is
+   * never accepted where a first-party session token is expected.
+   */
+  generateOAuthAccessToken(input: OAuthAccessTokenInput): string {
+    const now = Math.floor(Date.now() / 1000);
+    const payload = {
+      sub: input.subject,
+      email: input.email ?? '',
+      type: 'oauth_access',
+      client_id: input.clientId,
+      scope: input.scope,
+      iat: now,
+      iss: this.config.jwt.issuer,
+      jti: this.generateJti(),
+    };
+
+    return this.sign(payload, input.expiresIn ?? this.config.jwt.accessTokenExpiry);
+  }
+
+  /**
+   * Verify OAuth client access token specifically
+   */
+  verifyOAuthAccessToken(token: string): JwtPayload {
+    const payload = this.verifyToken(token);
+
+    if (payload.type !== 'oauth_access') {
+      throw new Error('AUTH_INVALID_TOKEN_TYPE');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Public keys for other services to verify tokens (empty for HS*)
+   */
+  getJwks(): JwkSet {
+    return this.keyStore?.getJwks() ?? { keys: [] };
+  }
+
   /**
    * Extract token from Authorization header (Fastify style)
    */
@@ -181,6 +427,68 @@ export class TokenService {
     return timeLeft;
   }
 
+  /**
+   * Sign with the shared secret or the current asymmetric key
+   */
+  private sign(payload: object, expiresIn: string): string {
+    const options = {
+      expiresIn,
+      algorithm: this.config.jwt.algorithm,
+    } as jwt.SignOptions;
+
+    if (!this.keyStore) {
+      return jwt.sign(payload, this.config.jwt.secret as string, options);
+    }
+
+    const key = this.keyStore.getSigningKey();
+    return jwt.sign(payload, key.privateKey, { ...options, keyid: key.kid });
+  }
+
+  /**
+   * Shared secret, or the public key matching the token's `kid` header
+   */
+  private getVerificationKey(token: string): string {
+    if (!this.keyStore) {
+      return this.config.jwt.secret as string;
+    }
+
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+    const key = kid ? this.keyStore.getVerificationKey(kid) : null;
+
+    if (!key) {
+      throw new jwt.JsonWebTokenError('unknown signing key');
+    }
+
+    return key.publicKey;
+  }
+
+  private requireDenylist(): TokenDenylist {
+    if (!this.denylist) {
+      throw new Error('Token denylist is not configured');
+    }
+    return this.denylist;
+  }
+
+  private isAsymmetric(): boolean {
+    return this.config.jwt.algorithm?.startsWith('RS') ?? false;
+  }
+
+  /**
+   * Keep only the supported custom claims that are set
+   */
+  private pickClaims(claims: AccessTokenClaims): AccessTokenClaims {
+    const picked: AccessTokenClaims = {};
+
+    if (claims.roles !== undefined) picked.roles = [...claims.roles];
+    if (claims.tenantId !== undefined) picked.tenantId = claims.tenantId;
+    if (claims.permissionVersion !== undefined) {
+      picked.permissionVersion = claims.permissionVersion;
+    }
+
+    return picked;
+  }
+
   /**
    * Generate unique JWT ID
    */
@@ -215,7 +523,11 @@ export class TokenService {
   private validateConfig(): void {
     const { jwt } = this.config;
 
-    if (!jwt.secret || jwt.secret.length < 32) {
+    if (this.keyStore) {
+      if (this.keyStore.getVerificationKeys().length === 0) {
+        throw new Error('JWT keys must be specified for RS algorithms');
+      }
+    } else if (!jwt.secret || jwt.secret.length < 32) {
       throw new Error('JWT secret must be at least 32 characters long');
     }
 
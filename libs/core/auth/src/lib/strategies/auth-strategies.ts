@@ -0,0 +1,163 @@
+import { FastifyRequest } from 'fastify';
+import { TokenService } from '../services/token.service';
+import { JwtPayload } from '../types/auth.types';
+import { CookieUtils, CsrfOptions } from '../utils/cookie.utils';
+import type { AuthStrategy, AuthTokenType, AuthUser } from '../fastify-auth.plugin';
+
+/**
+ * Current permission version of a user (core-rbac `getPermissionVersion`)
+ */
+export type PermissionVersionResolver = (userId: string) => Promise<number>;
+
+export interface JwtStrategyOptions {
+  // Refuse access tokens minted for another permission version
+  permissionVersion?: PermissionVersionResolver;
+}
+
+export interface ApiKeyStrategyOptions {
+  header?: string; // Default: x-api-key
+}
+
+export interface SessionCookieStrategyOptions {
+  cookieName?: string; // Default: access_token
+  csrf?: CsrfOptions | false; // Double-submit check on state-changing requests (default: on)
+  permissionVersion?: PermissionVersionResolver; // As for jwtStrategy
+}
+
+/**
+ * Resolve an API key to its principal; throw when the key is invalid
+ */
+export type ApiKeyResolver = (
+  key: string,
+  request: FastifyRequest
+) => Promise<Omit<AuthUser, 'strategy'>>;
+
+/**
+ * Bearer JWT from the Authorization header
+ */
+export function jwtStrategy(
+  tokenService: TokenService,
+  options: JwtStrategyOptions = {}
+): AuthStrategy {
+  return {
+    name: 'jwt',
+    async authenticate(request, routeOptions) {
+      const token = tokenService.extractTokenFromHeader(
+        request.headers.authorization ?? ''
+      );
+      if (!token) return null;
+
+      return verifyJwt(tokenService, token, routeOptions.tokenTypes, options.permissionVersion);
+    },
+  };
+}
+
+/**
+ * API key from a request header, resolved by the application
+ */
+export function apiKeyStrategy(
+  resolve: ApiKeyResolver,
+  options: ApiKeyStrategyOptions = {}
+): AuthStrategy {
+  const header = (options.header ?? 'x-api-key').toLowerCase();
+
+  return {
+    name: 'apiKey',
+    async authenticate(request) {
+      const key = request.headers[header];
+      if (typeof key !== 'string' || !key) return null;
+
+      return resolve(key, request);
+    },
+  };
+}
+
+/**
+ * Access token JWT from a cookie. Browsers send cookies on their own,
+ * so state-changing requests must also pass the double-submit CSRF check.
+ */
+export function sessionCookieStrategy(
+  tokenService: TokenService,
+  options: SessionCookieStrategyOptions = {}
+): AuthStrategy {
+  const cookieName = options.cookieName ?? 'access_token';
+  const csrf = options.csrf ?? {};
+
+  return {
+    name: 'sessionCookie',
+    async authenticate(request, routeOptions) {
+      const token = CookieUtils.read(request, cookieName);
+      if (!token) return null;
+
+      if (
+        csrf &&
+        CookieUtils.isStateChanging(request.method) &&
+        !CookieUtils.verifyCsrfToken(request, csrf)
+      ) {
+        throw new Error('AUTH_CSRF_TOKEN_INVALID');
+      }
+
+      return verifyJwt(
+        tokenService,
+        token,
+        routeOptions.tokenTypes,
+        options.permissionVersion
+      );
+    },
+  };
+}
+
+async function verifyJwt(
+  tokenService: TokenService,
+  token: string,
+  tokenTypes: AuthTokenType[] = ['access'],
+  permissionVersion?: PermissionVersionResolver
+): Promise<Omit<AuthUser, 'strategy'>> {
+  await tokenService.loadVerificationKey(token);
+  const payload = tokenService.verifyToken(token);
+
+  if (!(tokenTypes as string[]).includes(payload.type)) {
+    throw new Error('AUTH_INVALID_TOKEN_TYPE');
+  }
+
+  if (await tokenService.isTokenRevoked(payload)) {
+    throw new Error('AUTH_TOKEN_REVOKED');
+  }
+
+  // Tokens without the claim (impersonation, OAuth) are not tied to a version
+  if (
+    permissionVersion &&
+    payload.permissionVersion !== undefined &&
+    payload.permissionVersion !== (await permissionVersion(payload.sub))
+  ) {
+    throw new Error('AUTH_PERMISSION_VERSION_MISMATCH');
+  }
+
+  return toAuthUser(payload);
+}
+
+function toAuthUser(payload: JwtPayload): Omit<AuthUser, 'strategy'> {
+  if (payload.type === 'oauth_access') {
+    // The client may use no more than the permission-form (resource:action)
+    // scopes it was granted; `profile`, `email` and the like grant none
+    return {
+      id: payload.sub,
+      email: payload.email ?? '',
+      tokenType: 'oauth_access',
+      clientId: payload.client_id,
+      claims: payload,
+      scopes: (payload.scope ?? '').split(' ').filter((scope) => scope.includes(':')),
+      ...(payload.tenantId ? { tenantId: payload.tenantId } : {}),
+    };
+  }
+
+  return {
+    id: payload.sub,
+    email: payload.email,
+    sessionId: payload.jti,
+    tokenType: 'access',
+    claims: payload,
+    ...(payload.act ? { actorId: payload.act.sub } : {}),
+    ...(payload.tenantId ? { tenantId: payload.tenantId } : {}),
+  };
+}
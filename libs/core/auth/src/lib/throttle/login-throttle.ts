@@ -0,0 +1,244 @@
+import { AuthConfig, LoginBackoffConfig } from '../types/auth.types';
+
+/**
+ * What failed sign-ins are counted against
+ */
+export type LoginThrottleScope = 'account' | 'ip';
+
+/**
+ * Key/value store backing the login throttle
+ */
+export interface LoginThrottleStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+
+  // Atomically add one to a counter (0 when missing) and restart its TTL
+  increment(key: string, ttlSeconds: number): Promise<number>;
+}
+
+export interface LoginThrottleOptions {
+  maxAttempts: number; // Failures before an account is locked
+  ipMaxAttempts?: number; // Failures before an IP is locked, default: maxAttempts * 4
+  lockoutDuration: number; // minutes
+  backoff?: LoginBackoffConfig;
+  keyPrefix?: string; // default: 'auth:throttle:'
+}
+
+/**
+ * Throttle state of an account or IP
+ */
+export interface LoginThrottleStatus {
+  failedAttempts: number;
+  locked: boolean;
+  lockedUntil?: Date;
+  retryAfter: number; // Seconds until the next attempt is allowed, 0 when allowed now
+}
+
+interface ThrottleEntry {
+  failures: number;
+  lastFailureAt: number; // ms
+}
+
+interface ThrottleLock {
+  failures: number;
+  lockedUntil: number; // ms
+}
+
+/**
+ * In-memory store (single process, default)
+ */
+export class InMemoryLoginThrottleStore implements LoginThrottleStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.prune();
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    // No await between the read and the write, so concurrent calls cannot interleave
+    const entry = this.entries.get(key);
+    const current = entry && entry.expiresAt > Date.now() ? parseInt(entry.value, 10) : 0;
+    const next = current + 1;
+    this.entries.set(key, { value: String(next), expiresAt: Date.now() + ttlSeconds * 1000 });
+    return next;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Brute-force protection for sign-in.
+ *
+ * Failed attempts are counted per account and per IP. Repeated failures
+ * delay the next attempt (exponential backoff); reaching the limit locks
+ * the account or IP for the lockout duration, after which counting starts
+ * over. Failures are forgotten after a lockout duration without a new one.
+ * The count is an atomic store counter, so concurrent failures are never
+ * lost and exactly the attempt that reaches the limit sets the lock.
+ */
+export class LoginThrottle {
+  private readonly limits: Record<LoginThrottleScope, number>;
+  private readonly lockoutSeconds: number;
+  private readonly baseDelay: number;
+  private readonly maxDelay: number;
+  private readonly keyPrefix: string;
+
+  constructor(
+    options: LoginThrottleOptions,
+    private store: LoginThrottleStore = new InMemoryLoginThrottleStore()
+  ) {
+    if (options.maxAttempts < 1 || options.lockoutDuration <= 0) {
+      throw new Error('Login throttle requires maxAttempts >= 1 and a positive lockoutDuration');
+    }
+
+    this.limits = {
+      account: options.maxAttempts,
+      ip: options.ipMaxAttempts ?? options.maxAttempts * 4,
+    };
+    this.lockoutSeconds = Math.ceil(options.lockoutDuration * 60);
+    this.baseDelay = options.backoff?.baseDelay ?? 1;
+    this.maxDelay = options.backoff?.maxDelay ?? 60;
+    this.keyPrefix = options.keyPrefix ?? 'auth:throttle:';
+  }
+
+  /**
+   * Throttle from AuthConfig.security (maxLoginAttempts, ipMaxLoginAttempts,
+   * lockoutDuration and loginBackoff)
+   */
+  static fromAuthConfig(config: AuthConfig, store?: LoginThrottleStore): LoginThrottle {
+    const { maxLoginAttempts, ipMaxLoginAttempts, lockoutDuration, loginBackoff } = config.security;
+    return new LoginThrottle(
+      {
+        maxAttempts: maxLoginAttempts,
+        ipMaxAttempts: ipMaxLoginAttempts,
+        lockoutDuration,
+        backoff: loginBackoff,
+      },
+      store
+    );
+  }
+
+  /**
+   * Lockout duration in minutes
+   */
+  get lockoutDuration(): number {
+    return this.lockoutSeconds / 60;
+  }
+
+  async status(scope: LoginThrottleScope, id: string): Promise<LoginThrottleStatus> {
+    const now = Date.now();
+    const lock = await this.readLock(scope, id, now);
+    if (lock) {
+      return this.describeLock(lock, now);
+    }
+
+    const [failures, lastFailureAt] = await Promise.all([
+      this.store.get(this.key(scope, id)),
+      this.store.get(this.key(scope, id, 'last')),
+    ]);
+    if (failures === null) {
+      return this.describe(null, now);
+    }
+
+    return this.describe({
+      failures: parseInt(failures, 10),
+      lastFailureAt: parseInt(lastFailureAt ?? '0', 10),
+    }, now);
+  }
+
+  /**
+   * Count a failed attempt; locks the account or IP when it reaches the limit
+   */
+  async recordFailure(scope: LoginThrottleScope, id: string): Promise<LoginThrottleStatus> {
+    const now = Date.now();
+    const lock = await this.readLock(scope, id, now);
+    if (lock) {
+      return this.describeLock(lock, now);
+    }
+
+    await this.store.set(this.key(scope, id, 'last'), String(now), this.lockoutSeconds);
+    const failures = await this.store.increment(this.key(scope, id), this.lockoutSeconds);
+    if (failures < this.limits[scope]) {
+      return this.describe({ failures, lastFailureAt: now }, now);
+    }
+
+    // Counting starts over once the lock expires
+    const locked: ThrottleLock = { failures, lockedUntil: now + this.lockoutSeconds * 1000 };
+    await this.store.set(this.key(scope, id, 'lock'), JSON.stringify(locked), this.lockoutSeconds);
+    await this.clearFailures(scope, id);
+    return this.describeLock(locked, now);
+  }
+
+  /**
+   * Forget the failures and lift any lock (successful sign-in, admin unlock)
+   */
+  async reset(scope: LoginThrottleScope, id: string): Promise<void> {
+    await this.store.delete(this.key(scope, id, 'lock'));
+    await this.clearFailures(scope, id);
+  }
+
+  private async clearFailures(scope: LoginThrottleScope, id: string): Promise<void> {
+    await this.store.delete(this.key(scope, id));
+    await this.store.delete(this.key(scope, id, 'last'));
+  }
+
+  private describeLock(lock: ThrottleLock, now: number): LoginThrottleStatus {
+    return {
+      failedAttempts: lock.failures,
+      locked: true,
+      lockedUntil: new Date(lock.lockedUntil),
+      retryAfter: Math.ceil((lock.lockedUntil - now) / 1000),
+    };
+  }
+
+  private describe(entry: ThrottleEntry | null, now: number): LoginThrottleStatus {
+    if (!entry) {
+      return { failedAttempts: 0, locked: false, retryAfter: 0 };
+    }
+
+    // The first failure is free; the delay starts with the second
+    const delay = entry.failures < 2 ? 0 : Math.min(this.baseDelay * 2 ** (entry.failures - 2), this.maxDelay);
+    return {
+      failedAttempts: entry.failures,
+      locked: false,
+      retryAfter: Math.max(0, Math.ceil((entry.lastFailureAt + delay * 1000 - now) / 1000)),
+    };
+  }
+
+  private async readLock(scope: LoginThrottleScope, id: string, now: number): Promise<ThrottleLock | null> {
+    const raw = await this.store.get(this.key(scope, id, 'lock'));
+    if (raw === null) return null;
+
+    const lock = JSON.parse(raw) as ThrottleLock;
+    return lock.lockedUntil > now ? lock : null;
+  }
+
+  // Failure count, or the time of the last failure / the lock with a suffix
+  private key(scope: LoginThrottleScope, id: string, suffix?: 'last' | 'lock'): string {
+    const key = `${this.keyPrefix}${scope}:${id}`;
+    return suffix ? `${key}:${suffix}` : key;
+  }
+}
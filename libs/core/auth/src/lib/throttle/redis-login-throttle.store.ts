@@ -0,0 +1,39 @@
+import { LoginThrottleStore } from './login-throttle';
+
+/**
+ * Subset of the Redis client API used by the login throttle (ioredis compatible)
+ */
+export interface RedisThrottleClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'EX', ttlSeconds: number): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+  incr(key: string): Promise<number>;
+  expire(key: string, ttlSeconds: number): Promise<unknown>;
+}
+
+/**
+ * Redis backed store, so every API instance sees the same failures.
+ * Entries expire through Redis TTLs.
+ */
+export class RedisLoginThrottleStore implements LoginThrottleStore {
+  constructor(private client: RedisThrottleClient) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.client.set(key, value, 'EX', ttlSeconds);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(key);
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    // INCR is atomic across instances; the TTL restarts with every failure
+    const value = await this.client.incr(key);
+    await this.client.expire(key, ttlSeconds);
+    return value;
+  }
+}
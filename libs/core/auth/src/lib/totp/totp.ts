@@ -0,0 +1,158 @@
+import { createHmac, randomBytes } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export type TotpAlgorithm = 'sha1' | 'sha256' | 'sha512';
+
+/**
+ * TOTP settings (RFC 6238). Defaults match common authenticator apps.
+ */
+export interface TotpOptions {
+  digits?: number; // default: 6
+  period?: number; // Seconds per code, default: 30
+  algorithm?: TotpAlgorithm; // default: 'sha1'
+  window?: number; // Accepted clock drift in periods either side, default: 1
+}
+
+/**
+ * otpauth:// URI parameters for QR enrollment
+ */
+export interface TotpKeyUriParams {
+  secret: string;
+  accountName: string; // Usually the user's email
+  issuer: string;
+}
+
+/**
+ * Time-based one-time passwords (RFC 6238 / RFC 4226)
+ */
+export class Totp {
+  private readonly digits: number;
+  private readonly period: number;
+  private readonly algorithm: TotpAlgorithm;
+  private readonly window: number;
+
+  constructor(options: TotpOptions = {}) {
+    this.digits = options.digits ?? 6;
+    this.period = options.period ?? 30;
+    this.algorithm = options.algorithm ?? 'sha1';
+    this.window = options.window ?? 1;
+  }
+
+  /**
+   * Random base32 secret (160 bits by default)
+   */
+  static generateSecret(bytes = 20): string {
+    return Totp.base32Encode(randomBytes(bytes));
+  }
+
+  /**
+   * Time step for a point in time
+   */
+  timeStep(at: number = Date.now()): number {
+    return Math.floor(at / 1000 / this.period);
+  }
+
+  /**
+   * Code for a time step (defaults to the current one)
+   */
+  generate(secret: string, step: number = this.timeStep()): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = createHmac(this.algorithm, Totp.base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return String(binary % 10 ** this.digits).padStart(this.digits, '0');
+  }
+
+  /**
+   * Check a code within the drift window.
+   * Returns the matching time step (store it to reject replays) or null.
+   */
+  verify(secret: string, code: string, at: number = Date.now()): number | null {
+    const normalized = code.replace(/\s/g, '');
+    if (!/^\d+$/.test(normalized) || normalized.length !== this.digits) {
+      return null;
+    }
+
+    const current = this.timeStep(at);
+    for (let offset = -this.window; offset <= this.window; offset++) {
+      const step = current + offset;
+      if (Totp.safeEqual(this.generate(secret, step), normalized)) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * otpauth:// URI understood by authenticator apps (render as QR code)
+   */
+  keyUri({ secret, accountName, issuer }: TotpKeyUriParams): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: this.algorithm.toUpperCase(),
+      digits: String(this.digits),
+      period: String(this.period)
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  static base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('TOTP_INVALID_SECRET');
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+
+  private static safeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+
+    let result = 0;
+    for (let i = 0; i < a.length; i++) {
+      result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return result === 0;
+  }
+}
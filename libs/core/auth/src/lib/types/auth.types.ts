@@ -7,8 +7,60 @@ export interface JwtPayload {
   iat: number; // Issued at
   exp: number; // Expires at
   iss: string; // Issuer
-  type: 'access' | 'refresh';
+  type: 'access' | 'refresh' | 'mfa_challenge' | 'oauth_access';
   jti?: string; // JWT ID for tracking
+  roles?: string[]; // Role names (access tokens only)
+  tenantId?: string;
+  permissionVersion?: number; // Version of the user's permissions when minted
+  client_id?: string; // OAuth client the token was issued to (oauth_access only)
+  scope?: string; // Space separated OAuth scopes (oauth_access only)
+  act?: ActorClaim; // Who is acting as the subject (impersonation tokens only)
+}
+
+/**
+ * Actor claim (RFC 8693): the user acting on behalf of the token subject
+ */
+export interface ActorClaim {
+  sub: string;
+  email?: string;
+}
+
+/**
+ * Access token that lets an administrator act as another user
+ */
+export interface ImpersonationTokenInput {
+  userId: string;
+  email: string;
+  actor: ActorClaim;
+  expiresIn?: string; // default: jwt.accessTokenExpiry
+}
+
+/**
+ * Optional custom claims embedded in access tokens
+ */
+export interface AccessTokenClaims {
+  roles?: string[];
+  tenantId?: string;
+  permissionVersion?: number;
+}
+
+/**
+ * Access token for a third-party OAuth client
+ */
+export interface OAuthAccessTokenInput {
+  subject: string; // User id, or the client id for client_credentials
+  clientId: string;
+  scope: string; // Space separated
+  email?: string; // Set when the token acts for a user
+  expiresIn?: string; // default: jwt.accessTokenExpiry
+}
+
+/**
+ * Access token verification options
+ */
+export interface VerifyAccessTokenOptions {
+  // Current permission version; tokens minted with another version are rejected
+  permissionVersion?: number;
 }
 
 /**
@@ -21,21 +73,103 @@ export interface TokenPair {
   expiresIn: number; // seconds until access token expires
 }
 
+export type JwtAlgorithm =
+  | 'HS256'
+  | 'HS384'
+  | 'HS512'
+  | 'RS256'
+  | 'RS384'
+  | 'RS512';
+
+/**
+ * Asymmetric signing key, selected by the `kid` token header
+ */
+export interface JwtSigningKey {
+  kid: string;
+  publicKey: string; // PEM
+  privateKey?: string; // PEM, only needed by the service that signs tokens
+  createdAt?: Date;
+  retiredAt?: Date; // No longer signs; still verifies during the grace period
+}
+
+/**
+ * Scheduled key rotation settings
+ */
+export interface JwtKeyRotationConfig {
+  interval: string; // e.g., '30d' - age at which the signing key is replaced
+  gracePeriod: string; // e.g., '1d' - how long retired keys still verify
+}
+
+/**
+ * JSON Web Key (public RSA key)
+ */
+export interface Jwk {
+  kty: string;
+  kid: string;
+  use: 'sig';
+  alg: JwtAlgorithm;
+  n: string;
+  e: string;
+}
+
+/**
+ * JSON Web Key Set served at /.well-known/jwks.json
+ */
+export interface JwkSet {
+  keys: Jwk[];
+}
+
+/**
+ * Password policy settings (everything optional; see PasswordPolicy for defaults)
+ */
+export interface PasswordPolicyConfig {
+  minLength?: number; // default: security.passwordMinLength, else 8
+  maxLength?: number; // default: 128
+  requireLowercase?: boolean;
+  requireUppercase?: boolean;
+  requireDigit?: boolean;
+  requireSymbol?: boolean;
+  minScore?: PasswordScore; // Minimum strength score, default: 2
+  denylist?: string[]; // Application specific words to reject (case-insensitive)
+  disallowEmail?: boolean; // Reject the email address or its local part, default: true
+  checkBreached?: boolean; // Check the bundled breached password list, default: true
+}
+
+/**
+ * Password strength from 0 (trivial) to 4 (strong)
+ */
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * Delay between failed sign-ins: none after the first failure (a typo),
+ * baseDelay after the second, doubling with each further failure up to
+ * maxDelay (seconds)
+ */
+export interface LoginBackoffConfig {
+  baseDelay?: number; // default: 1
+  maxDelay?: number; // default: 60
+}
+
 /**
  * Authentication configuration
  */
 export interface AuthConfig {
   jwt: {
-    secret: string;
+    secret?: string; // Required for HS* algorithms
+    keys?: JwtSigningKey[]; // Required for RS* algorithms
+    rotation?: JwtKeyRotationConfig;
     accessTokenExpiry: string; // e.g., '15m'
     refreshTokenExpiry: string; // e.g., '7d'
     issuer: string;
-    algorithm: 'HS256' | 'HS384' | 'HS512' | 'RS256' | 'RS384' | 'RS512';
+    algorithm: JwtAlgorithm;
   };
   security: {
-    maxLoginAttempts: number;
+    maxLoginAttempts: number; // Failed sign-ins before the account is locked
     lockoutDuration: number; // minutes
+    ipMaxLoginAttempts?: number; // Failed sign-ins from one IP before it is locked, default: maxLoginAttempts * 4
+    loginBackoff?: LoginBackoffConfig;
     passwordMinLength: number;
+    passwordPolicy?: PasswordPolicyConfig;
     requireEmailVerification: boolean;
   };
 }
@@ -139,15 +273,5 @@ export enum AuthError {
   PASSWORD_TOO_WEAK = 'PASSWORD_TOO_WEAK',
   EMAIL_ALREADY_EXISTS = 'EMAIL_ALREADY_EXISTS',
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
-}
-
-/**
- * Fastify request with authenticated user
- */
-export interface AuthenticatedRequest {
-  user: {
-    id: string;
-    email: string;
-  };
-  sessionId?: string;
+  CSRF_TOKEN_INVALID = 'CSRF_TOKEN_INVALID',
 }
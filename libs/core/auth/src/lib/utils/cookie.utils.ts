@@ -0,0 +1,101 @@
+import { randomBytes } from 'crypto';
+import { FastifyRequest } from 'fastify';
+import { JwtUtils } from './jwt.utils';
+
+/**
+ * Set-Cookie attributes
+ */
+export interface CookieOptions {
+  maxAge?: number; // Seconds; 0 deletes the cookie
+  path?: string; // Default: /
+  domain?: string;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'strict' | 'lax' | 'none';
+}
+
+/**
+ * Double-submit CSRF cookie and the header that must echo it
+ */
+export interface CsrfOptions {
+  cookieName?: string; // Default: XSRF-TOKEN (Angular's default)
+  headerName?: string; // Default: x-xsrf-token (Angular's default)
+}
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Cookie helpers that work without @fastify/cookie
+ */
+export class CookieUtils {
+  /**
+   * Read a cookie value from a request. Uses request.cookies when
+   * @fastify/cookie is registered, otherwise parses the Cookie header.
+   */
+  static read(request: FastifyRequest, name: string): string | undefined {
+    const cookies = (request as { cookies?: Record<string, string | undefined> }).cookies;
+    if (cookies) return cookies[name] || undefined;
+
+    for (const part of (request.headers.cookie ?? '').split(';')) {
+      const index = part.indexOf('=');
+      if (index > 0 && part.slice(0, index).trim() === name) {
+        const value = part.slice(index + 1).trim();
+        try {
+          return decodeURIComponent(value) || undefined;
+        } catch {
+          return value || undefined;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Build a Set-Cookie header value
+   */
+  static serialize(name: string, value: string, options: CookieOptions = {}): string {
+    const parts = [`${name}=${encodeURIComponent(value)}`, `Path=${options.path ?? '/'}`];
+
+    if (options.maxAge !== undefined) {
+      parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+      parts.push(`Expires=${new Date(Date.now() + options.maxAge * 1000).toUTCString()}`);
+    }
+    if (options.domain) parts.push(`Domain=${options.domain}`);
+    if (options.httpOnly) parts.push('HttpOnly');
+    if (options.secure) parts.push('Secure');
+    if (options.sameSite) {
+      parts.push(`SameSite=${options.sameSite[0].toUpperCase()}${options.sameSite.slice(1)}`);
+    }
+
+    return parts.join('; ');
+  }
+
+  /**
+   * Random value for a double-submit CSRF cookie
+   */
+  static generateCsrfToken(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * Whether a request method can change state (and so needs a CSRF check)
+   */
+  static isStateChanging(method: string): boolean {
+    return !SAFE_METHODS.includes(method.toUpperCase());
+  }
+
+  /**
+   * Double-submit check: the CSRF header must match the CSRF cookie
+   */
+  static verifyCsrfToken(request: FastifyRequest, options: CsrfOptions = {}): boolean {
+    const cookie = CookieUtils.read(request, options.cookieName ?? 'XSRF-TOKEN');
+    const header = request.headers[(options.headerName ?? 'x-xsrf-token').toLowerCase()];
+
+    if (!cookie || typeof header !== 'string' || !header) {
+      return false;
+    }
+
+    return JwtUtils.secureCompare(cookie, header);
+  }
+}
@@ -75,7 +75,11 @@ export class JwtUtils {
       return { valid: false, errors };
     }
 
-    if (!config.secret) {
+    if (typeof config.algorithm === 'string' && config.algorithm.startsWith('RS')) {
+      if (!Array.isArray(config.keys) || config.keys.length === 0) {
+        errors.push('JWT keys are required for RS algorithms');
+      }
+    } else if (!config.secret) {
       errors.push('JWT secret is required');
     } else if (typeof config.secret !== 'string') {
       errors.push('JWT secret must be a string');
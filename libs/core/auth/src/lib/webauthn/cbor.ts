@@ -0,0 +1,135 @@
+/**
+ * Minimal CBOR (RFC 8949) codec for WebAuthn attestation objects and COSE keys.
+ * Supports integers, byte and text strings, arrays, maps, booleans and null.
+ * Maps decode to Map so integer keys (COSE) survive.
+ */
+
+export type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+/**
+ * Decode the first CBOR item of a buffer.
+ * `offset` is where the item ended (authenticator data continues after the key).
+ */
+export function decodeCbor(input: Buffer, start = 0): { value: CborValue; offset: number } {
+  let offset = start;
+
+  const read = (length: number): Buffer => {
+    if (offset + length > input.length) {
+      throw new Error('CBOR_UNEXPECTED_END');
+    }
+    const bytes = input.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  };
+
+  const readLength = (info: number): number => {
+    if (info < 24) return info;
+    if (info === 24) return read(1).readUInt8(0);
+    if (info === 25) return read(2).readUInt16BE(0);
+    if (info === 26) return read(4).readUInt32BE(0);
+    if (info === 27) return Number(read(8).readBigUInt64BE(0));
+    throw new Error('CBOR_UNSUPPORTED');
+  };
+
+  const readItem = (): CborValue => {
+    const initial = read(1).readUInt8(0);
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1:
+        return -1 - readLength(info);
+      case 2:
+        return Buffer.from(read(readLength(info)));
+      case 3:
+        return read(readLength(info)).toString('utf8');
+      case 4: {
+        const length = readLength(info);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) items.push(readItem());
+        return items;
+      }
+      case 5: {
+        const length = readLength(info);
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        throw new Error('CBOR_UNSUPPORTED');
+      default:
+        throw new Error('CBOR_UNSUPPORTED');
+    }
+  };
+
+  const value = readItem();
+  return { value, offset };
+}
+
+/**
+ * Encode a value as CBOR (plain objects encode as maps with text keys)
+ */
+export function encodeCbor(value: CborValue | Record<string, CborValue>): Buffer {
+  const head = (major: number, length: number): Buffer => {
+    if (length < 24) return Buffer.from([(major << 5) | length]);
+    if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+    if (length < 0x10000) {
+      const buffer = Buffer.alloc(3);
+      buffer.writeUInt8((major << 5) | 25, 0);
+      buffer.writeUInt16BE(length, 1);
+      return buffer;
+    }
+    if (length < 0x100000000) {
+      const buffer = Buffer.alloc(5);
+      buffer.writeUInt8((major << 5) | 26, 0);
+      buffer.writeUInt32BE(length, 1);
+      return buffer;
+    }
+    const buffer = Buffer.alloc(9);
+    buffer.writeUInt8((major << 5) | 27, 0);
+    buffer.writeBigUInt64BE(BigInt(length), 1);
+    return buffer;
+  };
+
+  if (value === null) return Buffer.from([0xf6]);
+  if (value === false) return Buffer.from([0xf4]);
+  if (value === true) return Buffer.from([0xf5]);
+
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) {
+      throw new Error('CBOR_UNSUPPORTED');
+    }
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([head(4, value.length), ...value.map((item) => encodeCbor(item))]);
+  }
+
+  const entries = value instanceof Map ? [...value.entries()] : Object.entries(value);
+  return Buffer.concat([
+    head(5, entries.length),
+    ...entries.flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)])
+  ]);
+}
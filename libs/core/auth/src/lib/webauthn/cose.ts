@@ -0,0 +1,123 @@
+import { createPublicKey, KeyObject, verify } from 'crypto';
+import { CborValue, decodeCbor, encodeCbor } from './cbor';
+
+/**
+ * COSE algorithm identifiers accepted for credentials
+ */
+export enum CoseAlgorithm {
+  ES256 = -7,
+  EdDSA = -8,
+  RS256 = -257,
+}
+
+const KTY_OKP = 1;
+const KTY_EC2 = 2;
+const KTY_RSA = 3;
+const CRV_P256 = 1;
+const CRV_ED25519 = 6;
+
+/**
+ * Public key of a credential, parsed from its COSE encoding
+ */
+export interface CosePublicKey {
+  algorithm: CoseAlgorithm;
+  key: KeyObject;
+}
+
+/**
+ * Parse a COSE_Key (ES256, EdDSA or RS256)
+ */
+export function parseCoseKey(cose: Buffer): CosePublicKey {
+  const { value } = decodeCbor(cose);
+  if (!(value instanceof Map)) {
+    throw new Error('WEBAUTHN_INVALID_PUBLIC_KEY');
+  }
+
+  const kty = value.get(1);
+  const algorithm = value.get(3);
+  const bytes = (label: number): string => {
+    const field = value.get(label);
+    if (!Buffer.isBuffer(field)) {
+      throw new Error('WEBAUTHN_INVALID_PUBLIC_KEY');
+    }
+    return field.toString('base64url');
+  };
+
+  if (kty === KTY_EC2 && algorithm === CoseAlgorithm.ES256 && value.get(-1) === CRV_P256) {
+    return {
+      algorithm,
+      key: createPublicKey({
+        key: { kty: 'EC', crv: 'P-256', x: bytes(-2), y: bytes(-3) },
+        format: 'jwk'
+      })
+    };
+  }
+  if (kty === KTY_OKP && algorithm === CoseAlgorithm.EdDSA && value.get(-1) === CRV_ED25519) {
+    return {
+      algorithm,
+      key: createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: bytes(-2) }, format: 'jwk' })
+    };
+  }
+  if (kty === KTY_RSA && algorithm === CoseAlgorithm.RS256) {
+    return {
+      algorithm,
+      key: createPublicKey({ key: { kty: 'RSA', n: bytes(-1), e: bytes(-2) }, format: 'jwk' })
+    };
+  }
+
+  throw new Error('WEBAUTHN_UNSUPPORTED_ALGORITHM');
+}
+
+/**
+ * Encode an EC P-256 or Ed25519 public key as a COSE_Key
+ */
+export function encodeCoseKey(key: KeyObject): Buffer {
+  const jwk = key.export({ format: 'jwk' });
+  const decode = (value?: string) => Buffer.from(value ?? '', 'base64url');
+
+  if (jwk.kty === 'EC' && jwk.crv === 'P-256') {
+    return encodeCbor(
+      new Map<CborValue, CborValue>([
+        [1, KTY_EC2],
+        [3, CoseAlgorithm.ES256],
+        [-1, CRV_P256],
+        [-2, decode(jwk.x)],
+        [-3, decode(jwk.y)]
+      ])
+    );
+  }
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+    return encodeCbor(
+      new Map<CborValue, CborValue>([
+        [1, KTY_OKP],
+        [3, CoseAlgorithm.EdDSA],
+        [-1, CRV_ED25519],
+        [-2, decode(jwk.x)]
+      ])
+    );
+  }
+
+  throw new Error('WEBAUTHN_UNSUPPORTED_ALGORITHM');
+}
+
+/**
+ * Check a WebAuthn signature (ES256 signatures are DER encoded)
+ */
+export function verifyCoseSignature(
+  { algorithm, key }: CosePublicKey,
+  data: Buffer,
+  signature: Buffer
+): boolean {
+  try {
+    switch (algorithm) {
+      case CoseAlgorithm.ES256:
+        return verify('sha256', data, { key, dsaEncoding: 'der' }, signature);
+      case CoseAlgorithm.RS256:
+        return verify('sha256', data, key, signature);
+      case CoseAlgorithm.EdDSA:
+        return verify(null, data, key, signature);
+    }
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,133 @@
+import { createHash, generateKeyPairSync, KeyObject, randomBytes, sign } from 'crypto';
+import { encodeCbor } from './cbor';
+import { encodeCoseKey } from './cose';
+import {
+  AuthenticationOptionsJSON,
+  AuthenticationResponseJSON,
+  RegistrationOptionsJSON,
+  RegistrationResponseJSON,
+} from './webauthn';
+
+interface StoredCredential {
+  id: Buffer;
+  rpId: string;
+  userHandle: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  counter: number;
+}
+
+/**
+ * In-process ES256 authenticator for tests and local development.
+ * Produces the same JSON a browser returns from navigator.credentials.
+ */
+export class SoftwareAuthenticator {
+  private readonly credentials: StoredCredential[] = [];
+
+  constructor(
+    private origin: string,
+    private options: { userVerified?: boolean; useCounter?: boolean } = {}
+  ) {}
+
+  /**
+   * Create a credential (navigator.credentials.create) with `none` attestation
+   */
+  createCredential(options: RegistrationOptionsJSON): RegistrationResponseJSON {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const credential: StoredCredential = {
+      id: randomBytes(16),
+      rpId: options.rp.id,
+      userHandle: options.user.id,
+      privateKey,
+      publicKey,
+      counter: 0
+    };
+    this.credentials.push(credential);
+
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(credential.id.length);
+    const authData = Buffer.concat([
+      this.authenticatorData(credential, 0x40),
+      Buffer.alloc(16), // AAGUID
+      idLength,
+      credential.id,
+      encodeCoseKey(publicKey)
+    ]);
+
+    const id = credential.id.toString('base64url');
+    return {
+      id,
+      rawId: id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: this.clientData('webauthn.create', options.challenge),
+        attestationObject: encodeCbor({
+          fmt: 'none',
+          attStmt: new Map(),
+          authData
+        }).toString('base64url'),
+        transports: ['internal']
+      }
+    };
+  }
+
+  /**
+   * Sign in (navigator.credentials.get) with the first allowed credential,
+   * or the first discoverable one for the relying party
+   */
+  getAssertion(options: AuthenticationOptionsJSON): AuthenticationResponseJSON {
+    const allowed = options.allowCredentials.map((descriptor) => descriptor.id);
+    const credential = this.credentials.find(
+      (candidate) =>
+        candidate.rpId === options.rpId &&
+        (allowed.length === 0 || allowed.includes(candidate.id.toString('base64url')))
+    );
+    if (!credential) {
+      throw new Error('No matching credential');
+    }
+
+    const authData = this.authenticatorData(credential, 0);
+    const clientDataJSON = this.clientData('webauthn.get', options.challenge);
+    const signature = sign(
+      'sha256',
+      Buffer.concat([
+        authData,
+        createHash('sha256').update(Buffer.from(clientDataJSON, 'base64url')).digest()
+      ]),
+      { key: credential.privateKey, dsaEncoding: 'der' }
+    );
+
+    const id = credential.id.toString('base64url');
+    return {
+      id,
+      rawId: id,
+      type: 'public-key',
+      response: {
+        clientDataJSON,
+        authenticatorData: authData.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: credential.userHandle
+      }
+    };
+  }
+
+  private authenticatorData(credential: StoredCredential, extraFlags: number): Buffer {
+    if (this.options.useCounter !== false) {
+      credential.counter++;
+    }
+
+    const flags = 0x01 | (this.options.userVerified === false ? 0 : 0x04) | extraFlags;
+    const header = Buffer.alloc(37);
+    createHash('sha256').update(credential.rpId).digest().copy(header, 0);
+    header.writeUInt8(flags, 32);
+    header.writeUInt32BE(credential.counter, 33);
+
+    return header;
+  }
+
+  private clientData(type: string, challenge: string): string {
+    return Buffer.from(
+      JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false })
+    ).toString('base64url');
+  }
+}
@@ -0,0 +1,449 @@
+import { createHash, randomBytes, X509Certificate } from 'crypto';
+import { decodeCbor } from './cbor';
+import {
+  CoseAlgorithm,
+  CosePublicKey,
+  parseCoseKey,
+  verifyCoseSignature,
+} from './cose';
+
+export type UserVerificationRequirement = 'required' | 'preferred' | 'discouraged';
+
+/**
+ * Relying party settings
+ */
+export interface WebAuthnConfig {
+  rpId: string; // Domain the credentials are scoped to, e.g. 'example.com'
+  rpName: string; // Shown by the authenticator
+  origins: string[]; // Accepted origins, e.g. ['https://app.example.com']
+  timeout?: number; // Ceremony timeout in ms, default: 60000
+  userVerification?: UserVerificationRequirement; // default: 'preferred'
+}
+
+/**
+ * Credential reference in options (ids are base64url)
+ */
+export interface CredentialDescriptorJSON {
+  id: string;
+  type: 'public-key';
+  transports?: string[];
+}
+
+/**
+ * PublicKeyCredentialCreationOptions for navigator.credentials.create (JSON form)
+ */
+export interface RegistrationOptionsJSON {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: Array<{ type: 'public-key'; alg: number }>;
+  timeout: number;
+  attestation: 'none';
+  excludeCredentials: CredentialDescriptorJSON[];
+  authenticatorSelection: {
+    residentKey: 'required' | 'preferred' | 'discouraged';
+    userVerification: UserVerificationRequirement;
+  };
+}
+
+/**
+ * PublicKeyCredentialRequestOptions for navigator.credentials.get (JSON form)
+ */
+export interface AuthenticationOptionsJSON {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  allowCredentials: CredentialDescriptorJSON[];
+  userVerification: UserVerificationRequirement;
+}
+
+/**
+ * PublicKeyCredential from a registration ceremony (PublicKeyCredential.toJSON())
+ */
+export interface RegistrationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+/**
+ * PublicKeyCredential from an authentication ceremony (PublicKeyCredential.toJSON())
+ */
+export interface AuthenticationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+/**
+ * Stored credential (public key is the base64url COSE key)
+ */
+export interface WebAuthnCredential {
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+  transports?: string[];
+}
+
+/**
+ * Result of a verified registration; store it as a WebAuthnCredential
+ */
+export interface VerifiedRegistration extends WebAuthnCredential {
+  aaguid: string;
+  userVerified: boolean;
+  backedUp: boolean;
+}
+
+/**
+ * Result of a verified authentication
+ */
+export interface VerifiedAuthentication {
+  credentialId: string;
+  counter: number; // Store as the credential's new counter
+  userVerified: boolean;
+}
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  counter: number;
+  aaguid?: Buffer;
+  credentialId?: Buffer;
+  credentialPublicKey?: Buffer;
+}
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+/**
+ * WebAuthn (FIDO2) relying party: ceremony options and response verification.
+ * Challenges are created here but stored by the caller, who passes the
+ * expected challenge back when verifying. Only `none`, self and `packed`
+ * attestation are accepted; attestation certificates are not chain-validated.
+ */
+export class WebAuthn {
+  private readonly timeout: number;
+  private readonly userVerification: UserVerificationRequirement;
+
+  constructor(private config: WebAuthnConfig) {
+    this.timeout = config.timeout ?? 60000;
+    this.userVerification = config.userVerification ?? 'preferred';
+  }
+
+  /**
+   * Random base64url challenge
+   */
+  static generateChallenge(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * Challenge a response answers (read from its clientDataJSON, unverified)
+   */
+  static challengeOf(response: RegistrationResponseJSON | AuthenticationResponseJSON): string | null {
+    try {
+      const clientData = JSON.parse(
+        Buffer.from(response.response.clientDataJSON, 'base64url').toString('utf8')
+      );
+      return typeof clientData.challenge === 'string' ? clientData.challenge : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Options for registering a new credential (user.id is base64url)
+   */
+  registrationOptions(params: {
+    challenge: string;
+    userId: string;
+    userName: string;
+    displayName?: string;
+    excludeCredentials?: WebAuthnCredential[];
+  }): RegistrationOptionsJSON {
+    return {
+      challenge: params.challenge,
+      rp: { id: this.config.rpId, name: this.config.rpName },
+      user: {
+        id: Buffer.from(params.userId, 'utf8').toString('base64url'),
+        name: params.userName,
+        displayName: params.displayName ?? params.userName
+      },
+      pubKeyCredParams: [
+        { type: 'public-key', alg: CoseAlgorithm.ES256 },
+        { type: 'public-key', alg: CoseAlgorithm.EdDSA },
+        { type: 'public-key', alg: CoseAlgorithm.RS256 }
+      ],
+      timeout: this.timeout,
+      attestation: 'none',
+      excludeCredentials: (params.excludeCredentials ?? []).map((credential) =>
+        this.toDescriptor(credential)
+      ),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: this.userVerification
+      }
+    };
+  }
+
+  /**
+   * Options for signing in. Without allowCredentials the authenticator
+   * offers its discoverable credentials (passwordless login).
+   */
+  authenticationOptions(params: {
+    challenge: string;
+    allowCredentials?: WebAuthnCredential[];
+  }): AuthenticationOptionsJSON {
+    return {
+      challenge: params.challenge,
+      rpId: this.config.rpId,
+      timeout: this.timeout,
+      allowCredentials: (params.allowCredentials ?? []).map((credential) =>
+        this.toDescriptor(credential)
+      ),
+      userVerification: this.userVerification
+    };
+  }
+
+  /**
+   * Verify a registration response against the expected challenge
+   */
+  verifyRegistration(
+    response: RegistrationResponseJSON,
+    expectedChallenge: string
+  ): VerifiedRegistration {
+    const clientDataJSON = this.checkClientData(
+      response.response.clientDataJSON,
+      'webauthn.create',
+      expectedChallenge
+    );
+
+    const { value: attestation } = decodeCbor(
+      Buffer.from(response.response.attestationObject, 'base64url')
+    );
+    if (!(attestation instanceof Map)) {
+      throw new Error('WEBAUTHN_INVALID_ATTESTATION');
+    }
+
+    const fmt = attestation.get('fmt');
+    const attStmt = attestation.get('attStmt');
+    const authDataBytes = attestation.get('authData');
+    if (typeof fmt !== 'string' || !(attStmt instanceof Map) || !Buffer.isBuffer(authDataBytes)) {
+      throw new Error('WEBAUTHN_INVALID_ATTESTATION');
+    }
+
+    const authData = this.parseAuthenticatorData(authDataBytes);
+    this.checkAuthenticatorData(authData);
+
+    if (!authData.credentialId || !authData.credentialPublicKey || !authData.aaguid) {
+      throw new Error('WEBAUTHN_INVALID_ATTESTATION');
+    }
+
+    const credentialKey = parseCoseKey(authData.credentialPublicKey);
+    this.checkAttestationStatement(
+      fmt,
+      attStmt,
+      Buffer.concat([authDataBytes, this.sha256(clientDataJSON)]),
+      credentialKey
+    );
+
+    const credentialId = authData.credentialId.toString('base64url');
+    if (credentialId !== response.id) {
+      throw new Error('WEBAUTHN_CREDENTIAL_MISMATCH');
+    }
+
+    return {
+      credentialId,
+      publicKey: authData.credentialPublicKey.toString('base64url'),
+      counter: authData.counter,
+      transports: response.response.transports,
+      aaguid: this.formatAaguid(authData.aaguid),
+      userVerified: (authData.flags & FLAG_USER_VERIFIED) !== 0,
+      backedUp: (authData.flags & FLAG_BACKED_UP) !== 0
+    };
+  }
+
+  /**
+   * Verify an authentication response with the stored credential.
+   * A counter that does not increase points to a cloned authenticator.
+   */
+  verifyAuthentication(
+    response: AuthenticationResponseJSON,
+    expectedChallenge: string,
+    credential: WebAuthnCredential
+  ): VerifiedAuthentication {
+    if (response.id !== credential.credentialId) {
+      throw new Error('WEBAUTHN_CREDENTIAL_MISMATCH');
+    }
+
+    const clientDataJSON = this.checkClientData(
+      response.response.clientDataJSON,
+      'webauthn.get',
+      expectedChallenge
+    );
+
+    const authDataBytes = Buffer.from(response.response.authenticatorData, 'base64url');
+    const authData = this.parseAuthenticatorData(authDataBytes);
+    this.checkAuthenticatorData(authData);
+
+    const publicKey = parseCoseKey(Buffer.from(credential.publicKey, 'base64url'));
+    const signed = Buffer.concat([authDataBytes, this.sha256(clientDataJSON)]);
+    if (
+      !verifyCoseSignature(publicKey, signed, Buffer.from(response.response.signature, 'base64url'))
+    ) {
+      throw new Error('WEBAUTHN_INVALID_SIGNATURE');
+    }
+
+    // Authenticators without a counter always report 0
+    if ((authData.counter > 0 || credential.counter > 0) && authData.counter <= credential.counter) {
+      throw new Error('WEBAUTHN_COUNTER_REPLAY');
+    }
+
+    return {
+      credentialId: credential.credentialId,
+      counter: authData.counter,
+      userVerified: (authData.flags & FLAG_USER_VERIFIED) !== 0
+    };
+  }
+
+  /**
+   * Check type, challenge and origin; returns the raw clientDataJSON
+   */
+  private checkClientData(encoded: string, type: string, expectedChallenge: string): Buffer {
+    const raw = Buffer.from(encoded, 'base64url');
+
+    let clientData: { type?: string; challenge?: string; origin?: string };
+    try {
+      clientData = JSON.parse(raw.toString('utf8'));
+    } catch {
+      throw new Error('WEBAUTHN_INVALID_CLIENT_DATA');
+    }
+
+    if (clientData.type !== type) {
+      throw new Error('WEBAUTHN_INVALID_CLIENT_DATA');
+    }
+    if (clientData.challenge !== expectedChallenge) {
+      throw new Error('WEBAUTHN_CHALLENGE_MISMATCH');
+    }
+    if (!clientData.origin || !this.config.origins.includes(clientData.origin)) {
+      throw new Error('WEBAUTHN_ORIGIN_MISMATCH');
+    }
+
+    return raw;
+  }
+
+  private checkAuthenticatorData(authData: AuthenticatorData): void {
+    if (!authData.rpIdHash.equals(this.sha256(Buffer.from(this.config.rpId, 'utf8')))) {
+      throw new Error('WEBAUTHN_RP_ID_MISMATCH');
+    }
+    if (!(authData.flags & FLAG_USER_PRESENT)) {
+      throw new Error('WEBAUTHN_USER_NOT_PRESENT');
+    }
+    if (this.userVerification === 'required' && !(authData.flags & FLAG_USER_VERIFIED)) {
+      throw new Error('WEBAUTHN_USER_NOT_VERIFIED');
+    }
+  }
+
+  /**
+   * `none` carries no statement; `packed` is checked with its certificate
+   * or, for self attestation, with the credential key itself.
+   */
+  private checkAttestationStatement(
+    fmt: string,
+    attStmt: Map<unknown, unknown>,
+    signedData: Buffer,
+    credentialKey: CosePublicKey
+  ): void {
+    if (fmt === 'none') {
+      if (attStmt.size > 0) {
+        throw new Error('WEBAUTHN_INVALID_ATTESTATION');
+      }
+      return;
+    }
+
+    if (fmt !== 'packed') {
+      throw new Error('WEBAUTHN_UNSUPPORTED_ATTESTATION');
+    }
+
+    const signature = attStmt.get('sig');
+    const x5c = attStmt.get('x5c');
+    if (!Buffer.isBuffer(signature)) {
+      throw new Error('WEBAUTHN_INVALID_ATTESTATION');
+    }
+
+    const key: CosePublicKey =
+      Array.isArray(x5c) && Buffer.isBuffer(x5c[0])
+        ? {
+            algorithm: attStmt.get('alg') as CoseAlgorithm,
+            key: new X509Certificate(x5c[0]).publicKey
+          }
+        : credentialKey;
+
+    if (!verifyCoseSignature(key, signedData, signature)) {
+      throw new Error('WEBAUTHN_INVALID_ATTESTATION');
+    }
+  }
+
+  private parseAuthenticatorData(data: Buffer): AuthenticatorData {
+    if (data.length < 37) {
+      throw new Error('WEBAUTHN_INVALID_AUTHENTICATOR_DATA');
+    }
+
+    const authData: AuthenticatorData = {
+      rpIdHash: data.subarray(0, 32),
+      flags: data.readUInt8(32),
+      counter: data.readUInt32BE(33)
+    };
+
+    if (authData.flags & FLAG_ATTESTED_CREDENTIAL) {
+      if (data.length < 55) {
+        throw new Error('WEBAUTHN_INVALID_AUTHENTICATOR_DATA');
+      }
+      const idLength = data.readUInt16BE(53);
+      const keyStart = 55 + idLength;
+      const { offset } = decodeCbor(data, keyStart);
+
+      authData.aaguid = data.subarray(37, 53);
+      authData.credentialId = data.subarray(55, keyStart);
+      authData.credentialPublicKey = data.subarray(keyStart, offset);
+    }
+
+    return authData;
+  }
+
+  private toDescriptor(credential: WebAuthnCredential): CredentialDescriptorJSON {
+    return {
+      id: credential.credentialId,
+      type: 'public-key',
+      ...(credential.transports?.length ? { transports: credential.transports } : {})
+    };
+  }
+
+  private formatAaguid(aaguid: Buffer): string {
+    const hex = aaguid.toString('hex');
+    return [
+      hex.slice(0, 8),
+      hex.slice(8, 12),
+      hex.slice(12, 16),
+      hex.slice(16, 20),
+      hex.slice(20)
+    ].join('-');
+  }
+
+  private sha256(data: Buffer): Buffer {
+    return createHash('sha256').update(data).digest();
+  }
+}
@@ -5,6 +5,11 @@ export type { DatabasePluginOptions } from './lib/fastify-database.plugin.js';
 // Simple Database Setup
 export * from './lib/database-setup.js';
 
+// Multi-tenancy
+export { default as tenancyPlugin } from './lib/fastify-tenancy.plugin.js';
+export type { TenancyPluginOptions } from './lib/fastify-tenancy.plugin.js';
+export * from './lib/tenancy/index.js';
+
 // Migration system
 export * from './lib/migration/index.js';
 
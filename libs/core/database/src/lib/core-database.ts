@@ -1,4 +1,6 @@
-import { Knex } from 'knex';
+import knex, { Knex } from 'knex';
+import { tenantIsolation, tenantStorageName } from './tenancy/tenant-isolation.js';
+import { TenantContext } from './tenancy/tenant.types.js';
 
 export interface DatabaseConnection {
   connect(): Promise<void>;
@@ -55,6 +57,23 @@ export interface DatabaseMigrationStatus {
   executedAt?: Date;
 }
 
+/**
+ * Connection pools of isolated tenants (schema and database strategies)
+ */
+export interface TenantPoolOptions {
+  // Connection settings tenant pools are derived from (default: those of the shared Knex)
+  config?: Knex.Config;
+
+  // Pools kept open; the least recently used one is closed beyond this (default: 50)
+  maxPools?: number;
+
+  // Size of each tenant pool (default: min 0, max 5)
+  pool?: {
+    min?: number;
+    max?: number;
+  };
+}
+
 export abstract class BaseDatabaseConnection implements DatabaseConnection {
   protected _isConnected = false;
   protected knexInstance?: Knex;
@@ -135,6 +154,8 @@ export class KnexDatabaseQuery implements DatabaseQuery {
 export class DatabaseManager {
   private connections: Map<string, DatabaseConnection> = new Map();
   private defaultConnection?: string;
+  private tenantPools: Map<string, Knex> = new Map(); // By tenant id, least recently used first
+  private tenantPoolOptions: TenantPoolOptions = {};
 
   register(
     name: string,
@@ -177,11 +198,82 @@ export class DatabaseManager {
   }
 
   async disconnectAll(): Promise<void> {
+    await this.releaseTenantPools();
     await Promise.all(
       Array.from(this.connections.values()).map((conn) => conn.disconnect())
     );
   }
 
+  configureTenantPools(options: TenantPoolOptions): void {
+    this.tenantPoolOptions = options;
+  }
+
+  /**
+   * Knex for the data of a tenant: the shared Knex for shared tenants, a
+   * cached pool bound to the tenant schema (search_path) or database for
+   * isolated ones. `shared` defaults to the default connection.
+   */
+  getTenantKnex(tenant: TenantContext, shared?: Knex): Knex {
+    const isolation = tenantIsolation(tenant);
+    if (isolation === 'shared') {
+      return shared ?? this.getKnex();
+    }
+
+    const cached = this.tenantPools.get(tenant.id);
+    if (cached) {
+      this.tenantPools.delete(tenant.id);
+      this.tenantPools.set(tenant.id, cached);
+      return cached;
+    }
+
+    const base = this.tenantPoolOptions.config ?? (shared ?? this.getKnex()).client.config as Knex.Config;
+    const storage = tenantStorageName(tenant) as string;
+    const pool = knex({
+      ...base,
+      pool: { min: 0, max: 5, ...this.tenantPoolOptions.pool },
+      ...(isolation === 'schema'
+        ? { searchPath: [storage] }
+        : { connection: withDatabase(base.connection, storage) }),
+    });
+
+    this.tenantPools.set(tenant.id, pool);
+    this.evictTenantPools();
+    return pool;
+  }
+
+  /**
+   * Close the pool of a tenant, e.g. before its schema or database is dropped
+   */
+  async releaseTenantKnex(tenantId: string): Promise<void> {
+    const pool = this.tenantPools.get(tenantId);
+    if (pool) {
+      this.tenantPools.delete(tenantId);
+      await pool.destroy();
+    }
+  }
+
+  async releaseTenantPools(): Promise<void> {
+    const pools = Array.from(this.tenantPools.values());
+    this.tenantPools.clear();
+    await Promise.all(pools.map((pool) => pool.destroy()));
+  }
+
+  listTenantPools(): string[] {
+    return Array.from(this.tenantPools.keys());
+  }
+
+  private evictTenantPools(): void {
+    const maxPools = this.tenantPoolOptions.maxPools ?? 50;
+    for (const [tenantId, pool] of this.tenantPools) {
+      if (this.tenantPools.size <= maxPools) {
+        break;
+      }
+      this.tenantPools.delete(tenantId);
+      // Queries already running finish first; a failed close leaves nothing to clean up
+      pool.destroy().catch(() => undefined);
+    }
+  }
+
   async getHealthStatus(): Promise<Record<string, DatabaseHealth>> {
     const health: Record<string, DatabaseHealth> = {};
 
@@ -204,6 +296,34 @@ export class DatabaseManager {
   }
 }
 
+/**
+ * Same connection settings, other database
+ */
+function withDatabase(connection: Knex.Config['connection'], database: string): Knex.Config['connection'] {
+  const toDatabase = (url: string) => {
+    const parsed = new URL(url);
+    parsed.pathname = `/${database}`;
+    return parsed.toString();
+  };
+
+  if (typeof connection === 'string') {
+    return toDatabase(connection);
+  }
+  if (connection && typeof connection === 'object') {
+    // Knex hides the password from enumeration, so spreading alone would drop it
+    const settings = {
+      ...connection,
+      password: (connection as { password?: string }).password,
+      database,
+    } as Knex.StaticConnectionConfig & { connectionString?: string };
+    if (settings.connectionString) {
+      settings.connectionString = toDatabase(settings.connectionString);
+    }
+    return settings;
+  }
+  throw new Error('Database-per-tenant isolation requires a connection string or object');
+}
+
 // Singleton instance
 export const databaseManager = new DatabaseManager();
 
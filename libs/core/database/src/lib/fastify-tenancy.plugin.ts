@@ -0,0 +1,168 @@
+import { AsyncResource } from 'node:async_hooks';
+import fp from 'fastify-plugin';
+import { Knex } from 'knex';
+import {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  HookHandlerDoneFunction,
+} from 'fastify';
+import { TenantPoolOptions, databaseManager } from './core-database.js';
+import { runWithTenant } from './tenancy/tenant-context.js';
+import { TenantProvisioner, TenantProvisionerOptions } from './tenancy/tenant-provisioner.js';
+import { TenantRegistryRepository } from './tenancy/tenant-registry.repository.js';
+import { TenantResolver, TenantResolverOptions } from './tenancy/tenant-resolver.js';
+import { TenantService, TenantServiceOptions } from './tenancy/tenant.service.js';
+import { TenantContext, TenantError } from './tenancy/tenant.types.js';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    tenants: TenantService;
+  }
+
+  interface FastifyRequest {
+    tenant: TenantContext | null;
+  }
+
+  interface FastifyContextConfig {
+    tenant?: boolean; // true: tenant required, false: never resolved (platform routes)
+  }
+}
+
+export interface TenancyPluginOptions extends TenantServiceOptions {
+  // Provide either a ready service or a Knex instance to build one
+  tenantService?: TenantService;
+  knex?: Knex;
+
+  // Registry table (default: tenants.registry)
+  registryTable?: string;
+
+  // Where requests name their tenant
+  resolution?: TenantResolverOptions;
+
+  // Reject requests without a tenant unless the route sets config.tenant = false (default: true)
+  required?: boolean;
+
+  // Pools of isolated tenants, cached in databaseManager
+  isolation?: TenantPoolOptions;
+
+  // Enables schema and database isolation: provisioning and tenant migrations (requires knex)
+  provisioning?: Omit<TenantProvisionerOptions, 'databaseManager'>;
+}
+
+const TENANT_ERROR_RESPONSES: Partial<Record<TenantError, { statusCode: number; error: string; message: string }>> = {
+  [TenantError.TENANT_REQUIRED]: { statusCode: 400, error: 'BadRequestError', message: 'Tenant identification required' },
+  [TenantError.TENANT_NOT_FOUND]: { statusCode: 404, error: 'NotFoundError', message: 'Tenant not found' },
+  [TenantError.TENANT_INACTIVE]: { statusCode: 403, error: 'ForbiddenError', message: 'Tenant is not active' },
+  [TenantError.TENANT_MISMATCH]: { statusCode: 403, error: 'ForbiddenError', message: 'Request names more than one tenant' },
+};
+
+async function tenancyPlugin(fastify: FastifyInstance, options: TenancyPluginOptions) {
+  let tenantService = options.tenantService;
+  if (!tenantService) {
+    if (!options.knex) {
+      throw new Error('Tenancy plugin requires either tenantService or knex option.');
+    }
+    tenantService = new TenantService(
+      new TenantRegistryRepository(options.knex, options.registryTable),
+      {
+        ...options,
+        ...(options.provisioning && { provisioner: new TenantProvisioner(options.knex, options.provisioning) }),
+      }
+    );
+  }
+
+  if (options.isolation) {
+    databaseManager.configureTenantPools(options.isolation);
+  }
+
+  const service = tenantService;
+  const resolver = new TenantResolver(options.resolution);
+  const requiredByDefault = options.required ?? true;
+
+  // Restores the tenant context after body parsing, which runs outside of it
+  const scopes = new WeakMap<FastifyRequest, AsyncResource>();
+
+  // Every source that names a tenant must name the same one
+  const resolveTenant = async (request: FastifyRequest): Promise<TenantContext | null> => {
+    let tenant: TenantContext | null = null;
+
+    for (const candidate of await resolver.identify(request)) {
+      const resolved = await service.resolve(candidate.identifier);
+      if (tenant && tenant.id !== resolved.id) {
+        request.log.warn(
+          { source: candidate.source, tenantId: tenant.id, otherTenantId: resolved.id },
+          'Conflicting tenants in request'
+        );
+        throw new Error(TenantError.TENANT_MISMATCH);
+      }
+      tenant = resolved;
+    }
+
+    return tenant;
+  };
+
+  const sendTenantError = (reply: FastifyReply, error: Error, done: HookHandlerDoneFunction) => {
+    const response = TENANT_ERROR_RESPONSES[error.message as TenantError];
+    if (!response) {
+      done(error);
+      return;
+    }
+
+    reply.code(response.statusCode).send({
+      ...response,
+      code: error.message,
+      timestamp: new Date().toISOString(),
+    });
+  };
+
+  fastify.decorate('tenants', service);
+  fastify.decorateRequest('tenant', null);
+
+  fastify.addHook('onClose', async () => {
+    await databaseManager.releaseTenantPools();
+  });
+
+  fastify.addHook('onRequest', (request, reply, done) => {
+    const routeSetting = request.routeOptions.config?.tenant;
+    if (routeSetting === false) {
+      done();
+      return;
+    }
+
+    resolveTenant(request).then(
+      (tenant) => {
+        if (!tenant) {
+          if (routeSetting ?? requiredByDefault) {
+            sendTenantError(reply, new Error(TenantError.TENANT_REQUIRED), done);
+            return;
+          }
+          done();
+          return;
+        }
+
+        request.tenant = tenant;
+        runWithTenant(tenant, () => {
+          scopes.set(request, new AsyncResource('aegisx-tenant'));
+          done();
+        });
+      },
+      (error: Error) => sendTenantError(reply, error, done)
+    );
+  });
+
+  fastify.addHook('preValidation', (request, _reply, done) => {
+    const scope = scopes.get(request);
+    if (scope) {
+      scope.runInAsyncScope(done);
+    } else {
+      done();
+    }
+  });
+}
+
+// Export as Fastify plugin
+export default fp(tenancyPlugin, {
+  name: 'aegisx-tenancy',
+  fastify: '5.x',
+});
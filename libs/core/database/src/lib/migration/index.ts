@@ -1 +1 @@
-export * from './migrator.js'; 
\ No newline at end of file
+export * from './migrator.js';
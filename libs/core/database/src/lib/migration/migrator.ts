@@ -2,10 +2,14 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { Knex } from 'knex';
 import {
+    DatabaseManager,
     DatabaseMigrator,
     DatabaseMigration,
-    DatabaseMigrationStatus
+    DatabaseMigrationStatus,
+    databaseManager
 } from '../core-database.js';
+import { tenantIsolation } from '../tenancy/tenant-isolation.js';
+import { TenantContext } from '../tenancy/tenant.types.js';
 
 export interface KnexMigratorConfig {
     migrationsDir: string;
@@ -13,6 +17,13 @@ export interface KnexMigratorConfig {
     knex: Knex;
 }
 
+export interface TenantMigrationResult {
+    tenantId: string;
+    slug: string;
+    status: 'migrated' | 'skipped' | 'failed'; // skipped: shared tenant
+    error?: string;
+}
+
 export class KnexMigrator implements DatabaseMigrator {
     private config: Required<KnexMigratorConfig>;
     private migrations: Map<string, DatabaseMigration> = new Map();
@@ -112,6 +123,47 @@ export class KnexMigrator implements DatabaseMigrator {
         }
     }
 
+    /**
+     * Run pending migrations in the schema or database of every isolated
+     * tenant; `knex` of this migrator is the shared database. Shared tenants
+     * are skipped, their tables are migrated with the shared database.
+     * A failing tenant does not stop the others.
+     */
+    async migrateTenants(
+        tenants: TenantContext[],
+        manager: DatabaseManager = databaseManager
+    ): Promise<TenantMigrationResult[]> {
+        const results: TenantMigrationResult[] = [];
+
+        // One tenant at a time, so only one extra pool is busy
+        for (const tenant of tenants) {
+            const result: TenantMigrationResult = { tenantId: tenant.id, slug: tenant.slug, status: 'skipped' };
+
+            if (tenantIsolation(tenant) !== 'shared') {
+                try {
+                    console.log(`Migrating tenant: ${tenant.slug}`);
+
+                    const migrator = new KnexMigrator({
+                        ...this.config,
+                        knex: manager.getTenantKnex(tenant, this.config.knex)
+                    });
+                    await migrator.initialize();
+                    await migrator.migrate();
+
+                    result.status = 'migrated';
+                } catch (error) {
+                    console.error(`Error migrating tenant ${tenant.slug}:`, error);
+                    result.status = 'failed';
+                    result.error = error instanceof Error ? error.message : String(error);
+                }
+            }
+
+            results.push(result);
+        }
+
+        return results;
+    }
+
     async rollback(steps = 1): Promise<void> {
         const executedMigrations = await this.getExecutedMigrations();
         const migrationsToRollback = Array.from(executedMigrations.keys())
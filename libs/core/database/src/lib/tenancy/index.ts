@@ -0,0 +1,9 @@
+export * from './tenant.types.js';
+export * from './tenant-context.js';
+export * from './tenant-isolation.js';
+export * from './tenant-query-builder.js';
+export * from './tenant.repository.js';
+export * from './tenant-registry.repository.js';
+export * from './tenant.service.js';
+export * from './tenant-resolver.js';
+export * from './tenant-provisioner.js';
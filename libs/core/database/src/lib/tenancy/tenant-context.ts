@@ -0,0 +1,31 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { TenantContext, TenantError } from './tenant.types.js';
+
+const storage = new AsyncLocalStorage<TenantContext>();
+
+/**
+ * Run fn with tenant as the current tenant. The tenancy plugin does this for
+ * every request that names a tenant; jobs and scripts call it themselves.
+ */
+export function runWithTenant<T>(tenant: TenantContext, fn: () => T): T {
+  return storage.run(tenant, fn);
+}
+
+/**
+ * Tenant of the current request or job, if any
+ */
+export function currentTenant(): TenantContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Tenant of the current request or job; throws TENANT_REQUIRED without one,
+ * so tenant-scoped code never falls back to unscoped queries
+ */
+export function requireTenant(): TenantContext {
+  const tenant = storage.getStore();
+  if (!tenant) {
+    throw new Error(TenantError.TENANT_REQUIRED);
+  }
+  return tenant;
+}
@@ -0,0 +1,52 @@
+import {
+  TenantContext,
+  TenantDatabaseConfig,
+  TenantError,
+  TenantIsolation,
+} from './tenant.types.js';
+
+const ISOLATION_STRATEGIES: TenantIsolation[] = ['shared', 'schema', 'database'];
+
+// Unquoted Postgres identifier that fits the 63 byte limit
+const IDENTIFIER_PATTERN = /^[a-z_][a-z0-9_]{0,62}$/;
+
+/**
+ * Isolation strategy of a tenant (shared unless configured)
+ */
+export function tenantIsolation(tenant: TenantContext): TenantIsolation {
+  return tenant.config.database?.strategy ?? 'shared';
+}
+
+/**
+ * Complete database settings for a new tenant: the strategy is checked and
+ * the schema or database is named `tenant_<slug>` unless given.
+ * Throws TENANT_INVALID_ISOLATION for unknown strategies and invalid names.
+ */
+export function resolveTenantDatabaseConfig(
+  slug: string,
+  config: Partial<TenantDatabaseConfig> = {}
+): TenantDatabaseConfig {
+  const strategy = config.strategy ?? 'shared';
+  if (!ISOLATION_STRATEGIES.includes(strategy)) {
+    throw new Error(TenantError.INVALID_ISOLATION);
+  }
+  if (strategy === 'shared') {
+    return { strategy };
+  }
+
+  const defaultName = `tenant_${slug.replace(/-/g, '_')}`;
+  const name = (strategy === 'schema' ? config.schema : config.database) ?? defaultName;
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    throw new Error(TenantError.INVALID_ISOLATION);
+  }
+
+  return strategy === 'schema' ? { strategy, schema: name } : { strategy, database: name };
+}
+
+/**
+ * Schema or database holding the data of an isolated tenant (undefined when shared)
+ */
+export function tenantStorageName(tenant: TenantContext): string | undefined {
+  const config = resolveTenantDatabaseConfig(tenant.slug, tenant.config.database);
+  return config.schema ?? config.database;
+}
@@ -0,0 +1,97 @@
+import { Knex } from 'knex';
+import { DatabaseManager, databaseManager } from '../core-database.js';
+import { KnexMigrator, TenantMigrationResult } from '../migration/migrator.js';
+import { tenantIsolation, tenantStorageName } from './tenant-isolation.js';
+import { TenantContext } from './tenant.types.js';
+
+export interface TenantProvisionerOptions {
+  // Migrations (KnexMigrator files) run in every isolated tenant; none when omitted
+  migrationsDir?: string;
+
+  // Migration history table inside each tenant (default: migrations)
+  migrationsTable?: string;
+
+  // Pool cache of the tenants (default: the databaseManager singleton)
+  databaseManager?: DatabaseManager;
+}
+
+/**
+ * Creates, migrates and drops the schema or database of isolated tenants
+ * (Postgres). `knex` is the shared database and needs the rights to create
+ * schemas or databases. Shared tenants need nothing.
+ */
+export class TenantProvisioner {
+  private manager: DatabaseManager;
+
+  constructor(
+    private knex: Knex,
+    private options: TenantProvisionerOptions = {}
+  ) {
+    this.manager = options.databaseManager ?? databaseManager;
+  }
+
+  /**
+   * Create the schema or database if missing and run pending migrations.
+   * Safe to repeat, e.g. after adding migrations.
+   */
+  async provision(tenant: TenantContext): Promise<void> {
+    const isolation = tenantIsolation(tenant);
+    if (isolation === 'shared') {
+      return;
+    }
+
+    const name = tenantStorageName(tenant) as string;
+    if (isolation === 'schema') {
+      await this.knex.raw('CREATE SCHEMA IF NOT EXISTS ??', [name]);
+    } else if (!(await this.databaseExists(name))) {
+      await this.knex.raw('CREATE DATABASE ??', [name]);
+    }
+
+    const [result] = await this.migrate([tenant]);
+    if (result?.status === 'failed') {
+      throw new Error(`Migrating tenant ${tenant.slug} failed: ${result.error}`);
+    }
+  }
+
+  /**
+   * Run pending migrations in every isolated tenant
+   */
+  async migrate(tenants: TenantContext[]): Promise<TenantMigrationResult[]> {
+    if (!this.options.migrationsDir) {
+      return tenants.map((tenant) => ({ tenantId: tenant.id, slug: tenant.slug, status: 'skipped' }));
+    }
+
+    const migrator = new KnexMigrator({
+      knex: this.knex,
+      migrationsDir: this.options.migrationsDir,
+      ...(this.options.migrationsTable && { migrationsTable: this.options.migrationsTable }),
+    });
+    return migrator.migrateTenants(tenants, this.manager);
+  }
+
+  /**
+   * Drop the schema or database of a tenant with all its data.
+   * Rows of shared tenants are kept.
+   */
+  async deprovision(tenant: TenantContext): Promise<void> {
+    const isolation = tenantIsolation(tenant);
+    if (isolation === 'shared') {
+      return;
+    }
+
+    // Connections to a database keep it from being dropped
+    await this.manager.releaseTenantKnex(tenant.id);
+
+    const name = tenantStorageName(tenant) as string;
+    if (isolation === 'schema') {
+      await this.knex.raw('DROP SCHEMA IF EXISTS ?? CASCADE', [name]);
+    } else {
+      await this.knex.raw('DROP DATABASE IF EXISTS ??', [name]);
+    }
+  }
+
+  private async databaseExists(name: string): Promise<boolean> {
+    const result = await this.knex.raw('SELECT 1 FROM pg_database WHERE datname = ?', [name]);
+    return result.rows.length > 0;
+  }
+}
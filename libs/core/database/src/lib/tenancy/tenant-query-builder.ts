@@ -0,0 +1,86 @@
+import { Knex } from 'knex';
+import { databaseManager } from '../core-database.js';
+import { requireTenant } from './tenant-context.js';
+import { tenantIsolation } from './tenant-isolation.js';
+import { TenantContext, TenantError } from './tenant.types.js';
+
+/**
+ * Row of a table shared by all tenants
+ */
+export type TenantScopedRow = Record<string, unknown> & { tenant_id?: string };
+
+/**
+ * Query builder bound to one tenant. In shared tables every query is
+ * filtered by tenant_id, inserts are stamped with it and updates cannot
+ * move rows to another tenant. Isolated tenants (schema or database) own
+ * their tables, so the Knex given must be the tenant's (see tenantQuery).
+ */
+export class TenantQueryBuilder {
+  constructor(
+    private knex: Knex,
+    readonly tenant: TenantContext
+  ) {}
+
+  get tenantId(): string {
+    return this.tenant.id;
+  }
+
+  get isolated(): boolean {
+    return tenantIsolation(this.tenant) !== 'shared';
+  }
+
+  /**
+   * Select, update or delete rows of this tenant (`table` may carry an alias: `users as u`)
+   */
+  table(tableName: string): Knex.QueryBuilder {
+    if (this.isolated) {
+      return this.knex(tableName);
+    }
+    const qualifier = tableName.split(/\s+as\s+/i).pop() as string;
+    return this.knex(tableName).where(`${qualifier}.tenant_id`, this.tenantId);
+  }
+
+  /**
+   * Insert rows owned by this tenant
+   */
+  insert(tableName: string, rows: TenantScopedRow | TenantScopedRow[]): Knex.QueryBuilder {
+    const stamped = (Array.isArray(rows) ? rows : [rows]).map((row) => {
+      const own = { ...this.ownRow(row) };
+      delete own.tenant_id;
+      return this.isolated ? own : { ...own, tenant_id: this.tenantId };
+    });
+    return this.knex(tableName).insert(stamped);
+  }
+
+  /**
+   * Update rows of this tenant; chain `.where(...)` to narrow them down
+   */
+  update(tableName: string, changes: TenantScopedRow): Knex.QueryBuilder {
+    const own = { ...this.ownRow(changes) };
+    delete own.tenant_id;
+    return this.table(tableName).update(own);
+  }
+
+  /**
+   * Run callback in a transaction that stays bound to this tenant
+   */
+  async transaction<T>(callback: (trx: TenantQueryBuilder) => Promise<T>): Promise<T> {
+    return this.knex.transaction((trx) => callback(new TenantQueryBuilder(trx, this.tenant)));
+  }
+
+  private ownRow(row: TenantScopedRow): TenantScopedRow {
+    if (row.tenant_id !== undefined && row.tenant_id !== this.tenantId) {
+      throw new Error(TenantError.CROSS_TENANT_ACCESS);
+    }
+    return row;
+  }
+}
+
+/**
+ * Query builder for the given tenant, or the tenant of the current request.
+ * `knex` is the shared database; isolated tenants get their own pool from
+ * databaseManager. Throws TENANT_REQUIRED outside a tenant context.
+ */
+export function tenantQuery(knex: Knex, tenant: TenantContext = requireTenant()): TenantQueryBuilder {
+  return new TenantQueryBuilder(databaseManager.getTenantKnex(tenant, knex), tenant);
+}
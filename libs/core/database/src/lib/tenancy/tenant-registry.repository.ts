@@ -0,0 +1,118 @@
+import { Knex } from 'knex';
+import {
+  CreateTenantInput,
+  TenantConfig,
+  TenantListQuery,
+  TenantStatus,
+  UpdateTenantInput,
+} from './tenant.types.js';
+
+/**
+ * Database Tenant Entity
+ */
+export interface DbTenant {
+  id: string;
+  slug: string;
+  name: string;
+  status: TenantStatus;
+  config: TenantConfig;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Tenant registry using Knex Query Builder
+ * Table: tenants.registry (database/migrations/014_create_tenant_registry.sql)
+ */
+export class TenantRegistryRepository {
+  constructor(
+    private knex: Knex,
+    private tableName = 'tenants.registry'
+  ) {}
+
+  /**
+   * Find tenant by ID
+   */
+  async findById(id: string): Promise<DbTenant | null> {
+    const tenant = await this.knex(this.tableName).where({ id }).first();
+    return tenant || null;
+  }
+
+  /**
+   * Find tenant by slug
+   */
+  async findBySlug(slug: string): Promise<DbTenant | null> {
+    const tenant = await this.knex(this.tableName).where({ slug }).first();
+    return tenant || null;
+  }
+
+  /**
+   * Every tenant, oldest first
+   */
+  async findAll(): Promise<DbTenant[]> {
+    return this.knex(this.tableName).select('*').orderBy('created_at', 'asc');
+  }
+
+  /**
+   * Page through tenants, newest first
+   */
+  async list(query: TenantListQuery): Promise<{ tenants: DbTenant[]; total: number }> {
+    const filtered = this.knex(this.tableName).modify((builder) => {
+      if (query.status) {
+        builder.where({ status: query.status });
+      }
+      if (query.search) {
+        const pattern = `%${query.search.replace(/[\\%_]/g, '\\$&')}%`;
+        builder.where((search) => {
+          search.whereILike('slug', pattern).orWhereILike('name', pattern);
+        });
+      }
+    });
+
+    const [tenants, countRow] = await Promise.all([
+      filtered
+        .clone()
+        .select('*')
+        .orderBy('created_at', 'desc')
+        .limit(query.limit)
+        .offset((query.page - 1) * query.limit),
+      filtered.clone().count<{ count: string | number }[]>('* as count').first(),
+    ]);
+
+    return { tenants, total: Number(countRow?.count ?? 0) };
+  }
+
+  /**
+   * Register a tenant
+   */
+  async create(input: CreateTenantInput): Promise<DbTenant> {
+    const [tenant] = await this.knex(this.tableName)
+      .insert({
+        slug: input.slug,
+        name: input.name,
+        status: input.status ?? 'active',
+        config: input.config ?? {},
+      })
+      .returning('*');
+    return tenant;
+  }
+
+  /**
+   * Update name, status or config
+   */
+  async update(id: string, changes: UpdateTenantInput): Promise<DbTenant | null> {
+    const [tenant] = await this.knex(this.tableName)
+      .where({ id })
+      .update({ ...changes, updated_at: this.knex.fn.now() })
+      .returning('*');
+    return tenant || null;
+  }
+
+  /**
+   * Remove a tenant from the registry
+   */
+  async delete(id: string): Promise<boolean> {
+    const deleted = await this.knex(this.tableName).where({ id }).delete();
+    return deleted > 0;
+  }
+}
@@ -0,0 +1,126 @@
+import { FastifyRequest } from 'fastify';
+import { RESERVED_TENANT_SLUGS, TenantSource } from './tenant.types.js';
+
+/**
+ * Verifies an access token and returns its claims (e.g. TokenService.verifyAccessToken)
+ */
+export type TenantTokenVerifier = (token: string) => object | Promise<object>;
+
+export interface TenantResolverOptions {
+  // Sources read for every request (default: jwt when verifyToken is set, header, subdomain)
+  sources?: TenantSource[];
+
+  // Request header naming the tenant by slug or id (default: x-tenant-id)
+  header?: string;
+
+  // Subdomains are only read below this domain, e.g. `aegisx.com` for `company-a.aegisx.com`
+  baseDomain?: string;
+
+  // Subdomains that name no tenant (default: RESERVED_TENANT_SLUGS)
+  ignoredSubdomains?: string[];
+
+  // Access token claim holding the tenant id or slug (default: tenantId, as TokenService issues it)
+  claim?: string;
+
+  // Required for the jwt source: unverified tokens are never trusted
+  verifyToken?: TenantTokenVerifier;
+}
+
+/**
+ * Tenant named by one source of a request
+ */
+export interface TenantCandidate {
+  source: TenantSource;
+  identifier: string;
+}
+
+/**
+ * Reads the tenant a request names from its header, subdomain and token.
+ * Sources that are absent are skipped; whether the candidates agree is up
+ * to the caller. A verified token is authoritative: when it carries no
+ * tenant, the header and subdomain are ignored.
+ */
+export class TenantResolver {
+  private sources: TenantSource[];
+  private header: string;
+  private claim: string;
+  private ignoredSubdomains: Set<string>;
+
+  constructor(private options: TenantResolverOptions = {}) {
+    if (options.sources?.includes('jwt') && !options.verifyToken) {
+      throw new Error('Tenant resolution from a JWT claim requires the verifyToken option.');
+    }
+
+    this.sources =
+      options.sources ??
+      (options.verifyToken ? ['jwt', 'header', 'subdomain'] : ['header', 'subdomain']);
+    this.header = (options.header ?? 'x-tenant-id').toLowerCase();
+    this.claim = options.claim ?? 'tenantId';
+    this.ignoredSubdomains = new Set(options.ignoredSubdomains ?? RESERVED_TENANT_SLUGS);
+  }
+
+  async identify(request: Pick<FastifyRequest, 'headers'>): Promise<TenantCandidate[]> {
+    const token = this.sources.includes('jwt') ? await this.fromToken(request) : undefined;
+    if (token && !token.tenant) {
+      return [];
+    }
+
+    const candidates: TenantCandidate[] = [];
+
+    for (const source of this.sources) {
+      const identifier =
+        source === 'header'
+          ? this.fromHeader(request)
+          : source === 'subdomain'
+            ? this.fromSubdomain(request)
+            : token?.tenant;
+
+      if (identifier) {
+        candidates.push({ source, identifier });
+      }
+    }
+
+    return candidates;
+  }
+
+  private fromHeader(request: Pick<FastifyRequest, 'headers'>): string | undefined {
+    const value = request.headers[this.header];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+
+  private fromSubdomain(request: Pick<FastifyRequest, 'headers'>): string | undefined {
+    if (!this.options.baseDomain) return undefined;
+
+    const host = (request.headers.host ?? '').toLowerCase().replace(/:\d+$/, '');
+    const suffix = `.${this.options.baseDomain.toLowerCase()}`;
+    if (!host.endsWith(suffix)) return undefined;
+
+    // Exactly one label below the base domain
+    const label = host.slice(0, -suffix.length);
+    if (!label || label.includes('.') || this.ignoredSubdomains.has(label)) {
+      return undefined;
+    }
+    return label;
+  }
+
+  // Undefined without a verified token; the tenant is unset when the token names none
+  private async fromToken(
+    request: Pick<FastifyRequest, 'headers'>
+  ): Promise<{ tenant?: string } | undefined> {
+    const authorization = request.headers.authorization;
+    if (!this.options.verifyToken || !authorization?.startsWith('Bearer ')) {
+      return undefined;
+    }
+
+    let claims: object;
+    try {
+      claims = await this.options.verifyToken(authorization.slice(7));
+    } catch {
+      // Invalid tokens are rejected by the authentication layer
+      return undefined;
+    }
+
+    const value = (claims as Record<string, unknown>)[this.claim];
+    return { tenant: typeof value === 'string' && value ? value : undefined };
+  }
+}
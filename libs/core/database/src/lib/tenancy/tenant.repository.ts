@@ -0,0 +1,88 @@
+import { Knex } from 'knex';
+import { TenantQueryBuilder, tenantQuery } from './tenant-query-builder.js';
+import { TenantContext } from './tenant.types.js';
+
+/**
+ * Row of a tenant-scoped table
+ */
+export interface TenantEntity {
+  id: string;
+  tenant_id?: string; // Only in shared tables; isolated tenants own their tables
+}
+
+export interface TenantFindOptions<T> {
+  where?: Partial<Omit<T, 'tenant_id'>>;
+  orderBy?: string;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Base repository for tenant-owned tables: shared tables with a tenant_id
+ * column, or the tables in the schema or database of an isolated tenant.
+ * Bound to the given tenant, or to the tenant of the current request on
+ * every call, so one instance can serve all requests.
+ */
+export class TenantRepository<T extends TenantEntity> {
+  constructor(
+    protected knex: Knex,
+    protected tableName: string,
+    private tenant?: TenantContext
+  ) {}
+
+  protected get db(): TenantQueryBuilder {
+    return tenantQuery(this.knex, this.tenant);
+  }
+
+  protected query(): Knex.QueryBuilder {
+    return this.db.table(this.tableName);
+  }
+
+  async findAll(options: TenantFindOptions<T> = {}): Promise<T[]> {
+    const query = this.query();
+
+    if (options.where) query.where(options.where);
+    if (options.orderBy) query.orderBy(options.orderBy, options.order ?? 'asc');
+    if (options.limit !== undefined) query.limit(options.limit);
+    if (options.offset !== undefined) query.offset(options.offset);
+
+    return query.select('*');
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const row = await this.query().where({ id }).first();
+    return row || null;
+  }
+
+  async findOne(where: Partial<Omit<T, 'tenant_id'>>): Promise<T | null> {
+    const row = await this.query().where(where).first();
+    return row || null;
+  }
+
+  async create(data: Partial<Omit<T, 'tenant_id'>>): Promise<T> {
+    const [row] = await this.db.insert(this.tableName, data).returning('*');
+    return row;
+  }
+
+  async update(id: string, changes: Partial<Omit<T, 'id' | 'tenant_id'>>): Promise<T | null> {
+    const [row] = await this.db
+      .update(this.tableName, changes)
+      .where({ id })
+      .returning('*');
+    return row || null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = await this.query().where({ id }).delete();
+    return deleted > 0;
+  }
+
+  async count(where?: Partial<Omit<T, 'tenant_id'>>): Promise<number> {
+    const query = this.query();
+    if (where) query.where(where);
+
+    const result = await query.count<{ count: string | number }[]>('* as count').first();
+    return Number(result?.count ?? 0);
+  }
+}
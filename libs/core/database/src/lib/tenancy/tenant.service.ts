@@ -0,0 +1,242 @@
+import { TenantMigrationResult } from '../migration/migrator.js';
+import { resolveTenantDatabaseConfig, tenantIsolation } from './tenant-isolation.js';
+import { TenantProvisioner } from './tenant-provisioner.js';
+import { DbTenant, TenantRegistryRepository } from './tenant-registry.repository.js';
+import {
+  CreateTenantInput,
+  RESERVED_TENANT_SLUGS,
+  TenantContext,
+  TenantError,
+  TenantListQuery,
+  UpdateTenantInput,
+} from './tenant.types.js';
+
+export interface TenantServiceOptions {
+  // How long resolved tenants are cached, in milliseconds (default: 30000, 0 disables)
+  cacheTtl?: number;
+
+  // Slugs that cannot be registered (default: RESERVED_TENANT_SLUGS)
+  reservedSlugs?: string[];
+
+  // Creates and drops schemas and databases; without it only shared tenants can be registered
+  provisioner?: TenantProvisioner;
+}
+
+// DNS label: lowercase letters, digits and inner hyphens
+const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Tenant registry: registration and lookup of tenants.
+ * Resolved tenants are cached briefly; changes made through this service
+ * invalidate the cache, changes made by other instances show up after the TTL.
+ */
+export class TenantService {
+  private cache = new Map<string, { tenant: TenantContext; expiresAt: number }>();
+  private cacheTtl: number;
+  private reservedSlugs: Set<string>;
+  private provisioner?: TenantProvisioner;
+
+  constructor(
+    private repository: TenantRegistryRepository,
+    options: TenantServiceOptions = {}
+  ) {
+    this.cacheTtl = options.cacheTtl ?? 30_000;
+    this.reservedSlugs = new Set(options.reservedSlugs ?? RESERVED_TENANT_SLUGS);
+    this.provisioner = options.provisioner;
+  }
+
+  /**
+   * Active tenant by id or slug, as named by a request
+   */
+  async resolve(identifier: string): Promise<TenantContext> {
+    const key = identifier.toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return this.ensureActive(cached.tenant);
+    }
+
+    const row = UUID_PATTERN.test(key)
+      ? await this.repository.findById(key)
+      : await this.repository.findBySlug(key);
+    if (!row) {
+      throw new Error(TenantError.TENANT_NOT_FOUND);
+    }
+
+    const tenant = this.toTenant(row);
+    if (this.cacheTtl > 0) {
+      this.cache.set(key, { tenant, expiresAt: Date.now() + this.cacheTtl });
+    }
+    return this.ensureActive(tenant);
+  }
+
+  /**
+   * Tenant by id, whatever its status
+   */
+  async getTenant(id: string): Promise<TenantContext> {
+    const row = UUID_PATTERN.test(id) ? await this.repository.findById(id) : null;
+    if (!row) {
+      throw new Error(TenantError.TENANT_NOT_FOUND);
+    }
+    return this.toTenant(row);
+  }
+
+  async listTenants(query: TenantListQuery): Promise<{ tenants: TenantContext[]; total: number }> {
+    const { tenants, total } = await this.repository.list(query);
+    return { tenants: tenants.map((row) => this.toTenant(row)), total };
+  }
+
+  /**
+   * Register a tenant; the slug must be a free, unreserved DNS label.
+   * The schema or database of an isolated tenant is provisioned before the
+   * tenant is returned; if that fails the tenant is not registered.
+   */
+  async createTenant(input: CreateTenantInput): Promise<TenantContext> {
+    const slug = input.slug.trim().toLowerCase();
+    if (!SLUG_PATTERN.test(slug) || this.reservedSlugs.has(slug)) {
+      throw new Error(TenantError.INVALID_TENANT_SLUG);
+    }
+
+    const database = resolveTenantDatabaseConfig(slug, input.config?.database);
+    if (database.strategy !== 'shared' && !this.provisioner) {
+      throw new Error(TenantError.PROVISIONING_UNAVAILABLE);
+    }
+    if (await this.repository.findBySlug(slug)) {
+      throw new Error(TenantError.TENANT_ALREADY_EXISTS);
+    }
+
+    const row = await this.repository.create({
+      ...input,
+      slug,
+      name: input.name.trim(),
+      config: { ...input.config, ...(database.strategy !== 'shared' && { database }) },
+    });
+    const tenant = this.toTenant(row);
+
+    try {
+      await this.provisioner?.provision(tenant);
+    } catch (error) {
+      await this.repository.delete(tenant.id);
+      throw error;
+    }
+    return tenant;
+  }
+
+  /**
+   * Change name, status or config. Where the data lives (config.database)
+   * is kept and cannot be changed.
+   */
+  async updateTenant(id: string, changes: UpdateTenantInput): Promise<TenantContext> {
+    const current = await this.getTenant(id);
+
+    const database = current.config.database;
+    if (
+      changes.config?.database &&
+      JSON.stringify(resolveTenantDatabaseConfig(current.slug, changes.config.database)) !==
+        JSON.stringify(resolveTenantDatabaseConfig(current.slug, database))
+    ) {
+      throw new Error(TenantError.ISOLATION_IMMUTABLE);
+    }
+
+    const row = await this.repository.update(id, {
+      ...changes,
+      ...(changes.name !== undefined && { name: changes.name.trim() }),
+      ...(changes.config && { config: { ...changes.config, ...(database && { database }) } }),
+    });
+    if (!row) {
+      throw new Error(TenantError.TENANT_NOT_FOUND);
+    }
+
+    this.invalidate(id);
+    return this.toTenant(row);
+  }
+
+  /**
+   * Remove a tenant from the registry. Its rows in shared tables are kept.
+   */
+  async deleteTenant(id: string): Promise<void> {
+    const deleted = UUID_PATTERN.test(id) && (await this.repository.delete(id));
+    if (!deleted) {
+      throw new Error(TenantError.TENANT_NOT_FOUND);
+    }
+
+    this.invalidate(id);
+  }
+
+  /**
+   * Create the schema or database of an isolated tenant if missing and run
+   * its pending migrations
+   */
+  async provisionTenant(id: string): Promise<TenantContext> {
+    const tenant = await this.getTenant(id);
+    await this.requireProvisioner(tenant)?.provision(tenant);
+    return tenant;
+  }
+
+  /**
+   * Drop the schema or database of an isolated tenant with all its data.
+   * The tenant stays registered.
+   */
+  async deprovisionTenant(id: string): Promise<TenantContext> {
+    const tenant = await this.getTenant(id);
+    await this.requireProvisioner(tenant)?.deprovision(tenant);
+    this.invalidate(id);
+    return tenant;
+  }
+
+  /**
+   * Run pending migrations in every isolated tenant
+   */
+  async migrateTenants(): Promise<TenantMigrationResult[]> {
+    const tenants = (await this.repository.findAll()).map((row) => this.toTenant(row));
+    if (!this.provisioner) {
+      if (tenants.some((tenant) => tenantIsolation(tenant) !== 'shared')) {
+        throw new Error(TenantError.PROVISIONING_UNAVAILABLE);
+      }
+      return tenants.map((tenant) => ({ tenantId: tenant.id, slug: tenant.slug, status: 'skipped' }));
+    }
+    return this.provisioner.migrate(tenants);
+  }
+
+  /**
+   * Forget cached tenants (all, or one by id)
+   */
+  invalidate(id?: string): void {
+    if (!id) {
+      this.cache.clear();
+      return;
+    }
+    for (const [key, entry] of this.cache) {
+      if (entry.tenant.id === id) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  // Shared tenants need no provisioner
+  private requireProvisioner(tenant: TenantContext): TenantProvisioner | undefined {
+    if (tenantIsolation(tenant) !== 'shared' && !this.provisioner) {
+      throw new Error(TenantError.PROVISIONING_UNAVAILABLE);
+    }
+    return this.provisioner;
+  }
+
+  private ensureActive(tenant: TenantContext): TenantContext {
+    if (tenant.status !== 'active') {
+      throw new Error(TenantError.TENANT_INACTIVE);
+    }
+    return tenant;
+  }
+
+  private toTenant(row: DbTenant): TenantContext {
+    return {
+      id: row.id,
+      slug: row.slug,
+      name: row.name,
+      status: row.status,
+      config: row.config ?? {},
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
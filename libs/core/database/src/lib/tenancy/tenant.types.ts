@@ -0,0 +1,110 @@
+/**
+ * Lifecycle of a tenant. Only active tenants can be resolved for requests.
+ */
+export type TenantStatus = 'active' | 'suspended' | 'inactive';
+
+/**
+ * Where a request names its tenant
+ * - header: X-Tenant-ID (slug or id)
+ * - subdomain: first label of the host below the base domain
+ * - jwt: claim of a verified access token
+ */
+export type TenantSource = 'header' | 'subdomain' | 'jwt';
+
+/**
+ * How the data of a tenant is kept apart
+ * - shared: tables shared by all tenants, rows scoped by tenant_id
+ * - schema: a Postgres schema per tenant, selected through search_path
+ * - database: a database per tenant
+ */
+export type TenantIsolation = 'shared' | 'schema' | 'database';
+
+/**
+ * Where the data of a tenant lives. Fixed when the tenant is registered.
+ */
+export interface TenantDatabaseConfig {
+  strategy: TenantIsolation;
+  schema?: string; // schema strategy (default: tenant_<slug>)
+  database?: string; // database strategy (default: tenant_<slug>)
+}
+
+/**
+ * Per-tenant limits, enforced by the features that use them
+ */
+export interface TenantLimits {
+  maxUsers?: number;
+  maxStorage?: number; // Bytes
+  apiRateLimit?: number; // Requests per minute
+}
+
+/**
+ * Free-form tenant settings stored as JSON
+ */
+export interface TenantConfig {
+  database?: TenantDatabaseConfig; // default: shared
+  limits?: TenantLimits;
+  [key: string]: unknown;
+}
+
+/**
+ * Tenant as stored in the registry and bound to a request
+ */
+export interface TenantContext {
+  id: string;
+  slug: string; // Subdomain and header value, e.g. `company-a`
+  name: string;
+  status: TenantStatus;
+  config: TenantConfig;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Input for registering a tenant
+ */
+export interface CreateTenantInput {
+  slug: string;
+  name: string;
+  status?: TenantStatus; // default: active
+  config?: TenantConfig;
+}
+
+/**
+ * Changes to a tenant; the slug and id never change
+ */
+export interface UpdateTenantInput {
+  name?: string;
+  status?: TenantStatus;
+  config?: TenantConfig;
+}
+
+/**
+ * Registry listing
+ */
+export interface TenantListQuery {
+  page: number; // From 1
+  limit: number;
+  status?: TenantStatus;
+  search?: string; // Part of the slug or name
+}
+
+/**
+ * Labels that name no tenant: never registered as slugs, ignored as subdomains
+ */
+export const RESERVED_TENANT_SLUGS = ['www', 'api', 'admin'];
+
+/**
+ * Tenancy error codes (Error.message)
+ */
+export enum TenantError {
+  TENANT_REQUIRED = 'TENANT_REQUIRED',
+  TENANT_NOT_FOUND = 'TENANT_NOT_FOUND',
+  TENANT_INACTIVE = 'TENANT_INACTIVE',
+  TENANT_MISMATCH = 'TENANT_MISMATCH',
+  TENANT_ALREADY_EXISTS = 'TENANT_ALREADY_EXISTS',
+  INVALID_TENANT_SLUG = 'TENANT_INVALID_SLUG',
+  CROSS_TENANT_ACCESS = 'TENANT_CROSS_TENANT_ACCESS',
+  INVALID_ISOLATION = 'TENANT_INVALID_ISOLATION',
+  ISOLATION_IMMUTABLE = 'TENANT_ISOLATION_IMMUTABLE',
+  PROVISIONING_UNAVAILABLE = 'TENANT_PROVISIONING_UNAVAILABLE',
+}
@@ -69,7 +69,7 @@ export class LoggerManager {
   }
 
   private createLogger(): Logger {
-    const isDevelopment = config?.isDevelopment() ?? process.env.NODE_ENV === 'development';
+    const isDevelopment = config?.isDevelopment() ?? process.env['NODE_ENV'] === 'development';
 
     const options: LoggerOptions = {
       level: this.config.level,
@@ -1 +1,29 @@
+// Export types
+export * from './lib/types/rbac.types.js';
+export * from './lib/types/policy.types.js';
+
+// Export repositories
+export * from './lib/repositories/rbac.repository.js';
+
+// Export permission cache
+export * from './lib/cache/permission-cache.js';
+export * from './lib/cache/redis-permission-cache.store.js';
+
+// Export services
+export * from './lib/services/rbac.service.js';
+export * from './lib/services/policy.service.js';
+
+// Export utilities
+export * from './lib/utils/permission.utils.js';
+export * from './lib/utils/policy.utils.js';
+export * from './lib/utils/policy.dsl.js';
+
+// Fastify plugin (route-level authorization)
+export { default as rbacPlugin } from './lib/fastify-rbac.plugin.js';
+export type {
+  RbacPluginOptions,
+  AuthorizeHandler,
+} from './lib/fastify-rbac.plugin.js';
+
+// Export main function
 export * from './lib/core-rbac.js';
@@ -0,0 +1,169 @@
+import { EffectivePermissions } from '../types/rbac.types.js';
+
+/**
+ * Key/value store backing the permission cache
+ */
+export interface PermissionCacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  increment(key: string): Promise<number>;
+
+  // Drop every key with the prefix; stores whose keys expire by themselves may omit it
+  deletePrefix?(prefix: string): Promise<void>;
+}
+
+export interface PermissionCacheOptions {
+  ttlSeconds?: number; // default: 300
+  keyPrefix?: string; // default: 'rbac:'
+}
+
+/**
+ * In-memory store (single process, default)
+ */
+export class InMemoryPermissionCacheStore implements PermissionCacheStore {
+  private entries = new Map<string, { value: string; expiresAt?: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.prune();
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  async increment(key: string): Promise<number> {
+    const current = parseInt((await this.get(key)) ?? '0', 10);
+    const next = current + 1;
+    this.entries.set(key, { value: String(next) });
+    return next;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Effective-permission cache keyed by user.
+ *
+ * Entries expire after the TTL. Changes that may affect many users
+ * (role grants, inheritance) bump a generation number that is part of
+ * every key; changes that affect a single user (role assignment) bump
+ * that user's own generation, also part of their key. Stale entries are
+ * never read again. getOrLoad reads both generations once, so permissions
+ * computed while either changes are stored under the old key and never served.
+ */
+export class PermissionCache {
+  private readonly ttlSeconds: number;
+  private readonly keyPrefix: string;
+
+  constructor(
+    private store: PermissionCacheStore = new InMemoryPermissionCacheStore(),
+    options: PermissionCacheOptions = {}
+  ) {
+    this.ttlSeconds = options.ttlSeconds ?? 300;
+    this.keyPrefix = options.keyPrefix ?? 'rbac:';
+  }
+
+  async get(userId: string): Promise<EffectivePermissions | null> {
+    return this.read(await this.userKey(userId));
+  }
+
+  async set(userId: string, permissions: EffectivePermissions): Promise<void> {
+    await this.write(await this.userKey(userId), permissions);
+  }
+
+  /**
+   * Cached permissions of a user, or those returned by `load`, which
+   * are cached under the generation current when the lookup began
+   */
+  async getOrLoad(
+    userId: string,
+    load: () => Promise<EffectivePermissions>
+  ): Promise<EffectivePermissions> {
+    const key = await this.userKey(userId);
+
+    const cached = await this.read(key);
+    if (cached) return cached;
+
+    const permissions = await load();
+    await this.write(key, permissions);
+    return permissions;
+  }
+
+  /**
+   * Drop the cached permissions of one user
+   */
+  async invalidateUser(userId: string): Promise<void> {
+    const previous = await this.userKey(userId);
+    await this.store.increment(this.userGenerationKey(userId));
+    await this.store.delete(previous);
+  }
+
+  /**
+   * Drop the cached permissions of every user
+   */
+  async invalidateAll(): Promise<void> {
+    const generation = await this.store.increment(this.generationKey());
+    await this.store.deletePrefix?.(this.generationPrefix(String(generation - 1)));
+  }
+
+  private async read(key: string): Promise<EffectivePermissions | null> {
+    const raw = await this.store.get(key);
+    if (!raw) return null;
+
+    try {
+      return JSON.parse(raw) as EffectivePermissions;
+    } catch {
+      return null;
+    }
+  }
+
+  private async write(key: string, permissions: EffectivePermissions): Promise<void> {
+    await this.store.set(key, JSON.stringify(permissions), this.ttlSeconds);
+  }
+
+  private async userKey(userId: string): Promise<string> {
+    const [generation, userGeneration] = await Promise.all([
+      this.store.get(this.generationKey()),
+      this.store.get(this.userGenerationKey(userId)),
+    ]);
+    return `${this.generationPrefix(generation ?? '0')}${userId}:${userGeneration ?? '0'}`;
+  }
+
+  private generationPrefix(generation: string): string {
+    return `${this.keyPrefix}permissions:${generation}:`;
+  }
+
+  private generationKey(): string {
+    return `${this.keyPrefix}permissions:generation`;
+  }
+
+  // Outside the generation prefixes, so invalidateAll keeps it
+  private userGenerationKey(userId: string): string {
+    return `${this.keyPrefix}permissions:generation:${userId}`;
+  }
+}
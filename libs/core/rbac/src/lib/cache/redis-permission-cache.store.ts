@@ -0,0 +1,36 @@
+import { PermissionCacheStore } from './permission-cache.js';
+
+/**
+ * Subset of the Redis client API used by the cache (ioredis compatible)
+ */
+export interface RedisClientLike {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'EX', ttlSeconds: number): Promise<unknown>;
+  del(key: string): Promise<number>;
+  incr(key: string): Promise<number>;
+}
+
+/**
+ * Redis backed store, shared by every API instance.
+ * Key prefixing is left to the client (e.g. ioredis `keyPrefix`
+ * from the `redis.keyPrefix` config).
+ */
+export class RedisPermissionCacheStore implements PermissionCacheStore {
+  constructor(private client: RedisClientLike) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.client.set(key, value, 'EX', ttlSeconds);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(key);
+  }
+
+  async increment(key: string): Promise<number> {
+    return this.client.incr(key);
+  }
+}
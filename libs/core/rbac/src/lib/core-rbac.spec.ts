@@ -1,7 +1,759 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import knex from 'knex';
+import {
+  InMemoryPermissionCacheStore,
+  PermissionCache,
+} from './cache/permission-cache.js';
+import {
+  RedisClientLike,
+  RedisPermissionCacheStore,
+} from './cache/redis-permission-cache.store.js';
 import { coreRbac } from './core-rbac.js';
+import rbacPlugin from './fastify-rbac.plugin.js';
+import {
+  DbPermission,
+  DbRole,
+  RbacRepository,
+} from './repositories/rbac.repository.js';
+import { PolicyService } from './services/policy.service.js';
+import { RbacService } from './services/rbac.service.js';
+import { Policy } from './types/policy.types.js';
+import { RbacError } from './types/rbac.types.js';
+import { PermissionUtils } from './utils/permission.utils.js';
+import {
+  allOf,
+  anyOf,
+  contextRef,
+  field,
+  not,
+  subjectRef,
+} from './utils/policy.dsl.js';
+import { PolicyUtils } from './utils/policy.utils.js';
+
+/**
+ * In-memory stand-in for the Knex backed repository
+ */
+function createInMemoryRepository() {
+  const roles: DbRole[] = [];
+  const permissions: DbPermission[] = [];
+  const rolePermissions: { role_id: string; permission_id: string }[] = [];
+  const userRoles: { user_id: string; role_id: string }[] = [];
+  let sequence = 0;
+
+  const repository = {
+    findRoleById: async (id: string) => roles.find((r) => r.id === id) ?? null,
+    findRoleByName: async (name: string) =>
+      roles.find((r) => r.name === name) ?? null,
+    findRolesByIds: async (ids: string[]) =>
+      roles.filter((r) => ids.includes(r.id)),
+    findRolesByNames: async (names: string[]) =>
+      roles.filter((r) => names.includes(r.name)),
+    listRoles: async () => [...roles],
+    createRole: async (input: {
+      name: string;
+      description?: string;
+      parentId?: string;
+      isSystem?: boolean;
+    }) => {
+      const role: DbRole = {
+        id: `role-${++sequence}`,
+        name: input.name,
+        description: input.description ?? null,
+        parent_id: input.parentId ?? null,
+        is_system: input.isSystem ?? false,
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+      roles.push(role);
+      return role;
+    },
+    setRoleParent: async (roleId: string, parentId: string | null) => {
+      const role = roles.find((r) => r.id === roleId);
+      if (role) role.parent_id = parentId;
+    },
+    deleteRole: async (id: string) => {
+      roles.splice(
+        roles.findIndex((r) => r.id === id),
+        1
+      );
+    },
+    findPermission: async (resource: string, action: string) =>
+      permissions.find((p) => p.resource === resource && p.action === action) ??
+      null,
+    listPermissions: async () => [...permissions],
+    createPermission: async (input: {
+      resource: string;
+      action: string;
+      description?: string;
+    }) => {
+      const permission: DbPermission = {
+        id: `perm-${++sequence}`,
+        resource: input.resource,
+        action: input.action,
+        description: input.description ?? null,
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+      permissions.push(permission);
+      return permission;
+    },
+    grantPermission: async (roleId: string, permissionId: string) => {
+      rolePermissions.push({ role_id: roleId, permission_id: permissionId });
+    },
+    revokePermission: async (roleId: string, permissionId: string) => {
+      const index = rolePermissions.findIndex(
+        (rp) => rp.role_id === roleId && rp.permission_id === permissionId
+      );
+      if (index >= 0) rolePermissions.splice(index, 1);
+    },
+    getPermissionsForRoles: async (roleIds: string[]) =>
+      rolePermissions
+        .filter((rp) => roleIds.includes(rp.role_id))
+        .flatMap((rp) =>
+          permissions
+            .filter((p) => p.id === rp.permission_id)
+            .map((p) => ({ ...p, role_id: rp.role_id }))
+        ),
+    assignRole: async (userId: string, roleId: string) => {
+      userRoles.push({ user_id: userId, role_id: roleId });
+    },
+    removeRole: async (userId: string, roleId: string) => {
+      const index = userRoles.findIndex(
+        (ur) => ur.user_id === userId && ur.role_id === roleId
+      );
+      if (index >= 0) userRoles.splice(index, 1);
+    },
+    getUserRoles: async (userId: string) =>
+      userRoles
+        .filter((ur) => ur.user_id === userId)
+        .flatMap((ur) => roles.filter((r) => r.id === ur.role_id)),
+  };
+
+  return repository as unknown as RbacRepository;
+}
 
 describe('coreRbac', () => {
   it('should work', () => {
     expect(coreRbac()).toEqual('core-rbac');
   });
 });
+
+describe('PermissionUtils', () => {
+  it('should parse resource:action', () => {
+    expect(PermissionUtils.parse('users:read')).toEqual({
+      resource: 'users',
+      action: 'read',
+    });
+  });
+
+  it('should reject malformed permissions', () => {
+    expect(() => PermissionUtils.parse('users')).toThrow(
+      RbacError.INVALID_PERMISSION
+    );
+    expect(() => PermissionUtils.parse('users:read:own')).toThrow(
+      RbacError.INVALID_PERMISSION
+    );
+    expect(PermissionUtils.isValid(':read')).toBe(false);
+  });
+
+  it('should match wildcards', () => {
+    expect(PermissionUtils.matches('users:*', 'users:delete')).toBe(true);
+    expect(PermissionUtils.matches('*:read', 'orders:read')).toBe(true);
+    expect(PermissionUtils.matches('*:*', 'orders:delete')).toBe(true);
+    expect(PermissionUtils.matches('users:read', 'users:update')).toBe(false);
+    expect(PermissionUtils.matches('users:read', 'orders:read')).toBe(false);
+  });
+});
+
+describe('RbacService', () => {
+  let rbac: RbacService;
+  const user = { id: 'user-1' };
+
+  beforeEach(async () => {
+    rbac = new RbacService(createInMemoryRepository());
+
+    const viewer = await rbac.createRole({ name: 'viewer' });
+    await rbac.createRole({ name: 'editor', parentId: viewer.id });
+    await rbac.createRole({ name: 'root', isSystem: true });
+
+    await rbac.createPermission('users:read');
+    await rbac.createPermission('users:update');
+    await rbac.createPermission('*:*');
+
+    await rbac.grantPermission('viewer', 'users:read');
+    await rbac.grantPermission('editor', 'users:update');
+    await rbac.grantPermission('root', '*:*');
+  });
+
+  describe('can', () => {
+    it('should deny users without roles', async () => {
+      expect(await rbac.can(user, 'read', 'users')).toBe(false);
+    });
+
+    it('should allow directly granted permissions', async () => {
+      await rbac.assignRole(user.id, 'viewer');
+
+      expect(await rbac.can(user, 'read', 'users')).toBe(true);
+      expect(await rbac.can(user, 'update', 'users')).toBe(false);
+    });
+
+    it('should allow permissions inherited from parent roles', async () => {
+      await rbac.assignRole(user.id, 'editor');
+
+      expect(await rbac.can(user, 'read', 'users')).toBe(true);
+      expect(await rbac.can(user, 'update', 'users')).toBe(true);
+    });
+
+    it('should honour wildcard grants', async () => {
+      await rbac.assignRole(user.id, 'root');
+
+      expect(await rbac.can(user, 'delete', 'orders')).toBe(true);
+    });
+
+    it('should stop allowing after role removal', async () => {
+      await rbac.assignRole(user.id, 'viewer');
+      await rbac.removeRole(user.id, 'viewer');
+
+      expect(await rbac.can(user, 'read', 'users')).toBe(false);
+    });
+  });
+
+  describe('getEffectivePermissions', () => {
+    it('should include inherited roles and permissions', async () => {
+      await rbac.assignRole(user.id, 'editor');
+
+      const effective = await rbac.getEffectivePermissions(user.id);
+
+      expect(effective.roles.sort()).toEqual(['editor', 'viewer']);
+      expect(effective.permissions.sort()).toEqual([
+        'users:read',
+        'users:update',
+      ]);
+    });
+
+    it('should change the permission version with the roles', async () => {
+      const initial = await rbac.getPermissionVersion(user.id);
+
+      await rbac.assignRole(user.id, 'editor');
+      const withEditor = await rbac.getPermissionVersion(user.id);
+      await rbac.removeRole(user.id, 'editor');
+
+      expect(withEditor).not.toBe(initial);
+      expect(await rbac.getPermissionVersion(user.id)).toBe(initial);
+      expect(Number.isInteger(initial)).toBe(true);
+    });
+  });
+
+  describe('canAll / canAny', () => {
+    it('should evaluate permission lists', async () => {
+      await rbac.assignRole(user.id, 'viewer');
+
+      expect(await rbac.canAll(user, ['users:read', 'users:update'])).toBe(
+        false
+      );
+      expect(await rbac.canAny(user, ['users:read', 'users:update'])).toBe(
+        true
+      );
+    });
+  });
+
+  describe('scoped subjects', () => {
+    it('should cap role permissions with the subject scopes', async () => {
+      await rbac.assignRole(user.id, 'root');
+      const scoped = { id: user.id, scopes: ['users:read'] };
+
+      expect(await rbac.can(scoped, 'read', 'users')).toBe(true);
+      expect(await rbac.can(scoped, 'update', 'users')).toBe(false);
+      expect(await rbac.canAll(scoped, ['users:read', 'orders:read'])).toBe(
+        false
+      );
+    });
+
+    it('should not let scopes exceed role permissions', async () => {
+      await rbac.assignRole(user.id, 'viewer');
+
+      expect(
+        await rbac.can({ id: user.id, scopes: ['*:*'] }, 'update', 'users')
+      ).toBe(false);
+    });
+
+    it('should grant nothing with an empty scope list', async () => {
+      await rbac.assignRole(user.id, 'root');
+
+      // e.g. an OAuth token granted only `profile`
+      expect(await rbac.can({ id: user.id, scopes: [] }, 'read', 'users')).toBe(false);
+    });
+
+    it('should check service accounts against the roles of their owner', async () => {
+      await rbac.assignRole(user.id, 'viewer');
+      const service = {
+        id: 'service-1',
+        ownerId: user.id,
+        scopes: ['users:*'],
+      };
+
+      expect(await rbac.can(service, 'read', 'users')).toBe(true);
+      expect(await rbac.can(service, 'update', 'users')).toBe(false);
+      expect(await rbac.can({ id: 'service-1' }, 'read', 'users')).toBe(false);
+    });
+  });
+
+  describe('role management', () => {
+    it('should reject duplicate roles', async () => {
+      await expect(rbac.createRole({ name: 'viewer' })).rejects.toThrow(
+        RbacError.ROLE_ALREADY_EXISTS
+      );
+    });
+
+    it('should reject inheritance cycles', async () => {
+      await expect(rbac.setRoleParent('viewer', 'editor')).rejects.toThrow(
+        RbacError.ROLE_HIERARCHY_CYCLE
+      );
+    });
+
+    it('should protect system roles from deletion', async () => {
+      await expect(rbac.deleteRole('root')).rejects.toThrow(
+        RbacError.SYSTEM_ROLE_PROTECTED
+      );
+    });
+
+    it('should fail when granting unknown permissions', async () => {
+      await expect(
+        rbac.grantPermission('viewer', 'orders:read')
+      ).rejects.toThrow(RbacError.PERMISSION_NOT_FOUND);
+    });
+  });
+});
+
+describe('PermissionCache', () => {
+  const user = { id: 'user-1' };
+  let repository: RbacRepository;
+  let rbac: RbacService;
+
+  beforeEach(async () => {
+    repository = createInMemoryRepository();
+    rbac = new RbacService(repository, new PermissionCache());
+
+    await rbac.createRole({ name: 'viewer' });
+    await rbac.createRole({ name: 'editor' });
+    await rbac.createPermission('users:read');
+    await rbac.createPermission('users:update');
+    await rbac.grantPermission('viewer', 'users:read');
+  });
+
+  it('should serve repeated checks from the cache', async () => {
+    await rbac.assignRole(user.id, 'viewer');
+    const spy = jest.spyOn(repository, 'getUserRoles');
+
+    await rbac.can(user, 'read', 'users');
+    await rbac.can(user, 'read', 'users');
+
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should invalidate a user on role assignment and removal', async () => {
+    expect(await rbac.can(user, 'read', 'users')).toBe(false);
+
+    await rbac.assignRole(user.id, 'viewer');
+    expect(await rbac.can(user, 'read', 'users')).toBe(true);
+
+    await rbac.removeRole(user.id, 'viewer');
+    expect(await rbac.can(user, 'read', 'users')).toBe(false);
+  });
+
+  it('should invalidate every user on grant and revoke', async () => {
+    await rbac.assignRole(user.id, 'editor');
+    expect(await rbac.can(user, 'update', 'users')).toBe(false);
+
+    await rbac.grantPermission('editor', 'users:update');
+    expect(await rbac.can(user, 'update', 'users')).toBe(true);
+
+    await rbac.revokePermission('editor', 'users:update');
+    expect(await rbac.can(user, 'update', 'users')).toBe(false);
+  });
+
+  it('should invalidate every user on inheritance changes', async () => {
+    await rbac.assignRole(user.id, 'editor');
+    expect(await rbac.can(user, 'read', 'users')).toBe(false);
+
+    await rbac.setRoleParent('editor', 'viewer');
+    expect(await rbac.can(user, 'read', 'users')).toBe(true);
+  });
+
+  it('should not cache permissions computed across a revoke', async () => {
+    await rbac.assignRole(user.id, 'editor');
+    await rbac.grantPermission('editor', 'users:update');
+
+    // The revoke lands while the permissions are being computed
+    const getPermissionsForRoles = repository.getPermissionsForRoles.bind(repository);
+    jest.spyOn(repository, 'getPermissionsForRoles').mockImplementationOnce(async (roleIds) => {
+      const permissions = await getPermissionsForRoles(roleIds);
+      await rbac.revokePermission('editor', 'users:update');
+      return permissions;
+    });
+
+    await rbac.can(user, 'update', 'users');
+    expect(await rbac.can(user, 'update', 'users')).toBe(false);
+  });
+
+  it('should not cache permissions computed across a role removal', async () => {
+    await rbac.assignRole(user.id, 'viewer');
+
+    // The removal lands while the permissions are being computed
+    const getPermissionsForRoles = repository.getPermissionsForRoles.bind(repository);
+    jest.spyOn(repository, 'getPermissionsForRoles').mockImplementationOnce(async (roleIds) => {
+      const permissions = await getPermissionsForRoles(roleIds);
+      await rbac.removeRole(user.id, 'viewer');
+      return permissions;
+    });
+
+    await rbac.can(user, 'read', 'users');
+    expect(await rbac.can(user, 'read', 'users')).toBe(false);
+  });
+
+  it('should drop entries of the previous generation', async () => {
+    const store = new InMemoryPermissionCacheStore();
+    const cache = new PermissionCache(store);
+    await cache.set(user.id, { userId: user.id, roles: [], permissions: [] });
+
+    await cache.invalidateAll();
+
+    expect(await store.get('rbac:permissions:0:user-1:0')).toBeNull();
+    expect(await store.get('rbac:permissions:generation')).toBe('1');
+  });
+
+  it('should expire entries after the TTL', async () => {
+    jest.useFakeTimers();
+    try {
+      const cache = new PermissionCache(new InMemoryPermissionCacheStore(), {
+        ttlSeconds: 60,
+      });
+      await cache.set(user.id, { userId: user.id, roles: [], permissions: [] });
+
+      jest.advanceTimersByTime(59_000);
+      expect(await cache.get(user.id)).not.toBeNull();
+
+      jest.advanceTimersByTime(2_000);
+      expect(await cache.get(user.id)).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should work with a Redis store', async () => {
+    const data = new Map<string, string>();
+    const client: RedisClientLike = {
+      get: async (key) => data.get(key) ?? null,
+      set: async (key, value) => data.set(key, value),
+      del: async (key) => Number(data.delete(key)),
+      incr: async (key) => {
+        const next = Number(data.get(key) ?? 0) + 1;
+        data.set(key, String(next));
+        return next;
+      },
+    };
+    const cache = new PermissionCache(new RedisPermissionCacheStore(client));
+    const effective = { userId: user.id, roles: ['viewer'], permissions: [] };
+
+    await cache.set(user.id, effective);
+    expect(await cache.get(user.id)).toEqual(effective);
+    expect(data.has('rbac:permissions:0:user-1:0')).toBe(true);
+
+    await cache.invalidateAll();
+    expect(await cache.get(user.id)).toBeNull();
+  });
+});
+
+describe('rbacPlugin', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    const rbac = new RbacService(createInMemoryRepository());
+    await rbac.createRole({ name: 'viewer' });
+    await rbac.createPermission('users:read');
+    await rbac.createPermission('users:delete');
+    await rbac.grantPermission('viewer', 'users:read');
+    await rbac.assignRole('user-1', 'viewer');
+
+    app = Fastify({ logger: false });
+
+    // Stand-in for JWT authentication
+    app.addHook('onRequest', async (request) => {
+      const userId = request.headers['x-user-id'];
+      if (typeof userId === 'string') {
+        (request as unknown as { user: { id: string } }).user = { id: userId };
+      }
+    });
+
+    await app.register(rbacPlugin, { rbacService: rbac });
+
+    app.get(
+      '/users',
+      { config: { permissions: ['users:read'] } },
+      async () => ({ ok: true })
+    );
+    app.delete(
+      '/users/:id',
+      { preHandler: app.authorize('users:delete') },
+      async () => ({ ok: true })
+    );
+    app.get('/public', async () => ({ ok: true }));
+
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should allow routes when the subject holds the permission', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/users',
+      headers: { 'x-user-id': 'user-1' },
+    });
+
+    expect(response.statusCode).toBe(200);
+  });
+
+  it('should return 403 envelope when permission is missing', async () => {
+    const response = await app.inject({
+      method: 'DELETE',
+      url: '/users/42',
+      headers: { 'x-user-id': 'user-1' },
+    });
+
+    expect(response.statusCode).toBe(403);
+    const payload = response.json();
+    expect(payload.error).toBe('ForbiddenError');
+    expect(payload.statusCode).toBe(403);
+    expect(payload.message).toContain('users:delete');
+    expect(payload).toHaveProperty('timestamp');
+  });
+
+  it('should return 401 when there is no authenticated subject', async () => {
+    const response = await app.inject({ method: 'GET', url: '/users' });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json().error).toBe('UnauthorizedError');
+  });
+
+  it('should leave routes without permissions untouched', async () => {
+    const response = await app.inject({ method: 'GET', url: '/public' });
+
+    expect(response.statusCode).toBe(200);
+  });
+
+  it('should reject malformed permissions at registration', () => {
+    expect(() => app.authorize('users')).toThrow(RbacError.INVALID_PERMISSION);
+  });
+});
+
+describe('PolicyUtils', () => {
+  const subject = { id: 'user-1', tenantId: 'tenant-a' };
+
+  it('should evaluate field conditions against subject references', () => {
+    const ownRecord = field('owner_id').eq(subjectRef('id'));
+
+    expect(
+      PolicyUtils.evaluate(ownRecord, { subject, resource: { owner_id: 'user-1' } })
+    ).toBe(true);
+    expect(
+      PolicyUtils.evaluate(ownRecord, { subject, resource: { owner_id: 'user-2' } })
+    ).toBe(false);
+  });
+
+  it('should combine conditions with and / or / not', () => {
+    const condition = allOf(
+      field('tenant_id').eq(subjectRef('tenantId')),
+      anyOf(field('status').in(['draft', 'review']), field('priority').gte(5)),
+      not(field('archived_at').exists())
+    );
+
+    const resource = {
+      tenant_id: 'tenant-a',
+      status: 'published',
+      priority: 7,
+      archived_at: null,
+    };
+
+    expect(PolicyUtils.evaluate(condition, { subject, resource })).toBe(true);
+    expect(
+      PolicyUtils.evaluate(condition, {
+        subject,
+        resource: { ...resource, priority: 1 },
+      })
+    ).toBe(false);
+  });
+
+  it('should resolve context references', () => {
+    const condition = field('department').eq(contextRef('department'));
+
+    expect(
+      PolicyUtils.evaluate(condition, {
+        subject,
+        resource: { department: 'icu' },
+        context: { department: 'icu' },
+      })
+    ).toBe(true);
+  });
+
+  it('should never match unresolved references', () => {
+    const condition = field('tenant_id').eq(subjectRef('tenantId'));
+
+    expect(
+      PolicyUtils.evaluate(condition, {
+        subject: { id: 'user-1' },
+        resource: { tenant_id: undefined },
+      })
+    ).toBe(false);
+  });
+
+  it('should compile conditions into Knex where clauses', () => {
+    const db = knex({ client: 'pg' });
+    const condition = allOf(
+      field('tenant_id').eq(subjectRef('tenantId')),
+      anyOf(field('owner_id').eq(subjectRef('id')), field('status').in(['public']))
+    );
+
+    const { sql, bindings } = PolicyUtils.applyToQuery(
+      db('records'),
+      condition,
+      { subject },
+      { table: 'records' }
+    )
+      .toSQL()
+      .toNative();
+
+    expect(sql).toBe(
+      'select * from "records" where (("records"."tenant_id" = $1) and (("records"."owner_id" = $2) or ("records"."status" in ($3))))'
+    );
+    expect(bindings).toEqual(['tenant-a', 'user-1', 'public']);
+  });
+
+  it('should compile unresolved references to an empty result', () => {
+    const db = knex({ client: 'pg' });
+
+    const { sql } = PolicyUtils.applyToQuery(
+      db('records'),
+      field('tenant_id').eq(subjectRef('tenantId')),
+      { subject: { id: 'user-1' } }
+    ).toSQL();
+
+    expect(sql).toContain('1 = 0');
+  });
+
+  it('should compile a negated empty and to an empty result, like evaluate', () => {
+    const db = knex({ client: 'pg' });
+
+    for (const condition of [not(allOf()), not(allOf(allOf()))]) {
+      expect(PolicyUtils.evaluate(condition, { subject, resource: {} })).toBe(false);
+
+      const { sql } = PolicyUtils.applyToQuery(db('records'), condition, { subject }).toSQL();
+
+      expect(sql).toBe('select * from "records" where (1 = 0)');
+    }
+  });
+
+  it('should keep rows with a NULL column under a negation, like evaluate', () => {
+    const db = knex({ client: 'pg' });
+    const condition = not(anyOf(field('owner_id').eq(subjectRef('id')), field('level').gt(3)));
+
+    expect(
+      PolicyUtils.evaluate(condition, { subject, resource: { owner_id: null, level: null } })
+    ).toBe(true);
+
+    const { sql } = PolicyUtils.applyToQuery(db('records'), condition, { subject })
+      .toSQL()
+      .toNative();
+
+    // NOT (NULL = $1) would be unknown and drop the row
+    expect(sql).toBe(
+      'select * from "records" where (not (("owner_id" is not null and "owner_id" = $1) or ("level" is not null and "level" > $2)))'
+    );
+  });
+});
+
+describe('PolicyService', () => {
+  let rbac: RbacService;
+  let policies: PolicyService;
+  const subject = { id: 'user-1', tenantId: 'tenant-a' };
+
+  const ownRecords: Policy = {
+    name: 'update-own-records',
+    permission: 'records:update',
+    condition: field('owner_id').eq(subjectRef('id')),
+  };
+
+  const sameTenant: Policy = {
+    name: 'same-tenant',
+    permission: 'records:*',
+    effect: 'deny',
+    condition: field('tenant_id').ne(subjectRef('tenantId')),
+  };
+
+  beforeEach(async () => {
+    rbac = new RbacService(createInMemoryRepository());
+    await rbac.createRole({ name: 'clerk' });
+    await rbac.createPermission('records:update');
+    await rbac.createPermission('records:read');
+    await rbac.grantPermission('clerk', 'records:update');
+    await rbac.grantPermission('clerk', 'records:read');
+    await rbac.assignRole(subject.id, 'clerk');
+
+    policies = new PolicyService(rbac, [ownRecords, sameTenant]);
+  });
+
+  it('should allow when RBAC grants and an allow policy matches', async () => {
+    const record = { owner_id: 'user-1', tenant_id: 'tenant-a' };
+
+    expect(await policies.authorize(subject, 'records:update', record)).toBe(
+      true
+    );
+  });
+
+  it('should deny when no allow policy matches', async () => {
+    const record = { owner_id: 'user-2', tenant_id: 'tenant-a' };
+
+    expect(await policies.authorize(subject, 'records:update', record)).toBe(
+      false
+    );
+  });
+
+  it('should deny when a deny policy matches', async () => {
+    const record = { owner_id: 'user-1', tenant_id: 'tenant-b' };
+
+    expect(await policies.authorize(subject, 'records:update', record)).toBe(
+      false
+    );
+  });
+
+  it('should deny without the RBAC permission', async () => {
+    const record = { owner_id: 'user-1', tenant_id: 'tenant-a' };
+
+    expect(
+      await policies.authorize({ id: 'user-2' }, 'records:update', record)
+    ).toBe(false);
+  });
+
+  it('should scope list queries with allow and deny policies', async () => {
+    const db = knex({ client: 'pg' });
+
+    const query = db('records');
+    await policies.scopeQuery(query, subject, 'records:read');
+    const { sql, bindings } = query.toSQL().toNative();
+
+    expect(sql).toContain('not');
+    expect(sql).toContain('"tenant_id"');
+    expect(bindings).toEqual(['tenant-a']);
+  });
+
+  it('should scope queries to nothing without the RBAC permission', async () => {
+    const db = knex({ client: 'pg' });
+
+    const query = db('records');
+    await policies.scopeQuery(query, { id: 'user-2' }, 'records:read');
+
+    expect(query.toSQL().sql).toContain('1 = 0');
+  });
+});
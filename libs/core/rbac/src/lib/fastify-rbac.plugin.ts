@@ -0,0 +1,128 @@
+import fp from 'fastify-plugin';
+import { Knex } from 'knex';
+import {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+  RouteOptions,
+} from 'fastify';
+import { PermissionCache } from './cache/permission-cache.js';
+import { RbacRepository } from './repositories/rbac.repository.js';
+import { PolicyService } from './services/policy.service.js';
+import { RbacService } from './services/rbac.service.js';
+import { Policy } from './types/policy.types.js';
+import { RbacSubject } from './types/rbac.types.js';
+import { PermissionUtils } from './utils/permission.utils.js';
+
+export type AuthorizeHandler = (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => Promise<void>;
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    rbac: RbacService;
+    policies: PolicyService;
+    authorize: (...permissions: string[]) => AuthorizeHandler;
+  }
+
+  interface FastifyContextConfig {
+    permissions?: string[]; // Every listed permission is required
+  }
+}
+
+export interface RbacPluginOptions {
+  // Provide either a ready service or a Knex instance to build one
+  rbacService?: RbacService;
+  knex?: Knex;
+
+  // Effective-permission cache used when building the service from knex
+  cache?: PermissionCache;
+
+  // Attribute-based policies evaluated through fastify.policies
+  policies?: Policy[];
+
+  // Resolve the authenticated subject (default: request.user)
+  getSubject?: (request: FastifyRequest) => RbacSubject | null | undefined;
+}
+
+function defaultGetSubject(request: FastifyRequest): RbacSubject | undefined {
+  return (request as FastifyRequest & { user?: RbacSubject }).user;
+}
+
+async function rbacPlugin(fastify: FastifyInstance, options: RbacPluginOptions) {
+  let rbacService = options.rbacService;
+  if (!rbacService) {
+    if (!options.knex) {
+      throw new Error('RBAC plugin requires either rbacService or knex option.');
+    }
+    rbacService = new RbacService(
+      new RbacRepository(options.knex),
+      options.cache
+    );
+  }
+
+  const service = rbacService;
+  const getSubject = options.getSubject ?? defaultGetSubject;
+
+  const authorize = (...permissions: string[]): AuthorizeHandler => {
+    // Fail fast on typos at route registration time
+    for (const permission of permissions) {
+      PermissionUtils.parse(permission);
+    }
+
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+      const subject = getSubject(request);
+
+      if (!subject) {
+        return reply.code(401).send({
+          error: 'UnauthorizedError',
+          message: 'Authentication required',
+          statusCode: 401,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const allowed = await service.canAll(subject, permissions);
+      if (!allowed) {
+        request.log.warn(
+          { userId: subject.id, permissions, url: request.url },
+          'Permission denied'
+        );
+        return reply.code(403).send({
+          error: 'ForbiddenError',
+          message: `Missing required permission: ${permissions.join(', ')}`,
+          statusCode: 403,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    };
+  };
+
+  fastify.decorate('rbac', service);
+  fastify.decorate('policies', new PolicyService(service, options.policies));
+  fastify.decorate('authorize', authorize);
+
+  // Routes declaring `config: { permissions: [...] }` get the guard automatically
+  fastify.addHook('onRoute', (routeOptions: RouteOptions) => {
+    const permissions = routeOptions.config?.permissions;
+    if (!permissions || permissions.length === 0) return;
+
+    const guard = authorize(...permissions);
+    const existing = routeOptions.preHandler;
+
+    if (!existing) {
+      routeOptions.preHandler = [guard];
+    } else if (Array.isArray(existing)) {
+      routeOptions.preHandler = [...existing, guard];
+    } else {
+      routeOptions.preHandler = [existing, guard];
+    }
+  });
+}
+
+// Export as Fastify plugin
+export default fp(rbacPlugin, {
+  name: 'aegisx-rbac',
+  fastify: '5.x',
+});
@@ -0,0 +1,231 @@
+import { Knex } from 'knex';
+import {
+  CreatePermissionInput,
+  CreateRoleInput,
+} from '../types/rbac.types.js';
+
+/**
+ * Database Role Entity
+ */
+export interface DbRole {
+  id: string;
+  name: string;
+  description?: string | null;
+  parent_id?: string | null;
+  is_system: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Database Permission Entity
+ */
+export interface DbPermission {
+  id: string;
+  resource: string;
+  action: string;
+  description?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Role permission row joined with its role id
+ */
+export interface DbRolePermission extends DbPermission {
+  role_id: string;
+}
+
+/**
+ * RBAC Repository using Knex Query Builder
+ * Tables: roles, permissions, role_permissions, user_roles
+ */
+export class RbacRepository {
+  constructor(private knex: Knex) {}
+
+  /**
+   * Find role by ID
+   */
+  async findRoleById(id: string): Promise<DbRole | null> {
+    const role = await this.knex('roles').where({ id }).first();
+    return role || null;
+  }
+
+  /**
+   * Find role by name
+   */
+  async findRoleByName(name: string): Promise<DbRole | null> {
+    const role = await this.knex('roles').where({ name }).first();
+    return role || null;
+  }
+
+  /**
+   * Find roles by IDs
+   */
+  async findRolesByIds(ids: string[]): Promise<DbRole[]> {
+    if (ids.length === 0) return [];
+    return this.knex('roles').whereIn('id', ids);
+  }
+
+  /**
+   * Find roles by names
+   */
+  async findRolesByNames(names: string[]): Promise<DbRole[]> {
+    if (names.length === 0) return [];
+    return this.knex('roles').whereIn('name', names);
+  }
+
+  /**
+   * List all roles
+   */
+  async listRoles(): Promise<DbRole[]> {
+    return this.knex('roles').orderBy('name');
+  }
+
+  /**
+   * Create role
+   */
+  async createRole(input: CreateRoleInput): Promise<DbRole> {
+    const [role] = await this.knex('roles')
+      .insert({
+        name: input.name,
+        description: input.description ?? null,
+        parent_id: input.parentId ?? null,
+        is_system: input.isSystem ?? false,
+        created_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now(),
+      })
+      .returning('*');
+
+    return role;
+  }
+
+  /**
+   * Set (or clear) the parent role
+   */
+  async setRoleParent(roleId: string, parentId: string | null): Promise<void> {
+    await this.knex('roles').where({ id: roleId }).update({
+      parent_id: parentId,
+      updated_at: this.knex.fn.now(),
+    });
+  }
+
+  /**
+   * Delete role (role_permissions and user_roles rows cascade)
+   */
+  async deleteRole(id: string): Promise<void> {
+    await this.knex('roles').where({ id }).del();
+  }
+
+  /**
+   * Find permission by resource and action
+   */
+  async findPermission(
+    resource: string,
+    action: string
+  ): Promise<DbPermission | null> {
+    const permission = await this.knex('permissions')
+      .where({ resource, action })
+      .first();
+    return permission || null;
+  }
+
+  /**
+   * List all permissions
+   */
+  async listPermissions(): Promise<DbPermission[]> {
+    return this.knex('permissions').orderBy(['resource', 'action']);
+  }
+
+  /**
+   * Create permission
+   */
+  async createPermission(input: CreatePermissionInput): Promise<DbPermission> {
+    const [permission] = await this.knex('permissions')
+      .insert({
+        resource: input.resource,
+        action: input.action,
+        description: input.description ?? null,
+        created_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now(),
+      })
+      .returning('*');
+
+    return permission;
+  }
+
+  /**
+   * Delete permission (role_permissions rows cascade)
+   */
+  async deletePermission(id: string): Promise<void> {
+    await this.knex('permissions').where({ id }).del();
+  }
+
+  /**
+   * Grant permission to role
+   */
+  async grantPermission(roleId: string, permissionId: string): Promise<void> {
+    await this.knex('role_permissions')
+      .insert({
+        role_id: roleId,
+        permission_id: permissionId,
+        created_at: this.knex.fn.now(),
+      })
+      .onConflict(['role_id', 'permission_id'])
+      .ignore();
+  }
+
+  /**
+   * Revoke permission from role
+   */
+  async revokePermission(roleId: string, permissionId: string): Promise<void> {
+    await this.knex('role_permissions')
+      .where({ role_id: roleId, permission_id: permissionId })
+      .del();
+  }
+
+  /**
+   * Get permissions directly granted to the given roles
+   */
+  async getPermissionsForRoles(roleIds: string[]): Promise<DbRolePermission[]> {
+    if (roleIds.length === 0) return [];
+
+    return this.knex('role_permissions')
+      .join('permissions', 'permissions.id', 'role_permissions.permission_id')
+      .whereIn('role_permissions.role_id', roleIds)
+      .select('permissions.*', 'role_permissions.role_id');
+  }
+
+  /**
+   * Assign role to user
+   */
+  async assignRole(userId: string, roleId: string): Promise<void> {
+    await this.knex('user_roles')
+      .insert({
+        user_id: userId,
+        role_id: roleId,
+        created_at: this.knex.fn.now(),
+      })
+      .onConflict(['user_id', 'role_id'])
+      .ignore();
+  }
+
+  /**
+   * Remove role from user
+   */
+  async removeRole(userId: string, roleId: string): Promise<void> {
+    await this.knex('user_roles')
+      .where({ user_id: userId, role_id: roleId })
+      .del();
+  }
+
+  /**
+   * Get roles directly assigned to user
+   */
+  async getUserRoles(userId: string): Promise<DbRole[]> {
+    return this.knex('user_roles')
+      .join('roles', 'roles.id', 'user_roles.role_id')
+      .where('user_roles.user_id', userId)
+      .select('roles.*');
+  }
+}
@@ -0,0 +1,125 @@
+import { Knex } from 'knex';
+import {
+  Policy,
+  PolicyEvaluationInput,
+  PolicySubject,
+} from '../types/policy.types.js';
+import { PermissionUtils } from '../utils/permission.utils.js';
+import { PolicyQueryOptions, PolicyUtils } from '../utils/policy.utils.js';
+import { RbacService } from './rbac.service.js';
+
+/**
+ * Attribute-based policies layered on top of RBAC.
+ *
+ * A request is authorized when the subject holds the permission (RBAC),
+ * at least one `allow` policy for that permission matches (if any exist)
+ * and no `deny` policy matches.
+ */
+export class PolicyService {
+  private policies = new Map<string, Policy>();
+
+  constructor(private rbacService: RbacService, policies: Policy[] = []) {
+    policies.forEach((policy) => this.register(policy));
+  }
+
+  /**
+   * Register (or replace) a policy by name
+   */
+  register(policy: Policy): void {
+    PermissionUtils.parse(policy.permission);
+    this.policies.set(policy.name, policy);
+  }
+
+  /**
+   * Remove a policy by name
+   */
+  unregister(name: string): void {
+    this.policies.delete(name);
+  }
+
+  /**
+   * Policies that apply to a permission (wildcard policies included)
+   */
+  getPolicies(permission: string): Policy[] {
+    return Array.from(this.policies.values()).filter((policy) =>
+      PermissionUtils.matches(policy.permission, permission)
+    );
+  }
+
+  /**
+   * Full check: RBAC grant plus policy conditions on the given resource
+   */
+  async authorize(
+    subject: PolicySubject,
+    permission: string,
+    resource?: Record<string, unknown>,
+    context?: Record<string, unknown>
+  ): Promise<boolean> {
+    const granted = await this.rbacService.canAll(subject, [permission]);
+    if (!granted) return false;
+
+    return this.evaluate(permission, { subject, resource, context });
+  }
+
+  /**
+   * Evaluate only the policy conditions (no RBAC lookup)
+   */
+  evaluate(permission: string, input: PolicyEvaluationInput): boolean {
+    const { allow, deny } = this.partition(permission);
+
+    if (deny.some((policy) => PolicyUtils.evaluate(policy.condition, input))) {
+      return false;
+    }
+
+    if (allow.length === 0) return true;
+    return allow.some((policy) => PolicyUtils.evaluate(policy.condition, input));
+  }
+
+  /**
+   * Restrict a list query (in place) to the rows the subject may access.
+   * Without the RBAC grant the query matches nothing.
+   * Resolves to void: returning the builder would execute it.
+   */
+  async scopeQuery(
+    query: Knex.QueryBuilder,
+    subject: PolicySubject,
+    permission: string,
+    context?: Record<string, unknown>,
+    options: PolicyQueryOptions = {}
+  ): Promise<void> {
+    const granted = await this.rbacService.canAll(subject, [permission]);
+    if (!granted) {
+      query.whereRaw('1 = 0');
+      return;
+    }
+
+    const { allow, deny } = this.partition(permission);
+    const input = { subject, context };
+
+    if (allow.length > 0) {
+      PolicyUtils.applyToQuery(
+        query,
+        { or: allow.map((policy) => policy.condition) },
+        input,
+        options
+      );
+    }
+
+    if (deny.length > 0) {
+      PolicyUtils.applyToQuery(
+        query,
+        { not: { or: deny.map((policy) => policy.condition) } },
+        input,
+        options
+      );
+    }
+  }
+
+  private partition(permission: string): { allow: Policy[]; deny: Policy[] } {
+    const policies = this.getPolicies(permission);
+    return {
+      allow: policies.filter((policy) => (policy.effect ?? 'allow') === 'allow'),
+      deny: policies.filter((policy) => policy.effect === 'deny'),
+    };
+  }
+}
@@ -0,0 +1,347 @@
+import { PermissionCache } from '../cache/permission-cache.js';
+import { DbPermission, DbRole, RbacRepository } from '../repositories/rbac.repository.js';
+import {
+  CreateRoleInput,
+  EffectivePermissions,
+  Permission,
+  PermissionString,
+  RbacError,
+  RbacSubject,
+  Role,
+} from '../types/rbac.types.js';
+import { PermissionUtils } from '../utils/permission.utils.js';
+
+/**
+ * RBAC service: role/permission management and permission evaluation.
+ * Roles inherit every permission of their parent role (transitively).
+ * With a PermissionCache, effective permissions are cached per user and
+ * invalidated by the mutating methods below.
+ */
+export class RbacService {
+  constructor(
+    private repository: RbacRepository,
+    private cache?: PermissionCache
+  ) {}
+
+  /**
+   * Create a new role, optionally inheriting from an existing parent role
+   */
+  async createRole(input: CreateRoleInput): Promise<Role> {
+    const existing = await this.repository.findRoleByName(input.name);
+    if (existing) {
+      throw new Error(RbacError.ROLE_ALREADY_EXISTS);
+    }
+
+    if (input.parentId) {
+      const parent = await this.repository.findRoleById(input.parentId);
+      if (!parent) {
+        throw new Error(RbacError.ROLE_NOT_FOUND);
+      }
+    }
+
+    const role = await this.repository.createRole(input);
+    return this.toRole(role);
+  }
+
+  /**
+   * Delete a role by name. System roles cannot be deleted.
+   */
+  async deleteRole(roleName: string): Promise<void> {
+    const role = await this.getRoleOrFail(roleName);
+    if (role.is_system) {
+      throw new Error(RbacError.SYSTEM_ROLE_PROTECTED);
+    }
+
+    await this.repository.deleteRole(role.id);
+    await this.cache?.invalidateAll();
+  }
+
+  /**
+   * Make a role inherit from another role (or clear inheritance with null)
+   */
+  async setRoleParent(roleName: string, parentName: string | null): Promise<void> {
+    const role = await this.getRoleOrFail(roleName);
+
+    if (parentName === null) {
+      await this.repository.setRoleParent(role.id, null);
+      await this.cache?.invalidateAll();
+      return;
+    }
+
+    const parent = await this.getRoleOrFail(parentName);
+    const ancestors = await this.resolveRoleHierarchy([parent]);
+    if (ancestors.some((ancestor) => ancestor.id === role.id)) {
+      throw new Error(RbacError.ROLE_HIERARCHY_CYCLE);
+    }
+
+    await this.repository.setRoleParent(role.id, parent.id);
+    await this.cache?.invalidateAll();
+  }
+
+  /**
+   * List all roles
+   */
+  async listRoles(): Promise<Role[]> {
+    const roles = await this.repository.listRoles();
+    return roles.map((role) => this.toRole(role));
+  }
+
+  /**
+   * Create a permission from `resource:action`
+   */
+  async createPermission(
+    permission: string,
+    description?: string
+  ): Promise<Permission> {
+    const { resource, action } = PermissionUtils.parse(permission);
+
+    const existing = await this.repository.findPermission(resource, action);
+    if (existing) {
+      throw new Error(RbacError.PERMISSION_ALREADY_EXISTS);
+    }
+
+    const created = await this.repository.createPermission({
+      resource,
+      action,
+      description,
+    });
+    return this.toPermission(created);
+  }
+
+  /**
+   * List all permissions
+   */
+  async listPermissions(): Promise<Permission[]> {
+    const permissions = await this.repository.listPermissions();
+    return permissions.map((permission) => this.toPermission(permission));
+  }
+
+  /**
+   * Grant a permission to a role
+   */
+  async grantPermission(roleName: string, permission: string): Promise<void> {
+    const role = await this.getRoleOrFail(roleName);
+    const dbPermission = await this.getPermissionOrFail(permission);
+
+    await this.repository.grantPermission(role.id, dbPermission.id);
+    await this.cache?.invalidateAll();
+  }
+
+  /**
+   * Revoke a permission from a role
+   */
+  async revokePermission(roleName: string, permission: string): Promise<void> {
+    const role = await this.getRoleOrFail(roleName);
+    const dbPermission = await this.getPermissionOrFail(permission);
+
+    await this.repository.revokePermission(role.id, dbPermission.id);
+    await this.cache?.invalidateAll();
+  }
+
+  /**
+   * Assign a role to a user
+   */
+  async assignRole(userId: string, roleName: string): Promise<void> {
+    const role = await this.getRoleOrFail(roleName);
+    await this.repository.assignRole(userId, role.id);
+    await this.cache?.invalidateUser(userId);
+  }
+
+  /**
+   * Remove a role from a user
+   */
+  async removeRole(userId: string, roleName: string): Promise<void> {
+    const role = await this.getRoleOrFail(roleName);
+    await this.repository.removeRole(userId, role.id);
+    await this.cache?.invalidateUser(userId);
+  }
+
+  /**
+   * Delete a permission (removes it from every role)
+   */
+  async deletePermission(permission: string): Promise<void> {
+    const dbPermission = await this.getPermissionOrFail(permission);
+    await this.repository.deletePermission(dbPermission.id);
+    await this.cache?.invalidateAll();
+  }
+
+  /**
+   * Drop cached permissions after changes made outside this service
+   * (pass a user id, or nothing to drop every user's entry)
+   */
+  async invalidateCache(userId?: string): Promise<void> {
+    if (userId) {
+      await this.cache?.invalidateUser(userId);
+    } else {
+      await this.cache?.invalidateAll();
+    }
+  }
+
+  /**
+   * Get permissions of a role, including inherited ones
+   */
+  async getRolePermissions(roleName: string): Promise<PermissionString[]> {
+    const role = await this.getRoleOrFail(roleName);
+    const roles = await this.resolveRoleHierarchy([role]);
+    return this.collectPermissions(roles);
+  }
+
+  /**
+   * Resolve all roles (direct and inherited) and permissions of a user
+   */
+  async getEffectivePermissions(userId: string): Promise<EffectivePermissions> {
+    if (this.cache) {
+      return this.cache.getOrLoad(userId, () => this.loadEffectivePermissions(userId));
+    }
+    return this.loadEffectivePermissions(userId);
+  }
+
+  /**
+   * Version of the user's roles and permissions for access tokens to
+   * carry. It changes whenever they do, and is the same on every instance.
+   */
+  async getPermissionVersion(userId: string): Promise<number> {
+    const { roles, permissions } = await this.getEffectivePermissions(userId);
+    return PermissionUtils.fingerprint([
+      ...roles.map((role) => `role ${role}`),
+      ...permissions,
+    ]);
+  }
+
+  /**
+   * Check whether the user may perform `action` on `resource`
+   */
+  async can(
+    user: RbacSubject,
+    action: string,
+    resource: string
+  ): Promise<boolean> {
+    const isGranted = await this.permissionCheck(user);
+    return isGranted(PermissionUtils.format(resource, action));
+  }
+
+  /**
+   * Check whether the user holds every one of the given permissions
+   */
+  async canAll(user: RbacSubject, required: string[]): Promise<boolean> {
+    const isGranted = await this.permissionCheck(user);
+    return required.every(isGranted);
+  }
+
+  /**
+   * Check whether the user holds at least one of the given permissions
+   */
+  async canAny(user: RbacSubject, required: string[]): Promise<boolean> {
+    const isGranted = await this.permissionCheck(user);
+    return required.some(isGranted);
+  }
+
+  /**
+   * Permission test for a subject: the permissions of its roles (or of
+   * its owner's roles), capped by its scopes
+   */
+  private async permissionCheck(
+    user: RbacSubject
+  ): Promise<(permission: string) => boolean> {
+    const scopes = user.scopes;
+    const { permissions } = await this.getEffectivePermissions(
+      user.ownerId ?? user.id
+    );
+    return (permission) =>
+      PermissionUtils.isGranted(permissions, permission) &&
+      (!scopes || PermissionUtils.isGranted(scopes, permission));
+  }
+
+  private async loadEffectivePermissions(userId: string): Promise<EffectivePermissions> {
+    const directRoles = await this.repository.getUserRoles(userId);
+    const roles = await this.resolveRoleHierarchy(directRoles);
+    const permissions = await this.collectPermissions(roles);
+
+    return {
+      userId,
+      roles: roles.map((role) => role.name),
+      permissions,
+    };
+  }
+
+  /**
+   * Expand roles with all their ancestors (parents, grandparents, ...)
+   */
+  private async resolveRoleHierarchy(roles: DbRole[]): Promise<DbRole[]> {
+    const resolved = new Map<string, DbRole>();
+    let pending = roles;
+
+    while (pending.length > 0) {
+      const parentIds: string[] = [];
+
+      for (const role of pending) {
+        if (resolved.has(role.id)) continue;
+        resolved.set(role.id, role);
+
+        if (role.parent_id && !resolved.has(role.parent_id)) {
+          parentIds.push(role.parent_id);
+        }
+      }
+
+      pending = await this.repository.findRolesByIds(parentIds);
+    }
+
+    return Array.from(resolved.values());
+  }
+
+  /**
+   * Collect distinct permission strings granted to the given roles
+   */
+  private async collectPermissions(roles: DbRole[]): Promise<PermissionString[]> {
+    const rows = await this.repository.getPermissionsForRoles(
+      roles.map((role) => role.id)
+    );
+
+    const permissions = new Set<PermissionString>();
+    for (const row of rows) {
+      permissions.add(PermissionUtils.format(row.resource, row.action));
+    }
+
+    return Array.from(permissions);
+  }
+
+  private async getRoleOrFail(name: string): Promise<DbRole> {
+    const role = await this.repository.findRoleByName(name);
+    if (!role) {
+      throw new Error(RbacError.ROLE_NOT_FOUND);
+    }
+    return role;
+  }
+
+  private async getPermissionOrFail(permission: string): Promise<DbPermission> {
+    const { resource, action } = PermissionUtils.parse(permission);
+    const dbPermission = await this.repository.findPermission(resource, action);
+    if (!dbPermission) {
+      throw new Error(RbacError.PERMISSION_NOT_FOUND);
+    }
+    return dbPermission;
+  }
+
+  private toRole(role: DbRole): Role {
+    return {
+      id: role.id,
+      name: role.name,
+      description: role.description ?? undefined,
+      parentId: role.parent_id ?? undefined,
+      isSystem: role.is_system,
+      createdAt: role.created_at,
+      updatedAt: role.updated_at,
+    };
+  }
+
+  private toPermission(permission: DbPermission): Permission {
+    return {
+      id: permission.id,
+      resource: permission.resource,
+      action: permission.action,
+      description: permission.description ?? undefined,
+      createdAt: permission.created_at,
+      updatedAt: permission.updated_at,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { PermissionString, RbacSubject } from './rbac.types.js';
+
+/**
+ * Comparison operators supported by policy conditions
+ */
+export type PolicyOperator =
+  | 'eq'
+  | 'ne'
+  | 'in'
+  | 'nin'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'exists';
+
+/**
+ * Reference to an attribute of the subject or the request context,
+ * resolved at evaluation time (e.g. `{ subject: 'id' }`)
+ */
+export type PolicyReference = { subject: string } | { context: string };
+
+export type PolicyLiteral = string | number | boolean | null | Date;
+
+export type PolicyOperand = PolicyLiteral | PolicyLiteral[] | PolicyReference;
+
+/**
+ * Compare a resource field (column) with a literal or a reference
+ */
+export interface FieldCondition {
+  field: string;
+  op: PolicyOperator;
+  value: PolicyOperand;
+}
+
+/**
+ * Policy condition tree. Plain data, so policies can be stored as JSON.
+ */
+export type PolicyCondition =
+  | FieldCondition
+  | { and: PolicyCondition[] }
+  | { or: PolicyCondition[] }
+  | { not: PolicyCondition };
+
+/**
+ * Conditional rule attached to a permission.
+ * When a permission has `allow` policies, at least one of them must match;
+ * any matching `deny` policy rejects regardless of grants.
+ */
+export interface Policy {
+  name: string;
+  permission: PermissionString;
+  effect?: 'allow' | 'deny'; // default: allow
+  condition: PolicyCondition;
+  description?: string;
+}
+
+/**
+ * Subject with arbitrary attributes (tenantId, department, ...)
+ */
+export interface PolicySubject extends RbacSubject {
+  [attribute: string]: unknown;
+}
+
+/**
+ * Everything a policy is evaluated against
+ */
+export interface PolicyEvaluationInput {
+  subject: PolicySubject;
+  resource?: Record<string, unknown>;
+  context?: Record<string, unknown>;
+}
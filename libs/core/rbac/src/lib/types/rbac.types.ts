@@ -0,0 +1,88 @@
+/**
+ * Permission string in `resource:action` form (e.g. `users:read`).
+ * Either side may be `*` to match any resource or any action.
+ */
+export type PermissionString = `${string}:${string}`;
+
+/**
+ * Parsed permission
+ */
+export interface PermissionDescriptor {
+  resource: string;
+  action: string;
+}
+
+/**
+ * Role definition
+ */
+export interface Role {
+  id: string;
+  name: string;
+  description?: string;
+  parentId?: string; // Role this one inherits permissions from
+  isSystem: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Permission definition
+ */
+export interface Permission {
+  id: string;
+  resource: string;
+  action: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Anything that can be authorized (usually the authenticated user)
+ */
+export interface RbacSubject {
+  id: string;
+  scopes?: string[]; // Ceiling on the permissions, e.g. the scopes of an API key
+  ownerId?: string; // Service accounts act with the roles of their owner
+}
+
+/**
+ * Resolved roles and permissions of a user, including inherited ones
+ */
+export interface EffectivePermissions {
+  userId: string;
+  roles: string[];
+  permissions: PermissionString[];
+}
+
+/**
+ * Input for creating a role
+ */
+export interface CreateRoleInput {
+  name: string;
+  description?: string;
+  parentId?: string;
+  isSystem?: boolean;
+}
+
+/**
+ * Input for creating a permission
+ */
+export interface CreatePermissionInput {
+  resource: string;
+  action: string;
+  description?: string;
+}
+
+/**
+ * RBAC error codes
+ */
+export enum RbacError {
+  ROLE_NOT_FOUND = 'RBAC_ROLE_NOT_FOUND',
+  ROLE_ALREADY_EXISTS = 'RBAC_ROLE_ALREADY_EXISTS',
+  PERMISSION_NOT_FOUND = 'RBAC_PERMISSION_NOT_FOUND',
+  PERMISSION_ALREADY_EXISTS = 'RBAC_PERMISSION_ALREADY_EXISTS',
+  INVALID_PERMISSION = 'RBAC_INVALID_PERMISSION',
+  ROLE_HIERARCHY_CYCLE = 'RBAC_ROLE_HIERARCHY_CYCLE',
+  SYSTEM_ROLE_PROTECTED = 'RBAC_SYSTEM_ROLE_PROTECTED',
+}
@@ -0,0 +1,87 @@
+import {
+  PermissionDescriptor,
+  PermissionString,
+  RbacError,
+} from '../types/rbac.types.js';
+
+const WILDCARD = '*';
+const SEGMENT_PATTERN = /^(\*|[a-z0-9][a-z0-9_.-]*)$/i;
+
+/**
+ * Permission string helpers
+ */
+export class PermissionUtils {
+  /**
+   * Parse `resource:action` into its parts
+   */
+  static parse(permission: string): PermissionDescriptor {
+    const parts = permission.split(':');
+    if (parts.length !== 2) {
+      throw new Error(RbacError.INVALID_PERMISSION);
+    }
+
+    const [resource, action] = parts.map((part) => part.trim());
+    if (!SEGMENT_PATTERN.test(resource) || !SEGMENT_PATTERN.test(action)) {
+      throw new Error(RbacError.INVALID_PERMISSION);
+    }
+
+    return { resource, action };
+  }
+
+  /**
+   * Build `resource:action` from its parts
+   */
+  static format(resource: string, action: string): PermissionString {
+    return `${resource}:${action}`;
+  }
+
+  /**
+   * Check whether a permission string is well formed
+   */
+  static isValid(permission: string): permission is PermissionString {
+    try {
+      PermissionUtils.parse(permission);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a granted permission covers the required one.
+   * `*` on either side of the granted permission matches anything.
+   */
+  static matches(granted: string, required: string): boolean {
+    const g = PermissionUtils.parse(granted);
+    const r = PermissionUtils.parse(required);
+
+    const resourceMatches = g.resource === WILDCARD || g.resource === r.resource;
+    const actionMatches = g.action === WILDCARD || g.action === r.action;
+
+    return resourceMatches && actionMatches;
+  }
+
+  /**
+   * Check whether any of the granted permissions covers the required one
+   */
+  static isGranted(granted: Iterable<string>, required: string): boolean {
+    for (const permission of granted) {
+      if (PermissionUtils.matches(permission, required)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 32-bit FNV-1a hash of a set of strings, independent of their order
+   */
+  static fingerprint(values: Iterable<string>): number {
+    let hash = 0x811c9dc5;
+    for (const char of Array.from(values).sort().join('\n')) {
+      hash ^= char.charCodeAt(0);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
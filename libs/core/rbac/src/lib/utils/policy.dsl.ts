@@ -0,0 +1,60 @@
+import {
+  FieldCondition,
+  PolicyCondition,
+  PolicyLiteral,
+  PolicyOperand,
+  PolicyReference,
+} from '../types/policy.types.js';
+
+/**
+ * Condition builders for policies, e.g.
+ *
+ *   allOf(
+ *     field('owner_id').eq(subjectRef('id')),
+ *     field('status').in(['draft', 'review'])
+ *   )
+ */
+export function field(name: string) {
+  const condition = (
+    op: FieldCondition['op'],
+    value: PolicyOperand
+  ): FieldCondition => ({ field: name, op, value });
+
+  return {
+    eq: (value: PolicyOperand) => condition('eq', value),
+    ne: (value: PolicyOperand) => condition('ne', value),
+    in: (value: PolicyLiteral[] | PolicyReference) => condition('in', value),
+    nin: (value: PolicyLiteral[] | PolicyReference) => condition('nin', value),
+    gt: (value: PolicyOperand) => condition('gt', value),
+    gte: (value: PolicyOperand) => condition('gte', value),
+    lt: (value: PolicyOperand) => condition('lt', value),
+    lte: (value: PolicyOperand) => condition('lte', value),
+    exists: (value = true) => condition('exists', value),
+  };
+}
+
+export function allOf(...conditions: PolicyCondition[]): PolicyCondition {
+  return { and: conditions };
+}
+
+export function anyOf(...conditions: PolicyCondition[]): PolicyCondition {
+  return { or: conditions };
+}
+
+export function not(condition: PolicyCondition): PolicyCondition {
+  return { not: condition };
+}
+
+/**
+ * Reference an attribute of the subject (e.g. `subjectRef('tenantId')`)
+ */
+export function subjectRef(attribute: string): PolicyReference {
+  return { subject: attribute };
+}
+
+/**
+ * Reference an attribute of the request context (e.g. `contextRef('ip')`)
+ */
+export function contextRef(attribute: string): PolicyReference {
+  return { context: attribute };
+}
@@ -0,0 +1,261 @@
+import { Knex } from 'knex';
+import {
+  FieldCondition,
+  PolicyCondition,
+  PolicyEvaluationInput,
+  PolicyOperand,
+} from '../types/policy.types.js';
+
+type ResolvedOperand = { resolved: true; value: unknown } | { resolved: false };
+
+const COMPARISON_OPERATORS = { gt: '>', gte: '>=', lt: '<', lte: '<=' } as const;
+
+export interface PolicyQueryOptions {
+  table?: string; // Qualify columns, e.g. 'records' -> records.owner_id
+}
+
+/**
+ * Policy condition evaluation and compilation into Knex where clauses.
+ * Both paths share semantics: a reference that cannot be resolved
+ * (e.g. a subject without tenantId) never matches, and a comparison with
+ * a NULL column is false, so its negation (`not`, deny policies) is true.
+ */
+export class PolicyUtils {
+  /**
+   * Evaluate a condition against subject, resource and context
+   */
+  static evaluate(
+    condition: PolicyCondition,
+    input: PolicyEvaluationInput
+  ): boolean {
+    if ('and' in condition) {
+      return condition.and.every((c) => PolicyUtils.evaluate(c, input));
+    }
+    if ('or' in condition) {
+      return condition.or.some((c) => PolicyUtils.evaluate(c, input));
+    }
+    if ('not' in condition) {
+      return !PolicyUtils.evaluate(condition.not, input);
+    }
+
+    return PolicyUtils.evaluateField(condition, input);
+  }
+
+  /**
+   * Apply a condition to a Knex query as a where clause.
+   * Field names are used as column names.
+   */
+  static applyToQuery<T extends Knex.QueryBuilder>(
+    query: T,
+    condition: PolicyCondition,
+    input: Omit<PolicyEvaluationInput, 'resource'>,
+    options: PolicyQueryOptions = {}
+  ): T {
+    query.where((builder) => {
+      PolicyUtils.applyCondition(builder, condition, input, options);
+    });
+    return query;
+  }
+
+  /**
+   * `negated` is set below an odd number of `not`s, where comparisons must
+   * not turn NULL into an SQL unknown that the negation keeps unknown
+   */
+  private static applyCondition(
+    builder: Knex.QueryBuilder,
+    condition: PolicyCondition,
+    input: Omit<PolicyEvaluationInput, 'resource'>,
+    options: PolicyQueryOptions,
+    negated = false
+  ): void {
+    if ('and' in condition) {
+      for (const c of condition.and) {
+        builder.where((sub) => PolicyUtils.applyCondition(sub, c, input, options, negated));
+      }
+      return;
+    }
+
+    if ('or' in condition) {
+      if (condition.or.length === 0) {
+        builder.whereRaw('1 = 0');
+        return;
+      }
+      for (const c of condition.or) {
+        builder.orWhere((sub) =>
+          PolicyUtils.applyCondition(sub, c, input, options, negated)
+        );
+      }
+      return;
+    }
+
+    if ('not' in condition) {
+      // Knex drops an empty group, so NOT of an always-true `and` would match everything
+      if (PolicyUtils.isEmptyAnd(condition.not)) {
+        builder.whereRaw('1 = 0');
+        return;
+      }
+      builder.whereNot((sub) =>
+        PolicyUtils.applyCondition(sub, condition.not, input, options, !negated)
+      );
+      return;
+    }
+
+    PolicyUtils.applyField(builder, condition, input, options, negated);
+  }
+
+  private static applyField(
+    builder: Knex.QueryBuilder,
+    condition: FieldCondition,
+    input: Omit<PolicyEvaluationInput, 'resource'>,
+    options: PolicyQueryOptions,
+    negated: boolean
+  ): void {
+    const column = options.table
+      ? `${options.table}.${condition.field}`
+      : condition.field;
+    const operand = PolicyUtils.resolveOperand(condition.value, input);
+
+    if (!operand.resolved) {
+      builder.whereRaw('1 = 0');
+      return;
+    }
+
+    const value = operand.value as Knex.Value;
+
+    // Under a negation, NOT (col IS NOT NULL AND ...) keeps NULL rows like evaluate does
+    const guard = () => {
+      if (negated) builder.whereNotNull(column);
+    };
+
+    switch (condition.op) {
+      case 'eq':
+        if (value === null) builder.whereNull(column);
+        else {
+          guard();
+          builder.where(column, value);
+        }
+        return;
+      case 'ne':
+        if (value === null) builder.whereNotNull(column);
+        else builder.where((sub) => sub.whereNot(column, value).orWhereNull(column));
+        return;
+      case 'in':
+        if (!Array.isArray(value)) builder.whereRaw('1 = 0');
+        else if (value.includes(null)) {
+          const values = value.filter((v) => v !== null);
+          builder.where((sub) => sub.whereIn(column, values).orWhereNull(column));
+        } else {
+          guard();
+          builder.whereIn(column, value);
+        }
+        return;
+      case 'nin':
+        if (!Array.isArray(value)) builder.whereRaw('1 = 0');
+        else if (value.includes(null)) {
+          builder.whereNotNull(column).whereNotIn(column, value.filter((v) => v !== null));
+        } else {
+          builder.where((sub) => sub.whereNotIn(column, value).orWhereNull(column));
+        }
+        return;
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        if (value === null) {
+          builder.whereRaw('1 = 0');
+          return;
+        }
+        guard();
+        builder.where(column, COMPARISON_OPERATORS[condition.op], value);
+        return;
+      case 'exists':
+        if (value) builder.whereNotNull(column);
+        else builder.whereNull(column);
+        return;
+    }
+  }
+
+  private static evaluateField(
+    condition: FieldCondition,
+    input: PolicyEvaluationInput
+  ): boolean {
+    const operand = PolicyUtils.resolveOperand(condition.value, input);
+    if (!operand.resolved) return false;
+
+    const left = PolicyUtils.getPath(input.resource, condition.field);
+    const right = operand.value;
+
+    switch (condition.op) {
+      case 'eq':
+        return PolicyUtils.equals(left, right);
+      case 'ne':
+        return !PolicyUtils.equals(left, right);
+      case 'in':
+        return Array.isArray(right) && right.some((v) => PolicyUtils.equals(left, v));
+      case 'nin':
+        return Array.isArray(right) && !right.some((v) => PolicyUtils.equals(left, v));
+      case 'gt':
+        return PolicyUtils.compare(left, right) > 0;
+      case 'gte':
+        return PolicyUtils.compare(left, right) >= 0;
+      case 'lt':
+        return PolicyUtils.compare(left, right) < 0;
+      case 'lte':
+        return PolicyUtils.compare(left, right) <= 0;
+      case 'exists':
+        return (left !== undefined && left !== null) === Boolean(right);
+      default:
+        return false;
+    }
+  }
+
+  private static isEmptyAnd(condition: PolicyCondition): boolean {
+    return 'and' in condition && condition.and.every((c) => PolicyUtils.isEmptyAnd(c));
+  }
+
+  private static resolveOperand(
+    operand: PolicyOperand,
+    input: Omit<PolicyEvaluationInput, 'resource'>
+  ): ResolvedOperand {
+    if (operand !== null && typeof operand === 'object' && !Array.isArray(operand) && !(operand instanceof Date)) {
+      const value =
+        'subject' in operand
+          ? PolicyUtils.getPath(input.subject, operand.subject)
+          : PolicyUtils.getPath(input.context, operand.context);
+
+      return value === undefined ? { resolved: false } : { resolved: true, value };
+    }
+
+    return { resolved: true, value: operand };
+  }
+
+  private static getPath(source: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>((current, key) => {
+      if (current === null || current === undefined) return undefined;
+      return (current as Record<string, unknown>)[key];
+    }, source);
+  }
+
+  private static equals(left: unknown, right: unknown): boolean {
+    if (left instanceof Date || right instanceof Date) {
+      return PolicyUtils.compare(left, right) === 0;
+    }
+    return left === right;
+  }
+
+  /**
+   * Returns NaN (never matches) when values are missing or not comparable
+   */
+  private static compare(left: unknown, right: unknown): number {
+    if (left === null || left === undefined || right === null || right === undefined) {
+      return NaN;
+    }
+
+    const l = left instanceof Date ? left.getTime() : left;
+    const r = right instanceof Date ? right.getTime() : right;
+
+    if (typeof l !== typeof r) return NaN;
+    if (l === r) return 0;
+    return (l as number | string) > (r as number | string) ? 1 : -1;
+  }
+}
@@ -0,0 +1,336 @@
+import 'reflect-metadata';
+import Fastify from 'fastify';
+import { container } from 'tsyringe';
+import { TokenDenylist, TokenService } from '@aegisx/core-auth';
+import { ConflictError, NotFoundError, ValidationError } from '../errors/auth.errors';
+import { SecurityEvent, SecurityEvents } from '../events/security-events';
+import {
+  ApiKeyRepository,
+  CreateApiKeyInput,
+  CreateServiceAccountInput,
+  DbApiKey,
+  DbServiceAccount
+} from '../repositories/api-key.repository';
+import { DbUser, UserRepository } from '../repositories/user.repository';
+import { ApiKeyService } from '../services/api-key.service';
+import { AuthenticatedRequest, authenticate } from '../middleware/require-auth';
+
+/**
+ * In-memory stand-in for the Knex backed API key repository
+ */
+function createInMemoryApiKeyRepository() {
+  const serviceAccounts: DbServiceAccount[] = [];
+  const apiKeys: DbApiKey[] = [];
+  let sequence = 0;
+
+  return {
+    serviceAccounts,
+    apiKeys,
+    createServiceAccount: async (input: CreateServiceAccountInput) => {
+      const serviceAccount: DbServiceAccount = {
+        id: `service-account-${++sequence}`,
+        name: input.name,
+        description: input.description ?? null,
+        owner_id: input.ownerId,
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      serviceAccounts.push(serviceAccount);
+      return serviceAccount;
+    },
+    findServiceAccount: async (id: string) => serviceAccounts.find((s) => s.id === id) ?? null,
+    findServiceAccountByName: async (ownerId: string, name: string) =>
+      serviceAccounts.find((s) => s.owner_id === ownerId && s.name === name) ?? null,
+    listServiceAccounts: async (ownerId: string) => serviceAccounts.filter((s) => s.owner_id === ownerId),
+    deleteServiceAccount: async (ownerId: string, id: string) => {
+      const index = serviceAccounts.findIndex((s) => s.id === id && s.owner_id === ownerId);
+      if (index === -1) return false;
+      serviceAccounts.splice(index, 1);
+      // ON DELETE CASCADE
+      for (let i = apiKeys.length - 1; i >= 0; i--) {
+        if (apiKeys[i].service_account_id === id) apiKeys.splice(i, 1);
+      }
+      return true;
+    },
+    createApiKey: async (input: CreateApiKeyInput) => {
+      const apiKey: DbApiKey = {
+        id: `api-key-${++sequence}`,
+        user_id: input.userId ?? null,
+        service_account_id: input.serviceAccountId ?? null,
+        name: input.name,
+        prefix: input.prefix,
+        key_hash: input.keyHash,
+        scopes: input.scopes,
+        expires_at: input.expiresAt ?? null,
+        last_used_at: null,
+        last_used_ip: null,
+        revoked_at: null,
+        created_by: input.createdBy,
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      apiKeys.push(apiKey);
+      return apiKey;
+    },
+    findApiKey: async (id: string) => apiKeys.find((k) => k.id === id && !k.revoked_at) ?? null,
+    findApiKeyByPrefix: async (prefix: string) => apiKeys.find((k) => k.prefix === prefix) ?? null,
+    listApiKeys: async (owner: { userId?: string; serviceAccountId?: string }) =>
+      apiKeys.filter((k) =>
+        !k.revoked_at &&
+        (owner.serviceAccountId ? k.service_account_id === owner.serviceAccountId : k.user_id === owner.userId)
+      ),
+    rotateApiKey: async (id: string, prefix: string, keyHash: string) => {
+      const apiKey = apiKeys.find((k) => k.id === id && !k.revoked_at);
+      if (!apiKey) return null;
+      Object.assign(apiKey, { prefix, key_hash: keyHash, last_used_at: null, last_used_ip: null });
+      return apiKey;
+    },
+    revokeApiKey: async (id: string) => {
+      const apiKey = apiKeys.find((k) => k.id === id && !k.revoked_at);
+      if (!apiKey) return false;
+      apiKey.revoked_at = new Date();
+      return true;
+    },
+    touchApiKey: async (id: string, ipAddress?: string) => {
+      const apiKey = apiKeys.find((k) => k.id === id);
+      if (apiKey) {
+        apiKey.last_used_at = new Date();
+        apiKey.last_used_ip = ipAddress ?? null;
+      }
+    }
+  };
+}
+
+const createUser = (id: string, email: string): DbUser => ({
+  id,
+  email,
+  password_hash: 'password123',
+  first_name: 'Test',
+  last_name: 'User',
+  is_active: true,
+  email_verified: true,
+  login_attempts: 0,
+  created_at: new Date(),
+  updated_at: new Date()
+});
+
+describe('ApiKeyService', () => {
+  let repository: ReturnType<typeof createInMemoryApiKeyRepository>;
+  let users: DbUser[];
+  let events: SecurityEvent[];
+  let apiKeyService: ApiKeyService;
+
+  beforeEach(() => {
+    repository = createInMemoryApiKeyRepository();
+    users = [createUser('user-1', 'admin@aegisx.com'), createUser('user-2', 'other@aegisx.com')];
+    const securityEvents = new SecurityEvents();
+    events = [];
+    securityEvents.on((event) => {
+      events.push(event);
+    });
+    const userRepository = {
+      findById: async (id: string) => users.find((user) => user.id === id) ?? null
+    };
+    apiKeyService = new ApiKeyService(
+      repository as unknown as ApiKeyRepository,
+      userRepository as unknown as UserRepository,
+      securityEvents
+    );
+  });
+
+  describe('user keys', () => {
+    it('should return a prefixed key once and store only its hash', async () => {
+      const { apiKey, key } = await apiKeyService.createApiKey('user-1', {
+        name: 'CI',
+        scopes: ['users:read', 'users:read']
+      });
+
+      expect(key).toMatch(/^agx_[0-9a-f]{12}_[0-9a-f]{64}$/);
+      expect(key.startsWith(apiKey.prefix)).toBe(true);
+      expect(repository.apiKeys[0].key_hash).not.toContain(key.slice(apiKey.prefix.length + 1));
+      expect(apiKey.scopes).toEqual(['users:read']);
+      expect(await apiKeyService.listApiKeys('user-1')).toHaveLength(1);
+      expect(await apiKeyService.listApiKeys('user-2')).toEqual([]);
+      expect(events.map((event) => event.type)).toEqual(['api_key_created']);
+    });
+
+    it('should reject invalid scopes and past expiry', async () => {
+      await expect(
+        apiKeyService.createApiKey('user-1', { name: 'CI', scopes: [] })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        apiKeyService.createApiKey('user-1', { name: 'CI', scopes: ['users'] })
+      ).rejects.toThrow('Invalid scope: users');
+      await expect(
+        apiKeyService.createApiKey('user-1', { name: 'CI', scopes: ['users:read'], expiresAt: new Date(Date.now() - 1000) })
+      ).rejects.toThrow('Expiry must be in the future');
+    });
+
+    it('should authenticate the user with the key scopes and record its use', async () => {
+      const { apiKey, key } = await apiKeyService.createApiKey('user-1', { name: 'CI', scopes: ['users:read'] });
+
+      const principal = await apiKeyService.authenticate(key, '10.0.0.1');
+
+      expect(principal).toEqual({
+        id: 'user-1',
+        email: 'admin@aegisx.com',
+        apiKeyId: apiKey.id,
+        scopes: ['users:read']
+      });
+      expect(repository.apiKeys[0]).toMatchObject({ last_used_ip: '10.0.0.1' });
+      expect(repository.apiKeys[0].last_used_at).toBeInstanceOf(Date);
+    });
+
+    it('should carry the tenant of the key owner', async () => {
+      users[0].tenant_id = 'tenant-1';
+      const serviceAccount = await apiKeyService.createServiceAccount('user-1', { name: 'billing-sync' });
+      const userKey = await apiKeyService.createApiKey('user-1', { name: 'CI', scopes: ['users:read'] });
+      const serviceKey = await apiKeyService.createApiKey('user-1', {
+        name: 'Production',
+        scopes: ['invoices:*'],
+        serviceAccountId: serviceAccount.id
+      });
+
+      expect((await apiKeyService.authenticate(userKey.key)).tenantId).toBe('tenant-1');
+      expect((await apiKeyService.authenticate(serviceKey.key)).tenantId).toBe('tenant-1');
+    });
+
+    it('should reject unknown, tampered, expired and revoked keys', async () => {
+      const { apiKey, key } = await apiKeyService.createApiKey('user-1', { name: 'CI', scopes: ['users:read'] });
+
+      await expect(apiKeyService.authenticate('not-a-key')).rejects.toThrow('Invalid API key');
+      const tampered = key.slice(0, -1) + (key.endsWith('0') ? '1' : '0');
+      await expect(apiKeyService.authenticate(tampered)).rejects.toThrow('Invalid API key');
+
+      repository.apiKeys[0].expires_at = new Date(Date.now() - 1000);
+      await expect(apiKeyService.authenticate(key)).rejects.toThrow('API key has expired');
+
+      repository.apiKeys[0].expires_at = null;
+      await apiKeyService.revokeApiKey('user-1', apiKey.id);
+      await expect(apiKeyService.authenticate(key)).rejects.toThrow('Invalid API key');
+      expect(await apiKeyService.listApiKeys('user-1')).toEqual([]);
+    });
+
+    it('should reject keys of deactivated users', async () => {
+      const { key } = await apiKeyService.createApiKey('user-1', { name: 'CI', scopes: ['users:read'] });
+      users[0].is_active = false;
+
+      await expect(apiKeyService.authenticate(key)).rejects.toThrow('Invalid API key');
+    });
+
+    it('should rotate the secret and invalidate the old key', async () => {
+      const { apiKey, key } = await apiKeyService.createApiKey('user-1', { name: 'CI', scopes: ['users:read'] });
+
+      const rotated = await apiKeyService.rotateApiKey('user-1', apiKey.id);
+
+      expect(rotated.apiKey.id).toBe(apiKey.id);
+      expect(rotated.key).not.toBe(key);
+      await expect(apiKeyService.authenticate(key)).rejects.toThrow('Invalid API key');
+      expect((await apiKeyService.authenticate(rotated.key)).apiKeyId).toBe(apiKey.id);
+      expect(events.map((event) => event.type)).toContain('api_key_rotated');
+    });
+
+    it('should not let other users manage a key', async () => {
+      const { apiKey } = await apiKeyService.createApiKey('user-1', { name: 'CI', scopes: ['users:read'] });
+
+      await expect(apiKeyService.rotateApiKey('user-2', apiKey.id)).rejects.toThrow(NotFoundError);
+      await expect(apiKeyService.revokeApiKey('user-2', apiKey.id)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('service accounts', () => {
+    it('should issue keys that act as the service account on behalf of its owner', async () => {
+      const serviceAccount = await apiKeyService.createServiceAccount('user-1', { name: 'billing-sync' });
+      const { key } = await apiKeyService.createApiKey('user-1', {
+        name: 'Production',
+        scopes: ['invoices:*'],
+        serviceAccountId: serviceAccount.id
+      });
+
+      expect(await apiKeyService.authenticate(key)).toMatchObject({
+        id: serviceAccount.id,
+        email: '',
+        ownerId: 'user-1',
+        scopes: ['invoices:*']
+      });
+      expect(await apiKeyService.listApiKeys('user-1', serviceAccount.id)).toHaveLength(1);
+      expect(await apiKeyService.listApiKeys('user-1')).toEqual([]);
+    });
+
+    it('should keep service accounts private to their owner', async () => {
+      const serviceAccount = await apiKeyService.createServiceAccount('user-1', { name: 'billing-sync' });
+
+      await expect(
+        apiKeyService.createApiKey('user-2', { name: 'Stolen', scopes: ['*:*'], serviceAccountId: serviceAccount.id })
+      ).rejects.toThrow(NotFoundError);
+      await expect(apiKeyService.listApiKeys('user-2', serviceAccount.id)).rejects.toThrow(NotFoundError);
+      await expect(apiKeyService.deleteServiceAccount('user-2', serviceAccount.id)).rejects.toThrow(NotFoundError);
+      await expect(
+        apiKeyService.createServiceAccount('user-1', { name: 'billing-sync' })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should stop accepting keys when the owner is deactivated or the account deleted', async () => {
+      const serviceAccount = await apiKeyService.createServiceAccount('user-1', { name: 'billing-sync' });
+      const { key } = await apiKeyService.createApiKey('user-1', {
+        name: 'Production',
+        scopes: ['invoices:read'],
+        serviceAccountId: serviceAccount.id
+      });
+
+      users[0].is_active = false;
+      await expect(apiKeyService.authenticate(key)).rejects.toThrow('Invalid API key');
+
+      users[0].is_active = true;
+      await apiKeyService.deleteServiceAccount('user-1', serviceAccount.id);
+      await expect(apiKeyService.authenticate(key)).rejects.toThrow('Invalid API key');
+      expect(await apiKeyService.listServiceAccounts('user-1')).toEqual([]);
+    });
+  });
+
+  describe('authenticate preHandler', () => {
+    it('should set the same request.user for API keys and access tokens', async () => {
+      const tokenService = new TokenService({
+        jwt: {
+          secret: 'test-secret-key-that-is-at-least-32-characters',
+          issuer: 'aegisx-platform',
+          algorithm: 'HS256',
+          accessTokenExpiry: '15m',
+          refreshTokenExpiry: '7d'
+        },
+        security: {
+          maxLoginAttempts: 5,
+          lockoutDuration: 30,
+          passwordMinLength: 6,
+          requireEmailVerification: false
+        }
+      }, { denylist: new TokenDenylist() });
+      container.registerInstance('TokenService', tokenService);
+      container.registerInstance('ApiKeyService', apiKeyService);
+
+      const app = Fastify();
+      app.get('/whoami', { preHandler: authenticate }, async (request) => (request as AuthenticatedRequest).user);
+      const { key } = await apiKeyService.createApiKey('user-1', { name: 'CI', scopes: ['users:read'] });
+
+      const withKey = await app.inject({ method: 'GET', url: '/whoami', headers: { 'x-api-key': key } });
+      expect(withKey.statusCode).toBe(200);
+      expect(withKey.json()).toMatchObject({ id: 'user-1', email: 'admin@aegisx.com', scopes: ['users:read'] });
+
+      const accessToken = tokenService.generateAccessToken('user-1', 'admin@aegisx.com');
+      const withToken = await app.inject({
+        method: 'GET',
+        url: '/whoami',
+        headers: { authorization: `Bearer ${accessToken}` }
+      });
+      expect(withToken.statusCode).toBe(200);
+      expect(withToken.json()).toMatchObject({ id: 'user-1', email: 'admin@aegisx.com' });
+
+      const invalid = await app.inject({ method: 'GET', url: '/whoami', headers: { 'x-api-key': 'agx_nope' } });
+      expect(invalid.statusCode).toBe(401);
+      expect((await app.inject({ method: 'GET', url: '/whoami' })).statusCode).toBe(401);
+
+      await app.close();
+    });
+  });
+});
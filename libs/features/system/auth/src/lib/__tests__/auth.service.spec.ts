@@ -0,0 +1,1636 @@
+import 'reflect-metadata';
+import {
+  AuthConfig,
+  LoginThrottle,
+  MockOidcProvider,
+  MockOidcUser,
+  PasswordPolicy,
+  SoftwareAuthenticator,
+  TokenDenylist,
+  TokenService,
+  Totp
+} from '@aegisx/core-auth';
+import {
+  ConflictError,
+  EmailNotVerifiedError,
+  InvalidTokenError,
+  NotFoundError,
+  TooManyRequestsError,
+  UnauthorizedError
+} from '../errors/auth.errors';
+import { SecurityEvent, SecurityEvents } from '../events/security-events';
+import { InMemoryMailSender } from '../mail/mail-sender';
+import {
+  CreateIdentityInput,
+  CreateSessionInput,
+  CreateUserInput,
+  DbEmailChangeToken,
+  DbEmailVerificationToken,
+  DbIdentity,
+  DbOidcLoginState,
+  DbPasswordResetToken,
+  DbRefreshToken,
+  DbSession,
+  DbUser,
+  DbUserMfa,
+  DbWebAuthnChallenge,
+  DbWebAuthnCredential,
+  CreateWebAuthnCredentialInput,
+  UpdateProfileInput,
+  UserRepository,
+  WebAuthnCeremony
+} from '../repositories/user.repository';
+import { AuthResult, AuthService, AuthServiceOptions, MfaChallengeResult } from '../services/auth.service';
+
+/**
+ * In-memory stand-in for the Knex backed repository
+ */
+function createInMemoryRepository() {
+  const users: DbUser[] = [{
+    id: 'user-1',
+    email: 'admin@aegisx.com',
+    password_hash: 'password123',
+    first_name: 'Admin',
+    last_name: 'User',
+    is_active: true,
+    email_verified: true,
+    login_attempts: 0,
+    created_at: new Date(),
+    updated_at: new Date()
+  }];
+  const refreshTokens: DbRefreshToken[] = [];
+  const sessions: DbSession[] = [];
+  const resetTokens: DbPasswordResetToken[] = [];
+  const verificationTokens: DbEmailVerificationToken[] = [];
+  const emailChangeTokens: DbEmailChangeToken[] = [];
+  const passwordHistory: Array<{ user_id: string; password_hash: string }> = [];
+  const mfa: DbUserMfa[] = [];
+  const recoveryCodes: Array<{ user_id: string; code_hash: string; used_at: Date | null }> = [];
+  const passkeys: DbWebAuthnCredential[] = [];
+  const webAuthnChallenges: DbWebAuthnChallenge[] = [];
+  const identities: DbIdentity[] = [];
+  const oidcLoginStates: DbOidcLoginState[] = [];
+  let sequence = 0;
+
+  const isActive = (session: DbSession) =>
+    !session.revoked_at && session.expires_at > new Date();
+
+  const repository = {
+    users,
+    refreshTokens,
+    sessions,
+    resetTokens,
+    verificationTokens,
+    emailChangeTokens,
+    passwordHistory,
+    mfa,
+    recoveryCodes,
+    passkeys,
+    webAuthnChallenges,
+    identities,
+    oidcLoginStates,
+    findByEmail: async (email: string) => users.find((u) => u.email === email && u.is_active) ?? null,
+    emailExists: async (email: string) => users.some((u) => u.email === email),
+    findById: async (id: string) => users.find((u) => u.id === id) ?? null,
+    create: async (input: CreateUserInput) => {
+      const user: DbUser = {
+        id: `user-${users.length + 1}`,
+        email: input.email,
+        password_hash: input.password,
+        first_name: input.firstName,
+        last_name: input.lastName,
+        is_active: true,
+        email_verified: false,
+        login_attempts: 0,
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      users.push(user);
+      return user;
+    },
+    verifyPassword: async (user: DbUser, password: string) => user.password_hash === password,
+    isAccountLocked: async (user: DbUser) => !!user.locked_until && user.locked_until > new Date(),
+    updateLastLogin: async () => undefined,
+    incrementLoginAttempts: async () => undefined,
+    lockAccount: async (userId: string, minutes: number) => {
+      const user = users.find((u) => u.id === userId);
+      if (user) user.locked_until = new Date(Date.now() + minutes * 60 * 1000);
+    },
+    unlockAccount: async (userId: string) => {
+      const user = users.find((u) => u.id === userId);
+      if (user) user.locked_until = undefined;
+    },
+    storeRefreshToken: async (
+      userId: string,
+      tokenHash: string,
+      expiresAt: Date,
+      familyId?: string
+    ) => {
+      const token: DbRefreshToken = {
+        id: `token-${++sequence}`,
+        user_id: userId,
+        token_hash: tokenHash,
+        family_id: familyId ?? `family-${sequence}`,
+        expires_at: expiresAt,
+        is_revoked: false,
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      refreshTokens.push(token);
+      return token;
+    },
+    findRefreshTokenByHash: async (tokenHash: string) =>
+      refreshTokens.find((t) => t.token_hash === tokenHash) ?? null,
+    markRefreshTokenRotated: async (tokenHash: string) => {
+      const token = refreshTokens.find((t) => t.token_hash === tokenHash && !t.is_revoked);
+      if (!token) return false;
+      token.is_revoked = true;
+      token.rotated_at = new Date();
+      return true;
+    },
+    createSession: async (input: CreateSessionInput) => {
+      const session: DbSession = {
+        id: `session-${++sequence}`,
+        user_id: input.userId,
+        device_info: input.deviceInfo ?? null,
+        ip_address: input.ipAddress ?? null,
+        user_agent: input.userAgent ?? null,
+        last_used_at: new Date(),
+        expires_at: input.expiresAt,
+        revoked_at: null,
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      sessions.push(session);
+      return session;
+    },
+    findActiveSession: async (userId: string, sessionId: string) =>
+      sessions.find((s) => s.id === sessionId && s.user_id === userId && isActive(s)) ?? null,
+    listActiveSessions: async (userId: string) =>
+      sessions.filter((s) => s.user_id === userId && isActive(s)),
+    touchSession: async (sessionId: string, expiresAt: Date) => {
+      const session = sessions.find((s) => s.id === sessionId);
+      if (session) {
+        session.last_used_at = new Date();
+        session.expires_at = expiresAt;
+      }
+    },
+    revokeSessions: async (sessionIds: string[]) => {
+      sessions
+        .filter((s) => sessionIds.includes(s.id))
+        .forEach((s) => (s.revoked_at = new Date()));
+      refreshTokens
+        .filter((t) => sessionIds.includes(t.family_id))
+        .forEach((t) => (t.is_revoked = true));
+    },
+    revokeRefreshToken: async (tokenHash: string) => {
+      refreshTokens
+        .filter((t) => t.token_hash === tokenHash)
+        .forEach((t) => (t.is_revoked = true));
+    },
+    updatePassword: async (userId: string, password: string) => {
+      const user = users.find((u) => u.id === userId);
+      if (user) user.password_hash = password;
+      return password;
+    },
+    matchesAnyPasswordHash: async (password: string, passwordHashes: string[]) =>
+      passwordHashes.includes(password),
+    getPasswordHistory: async (userId: string, limit: number) =>
+      passwordHistory
+        .filter((entry) => entry.user_id === userId)
+        .reverse()
+        .slice(0, limit)
+        .map((entry) => entry.password_hash),
+    addPasswordHistory: async (userId: string, passwordHash: string, keep: number) => {
+      passwordHistory.push({ user_id: userId, password_hash: passwordHash });
+      const own = passwordHistory.filter((entry) => entry.user_id === userId);
+      own.slice(0, Math.max(0, own.length - keep)).forEach((entry) => {
+        passwordHistory.splice(passwordHistory.indexOf(entry), 1);
+      });
+    },
+    storePasswordResetToken: async (userId: string, tokenHash: string, expiresAt: Date) => {
+      const resetToken: DbPasswordResetToken = {
+        id: `reset-${++sequence}`,
+        user_id: userId,
+        token_hash: tokenHash,
+        expires_at: expiresAt,
+        used_at: null,
+        created_at: new Date()
+      };
+      resetTokens.push(resetToken);
+      return resetToken;
+    },
+    findPasswordResetToken: async (tokenHash: string) =>
+      resetTokens.find(
+        (t) => t.token_hash === tokenHash && !t.used_at && t.expires_at > new Date()
+      ) ?? null,
+    consumePasswordResetToken: async (tokenHash: string) => {
+      const resetToken = resetTokens.find(
+        (t) => t.token_hash === tokenHash && !t.used_at && t.expires_at > new Date()
+      );
+      if (!resetToken) return null;
+      resetToken.used_at = new Date();
+      return resetToken;
+    },
+    invalidatePasswordResetTokens: async (userId: string) => {
+      resetTokens
+        .filter((t) => t.user_id === userId && !t.used_at)
+        .forEach((t) => (t.used_at = new Date()));
+    },
+    markEmailVerified: async (userId: string) => {
+      const user = users.find((u) => u.id === userId);
+      if (user) {
+        user.email_verified = true;
+        user.email_verified_at = new Date();
+      }
+    },
+    storeEmailVerificationToken: async (userId: string, tokenHash: string, expiresAt: Date) => {
+      const verificationToken: DbEmailVerificationToken = {
+        id: `verification-${++sequence}`,
+        user_id: userId,
+        token_hash: tokenHash,
+        expires_at: expiresAt,
+        used_at: null,
+        created_at: new Date()
+      };
+      verificationTokens.push(verificationToken);
+      return verificationToken;
+    },
+    consumeEmailVerificationToken: async (tokenHash: string) => {
+      const verificationToken = verificationTokens.find(
+        (t) => t.token_hash === tokenHash && !t.used_at && t.expires_at > new Date()
+      );
+      if (!verificationToken) return null;
+      verificationToken.used_at = new Date();
+      return verificationToken;
+    },
+    invalidateEmailVerificationTokens: async (userId: string) => {
+      verificationTokens
+        .filter((t) => t.user_id === userId && !t.used_at)
+        .forEach((t) => (t.used_at = new Date()));
+    },
+    updateProfile: async (userId: string, changes: UpdateProfileInput) => {
+      const user = users.find((u) => u.id === userId) as DbUser;
+      if (changes.firstName !== undefined) user.first_name = changes.firstName;
+      if (changes.lastName !== undefined) user.last_name = changes.lastName;
+      if (changes.avatarUrl !== undefined) user.avatar_url = changes.avatarUrl;
+      if (changes.locale !== undefined) user.locale = changes.locale;
+      if (changes.timezone !== undefined) user.timezone = changes.timezone;
+      return user;
+    },
+    changeEmail: async (userId: string, email: string) => {
+      const user = users.find((u) => u.id === userId);
+      if (user) {
+        user.email = email;
+        user.email_verified = true;
+      }
+    },
+    storeEmailChangeToken: async (userId: string, newEmail: string, tokenHash: string, expiresAt: Date) => {
+      const changeToken: DbEmailChangeToken = {
+        id: `email-change-${++sequence}`,
+        user_id: userId,
+        new_email: newEmail,
+        token_hash: tokenHash,
+        expires_at: expiresAt,
+        used_at: null,
+        created_at: new Date()
+      };
+      emailChangeTokens.push(changeToken);
+      return changeToken;
+    },
+    consumeEmailChangeToken: async (tokenHash: string) => {
+      const changeToken = emailChangeTokens.find(
+        (t) => t.token_hash === tokenHash && !t.used_at && t.expires_at > new Date()
+      );
+      if (!changeToken) return null;
+      changeToken.used_at = new Date();
+      return changeToken;
+    },
+    invalidateEmailChangeTokens: async (userId: string) => {
+      emailChangeTokens
+        .filter((t) => t.user_id === userId && !t.used_at)
+        .forEach((t) => (t.used_at = new Date()));
+    },
+    scheduleDeletion: async (userId: string, scheduledAt: Date) => {
+      const user = users.find((u) => u.id === userId);
+      if (user) {
+        user.deletion_requested_at = new Date();
+        user.deletion_scheduled_at = scheduledAt;
+      }
+    },
+    cancelDeletion: async (userId: string) => {
+      const user = users.find((u) => u.id === userId);
+      if (user) {
+        user.deletion_requested_at = null;
+        user.deletion_scheduled_at = null;
+      }
+    },
+    deleteUsersScheduledBefore: async (before: Date) => {
+      const due = users.filter((u) => !!u.deletion_scheduled_at && u.deletion_scheduled_at <= before);
+      due.forEach((user) => users.splice(users.indexOf(user), 1));
+      return due.map((user) => user.id);
+    },
+    findEmailVerificationTokensSince: async (userId: string, since: Date) =>
+      verificationTokens
+        .filter((t) => t.user_id === userId && t.created_at >= since)
+        .reverse(),
+    findMfa: async (userId: string) => mfa.find((m) => m.user_id === userId) ?? null,
+    savePendingTotpSecret: async (userId: string, secret: string) => {
+      mfa.splice(0, mfa.length, ...mfa.filter((m) => m.user_id !== userId));
+      mfa.push({
+        user_id: userId,
+        totp_secret: secret,
+        confirmed_at: null,
+        last_used_step: null,
+        created_at: new Date(),
+        updated_at: new Date()
+      });
+    },
+    confirmTotp: async (userId: string, step: number) => {
+      const entry = mfa.find((m) => m.user_id === userId);
+      if (entry) {
+        entry.confirmed_at = new Date();
+        entry.last_used_step = step;
+      }
+    },
+    useTotpStep: async (userId: string, step: number) => {
+      const entry = mfa.find((m) => m.user_id === userId);
+      if (!entry || (entry.last_used_step !== null && entry.last_used_step >= step)) return false;
+      entry.last_used_step = step;
+      return true;
+    },
+    deleteMfa: async (userId: string) => {
+      mfa.splice(0, mfa.length, ...mfa.filter((m) => m.user_id !== userId));
+      recoveryCodes.splice(0, recoveryCodes.length, ...recoveryCodes.filter((c) => c.user_id !== userId));
+    },
+    replaceRecoveryCodes: async (userId: string, codeHashes: string[]) => {
+      recoveryCodes.splice(0, recoveryCodes.length, ...recoveryCodes.filter((c) => c.user_id !== userId));
+      codeHashes.forEach((codeHash) =>
+        recoveryCodes.push({ user_id: userId, code_hash: codeHash, used_at: null })
+      );
+    },
+    consumeRecoveryCode: async (userId: string, codeHash: string) => {
+      const code = recoveryCodes.find(
+        (c) => c.user_id === userId && c.code_hash === codeHash && !c.used_at
+      );
+      if (!code) return false;
+      code.used_at = new Date();
+      return true;
+    },
+    countRecoveryCodes: async (userId: string) =>
+      recoveryCodes.filter((c) => c.user_id === userId && !c.used_at).length,
+    storeWebAuthnChallenge: async (
+      challengeHash: string,
+      ceremony: WebAuthnCeremony,
+      userId: string | null,
+      expiresAt: Date
+    ) => {
+      webAuthnChallenges.push({
+        id: `challenge-${++sequence}`,
+        user_id: userId,
+        challenge_hash: challengeHash,
+        ceremony,
+        expires_at: expiresAt,
+        used_at: null,
+        created_at: new Date()
+      });
+    },
+    consumeWebAuthnChallenge: async (challengeHash: string, ceremony: WebAuthnCeremony) => {
+      const challenge = webAuthnChallenges.find(
+        (c) =>
+          c.challenge_hash === challengeHash &&
+          c.ceremony === ceremony &&
+          !c.used_at &&
+          c.expires_at > new Date()
+      );
+      if (!challenge) return null;
+      challenge.used_at = new Date();
+      return challenge;
+    },
+    createWebAuthnCredential: async (input: CreateWebAuthnCredentialInput) => {
+      const passkey: DbWebAuthnCredential = {
+        id: `passkey-${++sequence}`,
+        user_id: input.userId,
+        credential_id: input.credentialId,
+        public_key: input.publicKey,
+        sign_count: input.signCount,
+        transports: input.transports?.join(',') || null,
+        name: input.name ?? null,
+        aaguid: input.aaguid ?? null,
+        last_used_at: null,
+        created_at: new Date()
+      };
+      passkeys.push(passkey);
+      return passkey;
+    },
+    findWebAuthnCredential: async (credentialId: string) =>
+      passkeys.find((p) => p.credential_id === credentialId) ?? null,
+    listWebAuthnCredentials: async (userId: string) => passkeys.filter((p) => p.user_id === userId),
+    updateWebAuthnCredentialCounter: async (id: string, signCount: number) => {
+      const passkey = passkeys.find((p) => p.id === id);
+      if (passkey) {
+        passkey.sign_count = signCount;
+        passkey.last_used_at = new Date();
+      }
+    },
+    deleteWebAuthnCredential: async (userId: string, id: string) => {
+      const index = passkeys.findIndex((p) => p.id === id && p.user_id === userId);
+      if (index === -1) return false;
+      passkeys.splice(index, 1);
+      return true;
+    },
+    storeOidcLoginState: async (
+      stateHash: string,
+      provider: string,
+      nonce: string,
+      codeVerifier: string,
+      expiresAt: Date
+    ) => {
+      oidcLoginStates.push({
+        id: `state-${++sequence}`,
+        state_hash: stateHash,
+        provider,
+        nonce,
+        code_verifier: codeVerifier,
+        expires_at: expiresAt,
+        used_at: null,
+        created_at: new Date()
+      });
+    },
+    consumeOidcLoginState: async (stateHash: string, provider: string) => {
+      const state = oidcLoginStates.find(
+        (s) =>
+          s.state_hash === stateHash &&
+          s.provider === provider &&
+          !s.used_at &&
+          s.expires_at > new Date()
+      );
+      if (!state) return null;
+      state.used_at = new Date();
+      return state;
+    },
+    findIdentity: async (provider: string, subject: string) =>
+      identities.find((i) => i.provider === provider && i.subject === subject) ?? null,
+    createIdentity: async (input: CreateIdentityInput) => {
+      const identity: DbIdentity = {
+        id: `identity-${++sequence}`,
+        user_id: input.userId,
+        provider: input.provider,
+        subject: input.subject,
+        email: input.email ?? null,
+        last_login_at: new Date(),
+        created_at: new Date()
+      };
+      identities.push(identity);
+      return identity;
+    },
+    listIdentities: async (userId: string) => identities.filter((i) => i.user_id === userId),
+    touchIdentity: async (id: string) => {
+      const identity = identities.find((i) => i.id === id);
+      if (identity) identity.last_login_at = new Date();
+    },
+    deleteIdentity: async (userId: string, id: string) => {
+      const index = identities.findIndex((i) => i.id === id && i.user_id === userId);
+      if (index === -1) return false;
+      identities.splice(index, 1);
+      return true;
+    },
+    revokeAllUserTokens: async (userId: string) => {
+      refreshTokens
+        .filter((t) => t.user_id === userId)
+        .forEach((t) => (t.is_revoked = true));
+      sessions
+        .filter((s) => s.user_id === userId)
+        .forEach((s) => (s.revoked_at = new Date()));
+    }
+  };
+
+  return repository;
+}
+
+function createTokenService() {
+  return new TokenService({
+    jwt: {
+      secret: 'test-secret-key-that-is-at-least-32-characters',
+      issuer: 'aegisx-platform',
+      algorithm: 'HS256',
+      accessTokenExpiry: '15m',
+      refreshTokenExpiry: '7d'
+    },
+    security: {
+      maxLoginAttempts: 5,
+      lockoutDuration: 30,
+      passwordMinLength: 6,
+      requireEmailVerification: false
+    }
+  }, { denylist: new TokenDenylist() });
+}
+
+describe('AuthService', () => {
+  let repository: ReturnType<typeof createInMemoryRepository>;
+  let securityEvents: SecurityEvents;
+  let events: SecurityEvent[];
+  let tokenService: TokenService;
+  let mailSender: InMemoryMailSender;
+  let authService: AuthService;
+
+  const login = (userAgent?: string) =>
+    authService.login(
+      { email: 'admin@aegisx.com', password: 'password123' },
+      { ipAddress: '10.0.0.1', userAgent }
+    ) as Promise<AuthResult>;
+
+  const createAuthService = (options: AuthServiceOptions = {}) =>
+    new AuthService(
+      repository as unknown as UserRepository,
+      tokenService,
+      securityEvents,
+      mailSender,
+      {
+        passwordResetUrl: 'https://app.example.com/reset-password',
+        emailVerificationUrl: 'https://app.example.com/verify-email',
+        emailChangeUrl: 'https://app.example.com/confirm-email-change',
+        ...options
+      }
+    );
+
+  const tokenFromMail = (to: string) =>
+    mailSender.lastTo(to)?.text.match(/\?token=([0-9a-f]+)/)?.[1] as string;
+
+  beforeEach(() => {
+    repository = createInMemoryRepository();
+    securityEvents = new SecurityEvents();
+    events = [];
+    securityEvents.on((event) => {
+      events.push(event);
+    });
+    tokenService = createTokenService();
+    mailSender = new InMemoryMailSender();
+    authService = createAuthService();
+  });
+
+  describe('login throttling', () => {
+    const attempt = (password: string, email = 'admin@aegisx.com', ipAddress = '10.0.0.1') =>
+      authService.login({ email, password }, { ipAddress });
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+      authService = createAuthService({
+        loginThrottle: new LoginThrottle({ maxAttempts: 3, ipMaxAttempts: 4, lockoutDuration: 10 })
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should back off exponentially between failed attempts', async () => {
+      await expect(attempt('wrong')).rejects.toThrow('Invalid email or password');
+      await expect(attempt('wrong')).rejects.toThrow('Invalid email or password');
+
+      const backoff = attempt('password123');
+      await expect(backoff).rejects.toThrow(TooManyRequestsError);
+      await expect(backoff).rejects.toMatchObject({ retryAfter: 1 });
+
+      jest.advanceTimersByTime(1_000);
+      await expect(attempt('password123')).resolves.toHaveProperty('accessToken');
+      expect((await authService.getLockoutStatus({ userId: 'user-1' })).account?.failedAttempts).toBe(0);
+    });
+
+    it('should lock the account after maxLoginAttempts and emit an event', async () => {
+      for (let i = 0; i < 2; i++) {
+        await expect(attempt('wrong')).rejects.toThrow('Invalid email or password');
+        jest.advanceTimersByTime(1_000);
+      }
+      await expect(attempt('wrong')).rejects.toThrow('Account locked due to multiple failed login attempts');
+
+      await expect(attempt('password123')).rejects.toThrow('Account is temporarily locked');
+      expect(repository.users[0].locked_until).toEqual(new Date('2025-01-01T00:10:02Z'));
+      expect(events).toContainEqual(expect.objectContaining({
+        type: 'account_locked',
+        userId: 'user-1',
+        details: expect.objectContaining({ failedAttempts: 3, ipAddress: '10.0.0.1' })
+      }));
+
+      const { account } = await authService.getLockoutStatus({ email: 'admin@aegisx.com' });
+      expect(account).toMatchObject({ userId: 'user-1', locked: true, retryAfter: 600 });
+    });
+
+    it('should lock an IP that fails across accounts', async () => {
+      for (const email of ['a@example.com', 'b@example.com', 'c@example.com']) {
+        await expect(attempt('wrong', email)).rejects.toThrow('Invalid email or password');
+        jest.advanceTimersByTime(5_000);
+      }
+      await expect(attempt('wrong')).rejects.toThrow('Invalid email or password');
+
+      await expect(attempt('password123')).rejects.toThrow(TooManyRequestsError);
+      await expect(attempt('password123', 'admin@aegisx.com', '10.0.0.2')).resolves.toHaveProperty('accessToken');
+      expect(events.map((event) => event.type)).toContain('ip_locked');
+      expect((await authService.getLockoutStatus({ ipAddress: '10.0.0.1' })).ip).toMatchObject({ locked: true });
+    });
+
+    it('should let an admin unlock accounts and IP addresses', async () => {
+      for (let i = 0; i < 3; i++) {
+        await attempt('wrong').catch(() => undefined);
+        jest.advanceTimersByTime(1_000);
+      }
+
+      const status = await authService.unlock({ userId: 'user-1', ipAddress: '10.0.0.1' }, 'admin-9');
+
+      expect(status.account).toMatchObject({ locked: false, failedAttempts: 0 });
+      expect(status.ip).toMatchObject({ locked: false, failedAttempts: 0 });
+      expect(events).toContainEqual(expect.objectContaining({
+        type: 'account_unlocked',
+        userId: 'user-1',
+        details: { unlockedBy: 'admin-9' }
+      }));
+      await expect(attempt('password123')).resolves.toHaveProperty('accessToken');
+    });
+
+    it('should require an account or IP address to look up', async () => {
+      await expect(authService.getLockoutStatus({})).rejects.toThrow('A user id, email or IP address is required');
+      await expect(authService.unlock({ email: 'nobody@example.com' }, 'admin-9')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('refreshToken', () => {
+    it('should rotate refresh tokens within the login family', async () => {
+      const login = await authService.login({
+        email: 'admin@aegisx.com',
+        password: 'password123'
+      }) as AuthResult;
+
+      const refreshed = await authService.refreshToken(login.refreshToken);
+
+      expect(refreshed.refreshToken).not.toBe(login.refreshToken);
+      expect(repository.refreshTokens).toHaveLength(2);
+      expect(repository.refreshTokens[1].family_id).toBe(repository.refreshTokens[0].family_id);
+      expect(repository.refreshTokens[0].rotated_at).toBeDefined();
+    });
+
+    it('should carry the tenant of the user in access tokens', async () => {
+      repository.users[0].tenant_id = 'tenant-a';
+
+      const { accessToken, refreshToken } = await login();
+      const refreshed = await authService.refreshToken(refreshToken);
+
+      expect(tokenService.verifyAccessToken(accessToken).tenantId).toBe('tenant-a');
+      expect(tokenService.verifyAccessToken(refreshed.accessToken).tenantId).toBe('tenant-a');
+    });
+
+    it('should carry the roles and permission version of the user in access tokens', async () => {
+      let permissionVersion = 7;
+      authService = createAuthService({
+        permissionClaims: {
+          getEffectivePermissions: async () => ({ roles: ['admin'] }),
+          getPermissionVersion: async () => permissionVersion
+        }
+      });
+
+      const { accessToken, refreshToken } = await login();
+      permissionVersion = 8;
+      const refreshed = await authService.refreshToken(refreshToken);
+
+      expect(tokenService.verifyAccessToken(accessToken)).toMatchObject({ roles: ['admin'], permissionVersion: 7 });
+      expect(tokenService.verifyAccessToken(refreshed.accessToken).permissionVersion).toBe(8);
+    });
+
+    it('should revoke the family and emit an event when a rotated token is replayed', async () => {
+      const login = await authService.login({
+        email: 'admin@aegisx.com',
+        password: 'password123'
+      }) as AuthResult;
+      const refreshed = await authService.refreshToken(login.refreshToken);
+
+      await expect(authService.refreshToken(login.refreshToken)).rejects.toThrow(
+        new InvalidTokenError('Refresh token reuse detected')
+      );
+
+      // The legitimate token of the family is revoked too
+      await expect(authService.refreshToken(refreshed.refreshToken)).rejects.toThrow(
+        InvalidTokenError
+      );
+      expect(repository.refreshTokens.every((t) => t.is_revoked)).toBe(true);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        type: 'refresh_token_reuse',
+        userId: 'user-1',
+        details: { familyId: repository.refreshTokens[0].family_id }
+      });
+    });
+
+    it('should leave other families alone', async () => {
+      const first = await authService.login({
+        email: 'admin@aegisx.com',
+        password: 'password123'
+      }) as AuthResult;
+      const second = await authService.login({
+        email: 'admin@aegisx.com',
+        password: 'password123'
+      }) as AuthResult;
+      await authService.refreshToken(first.refreshToken);
+
+      await expect(authService.refreshToken(first.refreshToken)).rejects.toThrow(
+        InvalidTokenError
+      );
+
+      const refreshed = await authService.refreshToken(second.refreshToken);
+      expect(refreshed.accessToken).toBeDefined();
+    });
+
+    it('should reject logged out tokens without a reuse event', async () => {
+      const login = await authService.login({
+        email: 'admin@aegisx.com',
+        password: 'password123'
+      }) as AuthResult;
+      await authService.logout(login.refreshToken);
+
+      await expect(authService.refreshToken(login.refreshToken)).rejects.toThrow(
+        new InvalidTokenError('Invalid or expired refresh token')
+      );
+      expect(events).toHaveLength(0);
+    });
+  });
+
+  describe('sessions', () => {
+    it('should record device metadata at login', async () => {
+      const result = await login('Firefox');
+      const { jti } = tokenService.verifyAccessToken(result.accessToken);
+
+      const sessions = await authService.listSessions('user-1', jti);
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]).toMatchObject({
+        id: jti,
+        ipAddress: '10.0.0.1',
+        userAgent: 'Firefox',
+        current: true
+      });
+      expect(repository.refreshTokens[0].family_id).toBe(jti);
+    });
+
+    it('should keep the session id across refreshes', async () => {
+      const result = await login();
+      const refreshed = await authService.refreshToken(result.refreshToken);
+
+      expect(tokenService.verifyAccessToken(refreshed.accessToken).jti).toBe(
+        tokenService.verifyAccessToken(result.accessToken).jti
+      );
+      expect(repository.sessions).toHaveLength(1);
+    });
+
+    it('should revoke a session with its refresh and access tokens', async () => {
+      const phone = await login('Phone');
+      const laptop = await login('Laptop');
+      const phoneSession = tokenService.verifyAccessToken(phone.accessToken).jti as string;
+
+      await authService.revokeSession('user-1', phoneSession);
+
+      await expect(authService.refreshToken(phone.refreshToken)).rejects.toThrow(InvalidTokenError);
+      await expect(tokenService.verifyActiveAccessToken(phone.accessToken)).rejects.toThrow(
+        'AUTH_TOKEN_REVOKED'
+      );
+      expect((await tokenService.verifyActiveAccessToken(laptop.accessToken)).sub).toBe('user-1');
+      expect(await authService.listSessions('user-1')).toHaveLength(1);
+    });
+
+    it('should not revoke sessions of other users', async () => {
+      const result = await login();
+      const sessionId = tokenService.verifyAccessToken(result.accessToken).jti as string;
+
+      await expect(authService.revokeSession('user-2', sessionId)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should revoke every other session', async () => {
+      const current = await login('Laptop');
+      await login('Phone');
+      await login('Tablet');
+      const currentSession = tokenService.verifyAccessToken(current.accessToken).jti;
+
+      const revoked = await authService.revokeOtherSessions('user-1', currentSession);
+
+      expect(revoked).toBe(2);
+      const remaining = await authService.listSessions('user-1', currentSession);
+      expect(remaining.map((session) => session.userAgent)).toEqual(['Laptop']);
+    });
+  });
+
+  describe('password reset', () => {
+    const requestResetToken = async () => {
+      await authService.requestPasswordReset('Admin@aegisx.com');
+      return tokenFromMail('admin@aegisx.com');
+    };
+
+    it('should email a reset link and store only the token hash', async () => {
+      const token = await requestResetToken();
+
+      expect(token).toHaveLength(64);
+      expect(mailSender.sent).toHaveLength(1);
+      expect(mailSender.sent[0].subject).toBe('Reset your password');
+      expect(repository.resetTokens).toHaveLength(1);
+      expect(repository.resetTokens[0].token_hash).not.toBe(token);
+    });
+
+    it('should complete silently for unknown emails', async () => {
+      await expect(authService.requestPasswordReset('nobody@aegisx.com')).resolves.toBeUndefined();
+
+      expect(mailSender.sent).toHaveLength(0);
+      expect(repository.resetTokens).toHaveLength(0);
+    });
+
+    it('should set the new password and revoke every session', async () => {
+      const session = await login();
+      const token = await requestResetToken();
+
+      await authService.resetPassword(token, 'new-password');
+
+      expect(repository.users[0].password_hash).toBe('new-password');
+      expect(repository.passwordHistory.map((entry) => entry.password_hash)).toEqual(['new-password']);
+      await expect(authService.refreshToken(session.refreshToken)).rejects.toThrow(InvalidTokenError);
+      expect(await authService.listSessions('user-1')).toHaveLength(0);
+      expect(events.map((event) => event.type)).toEqual(['password_reset']);
+    });
+
+    it('should accept a reset token only once', async () => {
+      const token = await requestResetToken();
+      await authService.resetPassword(token, 'new-password');
+
+      await expect(authService.resetPassword(token, 'other-password')).rejects.toThrow(
+        new InvalidTokenError('Invalid or expired password reset token')
+      );
+    });
+
+    it('should invalidate other outstanding reset tokens', async () => {
+      const first = await requestResetToken();
+      const second = await requestResetToken();
+
+      await authService.resetPassword(second, 'new-password');
+
+      await expect(authService.resetPassword(first, 'other-password')).rejects.toThrow(
+        InvalidTokenError
+      );
+    });
+
+    it('should let administrators set a password within the policy and revoke every session', async () => {
+      const session = await login();
+      const user = { id: 'user-1', email: 'admin@aegisx.com' };
+
+      await expect(authService.setPassword(user, 'short1')).rejects.toMatchObject({ field: 'PASSWORD_TOO_SHORT' });
+      await authService.setPassword(user, 'Brand-new-pass1');
+
+      expect(repository.users[0].password_hash).toBe('Brand-new-pass1');
+      await expect(authService.refreshToken(session.refreshToken)).rejects.toThrow(InvalidTokenError);
+      expect(events).toHaveLength(0);
+    });
+
+    it('should reject expired reset tokens', async () => {
+      const token = await requestResetToken();
+      repository.resetTokens[0].expires_at = new Date(Date.now() - 1000);
+
+      await expect(authService.resetPassword(token, 'new-password')).rejects.toThrow(
+        InvalidTokenError
+      );
+      expect(repository.users[0].password_hash).toBe('password123');
+    });
+  });
+
+  describe('email verification', () => {
+    const newUser = {
+      email: 'New@aegisx.com',
+      password: 'Sunny-garden-42',
+      firstName: 'New',
+      lastName: 'User'
+    };
+
+    it('should email a verification link on register', async () => {
+      const result = await authService.register(newUser);
+
+      expect('accessToken' in result).toBe(true);
+      expect(mailSender.lastTo('new@aegisx.com')?.subject).toBe('Verify your email address');
+      expect(tokenFromMail('new@aegisx.com')).toHaveLength(64);
+    });
+
+    it('should refuse to register the email of a deactivated account', async () => {
+      repository.users[0].is_active = false;
+
+      await expect(
+        authService.register({ ...newUser, email: 'admin@aegisx.com' })
+      ).rejects.toThrow(ConflictError);
+      expect(repository.users).toHaveLength(1);
+    });
+
+    it('should mark the email verified with a valid token once', async () => {
+      await authService.register(newUser);
+      const token = tokenFromMail('new@aegisx.com');
+
+      await authService.verifyEmail(token);
+
+      const user = repository.users.find((u) => u.email === 'new@aegisx.com');
+      expect(user?.email_verified).toBe(true);
+      expect(user?.email_verified_at).toBeInstanceOf(Date);
+      await expect(authService.verifyEmail(token)).rejects.toThrow(InvalidTokenError);
+    });
+
+    describe('when verification is required', () => {
+      beforeEach(() => {
+        authService = createAuthService({ requireEmailVerification: true });
+      });
+
+      it('should register without starting a session', async () => {
+        const result = await authService.register(newUser);
+
+        expect(result).toMatchObject({ emailVerificationRequired: true });
+        expect('accessToken' in result).toBe(false);
+        expect(repository.sessions).toHaveLength(0);
+      });
+
+      it('should refuse login until the email is verified', async () => {
+        await authService.register(newUser);
+        const credentials = { email: 'new@aegisx.com', password: 'Sunny-garden-42' };
+
+        const error = await authService.login(credentials).catch((e) => e);
+        expect(error).toBeInstanceOf(EmailNotVerifiedError);
+        expect(error).toMatchObject({ statusCode: 403, code: 'EMAIL_NOT_VERIFIED' });
+
+        await authService.verifyEmail(tokenFromMail('new@aegisx.com'));
+        await expect(authService.login(credentials)).resolves.toHaveProperty('accessToken');
+      });
+
+      it('should not reveal verification state for wrong passwords', async () => {
+        await authService.register(newUser);
+
+        await expect(
+          authService.login({ email: 'new@aegisx.com', password: 'wrong-password' })
+        ).rejects.toThrow('Invalid email or password');
+      });
+    });
+
+    describe('resend', () => {
+      beforeEach(() => {
+        authService = createAuthService({
+          emailVerificationResendCooldown: 0,
+          emailVerificationMaxPerHour: 3
+        });
+      });
+
+      it('should replace outstanding tokens', async () => {
+        await authService.register(newUser);
+        const first = tokenFromMail('new@aegisx.com');
+
+        await authService.resendVerificationEmail('new@aegisx.com');
+        const second = tokenFromMail('new@aegisx.com');
+
+        expect(second).not.toBe(first);
+        await expect(authService.verifyEmail(first)).rejects.toThrow(InvalidTokenError);
+        await expect(authService.verifyEmail(second)).resolves.toBeUndefined();
+      });
+
+      it('should skip unknown and verified addresses silently', async () => {
+        await authService.resendVerificationEmail('nobody@aegisx.com');
+        await authService.resendVerificationEmail('admin@aegisx.com');
+
+        expect(mailSender.sent).toHaveLength(0);
+      });
+
+      it('should throttle to the hourly maximum', async () => {
+        await authService.register(newUser);
+        await authService.resendVerificationEmail('new@aegisx.com');
+        await authService.resendVerificationEmail('new@aegisx.com');
+
+        const error = await authService
+          .resendVerificationEmail('new@aegisx.com')
+          .catch((e) => e);
+        expect(error).toBeInstanceOf(TooManyRequestsError);
+        expect(error).toMatchObject({ statusCode: 429, code: 'RATE_LIMIT_EXCEEDED' });
+        expect(mailSender.sent).toHaveLength(3);
+      });
+
+      it('should enforce the cooldown between emails', async () => {
+        authService = createAuthService({ emailVerificationResendCooldown: 60 });
+        await authService.register(newUser);
+
+        await expect(authService.resendVerificationEmail('new@aegisx.com')).rejects.toThrow(
+          TooManyRequestsError
+        );
+      });
+    });
+  });
+
+  describe('changePassword', () => {
+    const change = (currentPassword: string, newPassword: string, currentSessionId?: string) =>
+      authService.changePassword(
+        'user-1',
+        { currentPassword, newPassword },
+        { currentSessionId }
+      );
+
+    it('should verify the current password', async () => {
+      const error = await change('wrong-password', 'Brand-new-pass1').catch((e) => e);
+
+      expect(error).toMatchObject({
+        message: 'Current password is incorrect',
+        field: 'currentPassword'
+      });
+    });
+
+    it('should enforce the password policy with rule codes', async () => {
+      const fieldOf = (newPassword: string) =>
+        change('password123', newPassword).catch((error) => error.field);
+
+      expect(await fieldOf('short1')).toBe('PASSWORD_TOO_SHORT');
+      expect(await fieldOf('password1')).toBe('PASSWORD_BREACHED');
+      expect(await fieldOf('admin@aegisx.com1')).toBe('PASSWORD_CONTAINS_EMAIL');
+      expect(await fieldOf('aaaaaaaaaaaa')).toBe('PASSWORD_TOO_WEAK');
+    });
+
+    it('should block reuse of recent passwords', async () => {
+      authService = createAuthService({ passwordHistorySize: 2 });
+
+      await change('password123', 'first-secret1');
+      await expect(change('first-secret1', 'first-secret1')).rejects.toThrow(
+        'Password must not match any of your last 2 passwords'
+      );
+      await change('first-secret1', 'second-secret2');
+      await expect(change('second-secret2', 'first-secret1')).rejects.toThrow(
+        'Password must not match any of your last 2 passwords'
+      );
+
+      await change('second-secret2', 'third-secret3');
+      // Dropped out of the history
+      await expect(change('third-secret3', 'first-secret1')).resolves.toBeUndefined();
+    });
+
+    it('should revoke other sessions and keep the current one', async () => {
+      const current = await login('Laptop');
+      await login('Phone');
+      const currentSession = tokenService.verifyAccessToken(current.accessToken).jti;
+
+      await change('password123', 'Brand-new-pass1', currentSession);
+
+      const sessions = await authService.listSessions('user-1');
+      expect(sessions.map((session) => session.userAgent)).toEqual(['Laptop']);
+      expect(events.map((event) => event.type)).toEqual(['password_changed']);
+    });
+
+    it('should keep other sessions when asked to', async () => {
+      await login('Laptop');
+      await login('Phone');
+
+      await authService.changePassword(
+        'user-1',
+        { currentPassword: 'password123', newPassword: 'Brand-new-pass1' },
+        { revokeOtherSessions: false }
+      );
+
+      expect(await authService.listSessions('user-1')).toHaveLength(2);
+    });
+  });
+
+  describe('profile', () => {
+    it('should update names and normalize the preferences', async () => {
+      const user = await authService.updateProfile('user-1', {
+        firstName: '  Somchai ',
+        avatarUrl: 'https://cdn.example.com/avatars/1.png',
+        locale: 'th-th',
+        timezone: 'asia/bangkok'
+      });
+
+      expect(user).toMatchObject({
+        firstName: 'Somchai',
+        lastName: 'User',
+        avatarUrl: 'https://cdn.example.com/avatars/1.png',
+        locale: 'th-TH',
+        timezone: 'Asia/Bangkok'
+      });
+
+      const cleared = await authService.updateProfile('user-1', { avatarUrl: null, locale: null });
+      expect(cleared.avatarUrl).toBeUndefined();
+      expect(cleared.locale).toBeUndefined();
+      expect(cleared.timezone).toBe('Asia/Bangkok');
+    });
+
+    it('should reject invalid preferences with the field name', async () => {
+      const fieldOf = (request: Parameters<AuthService['updateProfile']>[1]) =>
+        authService.updateProfile('user-1', request).catch((error) => error.field);
+
+      expect(await fieldOf({ firstName: '   ' })).toBe('firstName');
+      expect(await fieldOf({ avatarUrl: 'http://cdn.example.com/1.png' })).toBe('avatarUrl');
+      expect(await fieldOf({ avatarUrl: 'javascript:alert(1)' })).toBe('avatarUrl');
+      expect(await fieldOf({ locale: 'not a locale' })).toBe('locale');
+      expect(await fieldOf({ timezone: 'Mars/Olympus_Mons' })).toBe('timezone');
+    });
+  });
+
+  describe('email change', () => {
+    it('should swap the address only once the new one is confirmed', async () => {
+      await authService.requestEmailChange('user-1', 'New.Admin@aegisx.com', 'password123');
+
+      expect(repository.users[0].email).toBe('admin@aegisx.com');
+      expect(mailSender.lastTo('admin@aegisx.com')?.subject).toBe('Your email address is being changed');
+      const token = tokenFromMail('new.admin@aegisx.com');
+
+      await authService.confirmEmailChange(token);
+
+      expect(repository.users[0]).toMatchObject({ email: 'new.admin@aegisx.com', email_verified: true });
+      await expect(authService.confirmEmailChange(token)).rejects.toThrow(InvalidTokenError);
+      expect(events.map((event) => event.type)).toEqual(['email_change_requested', 'email_changed']);
+      expect(events[1].details).toEqual({ previousEmail: 'admin@aegisx.com', newEmail: 'new.admin@aegisx.com' });
+    });
+
+    it('should require the password and a free, different address', async () => {
+      await repository.create({ email: 'taken@aegisx.com', password: 'x', firstName: 'T', lastName: 'U' });
+
+      await expect(authService.requestEmailChange('user-1', 'other@aegisx.com', 'wrong-password'))
+        .rejects.toMatchObject({ field: 'password' });
+      await expect(authService.requestEmailChange('user-1', 'Admin@aegisx.com', 'password123'))
+        .rejects.toMatchObject({ field: 'newEmail' });
+      await expect(authService.requestEmailChange('user-1', 'taken@aegisx.com', 'password123'))
+        .rejects.toThrow(ConflictError);
+      expect(mailSender.sent).toHaveLength(0);
+    });
+
+    it('should not move to the address of a deactivated account', async () => {
+      const taken = await repository.create({ email: 'taken@aegisx.com', password: 'x', firstName: 'T', lastName: 'U' });
+      taken.is_active = false;
+      await expect(authService.requestEmailChange('user-1', 'taken@aegisx.com', 'password123'))
+        .rejects.toThrow(ConflictError);
+
+      await authService.requestEmailChange('user-1', 'later@aegisx.com', 'password123');
+      const later = await repository.create({ email: 'later@aegisx.com', password: 'x', firstName: 'L', lastName: 'U' });
+      later.is_active = false;
+      await expect(authService.confirmEmailChange(tokenFromMail('later@aegisx.com')))
+        .rejects.toThrow(ConflictError);
+      expect(repository.users[0].email).toBe('admin@aegisx.com');
+    });
+
+    it('should only confirm the latest request', async () => {
+      await authService.requestEmailChange('user-1', 'first@aegisx.com', 'password123');
+      const first = tokenFromMail('first@aegisx.com');
+      await authService.requestEmailChange('user-1', 'second@aegisx.com', 'password123');
+
+      await expect(authService.confirmEmailChange(first)).rejects.toThrow(InvalidTokenError);
+      await authService.confirmEmailChange(tokenFromMail('second@aegisx.com'));
+      expect(repository.users[0].email).toBe('second@aegisx.com');
+    });
+  });
+
+  describe('account deletion', () => {
+    it('should schedule the deletion after the grace period and keep only the current session', async () => {
+      authService = createAuthService({ accountDeletionGracePeriod: 14 });
+      const current = await login('Laptop');
+      await login('Phone');
+      const currentSession = tokenService.verifyAccessToken(current.accessToken).jti;
+
+      const { deletionScheduledAt } = await authService.requestAccountDeletion('user-1', 'password123', currentSession);
+
+      const days = (deletionScheduledAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+      expect(Math.round(days)).toBe(14);
+      expect((await authService.listSessions('user-1')).map((session) => session.userAgent)).toEqual(['Laptop']);
+      expect(mailSender.lastTo('admin@aegisx.com')?.subject).toBe('Your account will be deleted');
+      expect((await authService.getUser('user-1')).deletionScheduledAt).toEqual(deletionScheduledAt);
+
+      // Asking again keeps the original date
+      const again = await authService.requestAccountDeletion('user-1', 'password123');
+      expect(again.deletionScheduledAt).toEqual(deletionScheduledAt);
+    });
+
+    it('should require the password', async () => {
+      await expect(authService.requestAccountDeletion('user-1', 'wrong-password'))
+        .rejects.toMatchObject({ field: 'password' });
+      expect(repository.users[0].deletion_scheduled_at).toBeUndefined();
+    });
+
+    it('should cancel a pending deletion', async () => {
+      await expect(authService.cancelAccountDeletion('user-1')).rejects.toThrow('No account deletion is pending');
+
+      await authService.requestAccountDeletion('user-1', 'password123');
+      await authService.cancelAccountDeletion('user-1');
+
+      expect((await authService.getUser('user-1')).deletionScheduledAt).toBeUndefined();
+      expect(await authService.purgeDeletedAccounts()).toBe(0);
+      expect(events.map((event) => event.type)).toEqual(['account_deletion_requested', 'account_deletion_cancelled']);
+    });
+
+    it('should delete accounts once the grace period ended', async () => {
+      authService = createAuthService({ accountDeletionGracePeriod: 0 });
+      await authService.requestAccountDeletion('user-1', 'password123');
+
+      expect(await authService.purgeDeletedAccounts()).toBe(1);
+      expect(repository.users).toHaveLength(0);
+      expect(events.map((event) => event.type)).toContain('account_deleted');
+    });
+  });
+
+  describe('password policy', () => {
+    it('should apply the policy on register', async () => {
+      const error = await authService
+        .register({
+          email: 'weak@aegisx.com',
+          password: 'qwerty123',
+          firstName: 'Weak',
+          lastName: 'Password'
+        })
+        .catch((e) => e);
+
+      expect(error).toMatchObject({ statusCode: 400, field: 'PASSWORD_BREACHED' });
+      expect(repository.users).toHaveLength(1);
+    });
+
+    it('should keep the reset token usable when the new password is rejected', async () => {
+      await authService.requestPasswordReset('admin@aegisx.com');
+      const token = tokenFromMail('admin@aegisx.com');
+
+      await expect(authService.resetPassword(token, 'admin@aegisx.com')).rejects.toMatchObject({
+        field: 'PASSWORD_CONTAINS_EMAIL'
+      });
+      await expect(authService.resetPassword(token, 'new-password')).resolves.toBeUndefined();
+    });
+
+    it('should honor a configured policy', async () => {
+      authService = createAuthService({
+        passwordPolicy: PasswordPolicy.fromAuthConfig({
+          security: { passwordMinLength: 16, passwordPolicy: { requireSymbol: true } }
+        } as AuthConfig)
+      });
+
+      const error = await authService
+        .changePassword('user-1', { currentPassword: 'password123', newPassword: 'Brandnewpass1' })
+        .catch((e) => e);
+      expect(error.field).toBe('PASSWORD_TOO_SHORT');
+    });
+  });
+
+  describe('multi-factor authentication', () => {
+    const totp = new Totp();
+
+    // Codes from the next time steps, as an authenticator app would show them later
+    const codeAt = (secret: string, offset = 0) =>
+      totp.generate(secret, totp.timeStep() + offset);
+
+    const enable = async () => {
+      const { secret } = await authService.startTotpEnrollment('user-1');
+      const recoveryCodes = await authService.confirmTotpEnrollment('user-1', codeAt(secret));
+      return { secret, recoveryCodes };
+    };
+
+    const challenge = async () =>
+      (await authService.login({ email: 'admin@aegisx.com', password: 'password123' })) as MfaChallengeResult;
+
+    it('should enroll with a secret and otpauth URI', async () => {
+      const enrollment = await authService.startTotpEnrollment('user-1');
+
+      expect(enrollment.secret).toMatch(/^[A-Z2-7]+$/);
+      expect(enrollment.otpauthUri).toContain('otpauth://totp/AegisX%3Aadmin%40aegisx.com');
+      expect(await authService.getMfaStatus('user-1')).toEqual({
+        totpEnabled: false,
+        recoveryCodesRemaining: 0
+      });
+    });
+
+    it('should enable MFA only with a valid code', async () => {
+      await authService.startTotpEnrollment('user-1');
+
+      await expect(authService.confirmTotpEnrollment('user-1', '000000')).rejects.toMatchObject({
+        field: 'code'
+      });
+
+      const { recoveryCodes } = await enable();
+      expect(recoveryCodes).toHaveLength(10);
+      expect(recoveryCodes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      expect(repository.recoveryCodes.map((c) => c.code_hash)).not.toContain(recoveryCodes[0]);
+      expect(await authService.getMfaStatus('user-1')).toEqual({
+        totpEnabled: true,
+        recoveryCodesRemaining: 10
+      });
+      expect(events.map((event) => event.type)).toEqual(['mfa_enabled']);
+    });
+
+    it('should answer login with a challenge instead of tokens', async () => {
+      await enable();
+
+      const result = await challenge();
+
+      expect(result).toMatchObject({ mfaRequired: true, expiresIn: 300 });
+      expect(result).not.toHaveProperty('accessToken');
+      expect(repository.sessions).toHaveLength(0);
+    });
+
+    it('should exchange the challenge and a TOTP code for tokens', async () => {
+      const { secret } = await enable();
+      const { challengeToken } = await challenge();
+
+      const result = await authService.completeMfaLogin({ challengeToken, code: codeAt(secret, 1) });
+
+      expect(tokenService.verifyAccessToken(result.accessToken).sub).toBe('user-1');
+      expect(repository.sessions).toHaveLength(1);
+    });
+
+    it('should reject replayed codes and used challenges', async () => {
+      const { secret } = await enable();
+      const first = await challenge();
+      await authService.completeMfaLogin({ challengeToken: first.challengeToken, code: codeAt(secret, 1) });
+
+      const second = await challenge();
+      await expect(
+        authService.completeMfaLogin({ challengeToken: second.challengeToken, code: codeAt(secret, 1) })
+      ).rejects.toThrow('Invalid verification code');
+
+      await expect(
+        authService.completeMfaLogin({ challengeToken: first.challengeToken, code: codeAt(secret) })
+      ).rejects.toThrow(new InvalidTokenError('Invalid or expired MFA challenge'));
+    });
+
+    it('should not accept access tokens as challenges', async () => {
+      const { secret } = await enable();
+      await authService.disableMfa('user-1', 'password123');
+      const { accessToken } = await login();
+      repository.mfa.push({
+        user_id: 'user-1',
+        totp_secret: secret,
+        confirmed_at: new Date(),
+        last_used_step: null,
+        created_at: new Date(),
+        updated_at: new Date()
+      });
+
+      await expect(
+        authService.completeMfaLogin({ challengeToken: accessToken, code: codeAt(secret) })
+      ).rejects.toThrow(InvalidTokenError);
+    });
+
+    it('should accept each recovery code once', async () => {
+      const { recoveryCodes } = await enable();
+
+      const { challengeToken } = await challenge();
+      await expect(
+        authService.completeMfaLogin({ challengeToken, recoveryCode: recoveryCodes[0].toUpperCase() })
+      ).resolves.toHaveProperty('accessToken');
+      expect(events.map((event) => event.type)).toContain('mfa_recovery_code_used');
+      expect(events[events.length - 1].details).toEqual({ remaining: 9 });
+
+      const next = await challenge();
+      await expect(
+        authService.completeMfaLogin({ challengeToken: next.challengeToken, recoveryCode: recoveryCodes[0] })
+      ).rejects.toThrow('Invalid verification code');
+    });
+
+    it('should regenerate recovery codes with a current code', async () => {
+      const { secret, recoveryCodes } = await enable();
+
+      const fresh = await authService.regenerateRecoveryCodes('user-1', codeAt(secret, 1));
+
+      expect(fresh).toHaveLength(10);
+      const { challengeToken } = await challenge();
+      await expect(
+        authService.completeMfaLogin({ challengeToken, recoveryCode: recoveryCodes[0] })
+      ).rejects.toThrow('Invalid verification code');
+    });
+
+    it('should disable MFA with the password', async () => {
+      await enable();
+
+      await expect(authService.disableMfa('user-1', 'wrong-password')).rejects.toMatchObject({
+        field: 'password'
+      });
+      await authService.disableMfa('user-1', 'password123');
+
+      await expect(login()).resolves.toHaveProperty('accessToken');
+      expect(repository.recoveryCodes).toHaveLength(0);
+      await expect(authService.disableMfa('user-1', 'password123')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('passkeys', () => {
+    let authenticator: SoftwareAuthenticator;
+
+    const registerPasskey = async (name?: string) =>
+      authService.finishPasskeyRegistration(
+        'user-1',
+        authenticator.createCredential(await authService.startPasskeyRegistration('user-1')),
+        name
+      );
+
+    beforeEach(() => {
+      authenticator = new SoftwareAuthenticator('http://localhost:4200');
+    });
+
+    it('should register and list passkeys', async () => {
+      const passkey = await registerPasskey('Ward laptop');
+
+      expect(passkey).toMatchObject({ name: 'Ward laptop', transports: ['internal'] });
+      expect(await authService.listPasskeys('user-1')).toHaveLength(1);
+      expect(events.map((event) => event.type)).toEqual(['passkey_registered']);
+
+      // Existing passkeys are excluded from new registrations
+      const options = await authService.startPasskeyRegistration('user-1');
+      expect(options.excludeCredentials.map((c) => c.id)).toEqual([repository.passkeys[0].credential_id]);
+    });
+
+    it('should only accept registration challenges once and for the same user', async () => {
+      const options = await authService.startPasskeyRegistration('user-1');
+      const response = authenticator.createCredential(options);
+
+      await expect(authService.finishPasskeyRegistration('user-2', response)).rejects.toThrow(
+        new InvalidTokenError('Invalid or expired passkey challenge')
+      );
+      await expect(authService.finishPasskeyRegistration('user-1', response)).rejects.toThrow(
+        InvalidTokenError
+      );
+    });
+
+    it('should report failed verification with the WebAuthn error code', async () => {
+      const options = await authService.startPasskeyRegistration('user-1');
+      const phished = new SoftwareAuthenticator('https://evil.example.com').createCredential(options);
+
+      await expect(authService.finishPasskeyRegistration('user-1', phished)).rejects.toMatchObject({
+        statusCode: 400,
+        field: 'WEBAUTHN_ORIGIN_MISMATCH'
+      });
+    });
+
+    it('should sign in without a password', async () => {
+      await registerPasskey();
+
+      const options = await authService.startPasskeyLogin();
+      expect(options.allowCredentials).toEqual([]);
+
+      const result = await authService.finishPasskeyLogin(authenticator.getAssertion(options));
+
+      expect(tokenService.verifyAccessToken(result.accessToken).sub).toBe('user-1');
+      expect(repository.passkeys[0].sign_count).toBe(2);
+      expect(repository.passkeys[0].last_used_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject replayed assertions and unknown passkeys', async () => {
+      await registerPasskey();
+      const assertion = authenticator.getAssertion(await authService.startPasskeyLogin());
+      await authService.finishPasskeyLogin(assertion);
+
+      await expect(authService.finishPasskeyLogin(assertion)).rejects.toThrow(
+        'Passkey verification failed'
+      );
+
+      const stranger = new SoftwareAuthenticator('http://localhost:4200');
+      stranger.createCredential(await authService.startPasskeyRegistration('user-1'));
+      await expect(
+        authService.finishPasskeyLogin(stranger.getAssertion(await authService.startPasskeyLogin()))
+      ).rejects.toThrow('Passkey not recognized');
+    });
+
+    it('should report signature counters that go backwards', async () => {
+      await registerPasskey();
+      const older = authenticator.getAssertion(await authService.startPasskeyLogin());
+      const newer = authenticator.getAssertion(await authService.startPasskeyLogin());
+      await authService.finishPasskeyLogin(newer);
+
+      await expect(authService.finishPasskeyLogin(older)).rejects.toThrow('Passkey verification failed');
+      expect(events.map((event) => event.type)).toContain('passkey_counter_mismatch');
+    });
+
+    it('should work as a second factor', async () => {
+      const { secret } = await authService.startTotpEnrollment('user-1');
+      await authService.confirmTotpEnrollment('user-1', new Totp().generate(secret));
+      await registerPasskey();
+
+      const { challengeToken, methods } = (await authService.login({
+        email: 'admin@aegisx.com',
+        password: 'password123'
+      })) as MfaChallengeResult;
+      expect(methods).toEqual(['totp', 'recovery_code', 'passkey']);
+
+      const options = await authService.startPasskeyLogin(challengeToken);
+      expect(options.allowCredentials).toHaveLength(1);
+
+      // A passwordless challenge cannot answer the MFA step
+      const passwordless = authenticator.getAssertion(await authService.startPasskeyLogin());
+      await expect(
+        authService.completeMfaLogin({ challengeToken, passkey: passwordless })
+      ).rejects.toThrow('Invalid verification code');
+
+      const result = await authService.completeMfaLogin({
+        challengeToken,
+        passkey: authenticator.getAssertion(options)
+      });
+      expect(result).toHaveProperty('accessToken');
+    });
+
+    it('should remove passkeys of the user only', async () => {
+      const passkey = await registerPasskey();
+
+      await expect(authService.deletePasskey('user-2', passkey.id)).rejects.toThrow(NotFoundError);
+      await authService.deletePasskey('user-1', passkey.id);
+
+      expect(await authService.listPasskeys('user-1')).toEqual([]);
+    });
+  });
+
+  describe('external login', () => {
+    const provider = new MockOidcProvider({ clientId: 'aegisx-api', clientSecret: 'provider-secret' });
+
+    const externalLogin = async (user: MockOidcUser) => {
+      const { authorizationUrl } = await authService.startExternalLogin('mock');
+      return authService.completeExternalLogin('mock', provider.authorize(authorizationUrl, user));
+    };
+
+    beforeAll(async () => {
+      await provider.start();
+    });
+
+    afterAll(async () => {
+      await provider.stop();
+    });
+
+    beforeEach(() => {
+      authService = createAuthService({
+        identityProviders: [{
+          id: 'mock',
+          name: 'Mock Provider',
+          issuer: provider.issuer,
+          clientId: 'aegisx-api',
+          clientSecret: 'provider-secret',
+          redirectUri: 'http://localhost:4200/auth/callback/mock'
+        }]
+      });
+    });
+
+    it('should list configured providers', () => {
+      expect(authService.listIdentityProviders()).toEqual([{ id: 'mock', name: 'Mock Provider' }]);
+    });
+
+    it('should create a verified account on first login and reuse the identity afterwards', async () => {
+      const user = { sub: 'ext-1', email: 'Nurse@Example.com', emailVerified: true, givenName: 'Ann', familyName: 'Lee' };
+
+      const first = (await externalLogin(user)) as AuthResult;
+      expect(first.user).toMatchObject({ email: 'nurse@example.com', firstName: 'Ann', lastName: 'Lee' });
+      expect(repository.users.find((u) => u.id === first.user.id)?.email_verified).toBe(true);
+      expect(events.map((event) => event.type)).toEqual(['identity_linked']);
+
+      const second = (await externalLogin(user)) as AuthResult;
+      expect(second.user.id).toBe(first.user.id);
+      expect(repository.identities).toHaveLength(1);
+    });
+
+    it('should link an existing account by verified email', async () => {
+      const result = (await externalLogin({ sub: 'ext-2', email: 'admin@aegisx.com', emailVerified: true })) as AuthResult;
+
+      expect(result.user.id).toBe('user-1');
+      expect(await authService.listIdentities('user-1')).toEqual([
+        expect.objectContaining({ provider: 'mock', email: 'admin@aegisx.com' })
+      ]);
+    });
+
+    it('should not link unverified email addresses', async () => {
+      await expect(
+        externalLogin({ sub: 'ext-3', email: 'admin@aegisx.com', emailVerified: false })
+      ).rejects.toThrow(UnauthorizedError);
+
+      repository.users[0].email_verified = false;
+      await expect(
+        externalLogin({ sub: 'ext-3', email: 'admin@aegisx.com', emailVerified: true })
+      ).rejects.toThrow(ConflictError);
+      expect(repository.identities).toEqual([]);
+    });
+
+    it('should not provision an account over a deactivated one', async () => {
+      repository.users[0].is_active = false;
+
+      await expect(
+        externalLogin({ sub: 'ext-7', email: 'admin@aegisx.com', emailVerified: true })
+      ).rejects.toThrow(ConflictError);
+      expect(repository.users.filter((u) => u.email === 'admin@aegisx.com')).toHaveLength(1);
+      expect(repository.identities).toEqual([]);
+    });
+
+    it('should only accept a login state once', async () => {
+      const { authorizationUrl } = await authService.startExternalLogin('mock');
+      const callback = provider.authorize(authorizationUrl, { sub: 'ext-4', email: 'a@example.com', emailVerified: true });
+
+      await authService.completeExternalLogin('mock', callback);
+      await expect(authService.completeExternalLogin('mock', callback)).rejects.toThrow(InvalidTokenError);
+    });
+
+    it('should require the second factor when MFA is enabled', async () => {
+      const { secret } = await authService.startTotpEnrollment('user-1');
+      await authService.confirmTotpEnrollment('user-1', new Totp().generate(secret));
+
+      const result = await externalLogin({ sub: 'ext-5', email: 'admin@aegisx.com', emailVerified: true });
+      expect(result).toMatchObject({ mfaRequired: true });
+    });
+
+    it('should unlink identities of the user only', async () => {
+      await externalLogin({ sub: 'ext-6', email: 'admin@aegisx.com', emailVerified: true });
+      const [identity] = await authService.listIdentities('user-1');
+
+      await expect(authService.unlinkIdentity('user-2', identity.id)).rejects.toThrow(NotFoundError);
+      await authService.unlinkIdentity('user-1', identity.id);
+
+      expect(await authService.listIdentities('user-1')).toEqual([]);
+      expect(events.map((event) => event.type)).toContain('identity_unlinked');
+    });
+
+    it('should reject unknown providers', async () => {
+      await expect(authService.startExternalLogin('unknown')).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import 'reflect-metadata';
+import Fastify, { FastifyInstance, LightMyRequestResponse } from 'fastify';
+import { container } from 'tsyringe';
+import { TokenDenylist, TokenService } from '@aegisx/core-auth';
+import { authRoutes } from '../routes/auth.routes';
+import { CookieSession } from '../middleware/cookie-session';
+import { requireAuth } from '../middleware/require-auth';
+
+/**
+ * Cookies set by a response, by name
+ */
+function cookiesOf(response: LightMyRequestResponse): Record<string, string> {
+  const header = response.headers['set-cookie'];
+  const cookies = Array.isArray(header) ? header : header ? [String(header)] : [];
+
+  return Object.fromEntries(cookies.map((cookie) => {
+    const [pair] = cookie.split(';');
+    const index = pair.indexOf('=');
+    return [pair.slice(0, index), cookie];
+  }));
+}
+
+function valueOf(cookie: string): string {
+  return decodeURIComponent(cookie.split(';')[0].split('=')[1]);
+}
+
+describe('cookie session mode', () => {
+  let app: FastifyInstance;
+  let tokenService: TokenService;
+  let logout: jest.Mock;
+
+  beforeEach(async () => {
+    tokenService = new TokenService({
+      jwt: {
+        secret: 'test-secret-key-that-is-at-least-32-characters',
+        issuer: 'aegisx-platform',
+        algorithm: 'HS256',
+        accessTokenExpiry: '15m',
+        refreshTokenExpiry: '7d'
+      },
+      security: {
+        maxLoginAttempts: 5,
+        lockoutDuration: 30,
+        passwordMinLength: 6,
+        requireEmailVerification: false
+      }
+    }, { denylist: new TokenDenylist() });
+
+    const user = { id: 'user-1', email: 'admin@aegisx.com', firstName: 'Admin', lastName: 'User' };
+    const issue = (sessionId: string) => ({
+      ...tokenService.generateTokenPair(user.id, user.email, sessionId),
+      expiresIn: 900
+    });
+    logout = jest.fn();
+
+    container.registerInstance('TokenService', tokenService);
+    container.registerInstance('CookieSession', new CookieSession({ refreshPath: '/api/auth' }));
+    container.registerInstance('AuthService', {
+      login: async () => ({ ...issue('session-1'), user }),
+      refreshToken: async (refreshToken: string) => {
+        tokenService.verifyRefreshToken(refreshToken);
+        return issue('session-2');
+      },
+      logout,
+      getUser: async () => user
+    });
+
+    app = Fastify();
+    await app.register(authRoutes, { prefix: '/api/auth' });
+    app.post('/api/notes', { preHandler: requireAuth }, async () => ({ saved: true }));
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const login = (headers: Record<string, string> = {}) => app.inject({
+    method: 'POST',
+    url: '/api/auth/login',
+    headers,
+    payload: { email: 'admin@aegisx.com', password: 'Secret123!' }
+  });
+
+  it('should keep returning tokens to bearer clients', async () => {
+    const response = await login();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().accessToken).toBeDefined();
+    expect(response.headers['set-cookie']).toBeUndefined();
+  });
+
+  it('should set httpOnly SameSite cookies and hide the tokens in cookie mode', async () => {
+    const response = await login({ 'x-auth-mode': 'cookie' });
+    const cookies = cookiesOf(response);
+    const body = response.json();
+
+    expect(response.statusCode).toBe(200);
+    expect(body.accessToken).toBeUndefined();
+    expect(body.refreshToken).toBeUndefined();
+    expect(body.csrfToken).toBe(valueOf(cookies['XSRF-TOKEN']));
+    expect(cookies['access_token']).toMatch(/HttpOnly; Secure; SameSite=Strict/);
+    expect(cookies['refresh_token']).toMatch(/Path=\/api\/auth;.*HttpOnly; Secure; SameSite=Strict/);
+    expect(cookies['XSRF-TOKEN']).not.toMatch(/HttpOnly/);
+  });
+
+  it('should authenticate with the access cookie and require the CSRF header on state changes', async () => {
+    const cookies = cookiesOf(await login({ 'x-auth-mode': 'cookie' }));
+    const csrfToken = valueOf(cookies['XSRF-TOKEN']);
+    const cookie = `access_token=${valueOf(cookies['access_token'])}; XSRF-TOKEN=${csrfToken}`;
+
+    const me = await app.inject({ method: 'GET', url: '/api/auth/me', headers: { cookie } });
+    expect(me.statusCode).toBe(200);
+    expect(me.json()).toMatchObject({ id: 'user-1' });
+
+    const withoutCsrf = await app.inject({ method: 'POST', url: '/api/notes', headers: { cookie } });
+    expect(withoutCsrf.statusCode).toBe(403);
+
+    const withCsrf = await app.inject({
+      method: 'POST',
+      url: '/api/notes',
+      headers: { cookie, 'x-xsrf-token': csrfToken }
+    });
+    expect(withCsrf.statusCode).toBe(200);
+  });
+
+  it('should refresh from the refresh cookie and rotate the cookies', async () => {
+    const cookies = cookiesOf(await login({ 'x-auth-mode': 'cookie' }));
+    const csrfToken = valueOf(cookies['XSRF-TOKEN']);
+    const cookie = `refresh_token=${valueOf(cookies['refresh_token'])}; XSRF-TOKEN=${csrfToken}`;
+
+    const withoutCsrf = await app.inject({ method: 'POST', url: '/api/auth/refresh', headers: { cookie }, payload: {} });
+    expect(withoutCsrf.statusCode).toBe(403);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/auth/refresh',
+      headers: { cookie, 'x-xsrf-token': csrfToken },
+      payload: {}
+    });
+    const rotated = cookiesOf(response);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().accessToken).toBeUndefined();
+    expect(response.json().csrfToken).toBe(valueOf(rotated['XSRF-TOKEN']));
+    expect(valueOf(rotated['refresh_token'])).not.toBe(valueOf(cookies['refresh_token']));
+  });
+
+  it('should end the cookie session on logout and clear the cookies', async () => {
+    const cookies = cookiesOf(await login({ 'x-auth-mode': 'cookie' }));
+    const csrfToken = valueOf(cookies['XSRF-TOKEN']);
+    const refreshToken = valueOf(cookies['refresh_token']);
+    const cookie = `access_token=${valueOf(cookies['access_token'])}; refresh_token=${refreshToken}; XSRF-TOKEN=${csrfToken}`;
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/auth/logout',
+      headers: { cookie, 'x-xsrf-token': csrfToken }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(logout).toHaveBeenCalledWith(refreshToken, valueOf(cookies['access_token']));
+    expect(cookiesOf(response)['access_token']).toMatch(/Max-Age=0/);
+    expect(cookiesOf(response)['refresh_token']).toMatch(/Max-Age=0/);
+  });
+});
@@ -0,0 +1,109 @@
+import 'reflect-metadata';
+import Fastify, { FastifyInstance, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import { TokenDenylist, TokenService } from '@aegisx/core-auth';
+import { lockoutRoutes } from '../routes/lockout.routes';
+
+describe('lockout routes', () => {
+  let app: FastifyInstance;
+  let tokenService: TokenService;
+  let unlock: jest.Mock;
+
+  const build = async (permissions?: string[]) => {
+    app = Fastify();
+    if (permissions) {
+      // Stand-in for the @aegisx/core-rbac plugin
+      app.decorate('authorize', (...required: string[]) => async (_request: unknown, reply: FastifyReply) => {
+        if (!required.every((permission) => permissions.includes(permission))) {
+          return reply.code(403).send({ error: 'ForbiddenError', message: 'Missing required permission' });
+        }
+      });
+    }
+    await app.register(lockoutRoutes, { prefix: '/api/auth' });
+    await app.ready();
+  };
+
+  const bearer = () => ({
+    authorization: `Bearer ${tokenService.generateAccessToken('admin-1', 'admin@aegisx.com', 'session-1')}`
+  });
+
+  beforeEach(() => {
+    tokenService = new TokenService({
+      jwt: {
+        secret: 'test-secret-key-that-is-at-least-32-characters',
+        issuer: 'aegisx-platform',
+        algorithm: 'HS256',
+        accessTokenExpiry: '15m',
+        refreshTokenExpiry: '7d'
+      },
+      security: {
+        maxLoginAttempts: 5,
+        lockoutDuration: 30,
+        passwordMinLength: 6,
+        requireEmailVerification: false
+      }
+    }, { denylist: new TokenDenylist() });
+
+    const status = {
+      account: {
+        userId: 'user-1',
+        email: 'user@aegisx.com',
+        failedAttempts: 5,
+        locked: true,
+        lockedUntil: new Date('2025-01-01T00:30:00Z'),
+        retryAfter: 1800
+      }
+    };
+    unlock = jest.fn(async () => ({ account: { ...status.account, failedAttempts: 0, locked: false, retryAfter: 0 } }));
+
+    container.registerInstance('TokenService', tokenService);
+    container.registerInstance('AuthService', {
+      getLockoutStatus: async () => status,
+      unlock
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should refuse every request when no RBAC plugin is registered', async () => {
+    await build();
+
+    const response = await app.inject({ method: 'GET', url: '/api/auth/lockout-status?userId=8d7a5f0e-4a43-4b8e-9f0e-2a1c3b4d5e6f', headers: bearer() });
+
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('should require authentication and the users:read permission for the status', async () => {
+    await build(['users:read']);
+    const url = '/api/auth/lockout-status?email=user@aegisx.com';
+
+    expect((await app.inject({ method: 'GET', url })).statusCode).toBe(401);
+
+    const response = await app.inject({ method: 'GET', url, headers: bearer() });
+    expect(response.statusCode).toBe(200);
+    expect(response.json().account).toMatchObject({
+      userId: 'user-1',
+      locked: true,
+      lockedUntil: '2025-01-01T00:30:00.000Z',
+      retryAfter: 1800
+    });
+  });
+
+  it('should unlock with users:unlock on behalf of the signed-in admin', async () => {
+    await build(['users:read']);
+    const payload = { email: 'user@aegisx.com' };
+
+    const forbidden = await app.inject({ method: 'POST', url: '/api/auth/unlock', headers: bearer(), payload });
+    expect(forbidden.statusCode).toBe(403);
+
+    await app.close();
+    await build(['users:read', 'users:unlock']);
+    const response = await app.inject({ method: 'POST', url: '/api/auth/unlock', headers: bearer(), payload });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().account).toMatchObject({ locked: false });
+    expect(unlock).toHaveBeenCalledWith(payload, 'admin-1');
+  });
+});
@@ -0,0 +1,493 @@
+import 'reflect-metadata';
+import { createHash } from 'crypto';
+import { TokenDenylist, TokenService } from '@aegisx/core-auth';
+import { NotFoundError, OAuthError, ValidationError } from '../errors/auth.errors';
+import { SecurityEvent, SecurityEvents } from '../events/security-events';
+import {
+  CreateOAuthAuthorizationCodeInput,
+  CreateOAuthClientInput,
+  CreateOAuthRefreshTokenInput,
+  DbOAuthAuthorizationCode,
+  DbOAuthClient,
+  DbOAuthConsent,
+  DbOAuthRefreshToken,
+  OAuthRepository
+} from '../repositories/oauth.repository';
+import { DbUser, UserRepository } from '../repositories/user.repository';
+import { AuthorizationRequest, OAuthService } from '../services/oauth.service';
+
+/**
+ * In-memory stand-in for the Knex backed OAuth repository
+ */
+function createInMemoryOAuthRepository() {
+  const clients: DbOAuthClient[] = [];
+  const codes: DbOAuthAuthorizationCode[] = [];
+  const refreshTokens: DbOAuthRefreshToken[] = [];
+  const consents: DbOAuthConsent[] = [];
+  let sequence = 0;
+
+  return {
+    clients,
+    codes,
+    refreshTokens,
+    consents,
+    createClient: async (input: CreateOAuthClientInput) => {
+      const client: DbOAuthClient = {
+        id: `client-${++sequence}`,
+        client_id: input.clientId,
+        client_secret_hash: input.clientSecretHash ?? null,
+        client_type: input.clientType,
+        name: input.name,
+        redirect_uris: input.redirectUris,
+        grant_types: input.grantTypes,
+        scopes: input.scopes,
+        owner_id: input.ownerId ?? null,
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      clients.push(client);
+      return client;
+    },
+    findClient: async (clientId: string) =>
+      clients.find((c) => c.client_id === clientId && c.is_active) ?? null,
+    listClients: async (ownerId: string) => clients.filter((c) => c.owner_id === ownerId),
+    deleteClient: async (ownerId: string, id: string) => {
+      const index = clients.findIndex((c) => c.id === id && c.owner_id === ownerId);
+      if (index === -1) return null;
+      return clients.splice(index, 1)[0];
+    },
+    storeAuthorizationCode: async (input: CreateOAuthAuthorizationCodeInput) => {
+      codes.push({
+        id: `code-${++sequence}`,
+        code_hash: input.codeHash,
+        client_id: input.clientId,
+        user_id: input.userId,
+        redirect_uri: input.redirectUri,
+        scope: input.scope,
+        code_challenge: input.codeChallenge ?? null,
+        expires_at: input.expiresAt,
+        used_at: null,
+        created_at: new Date()
+      });
+    },
+    consumeAuthorizationCode: async (codeHash: string) => {
+      const code = codes.find((c) => c.code_hash === codeHash && !c.used_at && c.expires_at > new Date());
+      if (!code) return null;
+      code.used_at = new Date();
+      return code;
+    },
+    storeRefreshToken: async (input: CreateOAuthRefreshTokenInput) => {
+      const token: DbOAuthRefreshToken = {
+        id: `refresh-${++sequence}`,
+        token_hash: input.tokenHash,
+        family_id: input.familyId ?? `family-${++sequence}`,
+        client_id: input.clientId,
+        user_id: input.userId,
+        scope: input.scope,
+        expires_at: input.expiresAt,
+        rotated_at: null,
+        revoked_at: null,
+        created_at: new Date()
+      };
+      refreshTokens.push(token);
+      return token;
+    },
+    findRefreshToken: async (tokenHash: string) =>
+      refreshTokens.find((t) => t.token_hash === tokenHash) ?? null,
+    markRefreshTokenRotated: async (tokenHash: string) => {
+      const token = refreshTokens.find((t) => t.token_hash === tokenHash && !t.rotated_at && !t.revoked_at);
+      if (!token) return false;
+      token.rotated_at = new Date();
+      return true;
+    },
+    revokeRefreshTokenFamily: async (familyId: string) => {
+      refreshTokens
+        .filter((t) => t.family_id === familyId && !t.revoked_at)
+        .forEach((t) => (t.revoked_at = new Date()));
+    },
+    revokeRefreshTokens: async (userId: string, clientId: string) => {
+      refreshTokens
+        .filter((t) => t.user_id === userId && t.client_id === clientId && !t.revoked_at)
+        .forEach((t) => (t.revoked_at = new Date()));
+    },
+    findConsent: async (userId: string, clientId: string) =>
+      consents.find((c) => c.user_id === userId && c.client_id === clientId) ?? null,
+    saveConsent: async (userId: string, clientId: string, scopes: string[]) => {
+      const consent = consents.find((c) => c.user_id === userId && c.client_id === clientId);
+      if (consent) {
+        consent.scopes = scopes;
+        consent.updated_at = new Date();
+        return;
+      }
+      consents.push({
+        id: `consent-${++sequence}`,
+        user_id: userId,
+        client_id: clientId,
+        scopes,
+        created_at: new Date(),
+        updated_at: new Date()
+      });
+    },
+    listConsents: async (userId: string) =>
+      consents
+        .filter((c) => c.user_id === userId)
+        .map((c) => ({ ...c, client_name: clients.find((client) => client.client_id === c.client_id)?.name })),
+    deleteConsent: async (userId: string, clientId: string) => {
+      const index = consents.findIndex((c) => c.user_id === userId && c.client_id === clientId);
+      if (index === -1) return false;
+      consents.splice(index, 1);
+      return true;
+    },
+    cleanupExpiredTokens: async () => 0
+  };
+}
+
+const user: DbUser = {
+  id: 'user-1',
+  email: 'admin@aegisx.com',
+  password_hash: 'password123',
+  first_name: 'Admin',
+  last_name: 'User',
+  is_active: true,
+  email_verified: true,
+  login_attempts: 0,
+  created_at: new Date(),
+  updated_at: new Date()
+};
+
+const redirectUri = 'https://partner.example.com/callback';
+const codeVerifier = 'a'.repeat(43);
+const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+describe('OAuthService', () => {
+  let repository: ReturnType<typeof createInMemoryOAuthRepository>;
+  let tokenService: TokenService;
+  let events: SecurityEvent[];
+  let oauthService: OAuthService;
+
+  const registerClient = (clientType: 'confidential' | 'public' = 'confidential', grantTypes?: Array<'authorization_code' | 'client_credentials' | 'refresh_token'>) =>
+    oauthService.registerClient('user-1', {
+      name: 'Partner App',
+      clientType,
+      redirectUris: [redirectUri],
+      grantTypes
+    });
+
+  const authorizationRequest = (clientId: string, overrides: Partial<AuthorizationRequest> = {}): AuthorizationRequest => ({
+    responseType: 'code',
+    clientId,
+    redirectUri,
+    scope: 'profile email',
+    state: 'xyz',
+    codeChallenge,
+    codeChallengeMethod: 'S256',
+    ...overrides
+  });
+
+  const authorizeCode = async (clientId: string, overrides: Partial<AuthorizationRequest> = {}) => {
+    const { redirectTo } = await oauthService.authorize('user-1', authorizationRequest(clientId, overrides), true);
+    return new URL(redirectTo).searchParams.get('code') as string;
+  };
+
+  beforeEach(() => {
+    repository = createInMemoryOAuthRepository();
+    tokenService = new TokenService({
+      jwt: {
+        secret: 'test-secret-key-that-is-at-least-32-characters',
+        issuer: 'aegisx-platform',
+        algorithm: 'HS256',
+        accessTokenExpiry: '15m',
+        refreshTokenExpiry: '7d'
+      },
+      security: {
+        maxLoginAttempts: 5,
+        lockoutDuration: 30,
+        passwordMinLength: 6,
+        requireEmailVerification: false
+      }
+    }, { denylist: new TokenDenylist() });
+    const securityEvents = new SecurityEvents();
+    events = [];
+    securityEvents.on((event) => {
+      events.push(event);
+    });
+    const userRepository = {
+      findById: async (id: string) => (id === user.id ? user : null)
+    };
+    oauthService = new OAuthService(
+      repository as unknown as OAuthRepository,
+      userRepository as unknown as UserRepository,
+      tokenService,
+      securityEvents
+    );
+  });
+
+  describe('client registration', () => {
+    it('should return the secret of confidential clients once and store only its hash', async () => {
+      const { client, clientSecret } = await registerClient();
+
+      expect(clientSecret).toBeDefined();
+      expect(repository.clients[0].client_secret_hash).not.toBe(clientSecret);
+      expect(client).toMatchObject({ name: 'Partner App', scopes: ['profile', 'email'] });
+      expect(await oauthService.listClients('user-1')).toHaveLength(1);
+      expect(events.map((event) => event.type)).toEqual(['oauth_client_registered']);
+    });
+
+    it('should reject invalid registrations', async () => {
+      await expect(
+        oauthService.registerClient('user-1', { name: 'SPA', clientType: 'public', grantTypes: ['client_credentials'] })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        oauthService.registerClient('user-1', { name: 'App', clientType: 'confidential' })
+      ).rejects.toThrow('At least one redirect URI is required');
+      await expect(
+        oauthService.registerClient('user-1', {
+          name: 'App',
+          clientType: 'confidential',
+          redirectUris: [redirectUri],
+          scopes: ['admin']
+        })
+      ).rejects.toThrow('Unknown scope: admin');
+    });
+
+    it('should delete clients of the owner only', async () => {
+      const { client } = await registerClient();
+
+      await expect(oauthService.deleteClient('user-2', client.id)).rejects.toThrow(NotFoundError);
+      await oauthService.deleteClient('user-1', client.id);
+      expect(await oauthService.listClients('user-1')).toEqual([]);
+    });
+  });
+
+  describe('authorization code grant', () => {
+    it('should record consent and exchange the code with the PKCE verifier', async () => {
+      const { client, clientSecret } = await registerClient();
+
+      const prompt = await oauthService.prepareAuthorization('user-1', authorizationRequest(client.clientId));
+      expect(prompt).toMatchObject({ client: { name: 'Partner App' }, consentRequired: true });
+
+      const { redirectTo } = await oauthService.authorize('user-1', authorizationRequest(client.clientId), true);
+      const redirect = new URL(redirectTo);
+      expect(redirect.searchParams.get('state')).toBe('xyz');
+      expect(events.map((event) => event.type)).toContain('oauth_consent_granted');
+
+      const tokens = await oauthService.token(
+        { grantType: 'authorization_code', code: redirect.searchParams.get('code') as string, redirectUri, codeVerifier },
+        { clientId: client.clientId, clientSecret }
+      );
+      expect(tokens).toMatchObject({ token_type: 'Bearer', scope: 'profile email' });
+      expect(tokens.refresh_token).toBeDefined();
+      expect(tokenService.verifyOAuthAccessToken(tokens.access_token)).toMatchObject({
+        sub: 'user-1',
+        client_id: client.clientId
+      });
+
+      // Consent is remembered
+      const again = await oauthService.prepareAuthorization('user-1', authorizationRequest(client.clientId));
+      expect(again.consentRequired).toBe(false);
+    });
+
+    it('should redirect with access_denied when the user declines', async () => {
+      const { client } = await registerClient();
+
+      const { redirectTo } = await oauthService.authorize('user-1', authorizationRequest(client.clientId), false);
+
+      expect(new URL(redirectTo).searchParams.get('error')).toBe('access_denied');
+      expect(repository.codes).toEqual([]);
+    });
+
+    it('should reject unregistered redirect URIs and scopes', async () => {
+      const { client } = await registerClient();
+
+      await expect(
+        oauthService.prepareAuthorization('user-1', authorizationRequest(client.clientId, { redirectUri: 'https://evil.example.com' }))
+      ).rejects.toThrow('Redirect URI is not registered for this client');
+      await expect(
+        oauthService.prepareAuthorization('user-1', authorizationRequest(client.clientId, { scope: 'admin' }))
+      ).rejects.toMatchObject({ code: 'invalid_scope' });
+    });
+
+    it('should require PKCE from public clients', async () => {
+      const { client } = await registerClient('public');
+
+      await expect(
+        oauthService.prepareAuthorization('user-1', authorizationRequest(client.clientId, { codeChallenge: undefined }))
+      ).rejects.toThrow('A PKCE code challenge (S256) is required');
+
+      const code = await authorizeCode(client.clientId);
+      await expect(
+        oauthService.token(
+          { grantType: 'authorization_code', code, redirectUri, codeVerifier: 'b'.repeat(43) },
+          { clientId: client.clientId }
+        )
+      ).rejects.toMatchObject({ code: 'invalid_grant' });
+    });
+
+    it('should accept a code once and only from its client', async () => {
+      const { client, clientSecret } = await registerClient();
+      const other = await registerClient();
+      const code = await authorizeCode(client.clientId);
+
+      await expect(
+        oauthService.token(
+          { grantType: 'authorization_code', code, redirectUri, codeVerifier },
+          { clientId: other.client.clientId, clientSecret: other.clientSecret }
+        )
+      ).rejects.toMatchObject({ code: 'invalid_grant' });
+      await expect(
+        oauthService.token(
+          { grantType: 'authorization_code', code, redirectUri, codeVerifier },
+          { clientId: client.clientId, clientSecret }
+        )
+      ).rejects.toMatchObject({ code: 'invalid_grant' });
+    });
+
+    it('should authenticate confidential clients', async () => {
+      const { client } = await registerClient();
+      const code = await authorizeCode(client.clientId);
+
+      await expect(
+        oauthService.token(
+          { grantType: 'authorization_code', code, redirectUri, codeVerifier },
+          { clientId: client.clientId, clientSecret: 'wrong' }
+        )
+      ).rejects.toMatchObject({ code: 'invalid_client', statusCode: 401 });
+    });
+  });
+
+  describe('refresh token grant', () => {
+    it('should rotate refresh tokens and revoke the grant on reuse', async () => {
+      const { client, clientSecret } = await registerClient();
+      const credentials = { clientId: client.clientId, clientSecret };
+      const first = await oauthService.token(
+        { grantType: 'authorization_code', code: await authorizeCode(client.clientId), redirectUri, codeVerifier },
+        credentials
+      );
+
+      const second = await oauthService.token(
+        { grantType: 'refresh_token', refreshToken: first.refresh_token, scope: 'profile' },
+        credentials
+      );
+      expect(second.scope).toBe('profile');
+      expect(second.refresh_token).not.toBe(first.refresh_token);
+
+      await expect(
+        oauthService.token({ grantType: 'refresh_token', refreshToken: first.refresh_token }, credentials)
+      ).rejects.toMatchObject({ code: 'invalid_grant' });
+      expect(events.map((event) => event.type)).toContain('oauth_refresh_token_reuse');
+
+      // The whole family is revoked
+      await expect(
+        oauthService.token({ grantType: 'refresh_token', refreshToken: second.refresh_token }, credentials)
+      ).rejects.toMatchObject({ code: 'invalid_grant' });
+    });
+
+    it('should not widen the scope', async () => {
+      const { client, clientSecret } = await registerClient();
+      const credentials = { clientId: client.clientId, clientSecret };
+      const tokens = await oauthService.token(
+        { grantType: 'authorization_code', code: await authorizeCode(client.clientId, { scope: 'profile' }), redirectUri, codeVerifier },
+        credentials
+      );
+
+      await expect(
+        oauthService.token({ grantType: 'refresh_token', refreshToken: tokens.refresh_token, scope: 'profile email' }, credentials)
+      ).rejects.toMatchObject({ code: 'invalid_scope' });
+    });
+  });
+
+  describe('client credentials grant', () => {
+    it('should issue tokens for the client itself without refresh token', async () => {
+      const { client, clientSecret } = await registerClient('confidential', ['client_credentials']);
+
+      const tokens = await oauthService.token(
+        { grantType: 'client_credentials', scope: 'profile' },
+        { clientId: client.clientId, clientSecret }
+      );
+
+      expect(tokens.refresh_token).toBeUndefined();
+      expect(tokenService.verifyOAuthAccessToken(tokens.access_token)).toMatchObject({
+        sub: client.clientId,
+        scope: 'profile'
+      });
+    });
+
+    it('should only be available to clients registered for it', async () => {
+      const { client, clientSecret } = await registerClient();
+
+      await expect(
+        oauthService.token({ grantType: 'client_credentials' }, { clientId: client.clientId, clientSecret })
+      ).rejects.toMatchObject({ code: 'unauthorized_client' });
+      await expect(
+        oauthService.token({ grantType: 'password' }, { clientId: client.clientId, clientSecret })
+      ).rejects.toThrow(OAuthError);
+    });
+  });
+
+  describe('introspection and revocation', () => {
+    it('should introspect and revoke access tokens', async () => {
+      const { client, clientSecret } = await registerClient('confidential', ['client_credentials']);
+      const credentials = { clientId: client.clientId, clientSecret };
+      const { access_token } = await oauthService.token({ grantType: 'client_credentials' }, credentials);
+
+      expect(await oauthService.introspect(access_token, credentials)).toMatchObject({
+        active: true,
+        client_id: client.clientId,
+        scope: 'profile email'
+      });
+
+      await oauthService.revoke(access_token, credentials);
+      expect(await oauthService.introspect(access_token, credentials)).toEqual({ active: false });
+      expect(await oauthService.introspect('unknown', credentials)).toEqual({ active: false });
+    });
+
+    it('should revoke refresh tokens of the requesting client only', async () => {
+      const { client, clientSecret } = await registerClient();
+      const other = await registerClient();
+      const credentials = { clientId: client.clientId, clientSecret };
+      const { refresh_token } = await oauthService.token(
+        { grantType: 'authorization_code', code: await authorizeCode(client.clientId), redirectUri, codeVerifier },
+        credentials
+      );
+      const token = refresh_token as string;
+
+      await oauthService.revoke(token, { clientId: other.client.clientId, clientSecret: other.clientSecret });
+      expect(await oauthService.introspect(token, credentials)).toMatchObject({ active: true, token_type: 'refresh_token' });
+
+      await oauthService.revoke(token, credentials);
+      expect(await oauthService.introspect(token, credentials)).toEqual({ active: false });
+    });
+
+    it('should not let public clients introspect', async () => {
+      const { client } = await registerClient('public');
+
+      await expect(oauthService.introspect('token', { clientId: client.clientId })).rejects.toMatchObject({
+        code: 'invalid_client'
+      });
+    });
+  });
+
+  describe('consents', () => {
+    it('should list consents and revoke refresh tokens with them', async () => {
+      const { client, clientSecret } = await registerClient();
+      const credentials = { clientId: client.clientId, clientSecret };
+      const { refresh_token } = await oauthService.token(
+        { grantType: 'authorization_code', code: await authorizeCode(client.clientId), redirectUri, codeVerifier },
+        credentials
+      );
+
+      expect(await oauthService.listConsents('user-1')).toEqual([
+        expect.objectContaining({ clientId: client.clientId, clientName: 'Partner App', scopes: ['profile', 'email'] })
+      ]);
+
+      await oauthService.revokeConsent('user-1', client.clientId);
+
+      expect(await oauthService.listConsents('user-1')).toEqual([]);
+      await expect(
+        oauthService.token({ grantType: 'refresh_token', refreshToken: refresh_token }, credentials)
+      ).rejects.toMatchObject({ code: 'invalid_grant' });
+      await expect(oauthService.revokeConsent('user-1', client.clientId)).rejects.toThrow(NotFoundError);
+    });
+  });
+});
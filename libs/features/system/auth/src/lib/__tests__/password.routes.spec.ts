@@ -0,0 +1,97 @@
+import 'reflect-metadata';
+import Fastify, { FastifyInstance } from 'fastify';
+import { container } from 'tsyringe';
+import { TokenDenylist, TokenService } from '@aegisx/core-auth';
+import { passwordRoutes } from '../routes/password.routes';
+
+describe('password routes', () => {
+  let app: FastifyInstance;
+  let tokenService: TokenService;
+  let changePassword: jest.Mock;
+
+  const body = { currentPassword: 'password123', newPassword: 'Sunny-garden-42' };
+
+  beforeEach(async () => {
+    tokenService = new TokenService({
+      jwt: {
+        secret: 'test-secret-key-that-is-at-least-32-characters',
+        issuer: 'aegisx-platform',
+        algorithm: 'HS256',
+        accessTokenExpiry: '15m',
+        refreshTokenExpiry: '7d'
+      },
+      security: {
+        maxLoginAttempts: 5,
+        lockoutDuration: 30,
+        passwordMinLength: 6,
+        requireEmailVerification: false
+      }
+    }, { denylist: new TokenDenylist() });
+    changePassword = jest.fn(async () => undefined);
+
+    container.registerInstance('TokenService', tokenService);
+    container.registerInstance('AuthService', { changePassword });
+
+    app = Fastify();
+    await app.register(passwordRoutes, { prefix: '/api/auth' });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    container.reset();
+  });
+
+  it('should change the password of the signed-in user', async () => {
+    const token = tokenService.generateAccessToken('user-1', 'user@aegisx.com', 'session-1');
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/auth/password/change',
+      headers: { authorization: `Bearer ${token}` },
+      payload: body
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(changePassword).toHaveBeenCalledWith('user-1', body, expect.objectContaining({ currentSessionId: 'session-1' }));
+  });
+
+  it('should refuse impersonation tokens', async () => {
+    const token = tokenService.generateImpersonationToken({
+      userId: 'user-1',
+      email: 'user@aegisx.com',
+      actor: { sub: 'admin-1' }
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/auth/password/change',
+      headers: { authorization: `Bearer ${token}` },
+      payload: body
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(changePassword).not.toHaveBeenCalled();
+  });
+
+  it('should ask for a refresh once the permission version changes', async () => {
+    container.registerInstance('PermissionClaimSource', {
+      getEffectivePermissions: async () => ({ roles: [] }),
+      getPermissionVersion: async () => 2
+    });
+    const request = (permissionVersion: number) => app.inject({
+      method: 'POST',
+      url: '/api/auth/password/change',
+      headers: {
+        authorization: `Bearer ${tokenService.generateAccessToken('user-1', 'user@aegisx.com', 'session-1', { permissionVersion })}`
+      },
+      payload: body
+    });
+
+    const stale = await request(1);
+
+    expect(stale.statusCode).toBe(401);
+    expect(stale.json()).toMatchObject({ code: 'AUTH_PERMISSION_VERSION_MISMATCH' });
+    expect((await request(2)).statusCode).toBe(200);
+  });
+});
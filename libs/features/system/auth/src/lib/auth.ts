@@ -5,32 +5,153 @@ export type { AuthPluginOptions } from './plugin';
 
 // Routes and handlers
 export { authRoutes } from './routes/auth.routes';
+export { sessionRoutes } from './routes/session.routes';
+export { passwordRoutes } from './routes/password.routes';
+export { verificationRoutes } from './routes/verification.routes';
+export { mfaRoutes } from './routes/mfa.routes';
+export { passkeyRoutes } from './routes/passkey.routes';
+export { oidcRoutes } from './routes/oidc.routes';
+export { oauthRoutes } from './routes/oauth.routes';
+export { apiKeyRoutes } from './routes/api-key.routes';
+export { lockoutRoutes } from './routes/lockout.routes';
+export { profileRoutes } from './routes/profile.routes';
 export { AuthHandlers } from './handlers/auth.handlers';
+export { SessionHandlers } from './handlers/session.handlers';
+export { PasswordHandlers } from './handlers/password.handlers';
+export { VerificationHandlers } from './handlers/verification.handlers';
+export { MfaHandlers } from './handlers/mfa.handlers';
+export { PasskeyHandlers } from './handlers/passkey.handlers';
+export { OidcHandlers } from './handlers/oidc.handlers';
+export { OAuthHandlers } from './handlers/oauth.handlers';
+export { ApiKeyHandlers } from './handlers/api-key.handlers';
+export { LockoutHandlers } from './handlers/lockout.handlers';
+export { ProfileHandlers } from './handlers/profile.handlers';
+export { requireAuth, requireOwnAuth, authenticate, actorIdOf } from './middleware/require-auth';
+export type { SessionRequest, AuthUser, AuthenticatedRequest } from './middleware/require-auth';
+export { requirePermission } from './middleware/require-permission';
+export { CookieSession, AUTH_MODE_HEADER, sendAuthResult } from './middleware/cookie-session';
+export type { CookieSessionOptions } from './middleware/cookie-session';
 
 // Services and repositories
 export { AuthService } from './services/auth.service';
+export { OAuthService } from './services/oauth.service';
+export { ApiKeyService } from './services/api-key.service';
 export { UserRepository } from './repositories/user.repository';
+export { OAuthRepository } from './repositories/oauth.repository';
+export { ApiKeyRepository } from './repositories/api-key.repository';
+
+// Security events
+export { SecurityEvents } from './events/security-events';
+export type {
+  SecurityEvent,
+  SecurityEventType,
+  SecurityEventHandler
+} from './events/security-events';
+
+// Mail delivery
+export { InMemoryMailSender, FileMailSender } from './mail/mail-sender';
+export type { MailSender, MailMessage } from './mail/mail-sender';
 
 // Configuration
 export { 
   registerAuthServices,
   initializeAuthServices,
-  cleanupAuthServices
+  cleanupAuthServices,
+  createJwtConfig,
+  initializeJwtKeys
 } from './config/auth.config';
+export type { AuthServicesOptions, LoginThrottleSettings } from './config/auth.config';
 
 // Types and interfaces
 export type {
   LoginCredentials,
   AuthResult,
-  UserData
+  UserData,
+  UpdateProfileRequest,
+  AccountDeletionResult,
+  SessionContext,
+  SessionData,
+  AuthServiceOptions,
+  ChangePasswordOptions,
+  PendingVerificationResult,
+  MfaChallengeResult,
+  MfaMethod,
+  MfaLoginRequest,
+  TotpEnrollment,
+  MfaStatus,
+  PasskeyData,
+  IdentityProviderConfig,
+  IdentityProviderData,
+  ExternalLoginCallback,
+  IdentityData,
+  LockoutQuery,
+  LockoutStatus,
+  PermissionClaimSource
 } from './services/auth.service';
 
 export type {
   DbUser,
   DbRefreshToken,
-  CreateUserInput
+  DbSession,
+  DbPasswordResetToken,
+  DbEmailVerificationToken,
+  DbEmailChangeToken,
+  DbUserMfa,
+  DbWebAuthnCredential,
+  DbWebAuthnChallenge,
+  WebAuthnCeremony,
+  CreateWebAuthnCredentialInput,
+  DbIdentity,
+  DbOidcLoginState,
+  CreateIdentityInput,
+  CreateUserInput,
+  UpdateProfileInput,
+  CreateSessionInput
 } from './repositories/user.repository';
 
+export type {
+  RegisterOAuthClientInput,
+  OAuthClientData,
+  RegisteredOAuthClient,
+  OAuthClientCredentials,
+  AuthorizationRequest,
+  AuthorizationPrompt,
+  TokenGrantRequest,
+  OAuthTokens,
+  TokenIntrospection,
+  OAuthConsentData,
+  OAuthServiceOptions
+} from './services/oauth.service';
+
+export type {
+  DbOAuthClient,
+  DbOAuthAuthorizationCode,
+  DbOAuthRefreshToken,
+  DbOAuthConsent,
+  OAuthClientType,
+  OAuthGrantType,
+  CreateOAuthClientInput,
+  CreateOAuthAuthorizationCodeInput,
+  CreateOAuthRefreshTokenInput
+} from './repositories/oauth.repository';
+
+export type {
+  CreateApiKeyRequest,
+  ApiKeyData,
+  IssuedApiKey,
+  CreateServiceAccountRequest,
+  ServiceAccountData,
+  ApiKeyPrincipal,
+  ApiKeyServiceOptions
+} from './services/api-key.service';
+
+export type {
+  DbApiKey,
+  DbServiceAccount,
+  CreateApiKeyInput,
+  CreateServiceAccountInput
+} from './repositories/api-key.repository';
+
 // Export schemas and types
 export * from './schemas';
 
@@ -39,14 +160,20 @@ export {
   AuthError,
   ValidationError,
   UnauthorizedError,
+  ForbiddenError,
   ConflictError,
+  NotFoundError,
+  EmailNotVerifiedError,
+  TooManyRequestsError,
+  IdentityProviderError,
+  OAuthError,
   TokenExpiredError,
   InvalidTokenError,
   formatError,
   handleAuthError
 } from './errors/auth.errors';
 
-export type { ErrorResponse as AuthErrorResponse } from './errors/auth.errors';
+export type { ErrorResponse as AuthErrorResponse, OAuthErrorCode } from './errors/auth.errors';
 
 // Re-export core services for convenience
 export { TokenService } from '@aegisx/core-auth';
@@ -1,51 +1,274 @@
 import { container } from 'tsyringe';
 import { Knex } from 'knex';
 import { FastifyInstance } from 'fastify';
-import { TokenService } from '@aegisx/core-auth';
+import {
+  AuthConfig,
+  DirectoryJwtKeyPersistence,
+  JwtAlgorithm,
+  JwtKeyPersistence,
+  JwtSigningKey,
+  JwtUtils,
+  LoginThrottle,
+  LoginThrottleStore,
+  PasswordPolicy,
+  PasswordPolicyConfig,
+  TokenDenylist,
+  TokenService
+} from '@aegisx/core-auth';
 import { UserRepository } from '../repositories/user.repository';
-import { AuthService } from '../services/auth.service';
+import { OAuthRepository } from '../repositories/oauth.repository';
+import { ApiKeyRepository } from '../repositories/api-key.repository';
+import { AuthService, IdentityProviderConfig, PermissionClaimSource } from '../services/auth.service';
+import { OAuthService } from '../services/oauth.service';
+import { ApiKeyService } from '../services/api-key.service';
+import { SecurityEvents } from '../events/security-events';
+import { FileMailSender, InMemoryMailSender, MailSender } from '../mail/mail-sender';
+
+/**
+ * Failed sign-in limits (AuthConfig.security) and where failures are counted
+ */
+export interface LoginThrottleSettings extends Partial<Pick<AuthConfig['security'],
+  'maxLoginAttempts' | 'lockoutDuration' | 'ipMaxLoginAttempts' | 'loginBackoff'>> {
+  /**
+   * Default: in-memory; pass a RedisLoginThrottleStore when running several instances
+   */
+  store?: LoginThrottleStore;
+}
+
+/**
+ * Optional collaborators for the auth services
+ */
+export interface AuthServicesOptions {
+  /**
+   * Delivers password reset and verification emails.
+   * Default: FileMailSender when MAIL_OUTBOX_DIR is set, otherwise in-memory
+   */
+  mailSender?: MailSender;
+
+  /**
+   * Rules for new passwords (AuthConfig.security.passwordPolicy)
+   */
+  passwordPolicy?: PasswordPolicyConfig;
+
+  /**
+   * Recent passwords a user cannot reuse (default: 5, 0 disables)
+   */
+  passwordHistorySize?: number;
+
+  /**
+   * External OpenID Connect providers.
+   * Default: the JSON array in OIDC_PROVIDERS
+   */
+  identityProviders?: IdentityProviderConfig[];
+
+  /**
+   * Scopes third-party OAuth clients can request, with the descriptions
+   * shown on the consent screen (default: profile and email)
+   */
+  oauthScopes?: Record<string, string>;
+
+  /**
+   * Failed sign-in limits (default: 5 per account, 20 per IP, 30 minute lockout)
+   */
+  loginThrottle?: LoginThrottleSettings;
+
+  /**
+   * Where RS* signing keys are kept, required for key rotation.
+   * Default: DirectoryJwtKeyPersistence at JWT_KEY_DIR when set
+   */
+  keyPersistence?: JwtKeyPersistence;
+
+  /**
+   * Roles and permission version for access tokens, which are refused once
+   * the version changes. Default: fastify.rbac when the RBAC plugin is registered
+   */
+  permissionClaims?: PermissionClaimSource;
+}
 
 /**
  * Register authentication services with DI container using Knex
  */
-export function registerAuthServices(knexInstance: Knex): void {
+export function registerAuthServices(
+  knexInstance: Knex,
+  options: AuthServicesOptions = {}
+): void {
   // Create instances manually (simpler than complex DI setup)
   const userRepository = new UserRepository(knexInstance);
-  const tokenService = new TokenService({
-    jwt: {
-      secret: process.env['JWT_SECRET'] || 'your-secret-key',
-      issuer: 'aegisx-platform',
-      algorithm: 'HS256',
-      accessTokenExpiry: '15m',
-      refreshTokenExpiry: '7d'
-    },
+  const { store: loginThrottleStore, ...loginThrottle } = options.loginThrottle ?? {};
+  const authConfig: AuthConfig = {
+    jwt: createJwtConfig(),
     security: {
       maxLoginAttempts: 5,
       lockoutDuration: 30,
-      passwordMinLength: 6,
-      requireEmailVerification: false
+      ...loginThrottle,
+      passwordMinLength: 8,
+      passwordPolicy: options.passwordPolicy,
+      requireEmailVerification: process.env['REQUIRE_EMAIL_VERIFICATION'] === 'true'
     }
+  };
+  const keyDir = process.env['JWT_KEY_DIR'];
+  const tokenService = new TokenService(authConfig, {
+    // In-memory; pass a RedisTokenDenylistStore when running several instances
+    denylist: new TokenDenylist(),
+    keyPersistence: options.keyPersistence ?? (keyDir ? new DirectoryJwtKeyPersistence(keyDir) : undefined)
+  });
+  const securityEvents = new SecurityEvents();
+  const mailSender = options.mailSender ?? createDefaultMailSender();
+  const authService = new AuthService(userRepository, tokenService, securityEvents, mailSender, {
+    passwordResetUrl: process.env['PASSWORD_RESET_URL'],
+    requireEmailVerification: authConfig.security.requireEmailVerification,
+    emailVerificationUrl: process.env['EMAIL_VERIFICATION_URL'],
+    emailChangeUrl: process.env['EMAIL_CHANGE_URL'],
+    accountDeletionGracePeriod: process.env['ACCOUNT_DELETION_GRACE_DAYS']
+      ? parseInt(process.env['ACCOUNT_DELETION_GRACE_DAYS'], 10)
+      : undefined,
+    passwordPolicy: PasswordPolicy.fromAuthConfig(authConfig),
+    loginThrottle: LoginThrottle.fromAuthConfig(authConfig, loginThrottleStore),
+    passwordHistorySize: options.passwordHistorySize,
+    mfaIssuer: process.env['MFA_ISSUER'],
+    webAuthn: {
+      rpId: process.env['WEBAUTHN_RP_ID'] || 'localhost',
+      rpName: process.env['MFA_ISSUER'] || 'AegisX',
+      origins: (process.env['WEBAUTHN_ORIGINS'] || 'http://localhost:4200')
+        .split(',')
+        .map((origin) => origin.trim())
+    },
+    identityProviders: options.identityProviders ?? parseIdentityProviders(process.env['OIDC_PROVIDERS']),
+    permissionClaims: options.permissionClaims
   });
-  const authService = new AuthService(userRepository, tokenService);
+
+  const oauthRepository = new OAuthRepository(knexInstance);
+  const oauthService = new OAuthService(oauthRepository, userRepository, tokenService, securityEvents, {
+    scopes: options.oauthScopes
+  });
+
+  const apiKeyRepository = new ApiKeyRepository(knexInstance);
+  const apiKeyService = new ApiKeyService(apiKeyRepository, userRepository, securityEvents);
 
   // Register with container
   container.registerInstance('UserRepository', userRepository);
   container.registerInstance('TokenService', tokenService);
+  container.registerInstance('SecurityEvents', securityEvents);
+  container.registerInstance('MailSender', mailSender);
   container.registerInstance('AuthService', authService);
+  container.registerInstance('OAuthRepository', oauthRepository);
+  container.registerInstance('OAuthService', oauthService);
+  container.registerInstance('ApiKeyRepository', apiKeyRepository);
+  container.registerInstance('ApiKeyService', apiKeyService);
+  if (options.permissionClaims) {
+    container.registerInstance('PermissionClaimSource', options.permissionClaims);
+  }
 }
 
 /**
  * Initialize auth services with Fastify database plugin
  */
-export function initializeAuthServices(fastify: FastifyInstance): void {
+export async function initializeAuthServices(
+  fastify: FastifyInstance,
+  options: AuthServicesOptions = {}
+): Promise<void> {
   // Get Knex instance from Fastify database plugin
   if (fastify.db) {
-    registerAuthServices(fastify.db);
+    registerAuthServices(fastify.db, {
+      ...options,
+      permissionClaims: options.permissionClaims ?? (fastify.hasDecorator('rbac')
+        ? (fastify as FastifyInstance & { rbac: PermissionClaimSource }).rbac
+        : undefined)
+    });
+
+    // Security events go to the application log by default
+    container.resolve<SecurityEvents>('SecurityEvents').on((event) => {
+      fastify.log.warn({ securityEvent: event }, `Security event: ${event.type}`);
+    });
+
+    await initializeJwtKeys(fastify, container.resolve<TokenService>('TokenService'));
   } else {
     throw new Error('Database instance not found. Make sure to register @aegisx/core-database plugin first.');
   }
 }
 
+/**
+ * RS* keys: load the persisted ones, or rotate them when
+ * JWT_KEY_ROTATION_INTERVAL is set (until the server closes)
+ */
+export async function initializeJwtKeys(fastify: FastifyInstance, tokenService: TokenService): Promise<void> {
+  const { keyStore } = tokenService;
+  if (keyStore && process.env['JWT_KEY_ROTATION_INTERVAL']) {
+    await keyStore.startRotation();
+    fastify.addHook('onClose', async () => keyStore.stopRotation());
+  } else {
+    await keyStore?.load();
+  }
+}
+
+/**
+ * Token signing settings from the environment. HS* algorithms sign with
+ * JWT_SECRET, RS* algorithms with the JWT_PUBLIC_KEY/JWT_PRIVATE_KEY pair.
+ */
+export function createJwtConfig(): AuthConfig['jwt'] {
+  const algorithm = (process.env['JWT_ALGORITHM'] || 'HS256') as JwtAlgorithm;
+  const secret = process.env['JWT_SECRET'];
+
+  if (!secret && algorithm.startsWith('HS') && process.env['NODE_ENV'] === 'production') {
+    throw new Error('JWT_SECRET is required in production');
+  }
+
+  const jwt: AuthConfig['jwt'] = {
+    // Outside production a missing secret is generated; tokens then end with the process
+    secret: secret || JwtUtils.generateSecureSecret(),
+    keys: loadSigningKeys(),
+    rotation: process.env['JWT_KEY_ROTATION_INTERVAL']
+      ? {
+        interval: process.env['JWT_KEY_ROTATION_INTERVAL'],
+        gracePeriod: process.env['JWT_KEY_GRACE_PERIOD'] || '1d'
+      }
+      : undefined,
+    issuer: process.env['JWT_ISSUER'] || 'aegisx-platform',
+    algorithm,
+    accessTokenExpiry: process.env['JWT_ACCESS_TOKEN_EXPIRY'] || '15m',
+    refreshTokenExpiry: process.env['JWT_REFRESH_TOKEN_EXPIRY'] || '7d'
+  };
+
+  const validation = JwtUtils.validateJwtConfig(jwt);
+  if (!validation.valid) {
+    throw new Error(`Invalid JWT configuration: ${validation.errors.join(', ')}`);
+  }
+
+  return jwt;
+}
+
+/**
+ * Signing key pair from the environment (PEM, `\n` escaped newlines allowed)
+ */
+function loadSigningKeys(): JwtSigningKey[] | undefined {
+  const publicKey = process.env['JWT_PUBLIC_KEY'];
+  if (!publicKey) {
+    return undefined;
+  }
+
+  return [{
+    kid: process.env['JWT_KEY_ID'] || 'default',
+    publicKey: publicKey.replace(/\\n/g, '\n'),
+    privateKey: process.env['JWT_PRIVATE_KEY']?.replace(/\\n/g, '\n')
+  }];
+}
+
+function parseIdentityProviders(value?: string): IdentityProviderConfig[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    return JSON.parse(value) as IdentityProviderConfig[];
+  } catch {
+    throw new Error('OIDC_PROVIDERS must be a JSON array of identity providers');
+  }
+}
+
+function createDefaultMailSender(): MailSender {
+  const outboxDir = process.env['MAIL_OUTBOX_DIR'];
+  return outboxDir ? new FileMailSender(outboxDir) : new InMemoryMailSender();
+}
+
 /**
  * Cleanup resources
  */
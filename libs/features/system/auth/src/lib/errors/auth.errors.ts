@@ -2,8 +2,10 @@
  * Custom error classes for authentication
  */
 
+import { AuthError as AuthErrorCode } from '@aegisx/core-auth';
+
 export class AuthError extends Error {
-  constructor(message: string, public statusCode = 500) {
+  constructor(message: string, public statusCode = 500, public code?: string) {
     super(message);
     this.name = 'AuthError';
   }
@@ -23,6 +25,13 @@ export class UnauthorizedError extends AuthError {
   }
 }
 
+export class ForbiddenError extends AuthError {
+  constructor(message = 'Forbidden', code?: string) {
+    super(message, 403, code);
+    this.name = 'ForbiddenError';
+  }
+}
+
 export class ConflictError extends AuthError {
   constructor(message: string) {
     super(message, 409);
@@ -30,6 +39,55 @@ export class ConflictError extends AuthError {
   }
 }
 
+export class NotFoundError extends AuthError {
+  constructor(message = 'Not found') {
+    super(message, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class EmailNotVerifiedError extends AuthError {
+  constructor(message = 'Email address has not been verified') {
+    super(message, 403, AuthErrorCode.EMAIL_NOT_VERIFIED);
+    this.name = 'EmailNotVerifiedError';
+  }
+}
+
+export class TooManyRequestsError extends AuthError {
+  constructor(message = 'Too many requests, please try again later', public retryAfter?: number) {
+    super(message, 429, AuthErrorCode.RATE_LIMIT_EXCEEDED);
+    this.name = 'TooManyRequestsError';
+  }
+}
+
+export class IdentityProviderError extends AuthError {
+  constructor(message = 'Identity provider is unavailable') {
+    super(message, 502);
+    this.name = 'IdentityProviderError';
+  }
+}
+
+/**
+ * OAuth 2.0 protocol error; `code` is the RFC 6749 error code
+ * (e.g. invalid_grant) returned as `error` by the token endpoints
+ */
+export class OAuthError extends AuthError {
+  constructor(code: OAuthErrorCode, message: string, statusCode = 400) {
+    super(message, statusCode, code);
+    this.name = 'OAuthError';
+  }
+}
+
+export type OAuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_client'
+  | 'invalid_grant'
+  | 'invalid_scope'
+  | 'unauthorized_client'
+  | 'unsupported_grant_type'
+  | 'unsupported_response_type'
+  | 'access_denied';
+
 export class TokenExpiredError extends AuthError {
   constructor(message = 'Token expired') {
     super(message, 401);
@@ -49,6 +107,9 @@ export class InvalidTokenError extends AuthError {
  */
 export interface ErrorResponse {
   error: string;
+  code?: string;
+  field?: string;
+  retryAfter?: number; // Seconds, for 429 responses
   message: string;
   statusCode: number;
   timestamp: string;
@@ -58,6 +119,9 @@ export function formatError(error: Error): ErrorResponse {
   if (error instanceof AuthError) {
     return {
       error: error.name,
+      ...(error.code ? { code: error.code } : {}),
+      ...(error instanceof ValidationError && error.field ? { field: error.field } : {}),
+      ...(error instanceof TooManyRequestsError && error.retryAfter ? { retryAfter: error.retryAfter } : {}),
       message: error.message,
       statusCode: error.statusCode,
       timestamp: new Date().toISOString()
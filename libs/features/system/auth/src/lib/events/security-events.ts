@@ -0,0 +1,100 @@
+/**
+ * Security event types
+ */
+export type SecurityEventType =
+  | 'refresh_token_reuse'
+  | 'password_reset'
+  | 'password_changed'
+  | 'mfa_enabled'
+  | 'mfa_disabled'
+  | 'mfa_recovery_code_used'
+  | 'passkey_registered'
+  | 'passkey_removed'
+  | 'passkey_counter_mismatch'
+  | 'identity_linked'
+  | 'identity_unlinked'
+  | 'oauth_client_registered'
+  | 'oauth_client_deleted'
+  | 'oauth_consent_granted'
+  | 'oauth_consent_revoked'
+  | 'oauth_refresh_token_reuse'
+  | 'api_key_created'
+  | 'api_key_rotated'
+  | 'api_key_revoked'
+  | 'service_account_created'
+  | 'service_account_deleted'
+  | 'account_locked'
+  | 'account_unlocked'
+  | 'ip_locked'
+  | 'ip_unlocked'
+  | 'user_created'
+  | 'user_updated'
+  | 'user_activated'
+  | 'user_deactivated'
+  | 'password_reset_by_admin'
+  | 'sessions_revoked_by_admin'
+  | 'user_impersonated'
+  | 'email_change_requested'
+  | 'email_changed'
+  | 'account_deletion_requested'
+  | 'account_deletion_cancelled'
+  | 'account_deleted'
+  | 'tenant_created'
+  | 'tenant_updated'
+  | 'tenant_suspended'
+  | 'tenant_activated'
+  | 'tenant_deleted'
+  | 'tenant_provisioned'
+  | 'tenant_deprovisioned'
+  | 'tenants_migrated';
+
+/**
+ * Security-relevant event raised by the auth services
+ */
+export interface SecurityEvent {
+  type: SecurityEventType;
+  userId: string; // Empty for events about an IP address alone
+  occurredAt: Date;
+  details?: Record<string, unknown>;
+}
+
+export type SecurityEventHandler = (event: SecurityEvent) => void | Promise<void>;
+
+/**
+ * Minimal publish/subscribe for security events (audit logs, alerts)
+ */
+export class SecurityEvents {
+  private handlers: SecurityEventHandler[] = [];
+
+  /**
+   * Subscribe; returns an unsubscribe function
+   */
+  on(handler: SecurityEventHandler): () => void {
+    this.handlers.push(handler);
+    return () => {
+      this.handlers = this.handlers.filter((h) => h !== handler);
+    };
+  }
+
+  /**
+   * Deliver an event to every handler. Handler failures never break
+   * the request that raised the event.
+   */
+  async emit(
+    type: SecurityEventType,
+    userId: string,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    const event: SecurityEvent = { type, userId, occurredAt: new Date(), details };
+
+    await Promise.all(
+      this.handlers.map(async (handler) => {
+        try {
+          await handler(event);
+        } catch {
+          // Ignore handler errors
+        }
+      })
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import {
+  ApiKeyCreateRequest,
+  ApiKeyListQuery,
+  ApiKeyParams,
+  ServiceAccountCreateRequest,
+  ServiceAccountParams
+} from '../schemas';
+import { handleAuthError } from '../errors/auth.errors';
+import { SessionRequest } from '../middleware/require-auth';
+import { ApiKeyService } from '../services/api-key.service';
+
+/**
+ * API key and service account management handlers
+ * Routes using these handlers must run requireAuth first
+ */
+export class ApiKeyHandlers {
+
+  async createApiKey(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const apiKeyService = container.resolve<ApiKeyService>('ApiKeyService');
+      const { userId } = (request as SessionRequest).auth;
+      const { expiresAt, ...body } = request.body as ApiKeyCreateRequest;
+
+      const result = await apiKeyService.createApiKey(userId, {
+        ...body,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined
+      });
+
+      request.log.info('API key created', { userId, apiKeyId: result.apiKey.id });
+
+      return reply.code(201).send(result);
+
+    } catch (error) {
+      request.log.error('Create API key error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async listApiKeys(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const apiKeyService = container.resolve<ApiKeyService>('ApiKeyService');
+      const { userId } = (request as SessionRequest).auth;
+      const { serviceAccountId } = request.query as ApiKeyListQuery;
+
+      const apiKeys = await apiKeyService.listApiKeys(userId, serviceAccountId);
+
+      return reply.code(200).send({ apiKeys });
+
+    } catch (error) {
+      request.log.error('List API keys error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async rotateApiKey(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const apiKeyService = container.resolve<ApiKeyService>('ApiKeyService');
+      const { userId } = (request as SessionRequest).auth;
+      const { id } = request.params as ApiKeyParams;
+
+      const result = await apiKeyService.rotateApiKey(userId, id);
+
+      request.log.info('API key rotated', { userId, apiKeyId: id });
+
+      return reply.code(200).send(result);
+
+    } catch (error) {
+      request.log.error('Rotate API key error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async revokeApiKey(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const apiKeyService = container.resolve<ApiKeyService>('ApiKeyService');
+      const { userId } = (request as SessionRequest).auth;
+      const { id } = request.params as ApiKeyParams;
+
+      await apiKeyService.revokeApiKey(userId, id);
+
+      request.log.info('API key revoked', { userId, apiKeyId: id });
+
+      return reply.code(200).send({
+        message: 'API key revoked successfully'
+      });
+
+    } catch (error) {
+      request.log.error('Revoke API key error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async createServiceAccount(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const apiKeyService = container.resolve<ApiKeyService>('ApiKeyService');
+      const { userId } = (request as SessionRequest).auth;
+
+      const serviceAccount = await apiKeyService.createServiceAccount(
+        userId,
+        request.body as ServiceAccountCreateRequest
+      );
+
+      request.log.info('Service account created', { userId, serviceAccountId: serviceAccount.id });
+
+      return reply.code(201).send(serviceAccount);
+
+    } catch (error) {
+      request.log.error('Create service account error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async listServiceAccounts(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const apiKeyService = container.resolve<ApiKeyService>('ApiKeyService');
+      const { userId } = (request as SessionRequest).auth;
+
+      const serviceAccounts = await apiKeyService.listServiceAccounts(userId);
+
+      return reply.code(200).send({ serviceAccounts });
+
+    } catch (error) {
+      request.log.error('List service accounts error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async deleteServiceAccount(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const apiKeyService = container.resolve<ApiKeyService>('ApiKeyService');
+      const { userId } = (request as SessionRequest).auth;
+      const { id } = request.params as ServiceAccountParams;
+
+      await apiKeyService.deleteServiceAccount(userId, id);
+
+      request.log.info('Service account deleted', { userId, serviceAccountId: id });
+
+      return reply.code(200).send({
+        message: 'Service account deleted successfully'
+      });
+
+    } catch (error) {
+      request.log.error('Delete service account error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+}
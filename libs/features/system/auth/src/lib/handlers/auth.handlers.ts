@@ -1,19 +1,18 @@
 import { FastifyRequest, FastifyReply, FastifyInstance } from 'fastify';
 import { container } from 'tsyringe';
+import { JwtUtils } from '@aegisx/core-auth';
 import {
   LoginRequest,
   RegisterRequest,
-  RefreshTokenRequest,
-  User
+  RefreshTokenRequest
 } from '../schemas';
 import {
+  AuthError,
+  UnauthorizedError,
   handleAuthError
 } from '../errors/auth.errors';
-import { AuthService } from '../services/auth.service';
-
-interface AuthenticatedRequest extends FastifyRequest {
-  user: User;
-}
+import { AuthService, SessionContext } from '../services/auth.service';
+import { getCookieSession, sendAuthResult } from '../middleware/cookie-session';
 
 /**
  * Get auth service from container or fallback to mock
@@ -28,6 +27,18 @@ function getAuthService(fastify: FastifyInstance) {
   return container.resolve<AuthService>('AuthService');
 }
 
+/**
+ * Client information stored with a new session. The IP address is
+ * request.ip, which honours Fastify's trustProxy setting: forwarding
+ * headers from untrusted clients must not dodge login throttling.
+ */
+export function getSessionContext(request: FastifyRequest): SessionContext {
+  return {
+    ipAddress: request.ip,
+    userAgent: JwtUtils.extractUserAgent(request.headers['user-agent'])
+  };
+}
+
 /**
  * Auth request handlers with database integration
  * Contains HTTP layer logic for authentication endpoints
@@ -44,18 +55,29 @@ export class AuthHandlers {
       
       const { email, password } = request.body;
       
-      const result = await authService.login({ email, password });
+      const result = await authService.login(
+        { email, password },
+        getSessionContext(request)
+      );
+
+      if (result.mfaRequired) {
+        request.log.info('Login awaiting second factor', { email });
+        return reply.code(200).send(result);
+      }
       
       request.log.info('User logged in successfully', { 
         userId: result.user.id,
         email: result.user.email
       });
       
-      return reply.code(200).send(result);
+      return sendAuthResult(request, reply, 200, result);
 
     } catch (error) {
       request.log.error('Login error:', error);
       const { statusCode, response } = handleAuthError(error as Error);
+      if (response.retryAfter) {
+        reply.header('Retry-After', String(response.retryAfter));
+      }
       return reply.code(statusCode).send(response);
     }
   }
@@ -74,14 +96,14 @@ export class AuthHandlers {
         password,
         firstName,
         lastName
-      });
+      }, getSessionContext(request));
 
       request.log.info('User registered successfully', { 
         userId: result.user.id,
         email: result.user.email
       });
 
-      return reply.code(201).send(result);
+      return sendAuthResult(request, reply, 201, result);
 
     } catch (error) {
       request.log.error('Registration error:', error);
@@ -96,11 +118,17 @@ export class AuthHandlers {
   ) {
     try {
       const authService = getAuthService(request.server);
-      const { refreshToken } = request.body;
+      const cookieSession = getCookieSession();
+
+      // Browser clients in cookie mode send the refresh token as a cookie
+      const cookieToken = request.body?.refreshToken ? undefined : cookieSession.getRefreshToken(request);
+      if (cookieToken) {
+        cookieSession.verifyCsrf(request);
+      }
 
-      const result = await authService.refreshToken(refreshToken);
+      const result = await authService.refreshToken(request.body?.refreshToken ?? cookieToken ?? '');
       
-      return reply.code(200).send(result);
+      return sendAuthResult(request, reply, 200, result, Boolean(cookieToken) || cookieSession.isRequested(request));
 
     } catch (error) {
       request.log.error('Refresh token error:', error);
@@ -114,7 +142,25 @@ export class AuthHandlers {
     reply: FastifyReply
   ) {
     try {
-      // TODO: Implement token invalidation logic
+      const authService = getAuthService(request.server);
+      const cookieSession = getCookieSession();
+      const body = request.body as { refreshToken?: string } | undefined;
+      const bearerToken = request.headers.authorization?.startsWith('Bearer ')
+        ? request.headers.authorization.substring(7).trim()
+        : undefined;
+
+      // Without a header or body token, end the cookie session
+      const useCookies = !bearerToken && !body?.refreshToken &&
+        Boolean(cookieSession.getAccessToken(request) || cookieSession.getRefreshToken(request));
+      if (useCookies) {
+        cookieSession.verifyCsrf(request);
+        cookieSession.clear(reply);
+      }
+
+      await authService.logout(
+        body?.refreshToken ?? (useCookies ? cookieSession.getRefreshToken(request) : undefined),
+        bearerToken ?? (useCookies ? cookieSession.getAccessToken(request) : undefined)
+      );
       request.log.info('User logged out');
 
       return reply.code(200).send({
@@ -123,6 +169,10 @@ export class AuthHandlers {
 
     } catch (error) {
       request.log.error('Logout error:', error);
+      if (error instanceof AuthError) {
+        const { statusCode, response } = handleAuthError(error);
+        return reply.code(statusCode).send(response);
+      }
       return reply.code(500).send({
         error: 'Internal Server Error',
         message: 'An error occurred during logout'
@@ -135,24 +185,20 @@ export class AuthHandlers {
     reply: FastifyReply
   ) {
     try {
-      // TODO: Get user from JWT token
-      const user = (request as AuthenticatedRequest).user;
-
-      if (!user) {
-        return reply.code(401).send({
-          error: 'Unauthorized',
-          message: 'No authenticated user found'
-        });
+      // Set by the requireAuth preHandler (never in mock mode)
+      if (!request.user) {
+        throw new UnauthorizedError('No authenticated user found');
       }
 
+      const authService = container.resolve<AuthService>('AuthService');
+      const user = await authService.getUser(request.user.id);
+
       return reply.code(200).send(user);
 
     } catch (error) {
       request.log.error('Get current user error:', error);
-      return reply.code(500).send({
-        error: 'Internal Server Error',
-        message: 'An error occurred while fetching user data'
-      });
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
     }
   }
 }
@@ -0,0 +1,53 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import { LockoutQueryRequest } from '../schemas';
+import { handleAuthError } from '../errors/auth.errors';
+import { actorIdOf } from '../middleware/require-auth';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Sign-in lockout handlers for administrators
+ * Routes using these handlers must run requireAuth and requirePermission first
+ */
+export class LockoutHandlers {
+
+  async getLockoutStatus(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+
+      const status = await authService.getLockoutStatus(request.query as LockoutQueryRequest);
+
+      return reply.code(200).send(status);
+
+    } catch (error) {
+      request.log.error('Lockout status error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async unlock(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const actorId = actorIdOf(request);
+      const query = request.body as LockoutQueryRequest;
+
+      const status = await authService.unlock(query, actorId);
+
+      request.log.info('Sign-in lock lifted', { ...query, unlockedBy: actorId });
+
+      return reply.code(200).send(status);
+
+    } catch (error) {
+      request.log.error('Unlock error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import { DisableMfaRequest, MfaLoginBody, TotpCodeRequest } from '../schemas';
+import { handleAuthError } from '../errors/auth.errors';
+import { sendAuthResult } from '../middleware/cookie-session';
+import { SessionRequest } from '../middleware/require-auth';
+import { AuthService } from '../services/auth.service';
+import { getSessionContext } from './auth.handlers';
+
+/**
+ * Multi-factor authentication handlers (TOTP and recovery codes)
+ */
+export class MfaHandlers {
+
+  async completeLogin(
+    request: FastifyRequest<{ Body: MfaLoginBody }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+
+      const result = await authService.completeMfaLogin(request.body, getSessionContext(request));
+
+      request.log.info('User logged in successfully', {
+        userId: result.user.id,
+        email: result.user.email
+      });
+
+      return sendAuthResult(request, reply, 200, result);
+
+    } catch (error) {
+      request.log.error('MFA login error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      if (response.retryAfter) {
+        reply.header('Retry-After', String(response.retryAfter));
+      }
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async getStatus(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+
+      return reply.code(200).send(await authService.getMfaStatus(userId));
+
+    } catch (error) {
+      request.log.error('MFA status error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async startTotpEnrollment(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+
+      const enrollment = await authService.startTotpEnrollment(userId);
+
+      return reply.code(200).send(enrollment);
+
+    } catch (error) {
+      request.log.error('TOTP enrollment error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async confirmTotpEnrollment(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+      const { code } = request.body as TotpCodeRequest;
+
+      const recoveryCodes = await authService.confirmTotpEnrollment(userId, code);
+
+      request.log.info('Two-factor authentication enabled', { userId });
+
+      return reply.code(200).send({ recoveryCodes });
+
+    } catch (error) {
+      request.log.error('TOTP confirmation error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async regenerateRecoveryCodes(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+      const { code } = request.body as TotpCodeRequest;
+
+      const recoveryCodes = await authService.regenerateRecoveryCodes(userId, code);
+
+      return reply.code(200).send({ recoveryCodes });
+
+    } catch (error) {
+      request.log.error('Recovery code error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async disable(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+      const { password } = request.body as DisableMfaRequest;
+
+      await authService.disableMfa(userId, password);
+
+      request.log.info('Two-factor authentication disabled', { userId });
+
+      return reply.code(200).send({
+        message: 'Two-factor authentication disabled'
+      });
+
+    } catch (error) {
+      request.log.error('Disable MFA error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+}
@@ -0,0 +1,320 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import {
+  OAuthAuthorizeQuery,
+  OAuthAuthorizeRequest,
+  OAuthClientParams,
+  OAuthClientRegistrationRequest,
+  OAuthConsentParams,
+  OAuthTokenActionRequest,
+  OAuthTokenRequest
+} from '../schemas';
+import { OAuthError, handleAuthError } from '../errors/auth.errors';
+import { SessionRequest } from '../middleware/require-auth';
+import {
+  AuthorizationRequest,
+  OAuthClientCredentials,
+  OAuthService
+} from '../services/oauth.service';
+
+/**
+ * OAuth 2.0 authorization server handlers: client registration, the
+ * consent step, protocol endpoints (token, introspection, revocation)
+ * and the user's consents
+ */
+export class OAuthHandlers {
+
+  async registerClient(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const oauthService = container.resolve<OAuthService>('OAuthService');
+      const { userId } = (request as SessionRequest).auth;
+
+      const result = await oauthService.registerClient(
+        userId,
+        request.body as OAuthClientRegistrationRequest
+      );
+
+      request.log.info('OAuth client registered', { userId, clientId: result.client.clientId });
+
+      return reply.code(201).send(result);
+
+    } catch (error) {
+      request.log.error('OAuth client registration error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async listClients(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const oauthService = container.resolve<OAuthService>('OAuthService');
+      const { userId } = (request as SessionRequest).auth;
+
+      const clients = await oauthService.listClients(userId);
+
+      return reply.code(200).send({ clients });
+
+    } catch (error) {
+      request.log.error('List OAuth clients error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async deleteClient(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const oauthService = container.resolve<OAuthService>('OAuthService');
+      const { userId } = (request as SessionRequest).auth;
+      const { id } = request.params as OAuthClientParams;
+
+      await oauthService.deleteClient(userId, id);
+
+      request.log.info('OAuth client deleted', { userId, id });
+
+      return reply.code(200).send({
+        message: 'Client deleted successfully'
+      });
+
+    } catch (error) {
+      request.log.error('Delete OAuth client error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async prepareAuthorization(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const oauthService = container.resolve<OAuthService>('OAuthService');
+      const { userId } = (request as SessionRequest).auth;
+
+      const prompt = await oauthService.prepareAuthorization(
+        userId,
+        toAuthorizationRequest(request.query as OAuthAuthorizeQuery)
+      );
+
+      return reply.code(200).send(prompt);
+
+    } catch (error) {
+      request.log.error('OAuth authorization request error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async authorize(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const oauthService = container.resolve<OAuthService>('OAuthService');
+      const { userId } = (request as SessionRequest).auth;
+      const body = request.body as OAuthAuthorizeRequest;
+
+      const result = await oauthService.authorize(userId, toAuthorizationRequest(body), body.approved);
+
+      request.log.info('OAuth authorization decided', {
+        userId,
+        clientId: body.client_id,
+        approved: body.approved
+      });
+
+      return reply.code(200).send(result);
+
+    } catch (error) {
+      request.log.error('OAuth authorization error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async token(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const oauthService = container.resolve<OAuthService>('OAuthService');
+      requireValidBody(request);
+      const body = request.body as OAuthTokenRequest;
+
+      const tokens = await oauthService.token(
+        {
+          grantType: body.grant_type,
+          code: body.code,
+          redirectUri: body.redirect_uri,
+          codeVerifier: body.code_verifier,
+          refreshToken: body.refresh_token,
+          scope: body.scope
+        },
+        getClientCredentials(request)
+      );
+
+      return reply
+        .code(200)
+        .header('cache-control', 'no-store')
+        .header('pragma', 'no-cache')
+        .send(tokens);
+
+    } catch (error) {
+      return sendOAuthError(request, reply, error as Error, 'OAuth token error:');
+    }
+  }
+
+  async introspect(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const oauthService = container.resolve<OAuthService>('OAuthService');
+      requireValidBody(request);
+      const { token } = request.body as OAuthTokenActionRequest;
+
+      return reply.code(200).send(await oauthService.introspect(token, getClientCredentials(request)));
+
+    } catch (error) {
+      return sendOAuthError(request, reply, error as Error, 'OAuth introspection error:');
+    }
+  }
+
+  async revoke(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const oauthService = container.resolve<OAuthService>('OAuthService');
+      requireValidBody(request);
+      const { token } = request.body as OAuthTokenActionRequest;
+
+      await oauthService.revoke(token, getClientCredentials(request));
+
+      return reply.code(200).send({});
+
+    } catch (error) {
+      return sendOAuthError(request, reply, error as Error, 'OAuth revocation error:');
+    }
+  }
+
+  async listConsents(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const oauthService = container.resolve<OAuthService>('OAuthService');
+      const { userId } = (request as SessionRequest).auth;
+
+      const consents = await oauthService.listConsents(userId);
+
+      return reply.code(200).send({ consents });
+
+    } catch (error) {
+      request.log.error('List OAuth consents error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async revokeConsent(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const oauthService = container.resolve<OAuthService>('OAuthService');
+      const { userId } = (request as SessionRequest).auth;
+      const { clientId } = request.params as OAuthConsentParams;
+
+      await oauthService.revokeConsent(userId, clientId);
+
+      request.log.info('OAuth consent revoked', { userId, clientId });
+
+      return reply.code(200).send({
+        message: 'Access revoked successfully'
+      });
+
+    } catch (error) {
+      request.log.error('Revoke OAuth consent error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+}
+
+function toAuthorizationRequest(params: OAuthAuthorizeQuery): AuthorizationRequest {
+  return {
+    responseType: params.response_type,
+    clientId: params.client_id,
+    redirectUri: params.redirect_uri,
+    scope: params.scope,
+    state: params.state,
+    codeChallenge: params.code_challenge,
+    codeChallengeMethod: params.code_challenge_method
+  };
+}
+
+/**
+ * Protocol endpoints validate with attachValidation so schema errors
+ * are reported as invalid_request
+ */
+function requireValidBody(request: FastifyRequest): void {
+  if (request.validationError) {
+    throw new OAuthError('invalid_request', request.validationError.message);
+  }
+}
+
+/**
+ * Client credentials from HTTP Basic (client_secret_basic) or the body
+ * (client_secret_post, or client_id alone for public clients)
+ */
+function getClientCredentials(request: FastifyRequest): OAuthClientCredentials {
+  const [scheme, value] = (request.headers.authorization ?? '').split(' ');
+  if (scheme?.toLowerCase() === 'basic' && value) {
+    const decoded = Buffer.from(value, 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator > 0) {
+      return {
+        clientId: formDecode(decoded.slice(0, separator)),
+        clientSecret: formDecode(decoded.slice(separator + 1))
+      };
+    }
+  }
+
+  const body = (request.body ?? {}) as { client_id?: string; client_secret?: string };
+  return { clientId: body.client_id, clientSecret: body.client_secret };
+}
+
+// Basic credentials are form-urlencoded (RFC 6749 section 2.3.1)
+function formDecode(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * RFC 6749 error response ({ error, error_description })
+ */
+function sendOAuthError(request: FastifyRequest, reply: FastifyReply, error: Error, message: string) {
+  if (error instanceof OAuthError) {
+    if (error.statusCode === 401) {
+      reply.header('www-authenticate', 'Basic realm="oauth"');
+    }
+    return reply.code(error.statusCode).send({
+      error: error.code,
+      error_description: error.message
+    });
+  }
+
+  request.log.error(message, error);
+  return reply.code(500).send({ error: 'server_error' });
+}
@@ -0,0 +1,129 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import {
+  ExternalLoginCallbackRequest,
+  IdentityParams,
+  IdentityProviderParams
+} from '../schemas';
+import { handleAuthError } from '../errors/auth.errors';
+import { sendAuthResult } from '../middleware/cookie-session';
+import { SessionRequest } from '../middleware/require-auth';
+import { AuthService } from '../services/auth.service';
+import { getSessionContext } from './auth.handlers';
+
+/**
+ * External login (OpenID Connect) and linked identity handlers
+ */
+export class OidcHandlers {
+
+  async listProviders(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+
+      return reply.code(200).send({ providers: authService.listIdentityProviders() });
+
+    } catch (error) {
+      request.log.error('List identity providers error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async authorize(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { provider } = request.params as IdentityProviderParams;
+
+      return reply.code(200).send(await authService.startExternalLogin(provider));
+
+    } catch (error) {
+      request.log.error('External login start error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async callback(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { provider } = request.params as IdentityProviderParams;
+      const { code, state } = request.body as ExternalLoginCallbackRequest;
+
+      const result = await authService.completeExternalLogin(
+        provider,
+        { code, state },
+        getSessionContext(request)
+      );
+
+      if ('mfaRequired' in result) {
+        request.log.info('External login awaiting second factor', { provider });
+        return reply.code(200).send(result);
+      }
+
+      request.log.info('User logged in with identity provider', {
+        userId: result.user.id,
+        email: result.user.email,
+        provider
+      });
+
+      return sendAuthResult(request, reply, 200, result);
+
+    } catch (error) {
+      request.log.error('External login error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async listIdentities(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+
+      const identities = await authService.listIdentities(userId);
+
+      return reply.code(200).send({ identities });
+
+    } catch (error) {
+      request.log.error('List identities error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async unlinkIdentity(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+      const { id } = request.params as IdentityParams;
+
+      await authService.unlinkIdentity(userId, id);
+
+      request.log.info('Identity unlinked', { userId, identityId: id });
+
+      return reply.code(200).send({
+        message: 'Identity unlinked successfully'
+      });
+
+    } catch (error) {
+      request.log.error('Unlink identity error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+}
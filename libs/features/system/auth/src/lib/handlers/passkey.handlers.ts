@@ -0,0 +1,157 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import {
+  MfaChallengeRequest,
+  PasskeyLoginRequest,
+  PasskeyParams,
+  PasskeyRegistrationRequest
+} from '../schemas';
+import { handleAuthError } from '../errors/auth.errors';
+import { sendAuthResult } from '../middleware/cookie-session';
+import { SessionRequest } from '../middleware/require-auth';
+import { AuthService } from '../services/auth.service';
+import { getSessionContext } from './auth.handlers';
+
+/**
+ * Passkey (WebAuthn) handlers: registration, management and login
+ */
+export class PasskeyHandlers {
+
+  async registrationOptions(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+
+      return reply.code(200).send(await authService.startPasskeyRegistration(userId));
+
+    } catch (error) {
+      request.log.error('Passkey registration options error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async register(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+      const { credential, name } = request.body as PasskeyRegistrationRequest;
+
+      const passkey = await authService.finishPasskeyRegistration(userId, credential, name);
+
+      request.log.info('Passkey registered', { userId, passkeyId: passkey.id });
+
+      return reply.code(201).send(passkey);
+
+    } catch (error) {
+      request.log.error('Passkey registration error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async listPasskeys(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+
+      const passkeys = await authService.listPasskeys(userId);
+
+      return reply.code(200).send({ passkeys });
+
+    } catch (error) {
+      request.log.error('List passkeys error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async deletePasskey(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+      const { id } = request.params as PasskeyParams;
+
+      await authService.deletePasskey(userId, id);
+
+      request.log.info('Passkey removed', { userId, passkeyId: id });
+
+      return reply.code(200).send({
+        message: 'Passkey removed successfully'
+      });
+
+    } catch (error) {
+      request.log.error('Delete passkey error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async loginOptions(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+
+      return reply.code(200).send(await authService.startPasskeyLogin());
+
+    } catch (error) {
+      request.log.error('Passkey login options error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async mfaOptions(
+    request: FastifyRequest<{ Body: MfaChallengeRequest }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+
+      return reply.code(200).send(await authService.startPasskeyLogin(request.body.challengeToken));
+
+    } catch (error) {
+      request.log.error('Passkey MFA options error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async login(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { credential } = request.body as PasskeyLoginRequest;
+
+      const result = await authService.finishPasskeyLogin(credential, getSessionContext(request));
+
+      request.log.info('User logged in with passkey', {
+        userId: result.user.id,
+        email: result.user.email
+      });
+
+      return sendAuthResult(request, reply, 200, result);
+
+    } catch (error) {
+      request.log.error('Passkey login error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+}
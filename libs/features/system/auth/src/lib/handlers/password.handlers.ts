@@ -0,0 +1,84 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import { ChangePasswordBody, ForgotPasswordRequest, ResetPasswordRequest } from '../schemas';
+import { handleAuthError } from '../errors/auth.errors';
+import { SessionRequest } from '../middleware/require-auth';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Password reset and change handlers
+ */
+export class PasswordHandlers {
+
+  async forgotPassword(
+    request: FastifyRequest<{ Body: ForgotPasswordRequest }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+
+      await authService.requestPasswordReset(request.body.email);
+
+      // Same answer whether or not the account exists
+      return reply.code(200).send({
+        message: 'If an account exists for this email, a password reset link has been sent'
+      });
+
+    } catch (error) {
+      request.log.error('Forgot password error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async resetPassword(
+    request: FastifyRequest<{ Body: ResetPasswordRequest }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { token, newPassword } = request.body;
+
+      await authService.resetPassword(token, newPassword);
+
+      request.log.info('Password reset completed');
+
+      return reply.code(200).send({
+        message: 'Password has been reset successfully'
+      });
+
+    } catch (error) {
+      request.log.error('Reset password error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async changePassword(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId, sessionId } = (request as SessionRequest).auth;
+      const { currentPassword, newPassword, revokeOtherSessions } = request.body as ChangePasswordBody;
+
+      await authService.changePassword(
+        userId,
+        { currentPassword, newPassword },
+        { currentSessionId: sessionId, revokeOtherSessions }
+      );
+
+      request.log.info('Password changed', { userId });
+
+      return reply.code(200).send({
+        message: 'Password changed successfully'
+      });
+
+    } catch (error) {
+      request.log.error('Change password error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+}
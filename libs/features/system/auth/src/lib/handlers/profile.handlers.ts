@@ -0,0 +1,125 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import {
+  AccountDeletionBody,
+  ConfirmEmailChangeRequest,
+  EmailChangeBody,
+  UpdateProfileBody
+} from '../schemas';
+import { handleAuthError } from '../errors/auth.errors';
+import { SessionRequest } from '../middleware/require-auth';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Self-service profile handlers
+ * Routes using these handlers must run requireAuth first, except confirmEmailChange
+ */
+export class ProfileHandlers {
+
+  async updateProfile(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+
+      const user = await authService.updateProfile(userId, request.body as UpdateProfileBody);
+
+      return reply.code(200).send(user);
+
+    } catch (error) {
+      request.log.error('Update profile error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async requestEmailChange(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+      const { newEmail, password } = request.body as EmailChangeBody;
+
+      await authService.requestEmailChange(userId, newEmail, password);
+
+      return reply.code(202).send({
+        message: 'Confirmation link sent to the new email address'
+      });
+
+    } catch (error) {
+      request.log.error('Request email change error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async confirmEmailChange(
+    request: FastifyRequest<{ Body: ConfirmEmailChangeRequest }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+
+      await authService.confirmEmailChange(request.body.token);
+
+      return reply.code(200).send({
+        message: 'Email address changed successfully'
+      });
+
+    } catch (error) {
+      request.log.error('Confirm email change error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async requestAccountDeletion(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId, sessionId } = (request as SessionRequest).auth;
+      const { password } = request.body as AccountDeletionBody;
+
+      const { deletionScheduledAt } = await authService.requestAccountDeletion(userId, password, sessionId);
+
+      request.log.info('Account deletion requested', { userId, deletionScheduledAt });
+
+      return reply.code(202).send({
+        message: 'Account deletion scheduled',
+        deletionScheduledAt
+      });
+
+    } catch (error) {
+      request.log.error('Request account deletion error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async cancelAccountDeletion(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+
+      await authService.cancelAccountDeletion(userId);
+
+      return reply.code(200).send({
+        message: 'Account deletion cancelled'
+      });
+
+    } catch (error) {
+      request.log.error('Cancel account deletion error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+}
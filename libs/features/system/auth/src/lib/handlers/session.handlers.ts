@@ -0,0 +1,103 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import { SessionParams } from '../schemas';
+import { handleAuthError } from '../errors/auth.errors';
+import { SessionRequest } from '../middleware/require-auth';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Session (device) management handlers
+ * Routes using these handlers must run requireAuth first
+ */
+export class SessionHandlers {
+
+  async listSessions(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId, sessionId } = (request as SessionRequest).auth;
+
+      const sessions = await authService.listSessions(userId, sessionId);
+
+      return reply.code(200).send({ sessions });
+
+    } catch (error) {
+      request.log.error('List sessions error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async revokeSession(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+      const { id } = request.params as SessionParams;
+
+      await authService.revokeSession(userId, id);
+
+      request.log.info('Session revoked', { userId, sessionId: id });
+
+      return reply.code(200).send({
+        message: 'Session revoked successfully'
+      });
+
+    } catch (error) {
+      request.log.error('Revoke session error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async revokeOtherSessions(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId, sessionId } = (request as SessionRequest).auth;
+
+      const revoked = await authService.revokeOtherSessions(userId, sessionId);
+
+      request.log.info('Other sessions revoked', { userId, revoked });
+
+      return reply.code(200).send({
+        message: 'Other sessions revoked successfully',
+        revoked
+      });
+
+    } catch (error) {
+      request.log.error('Revoke sessions error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async logoutAll(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+      const { userId } = (request as SessionRequest).auth;
+
+      await authService.logoutAll(userId);
+
+      request.log.info('User logged out from all devices', { userId });
+
+      return reply.code(200).send({
+        message: 'Logged out from all devices successfully'
+      });
+
+    } catch (error) {
+      request.log.error('Logout all error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+}
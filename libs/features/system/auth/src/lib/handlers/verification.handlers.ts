@@ -0,0 +1,52 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import { ResendVerificationRequest, VerifyEmailRequest } from '../schemas';
+import { handleAuthError } from '../errors/auth.errors';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Email verification handlers
+ */
+export class VerificationHandlers {
+
+  async verifyEmail(
+    request: FastifyRequest<{ Body: VerifyEmailRequest }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+
+      await authService.verifyEmail(request.body.token);
+
+      return reply.code(200).send({
+        message: 'Email verified successfully'
+      });
+
+    } catch (error) {
+      request.log.error('Verify email error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async resendVerification(
+    request: FastifyRequest<{ Body: ResendVerificationRequest }>,
+    reply: FastifyReply
+  ) {
+    try {
+      const authService = container.resolve<AuthService>('AuthService');
+
+      await authService.resendVerificationEmail(request.body.email);
+
+      // Same answer for unknown and already verified addresses
+      return reply.code(200).send({
+        message: 'If the email address awaits verification, a new link has been sent'
+      });
+
+    } catch (error) {
+      request.log.error('Resend verification error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * Outgoing email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Mail delivery used by the auth flows (password reset, ...).
+ * Implement this to plug in SMTP or a mail API.
+ */
+export interface MailSender {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Keeps sent messages in memory (tests, default)
+ */
+export class InMemoryMailSender implements MailSender {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+
+  /**
+   * Most recent message sent to an address
+   */
+  lastTo(to: string): MailMessage | undefined {
+    return [...this.sent].reverse().find((message) => message.to === to);
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+/**
+ * Writes every message as a JSON file into a directory (local development)
+ */
+export class FileMailSender implements MailSender {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${randomUUID()}.json`;
+    await writeFile(
+      join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
@@ -0,0 +1,188 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { container } from 'tsyringe';
+import {
+  AuthError as AuthErrorCode,
+  AuthStrategy,
+  CookieOptions,
+  CookieUtils,
+  PermissionVersionResolver,
+  TokenService,
+  sessionCookieStrategy
+} from '@aegisx/core-auth';
+import { ForbiddenError } from '../errors/auth.errors';
+
+/**
+ * Header a browser client sends to ask for cookie mode on sign-in
+ */
+export const AUTH_MODE_HEADER = 'x-auth-mode';
+
+/**
+ * Cookie session settings (the defaults suit an SPA served from the same site)
+ */
+export interface CookieSessionOptions {
+  accessCookieName?: string; // Default: access_token
+  refreshCookieName?: string; // Default: refresh_token
+  csrfCookieName?: string; // Default: XSRF-TOKEN (read by Angular's HttpClient)
+  csrfHeaderName?: string; // Default: x-xsrf-token (sent by Angular's HttpClient)
+  secure?: boolean; // Default: true; turn off only for plain http development
+  sameSite?: 'strict' | 'lax' | 'none'; // Default: strict ('none' requires secure)
+  domain?: string;
+  refreshPath?: string; // Default: /api/auth, so the refresh cookie only reaches auth routes
+  refreshMaxAge?: number; // Seconds; default: 7 days (the refresh token lifetime)
+}
+
+/**
+ * Tokens of a completed sign-in or refresh
+ */
+interface IssuedTokens {
+  accessToken?: string;
+  refreshToken?: string;
+  expiresIn?: number;
+}
+
+/**
+ * httpOnly access and refresh cookies with a double-submit CSRF cookie.
+ * Bearer clients are unaffected: cookies are only issued on request.
+ */
+export class CookieSession {
+  private readonly settings: Required<Omit<CookieSessionOptions, 'domain'>> & { domain?: string };
+
+  constructor(options: CookieSessionOptions = {}) {
+    this.settings = {
+      accessCookieName: options.accessCookieName ?? 'access_token',
+      refreshCookieName: options.refreshCookieName ?? 'refresh_token',
+      csrfCookieName: options.csrfCookieName ?? 'XSRF-TOKEN',
+      csrfHeaderName: (options.csrfHeaderName ?? 'x-xsrf-token').toLowerCase(),
+      secure: options.secure ?? true,
+      sameSite: options.sameSite ?? 'strict',
+      domain: options.domain,
+      refreshPath: options.refreshPath ?? '/api/auth',
+      refreshMaxAge: options.refreshMaxAge ?? 7 * 24 * 60 * 60
+    };
+
+    if (this.settings.sameSite === 'none' && !this.settings.secure) {
+      throw new Error('SameSite=None cookies must be secure');
+    }
+  }
+
+  /**
+   * Whether the client asked for cookie mode (X-Auth-Mode: cookie)
+   */
+  isRequested(request: FastifyRequest): boolean {
+    return request.headers[AUTH_MODE_HEADER] === 'cookie';
+  }
+
+  getAccessToken(request: FastifyRequest): string | undefined {
+    return CookieUtils.read(request, this.settings.accessCookieName);
+  }
+
+  getRefreshToken(request: FastifyRequest): string | undefined {
+    return CookieUtils.read(request, this.settings.refreshCookieName);
+  }
+
+  /**
+   * Set the access, refresh and CSRF cookies; returns the CSRF token
+   * for clients that cannot read the cookie (another origin)
+   */
+  issue(reply: FastifyReply, tokens: Required<Pick<IssuedTokens, 'accessToken' | 'refreshToken'>> & IssuedTokens): string {
+    const csrfToken = CookieUtils.generateCsrfToken();
+    const { accessCookieName, refreshCookieName, csrfCookieName, refreshPath, refreshMaxAge } = this.settings;
+
+    reply.header('set-cookie', [
+      CookieUtils.serialize(accessCookieName, tokens.accessToken, this.cookie({
+        httpOnly: true,
+        maxAge: tokens.expiresIn ?? 15 * 60
+      })),
+      CookieUtils.serialize(refreshCookieName, tokens.refreshToken, this.cookie({
+        httpOnly: true,
+        path: refreshPath,
+        maxAge: refreshMaxAge
+      })),
+      CookieUtils.serialize(csrfCookieName, csrfToken, this.cookie({ maxAge: refreshMaxAge }))
+    ]);
+
+    return csrfToken;
+  }
+
+  /**
+   * Delete the session cookies
+   */
+  clear(reply: FastifyReply): void {
+    const { accessCookieName, refreshCookieName, csrfCookieName, refreshPath } = this.settings;
+
+    reply.header('set-cookie', [
+      CookieUtils.serialize(accessCookieName, '', this.cookie({ httpOnly: true, maxAge: 0 })),
+      CookieUtils.serialize(refreshCookieName, '', this.cookie({ httpOnly: true, path: refreshPath, maxAge: 0 })),
+      CookieUtils.serialize(csrfCookieName, '', this.cookie({ maxAge: 0 }))
+    ]);
+  }
+
+  /**
+   * Throw unless the CSRF header matches the CSRF cookie
+   */
+  verifyCsrf(request: FastifyRequest): void {
+    const valid = CookieUtils.verifyCsrfToken(request, {
+      cookieName: this.settings.csrfCookieName,
+      headerName: this.settings.csrfHeaderName
+    });
+
+    if (!valid) {
+      throw new ForbiddenError('Invalid CSRF token', AuthErrorCode.CSRF_TOKEN_INVALID);
+    }
+  }
+
+  /**
+   * Authentication strategy for the access cookie, with the same CSRF settings
+   */
+  strategy(tokenService: TokenService, permissionVersion?: PermissionVersionResolver): AuthStrategy {
+    return sessionCookieStrategy(tokenService, {
+      cookieName: this.settings.accessCookieName,
+      csrf: {
+        cookieName: this.settings.csrfCookieName,
+        headerName: this.settings.csrfHeaderName
+      },
+      permissionVersion
+    });
+  }
+
+  private cookie(options: CookieOptions): CookieOptions {
+    return {
+      path: '/',
+      secure: this.settings.secure,
+      sameSite: this.settings.sameSite,
+      domain: this.settings.domain,
+      ...options
+    };
+  }
+}
+
+/**
+ * The registered cookie session, or one with the default settings
+ */
+export function getCookieSession(): CookieSession {
+  return container.isRegistered('CookieSession')
+    ? container.resolve<CookieSession>('CookieSession')
+    : new CookieSession();
+}
+
+/**
+ * Send a sign-in or refresh result. In cookie mode the tokens go into
+ * httpOnly cookies and the body carries the CSRF token instead.
+ */
+export function sendAuthResult<T extends IssuedTokens>(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  statusCode: number,
+  result: T,
+  cookieMode?: boolean
+) {
+  const cookieSession = getCookieSession();
+  const { accessToken, refreshToken, ...rest } = result;
+
+  if (!(cookieMode ?? cookieSession.isRequested(request)) || !accessToken || !refreshToken) {
+    return reply.code(statusCode).send(result);
+  }
+
+  const csrfToken = cookieSession.issue(reply, { accessToken, refreshToken, expiresIn: result.expiresIn });
+  return reply.code(statusCode).send({ ...rest, csrfToken });
+}
@@ -0,0 +1,121 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { container } from 'tsyringe';
+import {
+  AuthStrategy,
+  AuthenticateHandler,
+  AuthenticateOptions,
+  PermissionVersionResolver,
+  TokenService,
+  apiKeyStrategy,
+  createAuthenticate,
+  jwtStrategy
+} from '@aegisx/core-auth';
+import { ForbiddenError, formatError } from '../errors/auth.errors';
+import { ApiKeyService } from '../services/api-key.service';
+import { PermissionClaimSource } from '../services/auth.service';
+import { getCookieSession } from './cookie-session';
+
+export type { AuthUser, AuthenticatedRequest } from '@aegisx/core-auth';
+
+/**
+ * Request after requireAuth: the verified token's user and session
+ */
+export interface SessionRequest extends FastifyRequest {
+  auth: {
+    userId: string;
+    email: string;
+    sessionId?: string;
+    actorId?: string; // Administrator impersonating the user
+  };
+}
+
+/**
+ * Build a strategy from the DI container when a request arrives,
+ * so routes can be declared before the services are registered
+ */
+function fromContainer(name: string, build: () => AuthStrategy): AuthStrategy {
+  return {
+    name,
+    authenticate: (request, options) => build().authenticate(request, options)
+  };
+}
+
+/**
+ * Check of the permissionVersion claim, when access tokens carry one
+ */
+function permissionVersion(): PermissionVersionResolver | undefined {
+  if (!container.isRegistered('PermissionClaimSource')) {
+    return undefined;
+  }
+  const source = container.resolve<PermissionClaimSource>('PermissionClaimSource');
+  return (userId) => source.getPermissionVersion(userId);
+}
+
+const strategies: AuthStrategy[] = [
+  fromContainer('apiKey', () => apiKeyStrategy((key, request) =>
+    container.resolve<ApiKeyService>('ApiKeyService').authenticate(key, request.ip)
+  )),
+  fromContainer('jwt', () => jwtStrategy(container.resolve<TokenService>('TokenService'), {
+    permissionVersion: permissionVersion()
+  })),
+  fromContainer('sessionCookie', () => getCookieSession().strategy(
+    container.resolve<TokenService>('TokenService'),
+    permissionVersion()
+  ))
+];
+
+/**
+ * PreHandler from the core authenticate handler that also sets
+ * SessionRequest.auth for the feature handlers
+ */
+function withSessionAuth(options: AuthenticateOptions): AuthenticateHandler {
+  const authenticateRequest = createAuthenticate(strategies, options);
+
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    await authenticateRequest(request, reply);
+
+    const user = request.user;
+    if (user && !reply.sent) {
+      (request as SessionRequest).auth = {
+        userId: user.id,
+        email: user.email,
+        sessionId: user.sessionId,
+        actorId: user.actorId
+      };
+    }
+  };
+}
+
+/**
+ * PreHandler: require a valid, non-revoked access token, as a Bearer
+ * header or a session cookie (with the CSRF header on state-changing requests)
+ */
+export const requireAuth = withSessionAuth({ strategies: ['jwt', 'sessionCookie'] });
+
+/**
+ * PreHandler: requireAuth that refuses impersonation tokens, for routes
+ * that add credentials or grants that would outlive the impersonation
+ */
+export const requireOwnAuth: AuthenticateHandler = async (request: FastifyRequest, reply: FastifyReply) => {
+  await requireAuth(request, reply);
+
+  if (!reply.sent && (request as SessionRequest).auth?.actorId) {
+    const error = new ForbiddenError('Impersonation tokens cannot manage the account');
+    return reply.code(403).send(formatError(error));
+  }
+};
+
+/**
+ * Administrator behind an impersonation, otherwise the signed-in user;
+ * the one to name in audit events
+ */
+export function actorIdOf(request: FastifyRequest): string {
+  const { userId, actorId } = (request as SessionRequest).auth;
+  return actorId ?? userId;
+}
+
+/**
+ * PreHandler: accept an `X-API-Key` header or an access token.
+ * Routes that manage the account itself should keep using requireAuth.
+ */
+export const authenticate = withSessionAuth({});
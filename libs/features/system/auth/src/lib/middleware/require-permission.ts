@@ -0,0 +1,24 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { AuthenticateHandler } from '@aegisx/core-auth';
+import { ForbiddenError, formatError } from '../errors/auth.errors';
+
+type AuthorizeDecorator = (...permissions: string[]) => AuthenticateHandler;
+
+/**
+ * PreHandler: require permissions through fastify.authorize from the
+ * @aegisx/core-rbac plugin (register it before the auth plugin).
+ * Without it every request is refused, so admin routes never open up
+ * by accident. Run requireAuth first.
+ */
+export function requirePermission(fastify: FastifyInstance, ...permissions: string[]): AuthenticateHandler {
+  if (fastify.hasDecorator('authorize')) {
+    return (fastify as FastifyInstance & { authorize: AuthorizeDecorator }).authorize(...permissions);
+  }
+
+  fastify.log.warn(`RBAC plugin not registered: routes requiring ${permissions.join(', ')} will refuse every request`);
+
+  return async (_request: FastifyRequest, reply: FastifyReply) => {
+    const error = new ForbiddenError(`Missing required permission: ${permissions.join(', ')}`);
+    return reply.code(403).send(formatError(error));
+  };
+}
@@ -1,9 +1,24 @@
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { container } from 'tsyringe';
+import { PasswordPolicyConfig } from '@aegisx/core-auth';
 import { authRoutes } from './routes/auth.routes';
-import { 
-  initializeAuthServices, 
-  cleanupAuthServices
+import { sessionRoutes } from './routes/session.routes';
+import { passwordRoutes } from './routes/password.routes';
+import { verificationRoutes } from './routes/verification.routes';
+import { mfaRoutes } from './routes/mfa.routes';
+import { passkeyRoutes } from './routes/passkey.routes';
+import { oidcRoutes } from './routes/oidc.routes';
+import { oauthRoutes } from './routes/oauth.routes';
+import { apiKeyRoutes } from './routes/api-key.routes';
+import { lockoutRoutes } from './routes/lockout.routes';
+import { profileRoutes } from './routes/profile.routes';
+import {
+  initializeAuthServices,
+  cleanupAuthServices,
+  LoginThrottleSettings
 } from './config/auth.config';
+import { MailSender } from './mail/mail-sender';
+import { CookieSession, CookieSessionOptions } from './middleware/cookie-session';
 
 /**
  * Auth plugin options
@@ -20,6 +35,35 @@ export interface AuthPluginOptions {
    * Default: '/api/auth'
    */
   prefix?: string;
+
+  /**
+   * Delivers password reset and verification emails (real implementation only)
+   * Default: FileMailSender when MAIL_OUTBOX_DIR is set, otherwise in-memory
+   */
+  mailSender?: MailSender;
+
+  /**
+   * Rules for new passwords (real implementation only)
+   */
+  passwordPolicy?: PasswordPolicyConfig;
+
+  /**
+   * Recent passwords a user cannot reuse
+   * Default: 5 (0 disables the password history)
+   */
+  passwordHistorySize?: number;
+
+  /**
+   * Failed sign-in limits: store and overrides of AuthConfig.security (real implementation only)
+   * Default: in-memory, 5 failures per account and 20 per IP, 30 minute lockout
+   */
+  loginThrottle?: LoginThrottleSettings;
+
+  /**
+   * Cookie attributes for browser clients that sign in with X-Auth-Mode: cookie
+   * Default: Secure, SameSite=Strict, refresh cookie limited to the route prefix
+   */
+  cookieSession?: CookieSessionOptions;
 }
 
 /**
@@ -32,9 +76,17 @@ export const authPlugin: FastifyPluginAsync<AuthPluginOptions> = async (
 ) => {
   const { 
     useMock = false, 
-    prefix = '/api/auth' 
+    prefix = '/api/auth',
+    mailSender,
+    passwordPolicy,
+    passwordHistorySize,
+    loginThrottle,
+    cookieSession
   } = options;
 
+  // Cookie mode works with the mock and the real implementation
+  container.registerInstance('CookieSession', new CookieSession({ refreshPath: prefix, ...cookieSession }));
+
   // Initialize services based on configuration
   if (useMock) {
     // Use mock implementation for development/testing
@@ -53,12 +105,26 @@ export const authPlugin: FastifyPluginAsync<AuthPluginOptions> = async (
     }
 
     // Initialize auth services with Knex instance
-    initializeAuthServices(fastify);
+    await initializeAuthServices(fastify, { mailSender, passwordPolicy, passwordHistorySize, loginThrottle });
   }
 
   // Register authentication routes
   await fastify.register(authRoutes, { prefix });
 
+  // Profiles, sessions, passwords, email verification, MFA, passkeys, external login, OAuth, API keys and lockouts need the database (not available in the mock)
+  if (!useMock) {
+    await fastify.register(profileRoutes, { prefix });
+    await fastify.register(sessionRoutes, { prefix });
+    await fastify.register(passwordRoutes, { prefix });
+    await fastify.register(verificationRoutes, { prefix });
+    await fastify.register(mfaRoutes, { prefix });
+    await fastify.register(passkeyRoutes, { prefix });
+    await fastify.register(oidcRoutes, { prefix });
+    await fastify.register(oauthRoutes, { prefix });
+    await fastify.register(apiKeyRoutes, { prefix });
+    await fastify.register(lockoutRoutes, { prefix });
+  }
+
   // Add lifecycle hooks
   fastify.addHook('onClose', async () => {
     if (!useMock) {
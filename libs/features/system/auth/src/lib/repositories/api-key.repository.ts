@@ -0,0 +1,237 @@
+import { injectable } from 'tsyringe';
+import { Knex } from 'knex';
+
+/**
+ * Database Service Account Entity (a non-human principal owned by a user)
+ */
+export interface DbServiceAccount {
+  id: string;
+  name: string;
+  description: string | null;
+  owner_id: string;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Database API Key Entity (only the key hash is stored).
+ * Belongs to either a user or a service account.
+ */
+export interface DbApiKey {
+  id: string;
+  user_id: string | null;
+  service_account_id: string | null;
+  name: string;
+  prefix: string; // Public part of the key, identifies it
+  key_hash: string;
+  scopes: string[]; // Permissions the key is limited to
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  last_used_ip: string | null;
+  revoked_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Create Service Account Input
+ */
+export interface CreateServiceAccountInput {
+  name: string;
+  description?: string;
+  ownerId: string;
+}
+
+/**
+ * Create API Key Input (either userId or serviceAccountId)
+ */
+export interface CreateApiKeyInput {
+  userId?: string;
+  serviceAccountId?: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt?: Date;
+  createdBy: string;
+}
+
+/**
+ * API Key Repository using Knex Query Builder
+ */
+@injectable()
+export class ApiKeyRepository {
+  constructor(
+    private knex: Knex
+  ) {}
+
+  /**
+   * Create a service account
+   */
+  async createServiceAccount(input: CreateServiceAccountInput): Promise<DbServiceAccount> {
+    const [serviceAccount] = await this.knex('service_accounts')
+      .insert({
+        name: input.name,
+        description: input.description || null,
+        owner_id: input.ownerId,
+        created_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now()
+      })
+      .returning('*');
+
+    return serviceAccount;
+  }
+
+  /**
+   * Find a service account by id
+   */
+  async findServiceAccount(id: string): Promise<DbServiceAccount | null> {
+    const serviceAccount = await this.knex('service_accounts')
+      .where({ id })
+      .first();
+
+    return serviceAccount || null;
+  }
+
+  /**
+   * Find a service account of a user by name
+   */
+  async findServiceAccountByName(ownerId: string, name: string): Promise<DbServiceAccount | null> {
+    const serviceAccount = await this.knex('service_accounts')
+      .where({ owner_id: ownerId, name })
+      .first();
+
+    return serviceAccount || null;
+  }
+
+  /**
+   * Service accounts owned by a user, oldest first
+   */
+  async listServiceAccounts(ownerId: string): Promise<DbServiceAccount[]> {
+    const serviceAccounts: DbServiceAccount[] = await this.knex('service_accounts')
+      .where({ owner_id: ownerId })
+      .orderBy('created_at', 'asc');
+
+    return serviceAccounts;
+  }
+
+  /**
+   * Delete a service account of a user with its API keys.
+   * Returns false if there was none.
+   */
+  async deleteServiceAccount(ownerId: string, id: string): Promise<boolean> {
+    const deleted = await this.knex('service_accounts')
+      .where({ owner_id: ownerId, id })
+      .del();
+
+    return deleted > 0;
+  }
+
+  /**
+   * Store a new API key
+   */
+  async createApiKey(input: CreateApiKeyInput): Promise<DbApiKey> {
+    const [apiKey] = await this.knex('api_keys')
+      .insert({
+        user_id: input.userId || null,
+        service_account_id: input.serviceAccountId || null,
+        name: input.name,
+        prefix: input.prefix,
+        key_hash: input.keyHash,
+        scopes: input.scopes,
+        expires_at: input.expiresAt || null,
+        created_by: input.createdBy,
+        created_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now()
+      })
+      .returning('*');
+
+    return apiKey;
+  }
+
+  /**
+   * Find a non-revoked API key by id
+   */
+  async findApiKey(id: string): Promise<DbApiKey | null> {
+    const apiKey = await this.knex('api_keys')
+      .where({ id })
+      .whereNull('revoked_at')
+      .first();
+
+    return apiKey || null;
+  }
+
+  /**
+   * Find an API key by its prefix, including revoked and expired ones
+   */
+  async findApiKeyByPrefix(prefix: string): Promise<DbApiKey | null> {
+    const apiKey = await this.knex('api_keys')
+      .where({ prefix })
+      .first();
+
+    return apiKey || null;
+  }
+
+  /**
+   * Non-revoked API keys of a user or of a service account, newest first
+   */
+  async listApiKeys(owner: { userId?: string; serviceAccountId?: string }): Promise<DbApiKey[]> {
+    const apiKeys: DbApiKey[] = await this.knex('api_keys')
+      .where(owner.serviceAccountId
+        ? { service_account_id: owner.serviceAccountId }
+        : { user_id: owner.userId })
+      .whereNull('revoked_at')
+      .orderBy('created_at', 'desc');
+
+    return apiKeys;
+  }
+
+  /**
+   * Replace the secret of a non-revoked key.
+   * Returns null if the key does not exist or was revoked.
+   */
+  async rotateApiKey(id: string, prefix: string, keyHash: string): Promise<DbApiKey | null> {
+    const [apiKey] = await this.knex('api_keys')
+      .where({ id })
+      .whereNull('revoked_at')
+      .update({
+        prefix,
+        key_hash: keyHash,
+        last_used_at: null,
+        last_used_ip: null,
+        updated_at: this.knex.fn.now()
+      })
+      .returning('*');
+
+    return apiKey || null;
+  }
+
+  /**
+   * Revoke an API key. Returns false if it was already revoked.
+   */
+  async revokeApiKey(id: string): Promise<boolean> {
+    const updated = await this.knex('api_keys')
+      .where({ id })
+      .whereNull('revoked_at')
+      .update({
+        revoked_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now()
+      });
+
+    return updated > 0;
+  }
+
+  /**
+   * Record the use of an API key
+   */
+  async touchApiKey(id: string, ipAddress?: string): Promise<void> {
+    await this.knex('api_keys')
+      .where({ id })
+      .update({
+        last_used_at: this.knex.fn.now(),
+        last_used_ip: ipAddress || null
+      });
+  }
+}
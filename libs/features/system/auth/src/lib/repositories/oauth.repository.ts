@@ -0,0 +1,336 @@
+import { injectable } from 'tsyringe';
+import { Knex } from 'knex';
+
+export type OAuthClientType = 'confidential' | 'public';
+
+export type OAuthGrantType = 'authorization_code' | 'client_credentials' | 'refresh_token';
+
+/**
+ * Database OAuth Client Entity (only the secret hash is stored)
+ */
+export interface DbOAuthClient {
+  id: string;
+  client_id: string;
+  client_secret_hash: string | null; // Null for public clients
+  client_type: OAuthClientType;
+  name: string;
+  redirect_uris: string[];
+  grant_types: OAuthGrantType[];
+  scopes: string[]; // Scopes the client may request
+  owner_id: string | null; // User who registered the client
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Database OAuth Authorization Code Entity (only the code hash is stored)
+ */
+export interface DbOAuthAuthorizationCode {
+  id: string;
+  code_hash: string;
+  client_id: string;
+  user_id: string;
+  redirect_uri: string;
+  scope: string;
+  code_challenge: string | null; // PKCE S256 challenge
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Database OAuth Refresh Token Entity (only the token hash is stored)
+ */
+export interface DbOAuthRefreshToken {
+  id: string;
+  token_hash: string;
+  family_id: string; // Shared by every token rotated from the same grant
+  client_id: string;
+  user_id: string;
+  scope: string;
+  expires_at: Date;
+  rotated_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Database OAuth Consent Entity (scopes a user granted a client)
+ */
+export interface DbOAuthConsent {
+  id: string;
+  user_id: string;
+  client_id: string;
+  scopes: string[];
+  created_at: Date;
+  updated_at: Date;
+  client_name?: string; // Joined by listConsents
+}
+
+/**
+ * Create OAuth Client Input
+ */
+export interface CreateOAuthClientInput {
+  clientId: string;
+  clientSecretHash?: string;
+  clientType: OAuthClientType;
+  name: string;
+  redirectUris: string[];
+  grantTypes: OAuthGrantType[];
+  scopes: string[];
+  ownerId?: string;
+}
+
+/**
+ * Create OAuth Authorization Code Input
+ */
+export interface CreateOAuthAuthorizationCodeInput {
+  codeHash: string;
+  clientId: string;
+  userId: string;
+  redirectUri: string;
+  scope: string;
+  codeChallenge?: string;
+  expiresAt: Date;
+}
+
+/**
+ * Create OAuth Refresh Token Input (a new family unless familyId is given)
+ */
+export interface CreateOAuthRefreshTokenInput {
+  tokenHash: string;
+  familyId?: string;
+  clientId: string;
+  userId: string;
+  scope: string;
+  expiresAt: Date;
+}
+
+/**
+ * OAuth Repository using Knex Query Builder
+ */
+@injectable()
+export class OAuthRepository {
+  constructor(
+    private knex: Knex
+  ) {}
+
+  /**
+   * Register a client
+   */
+  async createClient(input: CreateOAuthClientInput): Promise<DbOAuthClient> {
+    const [client] = await this.knex('oauth_clients')
+      .insert({
+        client_id: input.clientId,
+        client_secret_hash: input.clientSecretHash || null,
+        client_type: input.clientType,
+        name: input.name,
+        redirect_uris: input.redirectUris,
+        grant_types: input.grantTypes,
+        scopes: input.scopes,
+        owner_id: input.ownerId || null,
+        created_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now()
+      })
+      .returning('*');
+
+    return client;
+  }
+
+  /**
+   * Find an active client by its client_id
+   */
+  async findClient(clientId: string): Promise<DbOAuthClient | null> {
+    const client = await this.knex('oauth_clients')
+      .where({ client_id: clientId, is_active: true })
+      .first();
+
+    return client || null;
+  }
+
+  /**
+   * Active clients registered by a user, oldest first
+   */
+  async listClients(ownerId: string): Promise<DbOAuthClient[]> {
+    const clients: DbOAuthClient[] = await this.knex('oauth_clients')
+      .where({ owner_id: ownerId, is_active: true })
+      .orderBy('created_at', 'asc');
+
+    return clients;
+  }
+
+  /**
+   * Delete a client of a user with its codes, tokens and consents.
+   * Returns null if there was none.
+   */
+  async deleteClient(ownerId: string, id: string): Promise<DbOAuthClient | null> {
+    const [client] = await this.knex('oauth_clients')
+      .where({ owner_id: ownerId, id })
+      .del()
+      .returning('*');
+
+    return client || null;
+  }
+
+  /**
+   * Store an authorization code hash
+   */
+  async storeAuthorizationCode(input: CreateOAuthAuthorizationCodeInput): Promise<void> {
+    await this.knex('oauth_authorization_codes').insert({
+      code_hash: input.codeHash,
+      client_id: input.clientId,
+      user_id: input.userId,
+      redirect_uri: input.redirectUri,
+      scope: input.scope,
+      code_challenge: input.codeChallenge || null,
+      expires_at: input.expiresAt,
+      created_at: this.knex.fn.now()
+    });
+  }
+
+  /**
+   * Mark an unused, unexpired authorization code as used.
+   * Returns null if it does not exist, expired or was already used.
+   */
+  async consumeAuthorizationCode(codeHash: string): Promise<DbOAuthAuthorizationCode | null> {
+    const [code] = await this.knex('oauth_authorization_codes')
+      .where({ code_hash: codeHash })
+      .whereNull('used_at')
+      .andWhere('expires_at', '>', this.knex.fn.now())
+      .update({ used_at: this.knex.fn.now() })
+      .returning('*');
+
+    return code || null;
+  }
+
+  /**
+   * Store a refresh token hash
+   */
+  async storeRefreshToken(input: CreateOAuthRefreshTokenInput): Promise<DbOAuthRefreshToken> {
+    const [token] = await this.knex('oauth_refresh_tokens')
+      .insert({
+        token_hash: input.tokenHash,
+        ...(input.familyId ? { family_id: input.familyId } : {}),
+        client_id: input.clientId,
+        user_id: input.userId,
+        scope: input.scope,
+        expires_at: input.expiresAt,
+        created_at: this.knex.fn.now()
+      })
+      .returning('*');
+
+    return token;
+  }
+
+  /**
+   * Find a refresh token by hash, including rotated, revoked and expired ones
+   */
+  async findRefreshToken(tokenHash: string): Promise<DbOAuthRefreshToken | null> {
+    const token = await this.knex('oauth_refresh_tokens')
+      .where({ token_hash: tokenHash })
+      .first();
+
+    return token || null;
+  }
+
+  /**
+   * Mark a refresh token as rotated.
+   * Returns false if it was already rotated or revoked (e.g. a concurrent refresh).
+   */
+  async markRefreshTokenRotated(tokenHash: string): Promise<boolean> {
+    const updated = await this.knex('oauth_refresh_tokens')
+      .where({ token_hash: tokenHash })
+      .whereNull('rotated_at')
+      .whereNull('revoked_at')
+      .update({ rotated_at: this.knex.fn.now() });
+
+    return updated > 0;
+  }
+
+  /**
+   * Revoke every refresh token of a family
+   */
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    await this.knex('oauth_refresh_tokens')
+      .where({ family_id: familyId })
+      .whereNull('revoked_at')
+      .update({ revoked_at: this.knex.fn.now() });
+  }
+
+  /**
+   * Revoke every refresh token a user granted a client
+   */
+  async revokeRefreshTokens(userId: string, clientId: string): Promise<void> {
+    await this.knex('oauth_refresh_tokens')
+      .where({ user_id: userId, client_id: clientId })
+      .whereNull('revoked_at')
+      .update({ revoked_at: this.knex.fn.now() });
+  }
+
+  /**
+   * Consent of a user for a client
+   */
+  async findConsent(userId: string, clientId: string): Promise<DbOAuthConsent | null> {
+    const consent = await this.knex('oauth_consents')
+      .where({ user_id: userId, client_id: clientId })
+      .first();
+
+    return consent || null;
+  }
+
+  /**
+   * Create or replace the scopes a user granted a client
+   */
+  async saveConsent(userId: string, clientId: string, scopes: string[]): Promise<void> {
+    await this.knex('oauth_consents')
+      .insert({
+        user_id: userId,
+        client_id: clientId,
+        scopes,
+        created_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now()
+      })
+      .onConflict(['user_id', 'client_id'])
+      .merge(['scopes', 'updated_at']);
+  }
+
+  /**
+   * Consents of a user with the client names, newest first
+   */
+  async listConsents(userId: string): Promise<DbOAuthConsent[]> {
+    const consents: DbOAuthConsent[] = await this.knex('oauth_consents')
+      .join('oauth_clients', 'oauth_clients.client_id', 'oauth_consents.client_id')
+      .where({ 'oauth_consents.user_id': userId })
+      .select('oauth_consents.*', 'oauth_clients.name as client_name')
+      .orderBy('oauth_consents.updated_at', 'desc');
+
+    return consents;
+  }
+
+  /**
+   * Delete the consent of a user for a client. Returns false if there was none.
+   */
+  async deleteConsent(userId: string, clientId: string): Promise<boolean> {
+    const deleted = await this.knex('oauth_consents')
+      .where({ user_id: userId, client_id: clientId })
+      .del();
+
+    return deleted > 0;
+  }
+
+  /**
+   * Clean up expired authorization codes and refresh tokens
+   */
+  async cleanupExpiredTokens(): Promise<number> {
+    const codes = await this.knex('oauth_authorization_codes')
+      .where('expires_at', '<', this.knex.fn.now())
+      .del();
+
+    const refreshTokens = await this.knex('oauth_refresh_tokens')
+      .where('expires_at', '<', this.knex.fn.now())
+      .del();
+
+    return codes + refreshTokens;
+  }
+}
@@ -17,6 +17,12 @@ export interface DbUser {
   last_login_at?: Date;
   login_attempts: number;
   locked_until?: Date;
+  avatar_url?: string | null;
+  locale?: string | null; // BCP 47 language tag, e.g. th-TH
+  timezone?: string | null; // IANA time zone, e.g. Asia/Bangkok
+  deletion_requested_at?: Date | null;
+  deletion_scheduled_at?: Date | null; // Account is deleted after this time
+  tenant_id?: string | null; // Issued as the tenantId claim; none for platform users
   created_at: Date;
   updated_at: Date;
 }
@@ -28,12 +34,172 @@ export interface DbRefreshToken {
   id: string;
   user_id: string;
   token_hash: string;
+  family_id: string; // Shared by every token rotated from the same login
   expires_at: Date;
   is_revoked: boolean;
+  rotated_at?: Date; // Set when the token was exchanged for a new one
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * Database Session Entity (one per login, id = refresh token family)
+ */
+export interface DbSession {
+  id: string;
+  user_id: string;
+  device_info: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  last_used_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Database Password Reset Token Entity (only the token hash is stored)
+ */
+export interface DbPasswordResetToken {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Database Email Verification Token Entity (only the token hash is stored)
+ */
+export interface DbEmailVerificationToken {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Database Email Change Token Entity (only the token hash is stored).
+ * The new address replaces the current one once the token is used.
+ */
+export interface DbEmailChangeToken {
+  id: string;
+  user_id: string;
+  new_email: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Database MFA Entity (one TOTP enrollment per user, active once confirmed)
+ */
+export interface DbUserMfa {
+  user_id: string;
+  totp_secret: string;
+  confirmed_at: Date | null;
+  last_used_step: number | null; // Last accepted TOTP time step (replay protection)
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Database WebAuthn Credential Entity (passkey)
+ */
+export interface DbWebAuthnCredential {
+  id: string;
+  user_id: string;
+  credential_id: string; // base64url
+  public_key: string; // base64url COSE key
+  sign_count: number;
+  transports: string | null; // Comma separated
+  name: string | null;
+  aaguid: string | null;
+  last_used_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Database WebAuthn Challenge Entity (only the challenge hash is stored)
+ */
+export interface DbWebAuthnChallenge {
+  id: string;
+  user_id: string | null; // Null for passwordless login
+  challenge_hash: string;
+  ceremony: WebAuthnCeremony;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+export type WebAuthnCeremony = 'registration' | 'authentication';
+
+/**
+ * Create WebAuthn Credential Input
+ */
+export interface CreateWebAuthnCredentialInput {
+  userId: string;
+  credentialId: string;
+  publicKey: string;
+  signCount: number;
+  transports?: string[];
+  name?: string;
+  aaguid?: string;
+}
+
+/**
+ * Database Identity Entity (external provider account linked to a user)
+ */
+export interface DbIdentity {
+  id: string;
+  user_id: string;
+  provider: string;
+  subject: string; // Provider's `sub` claim
+  email: string | null;
+  last_login_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Database OpenID Connect Login State Entity (only the state hash is stored)
+ */
+export interface DbOidcLoginState {
+  id: string;
+  state_hash: string;
+  provider: string;
+  nonce: string;
+  code_verifier: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Create Identity Input
+ */
+export interface CreateIdentityInput {
+  userId: string;
+  provider: string;
+  subject: string;
+  email?: string;
+}
+
+/**
+ * Create Session Input
+ */
+export interface CreateSessionInput {
+  userId: string;
+  expiresAt: Date;
+  deviceInfo?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
 /**
  * Create User Input
  */
@@ -44,6 +210,17 @@ export interface CreateUserInput {
   lastName: string;
 }
 
+/**
+ * Update Profile Input (only the given fields change; null clears)
+ */
+export interface UpdateProfileInput {
+  firstName?: string;
+  lastName?: string;
+  avatarUrl?: string | null;
+  locale?: string | null;
+  timezone?: string | null;
+}
+
 /**
  * User Repository using Knex Query Builder
  */
@@ -64,6 +241,17 @@ export class UserRepository {
     return user || null;
   }
 
+  /**
+   * Check if any account, active or not, uses the email
+   */
+  async emailExists(email: string): Promise<boolean> {
+    const user = await this.knex('users')
+      .where({ email })
+      .first('id');
+
+    return !!user;
+  }
+
   /**
    * Find user by ID
    */
@@ -143,6 +331,19 @@ export class UserRepository {
       });
   }
 
+  /**
+   * Lift a lock and reset the failed attempts
+   */
+  async unlockAccount(userId: string): Promise<void> {
+    await this.knex('users')
+      .where({ id: userId })
+      .update({
+        login_attempts: 0,
+        locked_until: null,
+        updated_at: this.knex.fn.now()
+      });
+  }
+
   /**
    * Check if account is locked
    */
@@ -152,18 +353,20 @@ export class UserRepository {
   }
 
   /**
-   * Store refresh token
+   * Store refresh token (a new family unless familyId is given)
    */
   async storeRefreshToken(
     userId: string, 
     tokenHash: string, 
-    expiresAt: Date
+    expiresAt: Date,
+    familyId?: string
   ): Promise<DbRefreshToken> {
     const [refreshToken] = await this.knex('refresh_tokens')
       .insert({
         user_id: userId,
         token_hash: tokenHash,
         expires_at: expiresAt,
+        ...(familyId ? { family_id: familyId } : {}),
         created_at: this.knex.fn.now(),
         updated_at: this.knex.fn.now()
       })
@@ -187,6 +390,33 @@ export class UserRepository {
     return token || null;
   }
 
+  /**
+   * Find refresh token by hash, including revoked and expired ones
+   */
+  async findRefreshTokenByHash(tokenHash: string): Promise<DbRefreshToken | null> {
+    const token = await this.knex('refresh_tokens')
+      .where({ token_hash: tokenHash })
+      .first();
+    
+    return token || null;
+  }
+
+  /**
+   * Mark refresh token as rotated.
+   * Returns false if it was already revoked (e.g. a concurrent refresh).
+   */
+  async markRefreshTokenRotated(tokenHash: string): Promise<boolean> {
+    const updated = await this.knex('refresh_tokens')
+      .where({ token_hash: tokenHash, is_revoked: false })
+      .update({
+        is_revoked: true,
+        rotated_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now()
+      });
+    
+    return updated > 0;
+  }
+
   /**
    * Revoke refresh token
    */
@@ -200,7 +430,7 @@ export class UserRepository {
   }
 
   /**
-   * Revoke all user refresh tokens
+   * Revoke all user refresh tokens and sessions
    */
   async revokeAllUserTokens(userId: string): Promise<void> {
     await this.knex('refresh_tokens')
@@ -209,6 +439,720 @@ export class UserRepository {
         is_revoked: true,
         updated_at: this.knex.fn.now()
       });
+
+    await this.knex('user_sessions')
+      .where({ user_id: userId })
+      .whereNull('revoked_at')
+      .update({
+        revoked_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now()
+      });
+  }
+
+  /**
+   * Create login session
+   */
+  async createSession(input: CreateSessionInput): Promise<DbSession> {
+    const [session] = await this.knex('user_sessions')
+      .insert({
+        user_id: input.userId,
+        device_info: input.deviceInfo ?? null,
+        ip_address: input.ipAddress ?? null,
+        user_agent: input.userAgent ?? null,
+        expires_at: input.expiresAt,
+        last_used_at: this.knex.fn.now(),
+        created_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now()
+      })
+      .returning('*');
+    
+    return session;
+  }
+
+  /**
+   * Find active session of a user
+   */
+  async findActiveSession(userId: string, sessionId: string): Promise<DbSession | null> {
+    const session = await this.knex('user_sessions')
+      .where({ id: sessionId, user_id: userId })
+      .whereNull('revoked_at')
+      .andWhere('expires_at', '>', this.knex.fn.now())
+      .first();
+    
+    return session || null;
+  }
+
+  /**
+   * List active sessions of a user, most recently used first
+   */
+  async listActiveSessions(userId: string): Promise<DbSession[]> {
+    return this.knex('user_sessions')
+      .where({ user_id: userId })
+      .whereNull('revoked_at')
+      .andWhere('expires_at', '>', this.knex.fn.now())
+      .orderBy('last_used_at', 'desc');
+  }
+
+  /**
+   * Record session activity (on token refresh)
+   */
+  async touchSession(sessionId: string, expiresAt: Date): Promise<void> {
+    await this.knex('user_sessions')
+      .where({ id: sessionId })
+      .update({
+        last_used_at: this.knex.fn.now(),
+        expires_at: expiresAt,
+        updated_at: this.knex.fn.now()
+      });
+  }
+
+  /**
+   * Revoke sessions and their refresh token families
+   */
+  async revokeSessions(sessionIds: string[]): Promise<void> {
+    if (sessionIds.length === 0) return;
+
+    await this.knex('user_sessions')
+      .whereIn('id', sessionIds)
+      .whereNull('revoked_at')
+      .update({
+        revoked_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now()
+      });
+
+    await this.knex('refresh_tokens')
+      .whereIn('family_id', sessionIds)
+      .where({ is_revoked: false })
+      .update({
+        is_revoked: true,
+        updated_at: this.knex.fn.now()
+      });
+  }
+
+  /**
+   * Replace the user's password (clears failed login attempts and lockout).
+   * Returns the new password hash.
+   */
+  async updatePassword(userId: string, password: string): Promise<string> {
+    const saltRounds = 10;
+    const passwordHash = await bcrypt.hash(password, saltRounds);
+
+    await this.knex('users')
+      .where({ id: userId })
+      .update({
+        password_hash: passwordHash,
+        login_attempts: 0,
+        locked_until: null,
+        updated_at: this.knex.fn.now()
+      });
+
+    return passwordHash;
+  }
+
+  /**
+   * Check a password against stored hashes
+   */
+  async matchesAnyPasswordHash(password: string, passwordHashes: string[]): Promise<boolean> {
+    for (const passwordHash of passwordHashes) {
+      if (await bcrypt.compare(password, passwordHash)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Most recent password hashes of a user, newest first
+   */
+  async getPasswordHistory(userId: string, limit: number): Promise<string[]> {
+    const rows: Array<{ password_hash: string }> = await this.knex('password_history')
+      .where({ user_id: userId })
+      .orderBy('created_at', 'desc')
+      .limit(limit)
+      .select('password_hash');
+
+    return rows.map((row) => row.password_hash);
+  }
+
+  /**
+   * Record a password hash, keeping only the newest `keep` entries
+   */
+  async addPasswordHistory(userId: string, passwordHash: string, keep: number): Promise<void> {
+    await this.knex('password_history').insert({
+      user_id: userId,
+      password_hash: passwordHash,
+      created_at: this.knex.fn.now()
+    });
+
+    const stale = this.knex('password_history')
+      .where({ user_id: userId })
+      .orderBy('created_at', 'desc')
+      .offset(keep)
+      .select('id');
+
+    await this.knex('password_history')
+      .whereIn('id', stale)
+      .del();
+  }
+
+  /**
+   * Store password reset token hash
+   */
+  async storePasswordResetToken(
+    userId: string,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<DbPasswordResetToken> {
+    const [resetToken] = await this.knex('password_reset_tokens')
+      .insert({
+        user_id: userId,
+        token_hash: tokenHash,
+        expires_at: expiresAt,
+        created_at: this.knex.fn.now()
+      })
+      .returning('*');
+
+    return resetToken;
+  }
+
+  /**
+   * Find an unused, unexpired reset token
+   */
+  async findPasswordResetToken(tokenHash: string): Promise<DbPasswordResetToken | null> {
+    const resetToken = await this.knex('password_reset_tokens')
+      .where({ token_hash: tokenHash })
+      .whereNull('used_at')
+      .andWhere('expires_at', '>', this.knex.fn.now())
+      .first();
+
+    return resetToken || null;
+  }
+
+  /**
+   * Mark an unused, unexpired reset token as used.
+   * Returns null if it does not exist, expired or was already used.
+   */
+  async consumePasswordResetToken(tokenHash: string): Promise<DbPasswordResetToken | null> {
+    const [resetToken] = await this.knex('password_reset_tokens')
+      .where({ token_hash: tokenHash })
+      .whereNull('used_at')
+      .andWhere('expires_at', '>', this.knex.fn.now())
+      .update({ used_at: this.knex.fn.now() })
+      .returning('*');
+
+    return resetToken || null;
+  }
+
+  /**
+   * Invalidate every outstanding reset token of a user
+   */
+  async invalidatePasswordResetTokens(userId: string): Promise<void> {
+    await this.knex('password_reset_tokens')
+      .where({ user_id: userId })
+      .whereNull('used_at')
+      .update({ used_at: this.knex.fn.now() });
+  }
+
+  /**
+   * Mark the user's email address as verified
+   */
+  async markEmailVerified(userId: string): Promise<void> {
+    await this.knex('users')
+      .where({ id: userId })
+      .update({
+        email_verified: true,
+        email_verified_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now()
+      });
+  }
+
+  /**
+   * Update names and preferences; returns the updated user
+   */
+  async updateProfile(userId: string, changes: UpdateProfileInput): Promise<DbUser> {
+    const { firstName, lastName, avatarUrl, locale, timezone } = changes;
+
+    const [user] = await this.knex('users')
+      .where({ id: userId })
+      .update({
+        ...(firstName !== undefined ? { first_name: firstName } : {}),
+        ...(lastName !== undefined ? { last_name: lastName } : {}),
+        ...(avatarUrl !== undefined ? { avatar_url: avatarUrl } : {}),
+        ...(locale !== undefined ? { locale } : {}),
+        ...(timezone !== undefined ? { timezone } : {}),
+        updated_at: this.knex.fn.now()
+      })
+      .returning('*');
+
+    return user;
+  }
+
+  /**
+   * Replace the email address with a confirmed one (verified by the change)
+   */
+  async changeEmail(userId: string, email: string): Promise<void> {
+    await this.knex('users')
+      .where({ id: userId })
+      .update({
+        email,
+        email_verified: true,
+        email_verified_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now()
+      });
+  }
+
+  /**
+   * Store email change token hash
+   */
+  async storeEmailChangeToken(
+    userId: string,
+    newEmail: string,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<DbEmailChangeToken> {
+    const [changeToken] = await this.knex('email_change_tokens')
+      .insert({
+        user_id: userId,
+        new_email: newEmail,
+        token_hash: tokenHash,
+        expires_at: expiresAt,
+        created_at: this.knex.fn.now()
+      })
+      .returning('*');
+
+    return changeToken;
+  }
+
+  /**
+   * Mark an unused, unexpired email change token as used.
+   * Returns null if it does not exist, expired or was already used.
+   */
+  async consumeEmailChangeToken(tokenHash: string): Promise<DbEmailChangeToken | null> {
+    const [changeToken] = await this.knex('email_change_tokens')
+      .where({ token_hash: tokenHash })
+      .whereNull('used_at')
+      .andWhere('expires_at', '>', this.knex.fn.now())
+      .update({ used_at: this.knex.fn.now() })
+      .returning('*');
+
+    return changeToken || null;
+  }
+
+  /**
+   * Invalidate every outstanding email change token of a user
+   */
+  async invalidateEmailChangeTokens(userId: string): Promise<void> {
+    await this.knex('email_change_tokens')
+      .where({ user_id: userId })
+      .whereNull('used_at')
+      .update({ used_at: this.knex.fn.now() });
+  }
+
+  /**
+   * Schedule the deletion of an account
+   */
+  async scheduleDeletion(userId: string, scheduledAt: Date): Promise<void> {
+    await this.knex('users')
+      .where({ id: userId })
+      .update({
+        deletion_requested_at: this.knex.fn.now(),
+        deletion_scheduled_at: scheduledAt,
+        updated_at: this.knex.fn.now()
+      });
+  }
+
+  /**
+   * Withdraw a deletion request
+   */
+  async cancelDeletion(userId: string): Promise<void> {
+    await this.knex('users')
+      .where({ id: userId })
+      .update({
+        deletion_requested_at: null,
+        deletion_scheduled_at: null,
+        updated_at: this.knex.fn.now()
+      });
+  }
+
+  /**
+   * Delete accounts whose grace period ended; returns their ids.
+   * Dependent rows go with them (ON DELETE CASCADE).
+   */
+  async deleteUsersScheduledBefore(before: Date): Promise<string[]> {
+    const deleted: Array<{ id: string }> = await this.knex('users')
+      .whereNotNull('deletion_scheduled_at')
+      .andWhere('deletion_scheduled_at', '<=', before)
+      .del()
+      .returning('id');
+
+    return deleted.map((row) => row.id);
+  }
+
+  /**
+   * Store email verification token hash
+   */
+  async storeEmailVerificationToken(
+    userId: string,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<DbEmailVerificationToken> {
+    const [verificationToken] = await this.knex('email_verification_tokens')
+      .insert({
+        user_id: userId,
+        token_hash: tokenHash,
+        expires_at: expiresAt,
+        created_at: this.knex.fn.now()
+      })
+      .returning('*');
+
+    return verificationToken;
+  }
+
+  /**
+   * Mark an unused, unexpired verification token as used.
+   * Returns null if it does not exist, expired or was already used.
+   */
+  async consumeEmailVerificationToken(tokenHash: string): Promise<DbEmailVerificationToken | null> {
+    const [verificationToken] = await this.knex('email_verification_tokens')
+      .where({ token_hash: tokenHash })
+      .whereNull('used_at')
+      .andWhere('expires_at', '>', this.knex.fn.now())
+      .update({ used_at: this.knex.fn.now() })
+      .returning('*');
+
+    return verificationToken || null;
+  }
+
+  /**
+   * Invalidate every outstanding verification token of a user
+   */
+  async invalidateEmailVerificationTokens(userId: string): Promise<void> {
+    await this.knex('email_verification_tokens')
+      .where({ user_id: userId })
+      .whereNull('used_at')
+      .update({ used_at: this.knex.fn.now() });
+  }
+
+  /**
+   * Verification tokens issued to a user since a point in time, newest first
+   */
+  async findEmailVerificationTokensSince(
+    userId: string,
+    since: Date
+  ): Promise<DbEmailVerificationToken[]> {
+    return this.knex('email_verification_tokens')
+      .where({ user_id: userId })
+      .andWhere('created_at', '>=', since)
+      .orderBy('created_at', 'desc');
+  }
+
+  /**
+   * TOTP enrollment of a user (confirmed or pending)
+   */
+  async findMfa(userId: string): Promise<DbUserMfa | null> {
+    const mfa = await this.knex('user_mfa')
+      .where({ user_id: userId })
+      .first();
+
+    return mfa || null;
+  }
+
+  /**
+   * Start (or restart) an unconfirmed TOTP enrollment
+   */
+  async savePendingTotpSecret(userId: string, secret: string): Promise<void> {
+    await this.knex('user_mfa')
+      .insert({
+        user_id: userId,
+        totp_secret: secret,
+        confirmed_at: null,
+        last_used_step: null,
+        created_at: this.knex.fn.now(),
+        updated_at: this.knex.fn.now()
+      })
+      .onConflict('user_id')
+      .merge(['totp_secret', 'confirmed_at', 'last_used_step', 'updated_at']);
+  }
+
+  /**
+   * Activate a pending enrollment with the step of the code that confirmed it
+   */
+  async confirmTotp(userId: string, step: number): Promise<void> {
+    await this.knex('user_mfa')
+      .where({ user_id: userId })
+      .update({
+        confirmed_at: this.knex.fn.now(),
+        last_used_step: step,
+        updated_at: this.knex.fn.now()
+      });
+  }
+
+  /**
+   * Record an accepted TOTP step. Returns false if the same or a later
+   * step was already used (replayed code).
+   */
+  async useTotpStep(userId: string, step: number): Promise<boolean> {
+    const updated = await this.knex('user_mfa')
+      .where({ user_id: userId })
+      .andWhere((query) => {
+        query.whereNull('last_used_step').orWhere('last_used_step', '<', step);
+      })
+      .update({
+        last_used_step: step,
+        updated_at: this.knex.fn.now()
+      });
+
+    return updated > 0;
+  }
+
+  /**
+   * Remove the TOTP enrollment and every recovery code
+   */
+  async deleteMfa(userId: string): Promise<void> {
+    await this.knex.transaction(async (trx) => {
+      await trx('mfa_recovery_codes').where({ user_id: userId }).del();
+      await trx('user_mfa').where({ user_id: userId }).del();
+    });
+  }
+
+  /**
+   * Replace all recovery codes of a user
+   */
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await this.knex.transaction(async (trx) => {
+      await trx('mfa_recovery_codes').where({ user_id: userId }).del();
+      await trx('mfa_recovery_codes').insert(
+        codeHashes.map((codeHash) => ({
+          user_id: userId,
+          code_hash: codeHash,
+          created_at: this.knex.fn.now()
+        }))
+      );
+    });
+  }
+
+  /**
+   * Mark an unused recovery code as used. Returns false if there was none.
+   */
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const updated = await this.knex('mfa_recovery_codes')
+      .where({ user_id: userId, code_hash: codeHash })
+      .whereNull('used_at')
+      .update({ used_at: this.knex.fn.now() });
+
+    return updated > 0;
+  }
+
+  /**
+   * Number of unused recovery codes
+   */
+  async countRecoveryCodes(userId: string): Promise<number> {
+    const result = await this.knex('mfa_recovery_codes')
+      .where({ user_id: userId })
+      .whereNull('used_at')
+      .count<{ count: string | number }>('id as count')
+      .first();
+
+    return Number(result?.count ?? 0);
+  }
+
+  /**
+   * Store a WebAuthn ceremony challenge hash
+   */
+  async storeWebAuthnChallenge(
+    challengeHash: string,
+    ceremony: WebAuthnCeremony,
+    userId: string | null,
+    expiresAt: Date
+  ): Promise<void> {
+    await this.knex('webauthn_challenges').insert({
+      user_id: userId,
+      challenge_hash: challengeHash,
+      ceremony,
+      expires_at: expiresAt,
+      created_at: this.knex.fn.now()
+    });
+  }
+
+  /**
+   * Mark an unused, unexpired challenge of a ceremony as used.
+   * Returns null if it does not exist, expired or was already used.
+   */
+  async consumeWebAuthnChallenge(
+    challengeHash: string,
+    ceremony: WebAuthnCeremony
+  ): Promise<DbWebAuthnChallenge | null> {
+    const [challenge] = await this.knex('webauthn_challenges')
+      .where({ challenge_hash: challengeHash, ceremony })
+      .whereNull('used_at')
+      .andWhere('expires_at', '>', this.knex.fn.now())
+      .update({ used_at: this.knex.fn.now() })
+      .returning('*');
+
+    return challenge || null;
+  }
+
+  /**
+   * Store a registered passkey
+   */
+  async createWebAuthnCredential(input: CreateWebAuthnCredentialInput): Promise<DbWebAuthnCredential> {
+    const [credential] = await this.knex('webauthn_credentials')
+      .insert({
+        user_id: input.userId,
+        credential_id: input.credentialId,
+        public_key: input.publicKey,
+        sign_count: input.signCount,
+        transports: input.transports?.join(',') || null,
+        name: input.name || null,
+        aaguid: input.aaguid || null,
+        created_at: this.knex.fn.now()
+      })
+      .returning('*');
+
+    return credential;
+  }
+
+  /**
+   * Find a passkey by its credential id
+   */
+  async findWebAuthnCredential(credentialId: string): Promise<DbWebAuthnCredential | null> {
+    const credential = await this.knex('webauthn_credentials')
+      .where({ credential_id: credentialId })
+      .first();
+
+    return credential || null;
+  }
+
+  /**
+   * Passkeys of a user, oldest first
+   */
+  async listWebAuthnCredentials(userId: string): Promise<DbWebAuthnCredential[]> {
+    const credentials: DbWebAuthnCredential[] = await this.knex('webauthn_credentials')
+      .where({ user_id: userId })
+      .orderBy('created_at', 'asc');
+
+    return credentials;
+  }
+
+  /**
+   * Record a successful sign-in with a passkey
+   */
+  async updateWebAuthnCredentialCounter(id: string, signCount: number): Promise<void> {
+    await this.knex('webauthn_credentials')
+      .where({ id })
+      .update({
+        sign_count: signCount,
+        last_used_at: this.knex.fn.now()
+      });
+  }
+
+  /**
+   * Delete a passkey of a user. Returns false if there was none.
+   */
+  async deleteWebAuthnCredential(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.knex('webauthn_credentials')
+      .where({ user_id: userId, id })
+      .del();
+
+    return deleted > 0;
+  }
+
+  /**
+   * Store an OpenID Connect login state until the provider redirects back
+   */
+  async storeOidcLoginState(
+    stateHash: string,
+    provider: string,
+    nonce: string,
+    codeVerifier: string,
+    expiresAt: Date
+  ): Promise<void> {
+    await this.knex('oidc_login_states').insert({
+      state_hash: stateHash,
+      provider,
+      nonce,
+      code_verifier: codeVerifier,
+      expires_at: expiresAt,
+      created_at: this.knex.fn.now()
+    });
+  }
+
+  /**
+   * Mark an unused, unexpired login state of a provider as used.
+   * Returns null if it does not exist, expired or was already used.
+   */
+  async consumeOidcLoginState(stateHash: string, provider: string): Promise<DbOidcLoginState | null> {
+    const [state] = await this.knex('oidc_login_states')
+      .where({ state_hash: stateHash, provider })
+      .whereNull('used_at')
+      .andWhere('expires_at', '>', this.knex.fn.now())
+      .update({ used_at: this.knex.fn.now() })
+      .returning('*');
+
+    return state || null;
+  }
+
+  /**
+   * Find the identity of a provider account
+   */
+  async findIdentity(provider: string, subject: string): Promise<DbIdentity | null> {
+    const identity = await this.knex('identities')
+      .where({ provider, subject })
+      .first();
+
+    return identity || null;
+  }
+
+  /**
+   * Link a provider account to a user
+   */
+  async createIdentity(input: CreateIdentityInput): Promise<DbIdentity> {
+    const [identity] = await this.knex('identities')
+      .insert({
+        user_id: input.userId,
+        provider: input.provider,
+        subject: input.subject,
+        email: input.email || null,
+        last_login_at: this.knex.fn.now(),
+        created_at: this.knex.fn.now()
+      })
+      .returning('*');
+
+    return identity;
+  }
+
+  /**
+   * Identities of a user, oldest first
+   */
+  async listIdentities(userId: string): Promise<DbIdentity[]> {
+    const identities: DbIdentity[] = await this.knex('identities')
+      .where({ user_id: userId })
+      .orderBy('created_at', 'asc');
+
+    return identities;
+  }
+
+  /**
+   * Record a sign-in through an identity
+   */
+  async touchIdentity(id: string, email?: string): Promise<void> {
+    await this.knex('identities')
+      .where({ id })
+      .update({
+        ...(email ? { email } : {}),
+        last_login_at: this.knex.fn.now()
+      });
+  }
+
+  /**
+   * Unlink an identity of a user. Returns false if there was none.
+   */
+  async deleteIdentity(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.knex('identities')
+      .where({ user_id: userId, id })
+      .del();
+
+    return deleted > 0;
   }
 
   /**
@@ -218,7 +1162,27 @@ export class UserRepository {
     const result = await this.knex('refresh_tokens')
       .where('expires_at', '<', this.knex.fn.now())
       .del();
+
+    const resetTokens = await this.knex('password_reset_tokens')
+      .where('expires_at', '<', this.knex.fn.now())
+      .del();
+    
+    const verificationTokens = await this.knex('email_verification_tokens')
+      .where('expires_at', '<', this.knex.fn.now())
+      .del();
+
+    const emailChangeTokens = await this.knex('email_change_tokens')
+      .where('expires_at', '<', this.knex.fn.now())
+      .del();
+
+    const webAuthnChallenges = await this.knex('webauthn_challenges')
+      .where('expires_at', '<', this.knex.fn.now())
+      .del();
+
+    const oidcLoginStates = await this.knex('oidc_login_states')
+      .where('expires_at', '<', this.knex.fn.now())
+      .del();
     
-    return result;
+    return result + resetTokens + verificationTokens + emailChangeTokens + webAuthnChallenges + oidcLoginStates;
   }
 }
@@ -0,0 +1,139 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { ApiKeyHandlers } from '../handlers/api-key.handlers';
+import { requireAuth, requireOwnAuth } from '../middleware/require-auth';
+import {
+  ApiKeyCreateSchema,
+  IssuedApiKeyResponseSchema,
+  ApiKeyListQuerySchema,
+  ApiKeyListResponseSchema,
+  ApiKeyParamsSchema,
+  ServiceAccountCreateSchema,
+  ServiceAccountSchema,
+  ServiceAccountListResponseSchema,
+  ServiceAccountParamsSchema,
+  MessageResponseSchema,
+  ErrorSchema,
+  ValidationErrorSchema
+} from '../schemas';
+
+/**
+ * API key and service account routes
+ * Keys are managed with a signed-in session; they cannot manage keys themselves
+ */
+export const apiKeyRoutes: FastifyPluginAsync = async (
+  fastify: FastifyInstance
+) => {
+  const handlers = new ApiKeyHandlers();
+
+  // POST /api/auth/api-keys
+  fastify.post('/api-keys', {
+    schema: {
+      summary: 'Create API key',
+      description: 'Create a key for yourself or a service account; the key is returned once',
+      tags: ['authentication'],
+      body: ApiKeyCreateSchema,
+      response: {
+        201: IssuedApiKeyResponseSchema,
+        400: ValidationErrorSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.createApiKey);
+
+  // GET /api/auth/api-keys
+  fastify.get('/api-keys', {
+    schema: {
+      summary: 'List API keys',
+      description: 'Active keys of the current user or of one of their service accounts',
+      tags: ['authentication'],
+      querystring: ApiKeyListQuerySchema,
+      response: {
+        200: ApiKeyListResponseSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.listApiKeys);
+
+  // POST /api/auth/api-keys/:id/rotate
+  fastify.post('/api-keys/:id/rotate', {
+    schema: {
+      summary: 'Rotate API key',
+      description: 'Replace the secret of a key; the old key stops working immediately',
+      tags: ['authentication'],
+      params: ApiKeyParamsSchema,
+      response: {
+        200: IssuedApiKeyResponseSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.rotateApiKey);
+
+  // DELETE /api/auth/api-keys/:id
+  fastify.delete('/api-keys/:id', {
+    schema: {
+      summary: 'Revoke API key',
+      description: 'Revoke a key of the current user or of one of their service accounts',
+      tags: ['authentication'],
+      params: ApiKeyParamsSchema,
+      response: {
+        200: MessageResponseSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.revokeApiKey);
+
+  // POST /api/auth/service-accounts
+  fastify.post('/service-accounts', {
+    schema: {
+      summary: 'Create service account',
+      description: 'Create a service account that acts with your permissions, limited by its key scopes',
+      tags: ['authentication'],
+      body: ServiceAccountCreateSchema,
+      response: {
+        201: ServiceAccountSchema,
+        400: ValidationErrorSchema,
+        401: ErrorSchema,
+        409: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.createServiceAccount);
+
+  // GET /api/auth/service-accounts
+  fastify.get('/service-accounts', {
+    schema: {
+      summary: 'List service accounts',
+      description: 'Service accounts owned by the current user',
+      tags: ['authentication'],
+      response: {
+        200: ServiceAccountListResponseSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.listServiceAccounts);
+
+  // DELETE /api/auth/service-accounts/:id
+  fastify.delete('/service-accounts/:id', {
+    schema: {
+      summary: 'Delete service account',
+      description: 'Delete a service account and revoke its keys',
+      tags: ['authentication'],
+      params: ServiceAccountParamsSchema,
+      response: {
+        200: MessageResponseSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.deleteServiceAccount);
+};
@@ -1,10 +1,12 @@
 import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import { AuthHandlers } from '../handlers/auth.handlers';
+import { requireAuth } from '../middleware/require-auth';
 import {
   LoginSchema,
   RegisterSchema,
   RefreshTokenSchema,
-  AuthResponseSchema,
+  LoginResponseSchema,
+  RegisterResponseSchema,
   TokenResponseSchema,
   MessageResponseSchema,
   UserSchema,
@@ -24,13 +26,14 @@ export const authRoutes: FastifyPluginAsync = async (
   fastify.post('/login', {
     schema: {
       summary: 'User login',
-      description: 'Authenticate user with email and password',
+      description: 'Authenticate user with email and password; send X-Auth-Mode: cookie to get session cookies instead of tokens',
       tags: ['authentication'],
       body: LoginSchema,
       response: {
-        200: AuthResponseSchema,
+        200: LoginResponseSchema,
         401: ErrorSchema,
-        400: ErrorSchema
+        400: ErrorSchema,
+        403: ErrorSchema
       }
     }
   }, handlers.login);
@@ -43,7 +46,7 @@ export const authRoutes: FastifyPluginAsync = async (
       tags: ['authentication'],
       body: RegisterSchema,
       response: {
-        201: AuthResponseSchema,
+        201: RegisterResponseSchema,
         400: ErrorSchema,
         409: ErrorSchema
       }
@@ -54,12 +57,13 @@ export const authRoutes: FastifyPluginAsync = async (
   fastify.post('/refresh', {
     schema: {
       summary: 'Refresh access token',
-      description: 'Get new access token using refresh token',
+      description: 'Get new access token using refresh token (from the body, or the refresh cookie in cookie mode)',
       tags: ['authentication'],
       body: RefreshTokenSchema,
       response: {
         200: TokenResponseSchema,
-        401: ErrorSchema
+        401: ErrorSchema,
+        403: ErrorSchema
       }
     }
   }, handlers.refreshToken);
@@ -68,16 +72,14 @@ export const authRoutes: FastifyPluginAsync = async (
   fastify.post('/logout', {
     schema: {
       summary: 'User logout',
-      description: 'Invalidate user session and tokens',
+      description: 'Invalidate user session and tokens; clears the session cookies in cookie mode',
       tags: ['authentication'],
       response: {
-        200: MessageResponseSchema
+        200: MessageResponseSchema,
+        403: ErrorSchema
       }
-    },
-    preHandler: async () => {
-      // Optional JWT verification for logout
-      // TODO: Add JWT verification when JWT plugin is available
     }
+    // No preHandler: an expired access token must not stop a client from logging out
   }, handlers.logout);
 
   // GET /api/auth/me
@@ -91,9 +93,7 @@ export const authRoutes: FastifyPluginAsync = async (
         401: ErrorSchema
       }
     },
-    preHandler: async () => {
-      // TODO: Add JWT verification when JWT plugin is available
-      // await request.jwtVerify();
-    }
+    // The mock has no token verification, so /me is always 401 there
+    preHandler: fastify.hasDecorator('mockAuthService') ? [] : requireAuth
   }, handlers.getCurrentUser);
 };
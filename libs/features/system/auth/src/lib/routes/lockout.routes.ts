@@ -0,0 +1,56 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { LockoutHandlers } from '../handlers/lockout.handlers';
+import { requireAuth } from '../middleware/require-auth';
+import { requirePermission } from '../middleware/require-permission';
+import {
+  LockoutQuerySchema,
+  LockoutStatusResponseSchema,
+  ErrorSchema,
+  ValidationErrorSchema
+} from '../schemas';
+
+/**
+ * Sign-in lockout routes for administrators
+ * Permissions are checked by the @aegisx/core-rbac plugin
+ */
+export const lockoutRoutes: FastifyPluginAsync = async (
+  fastify: FastifyInstance
+) => {
+  const handlers = new LockoutHandlers();
+
+  // GET /api/auth/lockout-status
+  fastify.get('/lockout-status', {
+    schema: {
+      summary: 'Lockout status',
+      description: 'Failed sign-ins, backoff and lock of an account and/or IP address (requires users:read)',
+      tags: ['authentication'],
+      querystring: LockoutQuerySchema,
+      response: {
+        200: LockoutStatusResponseSchema,
+        400: ValidationErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: [requireAuth, requirePermission(fastify, 'users:read')]
+  }, handlers.getLockoutStatus);
+
+  // POST /api/auth/unlock
+  fastify.post('/unlock', {
+    schema: {
+      summary: 'Unlock',
+      description: 'Lift the sign-in lock of an account and/or IP address and forget its failed attempts (requires users:unlock)',
+      tags: ['authentication'],
+      body: LockoutQuerySchema,
+      response: {
+        200: LockoutStatusResponseSchema,
+        400: ValidationErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: [requireAuth, requirePermission(fastify, 'users:unlock')]
+  }, handlers.unlock);
+};
@@ -0,0 +1,120 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { MfaHandlers } from '../handlers/mfa.handlers';
+import { requireAuth, requireOwnAuth } from '../middleware/require-auth';
+import {
+  MfaLoginSchema,
+  TotpCodeSchema,
+  DisableMfaSchema,
+  AuthResponseSchema,
+  TotpEnrollmentResponseSchema,
+  RecoveryCodesResponseSchema,
+  MfaStatusResponseSchema,
+  MessageResponseSchema,
+  ErrorSchema
+} from '../schemas';
+
+/**
+ * Multi-factor authentication routes
+ * Handles the second login step, TOTP enrollment and recovery codes
+ */
+export const mfaRoutes: FastifyPluginAsync = async (
+  fastify: FastifyInstance
+) => {
+  const handlers = new MfaHandlers();
+
+  // POST /api/auth/login/mfa
+  fastify.post('/login/mfa', {
+    schema: {
+      summary: 'Complete MFA login',
+      description: 'Exchange an MFA challenge token and an authenticator code, recovery code or passkey for tokens',
+      tags: ['authentication'],
+      body: MfaLoginSchema,
+      response: {
+        200: AuthResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema
+      }
+    }
+  }, handlers.completeLogin);
+
+  // GET /api/auth/mfa
+  fastify.get('/mfa', {
+    schema: {
+      summary: 'MFA status',
+      description: 'Whether two-factor authentication is enabled and how many recovery codes are left',
+      tags: ['authentication'],
+      response: {
+        200: MfaStatusResponseSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.getStatus);
+
+  // POST /api/auth/mfa/totp/enroll
+  fastify.post('/mfa/totp/enroll', {
+    schema: {
+      summary: 'Start TOTP enrollment',
+      description: 'Create a TOTP secret and otpauth URI; confirm it with a code to enable MFA',
+      tags: ['authentication'],
+      response: {
+        200: TotpEnrollmentResponseSchema,
+        401: ErrorSchema,
+        409: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.startTotpEnrollment);
+
+  // POST /api/auth/mfa/totp/confirm
+  fastify.post('/mfa/totp/confirm', {
+    schema: {
+      summary: 'Confirm TOTP enrollment',
+      description: 'Enable MFA with a code from the authenticator app and receive recovery codes',
+      tags: ['authentication'],
+      body: TotpCodeSchema,
+      response: {
+        200: RecoveryCodesResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        404: ErrorSchema,
+        409: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.confirmTotpEnrollment);
+
+  // POST /api/auth/mfa/recovery-codes
+  fastify.post('/mfa/recovery-codes', {
+    schema: {
+      summary: 'Regenerate recovery codes',
+      description: 'Replace every recovery code (requires a current authenticator code)',
+      tags: ['authentication'],
+      body: TotpCodeSchema,
+      response: {
+        200: RecoveryCodesResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.regenerateRecoveryCodes);
+
+  // DELETE /api/auth/mfa
+  fastify.delete('/mfa', {
+    schema: {
+      summary: 'Disable MFA',
+      description: 'Turn two-factor authentication off after confirming the password',
+      tags: ['authentication'],
+      body: DisableMfaSchema,
+      response: {
+        200: MessageResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.disable);
+};
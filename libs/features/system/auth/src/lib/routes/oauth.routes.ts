@@ -0,0 +1,198 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { OAuthHandlers } from '../handlers/oauth.handlers';
+import { requireAuth, requireOwnAuth } from '../middleware/require-auth';
+import {
+  OAuthClientRegistrationSchema,
+  OAuthClientRegistrationResponseSchema,
+  OAuthClientListResponseSchema,
+  OAuthClientParamsSchema,
+  OAuthAuthorizeQuerySchema,
+  OAuthAuthorizeSchema,
+  OAuthAuthorizationPromptSchema,
+  OAuthAuthorizeResponseSchema,
+  OAuthTokenRequestSchema,
+  OAuthTokenResponseSchema,
+  OAuthTokenActionSchema,
+  OAuthIntrospectionResponseSchema,
+  OAuthErrorSchema,
+  OAuthConsentListResponseSchema,
+  OAuthConsentParamsSchema,
+  MessageResponseSchema,
+  ErrorSchema,
+  ValidationErrorSchema
+} from '../schemas';
+
+/**
+ * OAuth 2.0 authorization server routes
+ * Handles client registration, consent, the token, introspection and
+ * revocation endpoints, and the user's consents
+ */
+export const oauthRoutes: FastifyPluginAsync = async (
+  fastify: FastifyInstance
+) => {
+  const handlers = new OAuthHandlers();
+
+  // Protocol endpoints receive form encoded bodies (RFC 6749 section 3.2)
+  fastify.addContentTypeParser(
+    'application/x-www-form-urlencoded',
+    { parseAs: 'string' },
+    (_request, body, done) => {
+      done(null, Object.fromEntries(new URLSearchParams(body as string)));
+    }
+  );
+
+  // POST /api/auth/oauth/clients
+  fastify.post('/oauth/clients', {
+    schema: {
+      summary: 'Register OAuth client',
+      description: 'Register a third-party client; the secret of a confidential client is returned once',
+      tags: ['authentication'],
+      body: OAuthClientRegistrationSchema,
+      response: {
+        201: OAuthClientRegistrationResponseSchema,
+        400: ValidationErrorSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.registerClient);
+
+  // GET /api/auth/oauth/clients
+  fastify.get('/oauth/clients', {
+    schema: {
+      summary: 'List OAuth clients',
+      description: 'Clients registered by the current user',
+      tags: ['authentication'],
+      response: {
+        200: OAuthClientListResponseSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.listClients);
+
+  // DELETE /api/auth/oauth/clients/:id
+  fastify.delete('/oauth/clients/:id', {
+    schema: {
+      summary: 'Delete OAuth client',
+      description: 'Delete a client with its tokens and consents',
+      tags: ['authentication'],
+      params: OAuthClientParamsSchema,
+      response: {
+        200: MessageResponseSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.deleteClient);
+
+  // GET /api/auth/oauth/authorize
+  fastify.get('/oauth/authorize', {
+    schema: {
+      summary: 'Check authorization request',
+      description: 'Validate the client\'s authorization request for the signed-in user and describe it for the consent screen',
+      tags: ['authentication'],
+      querystring: OAuthAuthorizeQuerySchema,
+      response: {
+        200: OAuthAuthorizationPromptSchema,
+        400: ErrorSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.prepareAuthorization);
+
+  // POST /api/auth/oauth/authorize
+  fastify.post('/oauth/authorize', {
+    schema: {
+      summary: 'Decide authorization request',
+      description: 'Grant or deny access; returns the client redirect URI with a code or an error',
+      tags: ['authentication'],
+      body: OAuthAuthorizeSchema,
+      response: {
+        200: OAuthAuthorizeResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.authorize);
+
+  // POST /api/auth/oauth/token
+  fastify.post('/oauth/token', {
+    schema: {
+      summary: 'Token endpoint',
+      description: 'authorization_code (with PKCE), refresh_token and client_credentials grants',
+      tags: ['authentication'],
+      body: OAuthTokenRequestSchema,
+      response: {
+        200: OAuthTokenResponseSchema,
+        400: OAuthErrorSchema,
+        401: OAuthErrorSchema
+      }
+    },
+    attachValidation: true
+  }, handlers.token);
+
+  // POST /api/auth/oauth/introspect
+  fastify.post('/oauth/introspect', {
+    schema: {
+      summary: 'Token introspection',
+      description: 'RFC 7662 introspection for confidential clients',
+      tags: ['authentication'],
+      body: OAuthTokenActionSchema,
+      response: {
+        200: OAuthIntrospectionResponseSchema,
+        400: OAuthErrorSchema,
+        401: OAuthErrorSchema
+      }
+    },
+    attachValidation: true
+  }, handlers.introspect);
+
+  // POST /api/auth/oauth/revoke
+  fastify.post('/oauth/revoke', {
+    schema: {
+      summary: 'Token revocation',
+      description: 'RFC 7009 revocation of an access or refresh token',
+      tags: ['authentication'],
+      body: OAuthTokenActionSchema,
+      response: {
+        400: OAuthErrorSchema,
+        401: OAuthErrorSchema
+      }
+    },
+    attachValidation: true
+  }, handlers.revoke);
+
+  // GET /api/auth/oauth/consents
+  fastify.get('/oauth/consents', {
+    schema: {
+      summary: 'List consents',
+      description: 'Clients the current user has granted access to',
+      tags: ['authentication'],
+      response: {
+        200: OAuthConsentListResponseSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.listConsents);
+
+  // DELETE /api/auth/oauth/consents/:clientId
+  fastify.delete('/oauth/consents/:clientId', {
+    schema: {
+      summary: 'Revoke consent',
+      description: 'Withdraw a client\'s access and revoke its refresh tokens',
+      tags: ['authentication'],
+      params: OAuthConsentParamsSchema,
+      response: {
+        200: MessageResponseSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.revokeConsent);
+};
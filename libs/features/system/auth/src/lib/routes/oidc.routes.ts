@@ -0,0 +1,100 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { OidcHandlers } from '../handlers/oidc.handlers';
+import { requireAuth, requireOwnAuth } from '../middleware/require-auth';
+import {
+  IdentityProviderListResponseSchema,
+  IdentityProviderParamsSchema,
+  ExternalLoginStartResponseSchema,
+  ExternalLoginCallbackSchema,
+  IdentityListResponseSchema,
+  IdentityParamsSchema,
+  LoginResponseSchema,
+  MessageResponseSchema,
+  ErrorSchema
+} from '../schemas';
+
+/**
+ * External login routes
+ * Handles OpenID Connect login and the user's linked identities
+ */
+export const oidcRoutes: FastifyPluginAsync = async (
+  fastify: FastifyInstance
+) => {
+  const handlers = new OidcHandlers();
+
+  // GET /api/auth/oidc/providers
+  fastify.get('/oidc/providers', {
+    schema: {
+      summary: 'List identity providers',
+      description: 'External identity providers offered on the login page',
+      tags: ['authentication'],
+      response: {
+        200: IdentityProviderListResponseSchema
+      }
+    }
+  }, handlers.listProviders);
+
+  // POST /api/auth/oidc/:provider/authorize
+  fastify.post('/oidc/:provider/authorize', {
+    schema: {
+      summary: 'Start external login',
+      description: 'Create an authorization request (PKCE) and return the provider URL to redirect to',
+      tags: ['authentication'],
+      params: IdentityProviderParamsSchema,
+      response: {
+        200: ExternalLoginStartResponseSchema,
+        404: ErrorSchema,
+        502: ErrorSchema
+      }
+    }
+  }, handlers.authorize);
+
+  // POST /api/auth/oidc/:provider/callback
+  fastify.post('/oidc/:provider/callback', {
+    schema: {
+      summary: 'Finish external login',
+      description: 'Exchange the code from the provider redirect and sign in (may return an MFA challenge)',
+      tags: ['authentication'],
+      params: IdentityProviderParamsSchema,
+      body: ExternalLoginCallbackSchema,
+      response: {
+        200: LoginResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        404: ErrorSchema,
+        409: ErrorSchema,
+        502: ErrorSchema
+      }
+    }
+  }, handlers.callback);
+
+  // GET /api/auth/identities
+  fastify.get('/identities', {
+    schema: {
+      summary: 'List linked identities',
+      description: 'External accounts linked to the current user',
+      tags: ['authentication'],
+      response: {
+        200: IdentityListResponseSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.listIdentities);
+
+  // DELETE /api/auth/identities/:id
+  fastify.delete('/identities/:id', {
+    schema: {
+      summary: 'Unlink identity',
+      description: 'Remove one external account from the current user',
+      tags: ['authentication'],
+      params: IdentityParamsSchema,
+      response: {
+        200: MessageResponseSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.unlinkIdentity);
+};
@@ -0,0 +1,129 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { PasskeyHandlers } from '../handlers/passkey.handlers';
+import { requireAuth, requireOwnAuth } from '../middleware/require-auth';
+import {
+  PasskeyRegistrationOptionsSchema,
+  PasskeyAuthenticationOptionsSchema,
+  PasskeyRegistrationSchema,
+  PasskeyLoginSchema,
+  MfaChallengeSchema,
+  PasskeySchema,
+  PasskeyListResponseSchema,
+  PasskeyParamsSchema,
+  AuthResponseSchema,
+  MessageResponseSchema,
+  ErrorSchema
+} from '../schemas';
+
+/**
+ * Passkey routes
+ * Handles WebAuthn registration, passkey management and passkey login
+ */
+export const passkeyRoutes: FastifyPluginAsync = async (
+  fastify: FastifyInstance
+) => {
+  const handlers = new PasskeyHandlers();
+
+  // POST /api/auth/passkeys/register/options
+  fastify.post('/passkeys/register/options', {
+    schema: {
+      summary: 'Passkey registration options',
+      description: 'Start registering a passkey; pass the options to navigator.credentials.create',
+      tags: ['authentication'],
+      response: {
+        200: PasskeyRegistrationOptionsSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.registrationOptions);
+
+  // POST /api/auth/passkeys/register
+  fastify.post('/passkeys/register', {
+    schema: {
+      summary: 'Register passkey',
+      description: 'Verify the new credential and store it as a passkey of the current user',
+      tags: ['authentication'],
+      body: PasskeyRegistrationSchema,
+      response: {
+        201: PasskeySchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        409: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.register);
+
+  // GET /api/auth/passkeys
+  fastify.get('/passkeys', {
+    schema: {
+      summary: 'List passkeys',
+      description: 'List the passkeys of the current user',
+      tags: ['authentication'],
+      response: {
+        200: PasskeyListResponseSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.listPasskeys);
+
+  // DELETE /api/auth/passkeys/:id
+  fastify.delete('/passkeys/:id', {
+    schema: {
+      summary: 'Remove passkey',
+      description: 'Remove one passkey of the current user',
+      tags: ['authentication'],
+      params: PasskeyParamsSchema,
+      response: {
+        200: MessageResponseSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.deletePasskey);
+
+  // POST /api/auth/login/passkey/options
+  fastify.post('/login/passkey/options', {
+    schema: {
+      summary: 'Passkey login options',
+      description: 'Start a passwordless login; pass the options to navigator.credentials.get',
+      tags: ['authentication'],
+      response: {
+        200: PasskeyAuthenticationOptionsSchema
+      }
+    }
+  }, handlers.loginOptions);
+
+  // POST /api/auth/login/passkey
+  fastify.post('/login/passkey', {
+    schema: {
+      summary: 'Passkey login',
+      description: 'Sign in with a passkey instead of a password',
+      tags: ['authentication'],
+      body: PasskeyLoginSchema,
+      response: {
+        200: AuthResponseSchema,
+        401: ErrorSchema,
+        403: ErrorSchema
+      }
+    }
+  }, handlers.login);
+
+  // POST /api/auth/login/mfa/passkey/options
+  fastify.post('/login/mfa/passkey/options', {
+    schema: {
+      summary: 'Passkey second factor options',
+      description: 'Options for answering an MFA challenge with one of the user\'s passkeys',
+      tags: ['authentication'],
+      body: MfaChallengeSchema,
+      response: {
+        200: PasskeyAuthenticationOptionsSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    }
+  }, handlers.mfaOptions);
+};
@@ -0,0 +1,65 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { PasswordHandlers } from '../handlers/password.handlers';
+import { requireOwnAuth } from '../middleware/require-auth';
+import {
+  ForgotPasswordSchema,
+  ResetPasswordSchema,
+  ChangePasswordSchema,
+  MessageResponseSchema,
+  ErrorSchema
+} from '../schemas';
+
+/**
+ * Password routes
+ * Handles forgotten password requests, resets and password changes
+ */
+export const passwordRoutes: FastifyPluginAsync = async (
+  fastify: FastifyInstance
+) => {
+  const handlers = new PasswordHandlers();
+
+  // POST /api/auth/password/forgot
+  fastify.post('/password/forgot', {
+    schema: {
+      summary: 'Forgot password',
+      description: 'Email a password reset link. The response does not reveal whether the email exists',
+      tags: ['authentication'],
+      body: ForgotPasswordSchema,
+      response: {
+        200: MessageResponseSchema,
+        400: ErrorSchema
+      }
+    }
+  }, handlers.forgotPassword);
+
+  // POST /api/auth/password/reset
+  fastify.post('/password/reset', {
+    schema: {
+      summary: 'Reset password',
+      description: 'Set a new password with a single-use reset token and sign out every session',
+      tags: ['authentication'],
+      body: ResetPasswordSchema,
+      response: {
+        200: MessageResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema
+      }
+    }
+  }, handlers.resetPassword);
+
+  // POST /api/auth/password/change
+  fastify.post('/password/change', {
+    schema: {
+      summary: 'Change password',
+      description: 'Change the password of the current user and, by default, sign out other sessions',
+      tags: ['authentication'],
+      body: ChangePasswordSchema,
+      response: {
+        200: MessageResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.changePassword);
+};
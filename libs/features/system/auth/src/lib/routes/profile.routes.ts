@@ -0,0 +1,103 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { ProfileHandlers } from '../handlers/profile.handlers';
+import { requireAuth, requireOwnAuth } from '../middleware/require-auth';
+import {
+  UpdateProfileSchema,
+  EmailChangeSchema,
+  ConfirmEmailChangeSchema,
+  AccountDeletionSchema,
+  AccountDeletionResponseSchema,
+  UserSchema,
+  MessageResponseSchema,
+  ErrorSchema
+} from '../schemas';
+
+/**
+ * Self-service profile routes
+ * Profile preferences, email address changes and account deletion of the current user
+ */
+export const profileRoutes: FastifyPluginAsync = async (
+  fastify: FastifyInstance
+) => {
+  const handlers = new ProfileHandlers();
+
+  // PATCH /api/auth/me
+  fastify.patch('/me', {
+    schema: {
+      summary: 'Update profile',
+      description: 'Change the names, avatar, locale or time zone of the current user',
+      tags: ['authentication'],
+      body: UpdateProfileSchema,
+      response: {
+        200: UserSchema,
+        400: ErrorSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.updateProfile);
+
+  // POST /api/auth/me/email
+  fastify.post('/me/email', {
+    schema: {
+      summary: 'Change email address',
+      description: 'Send a confirmation link to the new address. The address changes once it is confirmed',
+      tags: ['authentication'],
+      body: EmailChangeSchema,
+      response: {
+        202: MessageResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        409: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.requestEmailChange);
+
+  // POST /api/auth/me/email/confirm
+  fastify.post('/me/email/confirm', {
+    schema: {
+      summary: 'Confirm email address change',
+      description: 'Swap in the new email address with the single-use token sent to it',
+      tags: ['authentication'],
+      body: ConfirmEmailChangeSchema,
+      response: {
+        200: MessageResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        409: ErrorSchema
+      }
+    }
+  }, handlers.confirmEmailChange);
+
+  // DELETE /api/auth/me
+  fastify.delete('/me', {
+    schema: {
+      summary: 'Delete account',
+      description: 'Schedule the deletion of the current user after the grace period and sign out every other session',
+      tags: ['authentication'],
+      body: AccountDeletionSchema,
+      response: {
+        202: AccountDeletionResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireOwnAuth
+  }, handlers.requestAccountDeletion);
+
+  // POST /api/auth/me/deletion/cancel
+  fastify.post('/me/deletion/cancel', {
+    schema: {
+      summary: 'Cancel account deletion',
+      description: 'Keep the account of the current user during the grace period',
+      tags: ['authentication'],
+      response: {
+        200: MessageResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.cancelAccountDeletion);
+};
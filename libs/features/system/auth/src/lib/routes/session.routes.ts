@@ -0,0 +1,78 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { SessionHandlers } from '../handlers/session.handlers';
+import { requireAuth } from '../middleware/require-auth';
+import {
+  SessionListResponseSchema,
+  SessionParamsSchema,
+  RevokeSessionsResponseSchema,
+  MessageResponseSchema,
+  ErrorSchema
+} from '../schemas';
+
+/**
+ * Session management routes
+ * Lists and revokes the current user's sessions (devices)
+ */
+export const sessionRoutes: FastifyPluginAsync = async (
+  fastify: FastifyInstance
+) => {
+  const handlers = new SessionHandlers();
+
+  // GET /api/auth/sessions
+  fastify.get('/sessions', {
+    schema: {
+      summary: 'List sessions',
+      description: 'List active sessions (devices) of the current user',
+      tags: ['authentication'],
+      response: {
+        200: SessionListResponseSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.listSessions);
+
+  // DELETE /api/auth/sessions/:id
+  fastify.delete('/sessions/:id', {
+    schema: {
+      summary: 'Revoke session',
+      description: 'Sign out one session (device) of the current user',
+      tags: ['authentication'],
+      params: SessionParamsSchema,
+      response: {
+        200: MessageResponseSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.revokeSession);
+
+  // DELETE /api/auth/sessions
+  fastify.delete('/sessions', {
+    schema: {
+      summary: 'Revoke other sessions',
+      description: 'Sign out every session of the current user except this one',
+      tags: ['authentication'],
+      response: {
+        200: RevokeSessionsResponseSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.revokeOtherSessions);
+
+  // POST /api/auth/logout-all
+  fastify.post('/logout-all', {
+    schema: {
+      summary: 'Logout all devices',
+      description: 'Sign out every session of the current user, including this one',
+      tags: ['authentication'],
+      response: {
+        200: MessageResponseSchema,
+        401: ErrorSchema
+      }
+    },
+    preHandler: requireAuth
+  }, handlers.logoutAll);
+};
@@ -0,0 +1,48 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { VerificationHandlers } from '../handlers/verification.handlers';
+import {
+  VerifyEmailSchema,
+  ResendVerificationSchema,
+  MessageResponseSchema,
+  ErrorSchema
+} from '../schemas';
+
+/**
+ * Email verification routes
+ * Handles verification links and resending them
+ */
+export const verificationRoutes: FastifyPluginAsync = async (
+  fastify: FastifyInstance
+) => {
+  const handlers = new VerificationHandlers();
+
+  // POST /api/auth/verify-email
+  fastify.post('/verify-email', {
+    schema: {
+      summary: 'Verify email',
+      description: 'Confirm an email address with a single-use verification token',
+      tags: ['authentication'],
+      body: VerifyEmailSchema,
+      response: {
+        200: MessageResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema
+      }
+    }
+  }, handlers.verifyEmail);
+
+  // POST /api/auth/verify-email/resend
+  fastify.post('/verify-email/resend', {
+    schema: {
+      summary: 'Resend verification email',
+      description: 'Send a new verification link. Throttled per user',
+      tags: ['authentication'],
+      body: ResendVerificationSchema,
+      response: {
+        200: MessageResponseSchema,
+        400: ErrorSchema,
+        429: ErrorSchema
+      }
+    }
+  }, handlers.resendVerification);
+};
@@ -25,8 +25,8 @@ export const RegisterSchema = Type.Object({
     description: 'User email address' 
   }),
   password: Type.String({ 
-    minLength: 6,
-    description: 'User password (minimum 6 characters)' 
+    minLength: 1,
+    description: 'User password (checked against the password policy)' 
   }),
   firstName: Type.String({ 
     minLength: 1,
@@ -45,9 +45,9 @@ export const RegisterSchema = Type.Object({
 });
 
 export const RefreshTokenSchema = Type.Object({
-  refreshToken: Type.String({
-    description: 'Refresh token for generating new access token'
-  })
+  refreshToken: Type.Optional(Type.String({
+    description: 'Refresh token for generating new access token (cookie mode: omit and send the refresh cookie)'
+  }))
 }, {
   $id: 'RefreshTokenRequest',
   title: 'Refresh Token Request',
@@ -71,7 +71,14 @@ export const UserSchema = Type.Object({
   }),
   lastName: Type.String({
     description: 'User last name'
-  })
+  }),
+  avatarUrl: Type.Optional(Type.String({ description: 'Profile picture (https URL)' })),
+  locale: Type.Optional(Type.String({ description: 'Preferred language (BCP 47), e.g. th-TH' })),
+  timezone: Type.Optional(Type.String({ description: 'Preferred time zone (IANA), e.g. Asia/Bangkok' })),
+  deletionScheduledAt: Type.Optional(Type.String({
+    format: 'date-time',
+    description: 'When the account will be deleted (only while a deletion is pending)'
+  }))
 }, {
   $id: 'User',
   title: 'User',
@@ -79,26 +86,87 @@ export const UserSchema = Type.Object({
 });
 
 export const AuthResponseSchema = Type.Object({
-  accessToken: Type.String({
-    description: 'JWT access token'
-  }),
-  refreshToken: Type.String({
-    description: 'JWT refresh token'
-  }),
-  user: UserSchema
+  accessToken: Type.Optional(Type.String({
+    description: 'JWT access token (omitted in cookie mode)'
+  })),
+  refreshToken: Type.Optional(Type.String({
+    description: 'JWT refresh token (omitted in cookie mode)'
+  })),
+  user: UserSchema,
+  expiresIn: Type.Optional(Type.Number({
+    description: 'Seconds until the access token expires'
+  })),
+  csrfToken: Type.Optional(Type.String({
+    description: 'Cookie mode only: send it back in the X-XSRF-TOKEN header on state-changing requests'
+  }))
 }, {
   $id: 'AuthResponse',
   title: 'Auth Response',
   description: 'Authentication response with tokens and user data'
 });
 
+export const LoginResponseSchema = Type.Object({
+  accessToken: Type.Optional(Type.String({
+    description: 'JWT access token (omitted while a second factor is required and in cookie mode)'
+  })),
+  refreshToken: Type.Optional(Type.String({
+    description: 'JWT refresh token (omitted while a second factor is required and in cookie mode)'
+  })),
+  user: Type.Optional(UserSchema),
+  mfaRequired: Type.Optional(Type.Boolean({
+    description: 'Send challengeToken and a code to /login/mfa to finish signing in'
+  })),
+  challengeToken: Type.Optional(Type.String({
+    description: 'Short-lived MFA challenge token'
+  })),
+  expiresIn: Type.Optional(Type.Number({
+    description: 'Seconds until the access token (or the MFA challenge) expires'
+  })),
+  methods: Type.Optional(Type.Array(Type.String(), {
+    description: 'Accepted second factors: totp, recovery_code, passkey'
+  })),
+  csrfToken: Type.Optional(Type.String({
+    description: 'Cookie mode only: send it back in the X-XSRF-TOKEN header on state-changing requests'
+  }))
+}, {
+  $id: 'LoginResponse',
+  title: 'Login Response',
+  description: 'Tokens, or an MFA challenge when two-factor authentication is enabled'
+});
+
+export const RegisterResponseSchema = Type.Object({
+  accessToken: Type.Optional(Type.String({
+    description: 'JWT access token (omitted while email verification is required and in cookie mode)'
+  })),
+  refreshToken: Type.Optional(Type.String({
+    description: 'JWT refresh token (omitted while email verification is required and in cookie mode)'
+  })),
+  user: UserSchema,
+  emailVerificationRequired: Type.Optional(Type.Boolean({
+    description: 'No tokens are issued until the email address is verified'
+  })),
+  csrfToken: Type.Optional(Type.String({
+    description: 'Cookie mode only: send it back in the X-XSRF-TOKEN header on state-changing requests'
+  }))
+}, {
+  $id: 'RegisterResponse',
+  title: 'Register Response',
+  description: 'Tokens, or a pending verification notice when verification is required'
+});
+
 export const TokenResponseSchema = Type.Object({
-  accessToken: Type.String({
-    description: 'New JWT access token'
-  }),
-  refreshToken: Type.String({
-    description: 'New JWT refresh token'
-  })
+  accessToken: Type.Optional(Type.String({
+    description: 'New JWT access token (omitted in cookie mode)'
+  })),
+  refreshToken: Type.Optional(Type.String({
+    description: 'New JWT refresh token (omitted in cookie mode)'
+  })),
+  expiresIn: Type.Optional(Type.Number({
+    description: 'Seconds until the access token expires'
+  })),
+  csrfToken: Type.Optional(Type.String({
+    description: 'Cookie mode only: send it back in the X-XSRF-TOKEN header on state-changing requests'
+  }))
 }, {
   $id: 'TokenResponse',
   title: 'Token Response',
@@ -115,6 +183,874 @@ export const MessageResponseSchema = Type.Object({
   description: 'Generic message response'
 });
 
+/**
+ * Session Schemas
+ */
+
+export const SessionSchema = Type.Object({
+  id: Type.String({
+    description: 'Session identifier'
+  }),
+  deviceInfo: Type.Optional(Type.String({
+    description: 'Device description'
+  })),
+  ipAddress: Type.Optional(Type.String({
+    description: 'IP address at login'
+  })),
+  userAgent: Type.Optional(Type.String({
+    description: 'User agent at login'
+  })),
+  createdAt: Type.String({
+    format: 'date-time',
+    description: 'Login time'
+  }),
+  lastUsedAt: Type.String({
+    format: 'date-time',
+    description: 'Last token refresh'
+  }),
+  expiresAt: Type.String({
+    format: 'date-time',
+    description: 'Session expiry'
+  }),
+  current: Type.Boolean({
+    description: 'Whether this is the session making the request'
+  })
+}, {
+  $id: 'Session',
+  title: 'Session',
+  description: 'Active login session (device)'
+});
+
+export const SessionListResponseSchema = Type.Object({
+  sessions: Type.Array(SessionSchema)
+}, {
+  $id: 'SessionListResponse',
+  title: 'Session List Response',
+  description: 'Active sessions of the current user'
+});
+
+export const SessionParamsSchema = Type.Object({
+  id: Type.String({
+    format: 'uuid',
+    description: 'Session identifier'
+  })
+}, {
+  $id: 'SessionParams',
+  title: 'Session Params',
+  description: 'Session route parameters'
+});
+
+export const RevokeSessionsResponseSchema = Type.Object({
+  message: Type.String({
+    description: 'Response message'
+  }),
+  revoked: Type.Number({
+    description: 'Number of revoked sessions'
+  })
+}, {
+  $id: 'RevokeSessionsResponse',
+  title: 'Revoke Sessions Response',
+  description: 'Result of revoking other sessions'
+});
+
+/**
+ * Password Reset Schemas
+ */
+
+export const ForgotPasswordSchema = Type.Object({
+  email: Type.String({
+    format: 'email',
+    description: 'Email address of the account'
+  })
+}, {
+  $id: 'ForgotPasswordRequest',
+  title: 'Forgot Password Request',
+  description: 'Request a password reset email'
+});
+
+export const ResetPasswordSchema = Type.Object({
+  token: Type.String({
+    minLength: 1,
+    description: 'Password reset token from the email'
+  }),
+  newPassword: Type.String({
+    minLength: 1,
+    description: 'New password (checked against the password policy)'
+  })
+}, {
+  $id: 'ResetPasswordRequest',
+  title: 'Reset Password Request',
+  description: 'Set a new password with a reset token'
+});
+
+export const ChangePasswordSchema = Type.Object({
+  currentPassword: Type.String({
+    minLength: 1,
+    description: 'Current password'
+  }),
+  newPassword: Type.String({
+    minLength: 1,
+    description: 'New password (checked against the password policy)'
+  }),
+  revokeOtherSessions: Type.Optional(Type.Boolean({
+    default: true,
+    description: 'Sign out every other session (default: true)'
+  }))
+}, {
+  $id: 'ChangePasswordRequest',
+  title: 'Change Password Request',
+  description: 'Change the password of the current user'
+});
+
+/**
+ * Email Verification Schemas
+ */
+
+export const VerifyEmailSchema = Type.Object({
+  token: Type.String({
+    minLength: 1,
+    description: 'Verification token from the email'
+  })
+}, {
+  $id: 'VerifyEmailRequest',
+  title: 'Verify Email Request',
+  description: 'Confirm an email address'
+});
+
+export const ResendVerificationSchema = Type.Object({
+  email: Type.String({
+    format: 'email',
+    description: 'Email address awaiting verification'
+  })
+}, {
+  $id: 'ResendVerificationRequest',
+  title: 'Resend Verification Request',
+  description: 'Request a new verification email'
+});
+
+/**
+ * Profile Schemas
+ */
+
+export const UpdateProfileSchema = Type.Object({
+  firstName: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+  lastName: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+  avatarUrl: Type.Optional(Type.Union([Type.String({ maxLength: 2048 }), Type.Null()], {
+    description: 'Profile picture (https URL); null removes it'
+  })),
+  locale: Type.Optional(Type.Union([Type.String({ maxLength: 35 }), Type.Null()], {
+    description: 'Preferred language (BCP 47), e.g. th-TH; null removes it'
+  })),
+  timezone: Type.Optional(Type.Union([Type.String({ maxLength: 64 }), Type.Null()], {
+    description: 'Preferred time zone (IANA), e.g. Asia/Bangkok; null removes it'
+  }))
+}, {
+  $id: 'UpdateProfileRequest',
+  title: 'Update Profile Request',
+  description: 'Names and preferences of the current user; omitted fields are kept'
+});
+
+export const EmailChangeSchema = Type.Object({
+  newEmail: Type.String({
+    format: 'email',
+    description: 'New email address; a confirmation link is sent to it'
+  }),
+  password: Type.String({
+    minLength: 1,
+    description: 'Current password'
+  })
+}, {
+  $id: 'EmailChangeRequest',
+  title: 'Email Change Request',
+  description: 'Change the email address of the current user'
+});
+
+export const ConfirmEmailChangeSchema = Type.Object({
+  token: Type.String({
+    minLength: 1,
+    description: 'Confirmation token from the email sent to the new address'
+  })
+}, {
+  $id: 'ConfirmEmailChangeRequest',
+  title: 'Confirm Email Change Request',
+  description: 'Confirm a new email address'
+});
+
+export const AccountDeletionSchema = Type.Object({
+  password: Type.String({
+    minLength: 1,
+    description: 'Current password'
+  })
+}, {
+  $id: 'AccountDeletionRequest',
+  title: 'Account Deletion Request',
+  description: 'Delete the account of the current user after the grace period'
+});
+
+export const AccountDeletionResponseSchema = Type.Object({
+  message: Type.String(),
+  deletionScheduledAt: Type.String({
+    format: 'date-time',
+    description: 'When the account will be deleted unless the deletion is cancelled'
+  })
+}, {
+  $id: 'AccountDeletionResponse',
+  title: 'Account Deletion Response',
+  description: 'Pending account deletion'
+});
+
+/**
+ * Passkey (WebAuthn) Schemas
+ */
+
+const CredentialDescriptorSchema = Type.Object({
+  id: Type.String(),
+  type: Type.Literal('public-key'),
+  transports: Type.Optional(Type.Array(Type.String()))
+});
+
+export const PasskeyRegistrationOptionsSchema = Type.Object({
+  challenge: Type.String(),
+  rp: Type.Object({
+    id: Type.String(),
+    name: Type.String()
+  }),
+  user: Type.Object({
+    id: Type.String({ description: 'base64url user handle' }),
+    name: Type.String(),
+    displayName: Type.String()
+  }),
+  pubKeyCredParams: Type.Array(Type.Object({
+    type: Type.Literal('public-key'),
+    alg: Type.Number()
+  })),
+  timeout: Type.Number(),
+  attestation: Type.String(),
+  excludeCredentials: Type.Array(CredentialDescriptorSchema),
+  authenticatorSelection: Type.Object({
+    residentKey: Type.String(),
+    userVerification: Type.String()
+  })
+}, {
+  $id: 'PasskeyRegistrationOptions',
+  title: 'Passkey Registration Options',
+  description: 'Options for navigator.credentials.create (binary fields are base64url)'
+});
+
+export const PasskeyAuthenticationOptionsSchema = Type.Object({
+  challenge: Type.String(),
+  rpId: Type.String(),
+  timeout: Type.Number(),
+  allowCredentials: Type.Array(CredentialDescriptorSchema),
+  userVerification: Type.String()
+}, {
+  $id: 'PasskeyAuthenticationOptions',
+  title: 'Passkey Authentication Options',
+  description: 'Options for navigator.credentials.get (binary fields are base64url)'
+});
+
+export const PasskeyAttestationSchema = Type.Object({
+  id: Type.String({ minLength: 1 }),
+  rawId: Type.String(),
+  type: Type.Literal('public-key'),
+  response: Type.Object({
+    clientDataJSON: Type.String(),
+    attestationObject: Type.String(),
+    transports: Type.Optional(Type.Array(Type.String()))
+  })
+}, {
+  $id: 'PasskeyAttestation',
+  title: 'Passkey Attestation',
+  description: 'Registration credential (PublicKeyCredential.toJSON())'
+});
+
+export const PasskeyAssertionSchema = Type.Object({
+  id: Type.String({ minLength: 1 }),
+  rawId: Type.String(),
+  type: Type.Literal('public-key'),
+  response: Type.Object({
+    clientDataJSON: Type.String(),
+    authenticatorData: Type.String(),
+    signature: Type.String(),
+    userHandle: Type.Optional(Type.Union([Type.String(), Type.Null()]))
+  })
+}, {
+  $id: 'PasskeyAssertion',
+  title: 'Passkey Assertion',
+  description: 'Authentication credential (PublicKeyCredential.toJSON())'
+});
+
+export const PasskeyRegistrationSchema = Type.Object({
+  credential: PasskeyAttestationSchema,
+  name: Type.Optional(Type.String({
+    maxLength: 100,
+    description: 'Label shown in the passkey list, e.g. "Ward laptop"'
+  }))
+}, {
+  $id: 'PasskeyRegistrationRequest',
+  title: 'Passkey Registration Request',
+  description: 'Finish registering a passkey'
+});
+
+export const PasskeyLoginSchema = Type.Object({
+  credential: PasskeyAssertionSchema
+}, {
+  $id: 'PasskeyLoginRequest',
+  title: 'Passkey Login Request',
+  description: 'Passwordless login with a passkey'
+});
+
+export const MfaChallengeSchema = Type.Object({
+  challengeToken: Type.String({
+    minLength: 1,
+    description: 'Challenge token returned by /login'
+  })
+}, {
+  $id: 'MfaChallengeRequest',
+  title: 'MFA Challenge Request',
+  description: 'Pending second login step'
+});
+
+export const PasskeySchema = Type.Object({
+  id: Type.String(),
+  name: Type.Optional(Type.String()),
+  transports: Type.Array(Type.String()),
+  createdAt: Type.String({ format: 'date-time' }),
+  lastUsedAt: Type.Optional(Type.String({ format: 'date-time' }))
+}, {
+  $id: 'Passkey',
+  title: 'Passkey',
+  description: 'Registered passkey'
+});
+
+export const PasskeyListResponseSchema = Type.Object({
+  passkeys: Type.Array(PasskeySchema)
+}, {
+  $id: 'PasskeyListResponse',
+  title: 'Passkey List Response',
+  description: 'Passkeys of the current user'
+});
+
+export const PasskeyParamsSchema = Type.Object({
+  id: Type.String({ description: 'Passkey id' })
+}, {
+  $id: 'PasskeyParams',
+  title: 'Passkey Params'
+});
+
+/**
+ * External Login (OpenID Connect) Schemas
+ */
+
+export const IdentityProviderSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String()
+}, {
+  $id: 'IdentityProvider',
+  title: 'Identity Provider',
+  description: 'External identity provider users can sign in with'
+});
+
+export const IdentityProviderListResponseSchema = Type.Object({
+  providers: Type.Array(IdentityProviderSchema)
+}, {
+  $id: 'IdentityProviderListResponse',
+  title: 'Identity Provider List Response',
+  description: 'Configured identity providers'
+});
+
+export const IdentityProviderParamsSchema = Type.Object({
+  provider: Type.String({ description: 'Identity provider id' })
+}, {
+  $id: 'IdentityProviderParams',
+  title: 'Identity Provider Params'
+});
+
+export const ExternalLoginStartResponseSchema = Type.Object({
+  authorizationUrl: Type.String({
+    description: 'Redirect the user here; the provider returns to the redirect URI with code and state'
+  })
+}, {
+  $id: 'ExternalLoginStartResponse',
+  title: 'External Login Start Response'
+});
+
+export const ExternalLoginCallbackSchema = Type.Object({
+  code: Type.String({
+    minLength: 1,
+    description: 'Authorization code from the provider redirect'
+  }),
+  state: Type.String({
+    minLength: 1,
+    description: 'State from the provider redirect'
+  })
+}, {
+  $id: 'ExternalLoginCallbackRequest',
+  title: 'External Login Callback Request',
+  description: 'Finish an external login'
+});
+
+export const IdentitySchema = Type.Object({
+  id: Type.String(),
+  provider: Type.String(),
+  email: Type.Optional(Type.String()),
+  createdAt: Type.String({ format: 'date-time' }),
+  lastLoginAt: Type.Optional(Type.String({ format: 'date-time' }))
+}, {
+  $id: 'Identity',
+  title: 'Identity',
+  description: 'External account linked to the user'
+});
+
+export const IdentityListResponseSchema = Type.Object({
+  identities: Type.Array(IdentitySchema)
+}, {
+  $id: 'IdentityListResponse',
+  title: 'Identity List Response',
+  description: 'External accounts of the current user'
+});
+
+export const IdentityParamsSchema = Type.Object({
+  id: Type.String({ description: 'Identity id' })
+}, {
+  $id: 'IdentityParams',
+  title: 'Identity Params'
+});
+
+/**
+ * OAuth 2.0 Authorization Server Schemas
+ * Protocol endpoints use the RFC 6749 parameter names (snake_case)
+ */
+
+const OAuthGrantTypeSchema = Type.Union([
+  Type.Literal('authorization_code'),
+  Type.Literal('client_credentials'),
+  Type.Literal('refresh_token')
+]);
+
+export const OAuthClientRegistrationSchema = Type.Object({
+  name: Type.String({
+    minLength: 1,
+    maxLength: 100,
+    description: 'Shown to users on the consent screen'
+  }),
+  clientType: Type.Union([Type.Literal('confidential'), Type.Literal('public')], {
+    description: 'Confidential clients get a secret; public clients (SPAs, mobile apps) must use PKCE'
+  }),
+  redirectUris: Type.Optional(Type.Array(Type.String({ minLength: 1 }), {
+    maxItems: 10,
+    description: 'Exact redirect URIs allowed for the authorization code grant'
+  })),
+  grantTypes: Type.Optional(Type.Array(OAuthGrantTypeSchema, {
+    description: 'Default: authorization_code and refresh_token'
+  })),
+  scopes: Type.Optional(Type.Array(Type.String(), {
+    description: 'Scopes the client may request (default: all supported scopes)'
+  }))
+}, {
+  $id: 'OAuthClientRegistrationRequest',
+  title: 'OAuth Client Registration Request',
+  description: 'Register a third-party client'
+});
+
+export const OAuthClientSchema = Type.Object({
+  id: Type.String(),
+  clientId: Type.String(),
+  clientType: Type.String(),
+  name: Type.String(),
+  redirectUris: Type.Array(Type.String()),
+  grantTypes: Type.Array(Type.String()),
+  scopes: Type.Array(Type.String()),
+  createdAt: Type.String({ format: 'date-time' })
+}, {
+  $id: 'OAuthClient',
+  title: 'OAuth Client',
+  description: 'Registered third-party client'
+});
+
+export const OAuthClientRegistrationResponseSchema = Type.Object({
+  client: OAuthClientSchema,
+  clientSecret: Type.Optional(Type.String({
+    description: 'Secret of a confidential client; shown only once'
+  }))
+}, {
+  $id: 'OAuthClientRegistrationResponse',
+  title: 'OAuth Client Registration Response'
+});
+
+export const OAuthClientListResponseSchema = Type.Object({
+  clients: Type.Array(OAuthClientSchema)
+}, {
+  $id: 'OAuthClientListResponse',
+  title: 'OAuth Client List Response',
+  description: 'Clients registered by the current user'
+});
+
+export const OAuthClientParamsSchema = Type.Object({
+  id: Type.String({ description: 'Client record id' })
+}, {
+  $id: 'OAuthClientParams',
+  title: 'OAuth Client Params'
+});
+
+const authorizationRequestProperties = {
+  response_type: Type.String({ description: 'Must be code' }),
+  client_id: Type.String({ minLength: 1 }),
+  redirect_uri: Type.String({ minLength: 1 }),
+  scope: Type.Optional(Type.String({ description: 'Space separated scopes' })),
+  state: Type.Optional(Type.String()),
+  code_challenge: Type.Optional(Type.String({ description: 'PKCE challenge (required for public clients)' })),
+  code_challenge_method: Type.Optional(Type.String({ description: 'Must be S256' }))
+};
+
+export const OAuthAuthorizeQuerySchema = Type.Object(authorizationRequestProperties, {
+  $id: 'OAuthAuthorizeQuery',
+  title: 'OAuth Authorize Query',
+  description: 'Authorization request forwarded from the client'
+});
+
+export const OAuthAuthorizeSchema = Type.Object({
+  ...authorizationRequestProperties,
+  approved: Type.Boolean({ description: 'Whether the user granted access' })
+}, {
+  $id: 'OAuthAuthorizeRequest',
+  title: 'OAuth Authorize Request',
+  description: 'The user\'s decision on an authorization request'
+});
+
+export const OAuthAuthorizationPromptSchema = Type.Object({
+  client: Type.Object({
+    clientId: Type.String(),
+    name: Type.String()
+  }),
+  scopes: Type.Array(Type.Object({
+    name: Type.String(),
+    description: Type.String()
+  })),
+  redirectUri: Type.String(),
+  consentRequired: Type.Boolean({
+    description: 'False when the user already granted these scopes'
+  })
+}, {
+  $id: 'OAuthAuthorizationPrompt',
+  title: 'OAuth Authorization Prompt',
+  description: 'What the consent screen shows'
+});
+
+export const OAuthAuthorizeResponseSchema = Type.Object({
+  redirectTo: Type.String({
+    description: 'Client redirect URI with code (or error) and state'
+  })
+}, {
+  $id: 'OAuthAuthorizeResponse',
+  title: 'OAuth Authorize Response'
+});
+
+export const OAuthTokenRequestSchema = Type.Object({
+  grant_type: Type.String(),
+  code: Type.Optional(Type.String()),
+  redirect_uri: Type.Optional(Type.String()),
+  code_verifier: Type.Optional(Type.String()),
+  refresh_token: Type.Optional(Type.String()),
+  scope: Type.Optional(Type.String()),
+  client_id: Type.Optional(Type.String()),
+  client_secret: Type.Optional(Type.String())
+}, {
+  $id: 'OAuthTokenRequest',
+  title: 'OAuth Token Request',
+  description: 'Token request (form encoded or JSON); clients may authenticate with HTTP Basic instead'
+});
+
+export const OAuthTokenResponseSchema = Type.Object({
+  access_token: Type.String(),
+  token_type: Type.String(),
+  expires_in: Type.Number(),
+  refresh_token: Type.Optional(Type.String()),
+  scope: Type.String()
+}, {
+  $id: 'OAuthTokenResponse',
+  title: 'OAuth Token Response'
+});
+
+export const OAuthTokenActionSchema = Type.Object({
+  token: Type.String(),
+  token_type_hint: Type.Optional(Type.String()),
+  client_id: Type.Optional(Type.String()),
+  client_secret: Type.Optional(Type.String())
+}, {
+  $id: 'OAuthTokenActionRequest',
+  title: 'OAuth Token Action Request',
+  description: 'Token introspection (RFC 7662) or revocation (RFC 7009) request'
+});
+
+export const OAuthIntrospectionResponseSchema = Type.Object({
+  active: Type.Boolean(),
+  scope: Type.Optional(Type.String()),
+  client_id: Type.Optional(Type.String()),
+  username: Type.Optional(Type.String()),
+  token_type: Type.Optional(Type.String()),
+  exp: Type.Optional(Type.Number()),
+  iat: Type.Optional(Type.Number()),
+  sub: Type.Optional(Type.String()),
+  iss: Type.Optional(Type.String())
+}, {
+  $id: 'OAuthIntrospectionResponse',
+  title: 'OAuth Introspection Response'
+});
+
+export const OAuthErrorSchema = Type.Object({
+  error: Type.String({ description: 'RFC 6749 error code, e.g. invalid_grant' }),
+  error_description: Type.Optional(Type.String())
+}, {
+  $id: 'OAuthErrorResponse',
+  title: 'OAuth Error Response'
+});
+
+export const OAuthConsentSchema = Type.Object({
+  clientId: Type.String(),
+  clientName: Type.String(),
+  scopes: Type.Array(Type.String()),
+  grantedAt: Type.String({ format: 'date-time' })
+}, {
+  $id: 'OAuthConsent',
+  title: 'OAuth Consent',
+  description: 'Scopes the user granted a client'
+});
+
+export const OAuthConsentListResponseSchema = Type.Object({
+  consents: Type.Array(OAuthConsentSchema)
+}, {
+  $id: 'OAuthConsentListResponse',
+  title: 'OAuth Consent List Response',
+  description: 'Clients the current user has granted access to'
+});
+
+export const OAuthConsentParamsSchema = Type.Object({
+  clientId: Type.String({ description: 'OAuth client_id' })
+}, {
+  $id: 'OAuthConsentParams',
+  title: 'OAuth Consent Params'
+});
+
+/**
+ * API Key and Service Account Schemas
+ */
+
+export const ApiKeyCreateSchema = Type.Object({
+  name: Type.String({
+    minLength: 1,
+    maxLength: 100,
+    description: 'Label to recognise the key by'
+  }),
+  scopes: Type.Array(Type.String({ pattern: '^[^:]+:[^:]+$' }), {
+    minItems: 1,
+    maxItems: 50,
+    description: 'Permissions in resource:action form; the key never exceeds its owner\'s permissions'
+  }),
+  expiresAt: Type.Optional(Type.String({
+    format: 'date-time',
+    description: 'Default: never expires'
+  })),
+  serviceAccountId: Type.Optional(Type.String({
+    description: 'Issue the key to one of your service accounts instead of yourself'
+  }))
+}, {
+  $id: 'ApiKeyCreateRequest',
+  title: 'API Key Create Request'
+});
+
+export const ApiKeySchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  prefix: Type.String({ description: 'Public start of the key' }),
+  scopes: Type.Array(Type.String()),
+  serviceAccountId: Type.Optional(Type.String()),
+  expiresAt: Type.Optional(Type.String({ format: 'date-time' })),
+  lastUsedAt: Type.Optional(Type.String({ format: 'date-time' })),
+  createdAt: Type.String({ format: 'date-time' })
+}, {
+  $id: 'ApiKey',
+  title: 'API Key',
+  description: 'API key without its secret'
+});
+
+export const IssuedApiKeyResponseSchema = Type.Object({
+  apiKey: ApiKeySchema,
+  key: Type.String({ description: 'Send as the X-API-Key header; shown only once' })
+}, {
+  $id: 'IssuedApiKeyResponse',
+  title: 'Issued API Key Response'
+});
+
+export const ApiKeyListQuerySchema = Type.Object({
+  serviceAccountId: Type.Optional(Type.String({
+    description: 'List the keys of one of your service accounts'
+  }))
+}, {
+  $id: 'ApiKeyListQuery',
+  title: 'API Key List Query'
+});
+
+export const ApiKeyListResponseSchema = Type.Object({
+  apiKeys: Type.Array(ApiKeySchema)
+}, {
+  $id: 'ApiKeyListResponse',
+  title: 'API Key List Response'
+});
+
+export const ApiKeyParamsSchema = Type.Object({
+  id: Type.String({ description: 'API key id' })
+}, {
+  $id: 'ApiKeyParams',
+  title: 'API Key Params'
+});
+
+export const ServiceAccountCreateSchema = Type.Object({
+  name: Type.String({ minLength: 1, maxLength: 100 }),
+  description: Type.Optional(Type.String({ maxLength: 500 }))
+}, {
+  $id: 'ServiceAccountCreateRequest',
+  title: 'Service Account Create Request'
+});
+
+export const ServiceAccountSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String(),
+  description: Type.Optional(Type.String()),
+  createdAt: Type.String({ format: 'date-time' })
+}, {
+  $id: 'ServiceAccount',
+  title: 'Service Account',
+  description: 'Non-human principal acting with the permissions of its owner'
+});
+
+export const ServiceAccountListResponseSchema = Type.Object({
+  serviceAccounts: Type.Array(ServiceAccountSchema)
+}, {
+  $id: 'ServiceAccountListResponse',
+  title: 'Service Account List Response'
+});
+
+export const ServiceAccountParamsSchema = Type.Object({
+  id: Type.String({ description: 'Service account id' })
+}, {
+  $id: 'ServiceAccountParams',
+  title: 'Service Account Params'
+});
+
+/**
+ * Login Lockout Schemas
+ */
+
+export const LockoutQuerySchema = Type.Object({
+  userId: Type.Optional(Type.String({ format: 'uuid', description: 'Account by id' })),
+  email: Type.Optional(Type.String({ format: 'email', description: 'Account by email address' })),
+  ipAddress: Type.Optional(Type.String({ minLength: 1, description: 'Client IP address' }))
+}, {
+  $id: 'LockoutQuery',
+  title: 'Lockout Query',
+  description: 'Account and/or IP address; at least one is required'
+});
+
+const LockoutStateProperties = {
+  failedAttempts: Type.Number({ description: 'Failed sign-ins counted towards the lock' }),
+  locked: Type.Boolean(),
+  lockedUntil: Type.Optional(Type.String({ format: 'date-time' })),
+  retryAfter: Type.Number({ description: 'Seconds until the next sign-in attempt is allowed' })
+};
+
+export const LockoutStatusResponseSchema = Type.Object({
+  account: Type.Optional(Type.Object({
+    userId: Type.String(),
+    email: Type.String(),
+    ...LockoutStateProperties
+  })),
+  ip: Type.Optional(Type.Object({
+    ipAddress: Type.String(),
+    ...LockoutStateProperties
+  }))
+}, {
+  $id: 'LockoutStatusResponse',
+  title: 'Lockout Status Response',
+  description: 'Sign-in throttling state of an account and/or IP address'
+});
+
+/**
+ * Multi-Factor Authentication Schemas
+ */
+
+export const MfaLoginSchema = Type.Object({
+  challengeToken: Type.String({
+    minLength: 1,
+    description: 'Challenge token returned by /login'
+  }),
+  code: Type.Optional(Type.String({
+    description: 'Code from the authenticator app'
+  })),
+  recoveryCode: Type.Optional(Type.String({
+    description: 'One of the recovery codes (instead of code)'
+  })),
+  passkey: Type.Optional(PasskeyAssertionSchema)
+}, {
+  $id: 'MfaLoginRequest',
+  title: 'MFA Login Request',
+  description: 'Second login step'
+});
+
+export const TotpCodeSchema = Type.Object({
+  code: Type.String({
+    minLength: 1,
+    description: 'Code from the authenticator app'
+  })
+}, {
+  $id: 'TotpCodeRequest',
+  title: 'TOTP Code Request',
+  description: 'Current authenticator code'
+});
+
+export const DisableMfaSchema = Type.Object({
+  password: Type.String({
+    minLength: 1,
+    description: 'Current password'
+  })
+}, {
+  $id: 'DisableMfaRequest',
+  title: 'Disable MFA Request',
+  description: 'Turn two-factor authentication off'
+});
+
+export const TotpEnrollmentResponseSchema = Type.Object({
+  secret: Type.String({
+    description: 'Base32 secret for manual entry'
+  }),
+  otpauthUri: Type.String({
+    description: 'otpauth:// URI to render as a QR code'
+  })
+}, {
+  $id: 'TotpEnrollmentResponse',
+  title: 'TOTP Enrollment Response',
+  description: 'Pending TOTP enrollment'
+});
+
+export const RecoveryCodesResponseSchema = Type.Object({
+  recoveryCodes: Type.Array(Type.String(), {
+    description: 'One-time recovery codes; they are not shown again'
+  })
+}, {
+  $id: 'RecoveryCodesResponse',
+  title: 'Recovery Codes Response',
+  description: 'New recovery codes'
+});
+
+export const MfaStatusResponseSchema = Type.Object({
+  totpEnabled: Type.Boolean(),
+  recoveryCodesRemaining: Type.Number()
+}, {
+  $id: 'MfaStatusResponse',
+  title: 'MFA Status Response',
+  description: 'Two-factor authentication state of the current user'
+});
+
 /**
  * Error Schemas
  */
@@ -123,6 +1059,15 @@ export const ErrorSchema = Type.Object({
   error: Type.String({
     description: 'Error type'
   }),
+  code: Type.Optional(Type.String({
+    description: 'Machine readable error code (e.g. EMAIL_NOT_VERIFIED)'
+  })),
+  field: Type.Optional(Type.String({
+    description: 'Invalid field or broken rule (e.g. PASSWORD_TOO_SHORT)'
+  })),
+  retryAfter: Type.Optional(Type.Number({
+    description: 'Seconds to wait before retrying (429 responses)'
+  })),
   message: Type.String({
     description: 'Error message'
   })
@@ -160,5 +1105,74 @@ export type User = Static<typeof UserSchema>;
 export type AuthResponse = Static<typeof AuthResponseSchema>;
 export type TokenResponse = Static<typeof TokenResponseSchema>;
 export type MessageResponse = Static<typeof MessageResponseSchema>;
+export type Session = Static<typeof SessionSchema>;
+export type SessionListResponse = Static<typeof SessionListResponseSchema>;
+export type SessionParams = Static<typeof SessionParamsSchema>;
+export type RevokeSessionsResponse = Static<typeof RevokeSessionsResponseSchema>;
+export type ForgotPasswordRequest = Static<typeof ForgotPasswordSchema>;
+export type ResetPasswordRequest = Static<typeof ResetPasswordSchema>;
+export type ChangePasswordBody = Static<typeof ChangePasswordSchema>;
+export type RegisterResponse = Static<typeof RegisterResponseSchema>;
+export type LoginResponse = Static<typeof LoginResponseSchema>;
+export type VerifyEmailRequest = Static<typeof VerifyEmailSchema>;
+export type ResendVerificationRequest = Static<typeof ResendVerificationSchema>;
+export type UpdateProfileBody = Static<typeof UpdateProfileSchema>;
+export type EmailChangeBody = Static<typeof EmailChangeSchema>;
+export type ConfirmEmailChangeRequest = Static<typeof ConfirmEmailChangeSchema>;
+export type AccountDeletionBody = Static<typeof AccountDeletionSchema>;
+export type AccountDeletionResponse = Static<typeof AccountDeletionResponseSchema>;
+export type MfaLoginBody = Static<typeof MfaLoginSchema>;
+export type TotpCodeRequest = Static<typeof TotpCodeSchema>;
+export type DisableMfaRequest = Static<typeof DisableMfaSchema>;
+export type TotpEnrollmentResponse = Static<typeof TotpEnrollmentResponseSchema>;
+export type RecoveryCodesResponse = Static<typeof RecoveryCodesResponseSchema>;
+export type MfaStatusResponse = Static<typeof MfaStatusResponseSchema>;
+export type PasskeyRegistrationOptions = Static<typeof PasskeyRegistrationOptionsSchema>;
+export type PasskeyAuthenticationOptions = Static<typeof PasskeyAuthenticationOptionsSchema>;
+export type PasskeyAttestation = Static<typeof PasskeyAttestationSchema>;
+export type PasskeyAssertion = Static<typeof PasskeyAssertionSchema>;
+export type PasskeyRegistrationRequest = Static<typeof PasskeyRegistrationSchema>;
+export type PasskeyLoginRequest = Static<typeof PasskeyLoginSchema>;
+export type MfaChallengeRequest = Static<typeof MfaChallengeSchema>;
+export type Passkey = Static<typeof PasskeySchema>;
+export type PasskeyListResponse = Static<typeof PasskeyListResponseSchema>;
+export type PasskeyParams = Static<typeof PasskeyParamsSchema>;
+export type IdentityProvider = Static<typeof IdentityProviderSchema>;
+export type IdentityProviderListResponse = Static<typeof IdentityProviderListResponseSchema>;
+export type IdentityProviderParams = Static<typeof IdentityProviderParamsSchema>;
+export type ExternalLoginStartResponse = Static<typeof ExternalLoginStartResponseSchema>;
+export type ExternalLoginCallbackRequest = Static<typeof ExternalLoginCallbackSchema>;
+export type Identity = Static<typeof IdentitySchema>;
+export type IdentityListResponse = Static<typeof IdentityListResponseSchema>;
+export type IdentityParams = Static<typeof IdentityParamsSchema>;
+export type OAuthClientRegistrationRequest = Static<typeof OAuthClientRegistrationSchema>;
+export type OAuthClient = Static<typeof OAuthClientSchema>;
+export type OAuthClientRegistrationResponse = Static<typeof OAuthClientRegistrationResponseSchema>;
+export type OAuthClientListResponse = Static<typeof OAuthClientListResponseSchema>;
+export type OAuthClientParams = Static<typeof OAuthClientParamsSchema>;
+export type OAuthAuthorizeQuery = Static<typeof OAuthAuthorizeQuerySchema>;
+export type OAuthAuthorizeRequest = Static<typeof OAuthAuthorizeSchema>;
+export type OAuthAuthorizationPrompt = Static<typeof OAuthAuthorizationPromptSchema>;
+export type OAuthAuthorizeResponse = Static<typeof OAuthAuthorizeResponseSchema>;
+export type OAuthTokenRequest = Static<typeof OAuthTokenRequestSchema>;
+export type OAuthTokenResponse = Static<typeof OAuthTokenResponseSchema>;
+export type OAuthTokenActionRequest = Static<typeof OAuthTokenActionSchema>;
+export type OAuthIntrospectionResponse = Static<typeof OAuthIntrospectionResponseSchema>;
+export type OAuthErrorResponse = Static<typeof OAuthErrorSchema>;
+export type OAuthConsent = Static<typeof OAuthConsentSchema>;
+export type OAuthConsentListResponse = Static<typeof OAuthConsentListResponseSchema>;
+export type OAuthConsentParams = Static<typeof OAuthConsentParamsSchema>;
+export type ApiKeyCreateRequest = Static<typeof ApiKeyCreateSchema>;
+export type ApiKey = Static<typeof ApiKeySchema>;
+export type IssuedApiKeyResponse = Static<typeof IssuedApiKeyResponseSchema>;
+export type ApiKeyListQuery = Static<typeof ApiKeyListQuerySchema>;
+export type ApiKeyListResponse = Static<typeof ApiKeyListResponseSchema>;
+export type ApiKeyParams = Static<typeof ApiKeyParamsSchema>;
+export type ServiceAccountCreateRequest = Static<typeof ServiceAccountCreateSchema>;
+export type ServiceAccount = Static<typeof ServiceAccountSchema>;
+export type ServiceAccountListResponse = Static<typeof ServiceAccountListResponseSchema>;
+export type ServiceAccountParams = Static<typeof ServiceAccountParamsSchema>;
+export type LockoutQueryRequest = Static<typeof LockoutQuerySchema>;
+export type LockoutStatusResponse = Static<typeof LockoutStatusResponseSchema>;
 export type ErrorResponse = Static<typeof ErrorSchema>;
 export type ValidationErrorResponse = Static<typeof ValidationErrorSchema>;
@@ -8,8 +8,77 @@ export {
   RefreshTokenSchema,
   UserSchema,
   AuthResponseSchema,
+  LoginResponseSchema,
+  RegisterResponseSchema,
   TokenResponseSchema,
   MessageResponseSchema,
+  SessionSchema,
+  SessionListResponseSchema,
+  SessionParamsSchema,
+  RevokeSessionsResponseSchema,
+  ForgotPasswordSchema,
+  ResetPasswordSchema,
+  ChangePasswordSchema,
+  VerifyEmailSchema,
+  ResendVerificationSchema,
+  UpdateProfileSchema,
+  EmailChangeSchema,
+  ConfirmEmailChangeSchema,
+  AccountDeletionSchema,
+  AccountDeletionResponseSchema,
+  MfaLoginSchema,
+  TotpCodeSchema,
+  DisableMfaSchema,
+  TotpEnrollmentResponseSchema,
+  RecoveryCodesResponseSchema,
+  MfaStatusResponseSchema,
+  PasskeyRegistrationOptionsSchema,
+  PasskeyAuthenticationOptionsSchema,
+  PasskeyAttestationSchema,
+  PasskeyAssertionSchema,
+  PasskeyRegistrationSchema,
+  PasskeyLoginSchema,
+  MfaChallengeSchema,
+  PasskeySchema,
+  PasskeyListResponseSchema,
+  PasskeyParamsSchema,
+  IdentityProviderSchema,
+  IdentityProviderListResponseSchema,
+  IdentityProviderParamsSchema,
+  ExternalLoginStartResponseSchema,
+  ExternalLoginCallbackSchema,
+  IdentitySchema,
+  IdentityListResponseSchema,
+  IdentityParamsSchema,
+  OAuthClientRegistrationSchema,
+  OAuthClientSchema,
+  OAuthClientRegistrationResponseSchema,
+  OAuthClientListResponseSchema,
+  OAuthClientParamsSchema,
+  OAuthAuthorizeQuerySchema,
+  OAuthAuthorizeSchema,
+  OAuthAuthorizationPromptSchema,
+  OAuthAuthorizeResponseSchema,
+  OAuthTokenRequestSchema,
+  OAuthTokenResponseSchema,
+  OAuthTokenActionSchema,
+  OAuthIntrospectionResponseSchema,
+  OAuthErrorSchema,
+  OAuthConsentSchema,
+  OAuthConsentListResponseSchema,
+  OAuthConsentParamsSchema,
+  ApiKeyCreateSchema,
+  ApiKeySchema,
+  IssuedApiKeyResponseSchema,
+  ApiKeyListQuerySchema,
+  ApiKeyListResponseSchema,
+  ApiKeyParamsSchema,
+  ServiceAccountCreateSchema,
+  ServiceAccountSchema,
+  ServiceAccountListResponseSchema,
+  ServiceAccountParamsSchema,
+  LockoutQuerySchema,
+  LockoutStatusResponseSchema,
   ErrorSchema,
   ValidationErrorSchema
 } from './auth.schemas';
@@ -21,8 +90,77 @@ export type {
   RefreshTokenRequest,
   User,
   AuthResponse,
+  LoginResponse,
+  RegisterResponse,
   TokenResponse,
   MessageResponse,
+  Session,
+  SessionListResponse,
+  SessionParams,
+  RevokeSessionsResponse,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  ChangePasswordBody,
+  VerifyEmailRequest,
+  ResendVerificationRequest,
+  UpdateProfileBody,
+  EmailChangeBody,
+  ConfirmEmailChangeRequest,
+  AccountDeletionBody,
+  AccountDeletionResponse,
+  MfaLoginBody,
+  TotpCodeRequest,
+  DisableMfaRequest,
+  TotpEnrollmentResponse,
+  RecoveryCodesResponse,
+  MfaStatusResponse,
+  PasskeyRegistrationOptions,
+  PasskeyAuthenticationOptions,
+  PasskeyAttestation,
+  PasskeyAssertion,
+  PasskeyRegistrationRequest,
+  PasskeyLoginRequest,
+  MfaChallengeRequest,
+  Passkey,
+  PasskeyListResponse,
+  PasskeyParams,
+  IdentityProvider,
+  IdentityProviderListResponse,
+  IdentityProviderParams,
+  ExternalLoginStartResponse,
+  ExternalLoginCallbackRequest,
+  Identity,
+  IdentityListResponse,
+  IdentityParams,
+  OAuthClientRegistrationRequest,
+  OAuthClient,
+  OAuthClientRegistrationResponse,
+  OAuthClientListResponse,
+  OAuthClientParams,
+  OAuthAuthorizeQuery,
+  OAuthAuthorizeRequest,
+  OAuthAuthorizationPrompt,
+  OAuthAuthorizeResponse,
+  OAuthTokenRequest,
+  OAuthTokenResponse,
+  OAuthTokenActionRequest,
+  OAuthIntrospectionResponse,
+  OAuthErrorResponse,
+  OAuthConsent,
+  OAuthConsentListResponse,
+  OAuthConsentParams,
+  ApiKeyCreateRequest,
+  ApiKey,
+  IssuedApiKeyResponse,
+  ApiKeyListQuery,
+  ApiKeyListResponse,
+  ApiKeyParams,
+  ServiceAccountCreateRequest,
+  ServiceAccount,
+  ServiceAccountListResponse,
+  ServiceAccountParams,
+  LockoutQueryRequest,
+  LockoutStatusResponse,
   ErrorResponse,
   ValidationErrorResponse
 } from './auth.schemas';
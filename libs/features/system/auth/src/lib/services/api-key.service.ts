@@ -0,0 +1,361 @@
+import { injectable } from 'tsyringe';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  ApiKeyRepository,
+  DbApiKey,
+  DbServiceAccount
+} from '../repositories/api-key.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { SecurityEvents } from '../events/security-events';
+import {
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError
+} from '../errors/auth.errors';
+
+/**
+ * API key creation request
+ */
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: string[]; // Permissions in resource:action form
+  expiresAt?: Date;
+  serviceAccountId?: string; // Issue the key to a service account of the user
+}
+
+/**
+ * API key as listed (never includes the secret)
+ */
+export interface ApiKeyData {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  serviceAccountId?: string;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Created or rotated key; the full key is shown once
+ */
+export interface IssuedApiKey {
+  apiKey: ApiKeyData;
+  key: string;
+}
+
+/**
+ * Service account creation request
+ */
+export interface CreateServiceAccountRequest {
+  name: string;
+  description?: string;
+}
+
+/**
+ * Service account as listed
+ */
+export interface ServiceAccountData {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: Date;
+}
+
+/**
+ * Who an API key authenticates: its user, or its service account acting
+ * with the permissions of the owner. Scopes cap those permissions.
+ */
+export interface ApiKeyPrincipal {
+  id: string;
+  email: string; // Empty for service accounts
+  apiKeyId: string;
+  scopes: string[];
+  ownerId?: string; // Set for service accounts
+  tenantId?: string; // Tenant of the user or service account owner
+}
+
+/**
+ * API key service settings
+ */
+export interface ApiKeyServiceOptions {
+  lastUsedInterval?: number; // Seconds between last-used updates, default: 60
+}
+
+// agx_<key id>_<secret>; the part before the secret is stored as prefix
+const API_KEY_PATTERN = /^(agx_[0-9a-f]{12})_([0-9a-f]{64})$/;
+const SCOPE_PATTERN = /^(\*|[a-z0-9][a-z0-9_.-]*):(\*|[a-z0-9][a-z0-9_.-]*)$/i;
+
+/**
+ * API keys for machine-to-machine access and the service accounts that
+ * own them. Keys are random, prefixed and stored as SHA-256 hashes.
+ */
+@injectable()
+export class ApiKeyService {
+  private readonly lastUsedInterval: number;
+
+  constructor(
+    private apiKeyRepository: ApiKeyRepository,
+    private userRepository: UserRepository,
+    private securityEvents: SecurityEvents = new SecurityEvents(),
+    options: ApiKeyServiceOptions = {}
+  ) {
+    this.lastUsedInterval = (options.lastUsedInterval ?? 60) * 1000;
+  }
+
+  /**
+   * Create a key for the user or one of their service accounts
+   */
+  async createApiKey(userId: string, request: CreateApiKeyRequest): Promise<IssuedApiKey> {
+    const { name, scopes, expiresAt, serviceAccountId } = request;
+
+    if (!name?.trim()) {
+      throw new ValidationError('API key name is required', 'name');
+    }
+    if (!scopes?.length) {
+      throw new ValidationError('At least one scope is required', 'scopes');
+    }
+    const invalidScope = scopes.find((scope) => !SCOPE_PATTERN.test(scope));
+    if (invalidScope) {
+      throw new ValidationError(`Invalid scope: ${invalidScope}`, 'scopes');
+    }
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new ValidationError('Expiry must be in the future', 'expiresAt');
+    }
+    if (serviceAccountId) {
+      await this.getServiceAccount(userId, serviceAccountId);
+    }
+
+    const { key, prefix, keyHash } = this.generateKey();
+    const apiKey = await this.apiKeyRepository.createApiKey({
+      userId: serviceAccountId ? undefined : userId,
+      serviceAccountId,
+      name: name.trim(),
+      prefix,
+      keyHash,
+      scopes: [...new Set(scopes)],
+      expiresAt,
+      createdBy: userId
+    });
+
+    await this.securityEvents.emit('api_key_created', userId, {
+      apiKeyId: apiKey.id,
+      serviceAccountId,
+      scopes: apiKey.scopes
+    });
+
+    return { apiKey: this.toApiKeyData(apiKey), key };
+  }
+
+  /**
+   * Keys of the user, or of one of their service accounts
+   */
+  async listApiKeys(userId: string, serviceAccountId?: string): Promise<ApiKeyData[]> {
+    if (serviceAccountId) {
+      await this.getServiceAccount(userId, serviceAccountId);
+    }
+
+    const apiKeys = await this.apiKeyRepository.listApiKeys(
+      serviceAccountId ? { serviceAccountId } : { userId }
+    );
+    return apiKeys.map((apiKey) => this.toApiKeyData(apiKey));
+  }
+
+  /**
+   * Replace the secret of a key; the old key stops working immediately
+   */
+  async rotateApiKey(userId: string, id: string): Promise<IssuedApiKey> {
+    await this.getManagedApiKey(userId, id);
+
+    const { key, prefix, keyHash } = this.generateKey();
+    const apiKey = await this.apiKeyRepository.rotateApiKey(id, prefix, keyHash);
+    if (!apiKey) {
+      throw new NotFoundError('API key not found');
+    }
+
+    await this.securityEvents.emit('api_key_rotated', userId, { apiKeyId: id });
+
+    return { apiKey: this.toApiKeyData(apiKey), key };
+  }
+
+  /**
+   * Revoke a key
+   */
+  async revokeApiKey(userId: string, id: string): Promise<void> {
+    await this.getManagedApiKey(userId, id);
+
+    if (!(await this.apiKeyRepository.revokeApiKey(id))) {
+      throw new NotFoundError('API key not found');
+    }
+
+    await this.securityEvents.emit('api_key_revoked', userId, { apiKeyId: id });
+  }
+
+  /**
+   * Resolve the principal of an `X-API-Key` header value and record its use
+   */
+  async authenticate(key: string, ipAddress?: string): Promise<ApiKeyPrincipal> {
+    const match = API_KEY_PATTERN.exec(key);
+    const apiKey = match && (await this.apiKeyRepository.findApiKeyByPrefix(match[1]));
+
+    if (!apiKey || apiKey.revoked_at || !this.safeEqual(this.hash(key), apiKey.key_hash)) {
+      throw new UnauthorizedError('Invalid API key');
+    }
+    if (apiKey.expires_at && apiKey.expires_at.getTime() <= Date.now()) {
+      throw new UnauthorizedError('API key has expired');
+    }
+
+    const principal = await this.resolvePrincipal(apiKey);
+
+    const lastUsedAt = apiKey.last_used_at?.getTime() ?? 0;
+    if (Date.now() - lastUsedAt >= this.lastUsedInterval) {
+      await this.apiKeyRepository.touchApiKey(apiKey.id, ipAddress);
+    }
+
+    return principal;
+  }
+
+  /**
+   * Create a service account owned by the user
+   */
+  async createServiceAccount(
+    ownerId: string,
+    request: CreateServiceAccountRequest
+  ): Promise<ServiceAccountData> {
+    const name = request.name?.trim();
+    if (!name) {
+      throw new ValidationError('Service account name is required', 'name');
+    }
+    if (await this.apiKeyRepository.findServiceAccountByName(ownerId, name)) {
+      throw new ConflictError('A service account with this name already exists');
+    }
+
+    const serviceAccount = await this.apiKeyRepository.createServiceAccount({
+      name,
+      description: request.description,
+      ownerId
+    });
+
+    await this.securityEvents.emit('service_account_created', ownerId, {
+      serviceAccountId: serviceAccount.id
+    });
+
+    return this.toServiceAccountData(serviceAccount);
+  }
+
+  /**
+   * Service accounts owned by the user
+   */
+  async listServiceAccounts(ownerId: string): Promise<ServiceAccountData[]> {
+    const serviceAccounts = await this.apiKeyRepository.listServiceAccounts(ownerId);
+    return serviceAccounts.map((serviceAccount) => this.toServiceAccountData(serviceAccount));
+  }
+
+  /**
+   * Delete a service account together with its keys
+   */
+  async deleteServiceAccount(ownerId: string, id: string): Promise<void> {
+    if (!(await this.apiKeyRepository.deleteServiceAccount(ownerId, id))) {
+      throw new NotFoundError('Service account not found');
+    }
+
+    await this.securityEvents.emit('service_account_deleted', ownerId, { serviceAccountId: id });
+  }
+
+  private async resolvePrincipal(apiKey: DbApiKey): Promise<ApiKeyPrincipal> {
+    if (apiKey.service_account_id) {
+      const serviceAccount = await this.apiKeyRepository.findServiceAccount(apiKey.service_account_id);
+      const owner = serviceAccount && (await this.userRepository.findById(serviceAccount.owner_id));
+      if (!serviceAccount?.is_active || !owner?.is_active) {
+        throw new UnauthorizedError('Invalid API key');
+      }
+
+      return {
+        id: serviceAccount.id,
+        email: '',
+        apiKeyId: apiKey.id,
+        scopes: apiKey.scopes,
+        ownerId: owner.id,
+        ...(owner.tenant_id ? { tenantId: owner.tenant_id } : {})
+      };
+    }
+
+    const user = apiKey.user_id ? await this.userRepository.findById(apiKey.user_id) : null;
+    if (!user?.is_active) {
+      throw new UnauthorizedError('Invalid API key');
+    }
+
+    return {
+      id: user.id,
+      email: user.email,
+      apiKeyId: apiKey.id,
+      scopes: apiKey.scopes,
+      ...(user.tenant_id ? { tenantId: user.tenant_id } : {})
+    };
+  }
+
+  private async getServiceAccount(ownerId: string, id: string): Promise<DbServiceAccount> {
+    const serviceAccount = await this.apiKeyRepository.findServiceAccount(id);
+    if (!serviceAccount || serviceAccount.owner_id !== ownerId) {
+      throw new NotFoundError('Service account not found');
+    }
+    return serviceAccount;
+  }
+
+  /**
+   * A key of the user or of one of their service accounts
+   */
+  private async getManagedApiKey(userId: string, id: string): Promise<DbApiKey> {
+    const apiKey = await this.apiKeyRepository.findApiKey(id);
+    if (apiKey?.user_id === userId) {
+      return apiKey;
+    }
+    if (apiKey?.service_account_id) {
+      const serviceAccount = await this.apiKeyRepository.findServiceAccount(apiKey.service_account_id);
+      if (serviceAccount?.owner_id === userId) {
+        return apiKey;
+      }
+    }
+    throw new NotFoundError('API key not found');
+  }
+
+  private generateKey(): { key: string; prefix: string; keyHash: string } {
+    const prefix = `agx_${randomBytes(6).toString('hex')}`;
+    const key = `${prefix}_${randomBytes(32).toString('hex')}`;
+    return { key, prefix, keyHash: this.hash(key) };
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+
+  private toApiKeyData(apiKey: DbApiKey): ApiKeyData {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      serviceAccountId: apiKey.service_account_id ?? undefined,
+      expiresAt: apiKey.expires_at ?? undefined,
+      lastUsedAt: apiKey.last_used_at ?? undefined,
+      createdAt: apiKey.created_at
+    };
+  }
+
+  private toServiceAccountData(serviceAccount: DbServiceAccount): ServiceAccountData {
+    return {
+      id: serviceAccount.id,
+      name: serviceAccount.name,
+      description: serviceAccount.description ?? undefined,
+      createdAt: serviceAccount.created_at
+    };
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+}
@@ -1,11 +1,49 @@
 import { injectable } from 'tsyringe';
-import { UserRepository, CreateUserInput } from '../repositories/user.repository';
-import { TokenService } from '@aegisx/core-auth';
+import {
+  UserRepository,
+  CreateUserInput,
+  DbRefreshToken,
+  DbSession,
+  DbIdentity,
+  DbUser,
+  DbUserMfa,
+  DbWebAuthnCredential,
+  UpdateProfileInput,
+  WebAuthnCeremony
+} from '../repositories/user.repository';
+import {
+  AccessTokenClaims,
+  AuthenticationOptionsJSON,
+  AuthenticationResponseJSON,
+  ChangePasswordRequest,
+  JwtPayload,
+  LoginThrottle,
+  LoginThrottleStatus,
+  OidcClient,
+  OidcIdTokenClaims,
+  OidcProviderConfig,
+  PasswordPolicy,
+  PasswordRuleCode,
+  RegistrationOptionsJSON,
+  RegistrationResponseJSON,
+  TokenService,
+  Totp,
+  WebAuthn,
+  WebAuthnConfig,
+  WebAuthnCredential
+} from '@aegisx/core-auth';
+import { randomBytes } from 'crypto';
+import { SecurityEvents } from '../events/security-events';
+import { InMemoryMailSender, MailSender } from '../mail/mail-sender';
 import {
   UnauthorizedError,
   ConflictError,
   ValidationError,
-  InvalidTokenError
+  InvalidTokenError,
+  NotFoundError,
+  EmailNotVerifiedError,
+  TooManyRequestsError,
+  IdentityProviderError
 } from '../errors/auth.errors';
 
 /**
@@ -16,6 +54,29 @@ export interface LoginCredentials {
   password: string;
 }
 
+/**
+ * Client information recorded with a new session
+ */
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+  deviceInfo?: string;
+}
+
+/**
+ * Session data for responses
+ */
+export interface SessionData {
+  id: string;
+  deviceInfo?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
 /**
  * Authentication result
  */
@@ -31,6 +92,109 @@ export interface AuthResult {
   expiresIn: number;
 }
 
+/**
+ * Login result when a second factor is still required.
+ * Exchange the challenge token and a code at completeMfaLogin.
+ */
+export interface MfaChallengeResult {
+  mfaRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+  methods: MfaMethod[];
+}
+
+export type MfaMethod = 'totp' | 'recovery_code' | 'passkey';
+
+/**
+ * Second login step: a TOTP code, one of the recovery codes or a passkey
+ * assertion (options from startPasskeyLogin with the challenge token)
+ */
+export interface MfaLoginRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+  passkey?: AuthenticationResponseJSON;
+}
+
+/**
+ * Passkey data for responses
+ */
+export interface PasskeyData {
+  id: string;
+  name?: string;
+  transports: string[];
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+/**
+ * Pending TOTP enrollment (show otpauthUri as a QR code)
+ */
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * MFA state of a user
+ */
+export interface MfaStatus {
+  totpEnabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * External OpenID Connect provider users can sign in with
+ */
+export interface IdentityProviderConfig extends OidcProviderConfig {
+  id: string; // URL segment, e.g. 'google'
+  name?: string; // Shown on the login page, default: id
+  autoProvision?: boolean; // Create an account on first login, default: true
+}
+
+/**
+ * Identity provider offered on the login page
+ */
+export interface IdentityProviderData {
+  id: string;
+  name: string;
+}
+
+/**
+ * Parameters the identity provider redirects back with
+ */
+export interface ExternalLoginCallback {
+  code: string;
+  state: string;
+}
+
+/**
+ * External account linked to a user
+ */
+export interface IdentityData {
+  id: string;
+  provider: string;
+  email?: string;
+  createdAt: Date;
+  lastLoginAt?: Date;
+}
+
+/**
+ * Change password behaviour
+ */
+export interface ChangePasswordOptions {
+  currentSessionId?: string; // Kept when other sessions are revoked
+  revokeOtherSessions?: boolean; // default: true
+}
+
+/**
+ * Registration result while the email address awaits verification
+ */
+export interface PendingVerificationResult {
+  user: AuthResult['user'];
+  emailVerificationRequired: true;
+}
+
 /**
  * User data for responses
  */
@@ -40,24 +204,124 @@ export interface UserData {
   firstName: string;
   lastName: string;
   emailVerified: boolean;
+  avatarUrl?: string;
+  locale?: string;
+  timezone?: string;
+  deletionScheduledAt?: Date; // Set while an account deletion is pending
   lastLoginAt?: Date;
   createdAt: Date;
 }
 
+/**
+ * Profile changes of the signed-in user (null clears a preference)
+ */
+export interface UpdateProfileRequest {
+  firstName?: string;
+  lastName?: string;
+  avatarUrl?: string | null; // https URL
+  locale?: string | null; // BCP 47 language tag, e.g. th-TH
+  timezone?: string | null; // IANA time zone, e.g. Asia/Bangkok
+}
+
+/**
+ * Pending account deletion
+ */
+export interface AccountDeletionResult {
+  deletionScheduledAt: Date;
+}
+
+/**
+ * Roles and permission version of a user from the RBAC plugin
+ * (`fastify.rbac`), carried by their access tokens
+ */
+export interface PermissionClaimSource {
+  getEffectivePermissions(userId: string): Promise<{ roles: string[] }>;
+  getPermissionVersion(userId: string): Promise<number>;
+}
+
+/**
+ * Auth service settings
+ */
+export interface AuthServiceOptions {
+  passwordResetUrl?: string; // Link sent by email; the token is appended as ?token=
+  passwordResetTokenTtl?: number; // Minutes, default: 60
+  requireEmailVerification?: boolean; // Refuse login (and register sessions) until verified
+  emailVerificationUrl?: string; // Link sent by email; the token is appended as ?token=
+  emailVerificationTokenTtl?: number; // Hours, default: 24
+  emailVerificationResendCooldown?: number; // Seconds between verification emails, default: 60
+  emailVerificationMaxPerHour?: number; // Verification emails per user and hour, default: 5
+  emailChangeUrl?: string; // Link sent to the new address; the token is appended as ?token=
+  emailChangeTokenTtl?: number; // Hours, default: 24
+  accountDeletionGracePeriod?: number; // Days before a requested deletion is carried out, default: 30
+  passwordPolicy?: PasswordPolicy; // Rules for new passwords, default: core-auth defaults
+  passwordHistorySize?: number; // Recent passwords that cannot be reused, default: 5 (0 disables)
+  mfaIssuer?: string; // Shown by authenticator apps, default: 'AegisX'
+  mfaChallengeTtl?: number; // Seconds to complete the second login step, default: 300
+  recoveryCodeCount?: number; // Recovery codes issued per enrollment, default: 10
+  webAuthn?: WebAuthnConfig; // Relying party for passkeys, default: localhost:4200
+  webAuthnChallengeTtl?: number; // Seconds to finish a passkey ceremony, default: 300
+  identityProviders?: IdentityProviderConfig[]; // External OpenID Connect login
+  oidcLoginStateTtl?: number; // Seconds to return from the identity provider, default: 600
+  loginThrottle?: LoginThrottle; // Failed sign-in limits, default: 5 per account, 20 per IP, 30 minute lockout
+  permissionClaims?: PermissionClaimSource; // Roles and permission version in access tokens, default: none
+}
+
+/**
+ * Account (by id or email) and/or IP address to inspect or unlock
+ */
+export interface LockoutQuery {
+  userId?: string;
+  email?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Sign-in throttling state of an account and/or IP address
+ */
+export interface LockoutStatus {
+  account?: LoginThrottleStatus & { userId: string; email: string };
+  ip?: LoginThrottleStatus & { ipAddress: string };
+}
+
 /**
  * Real Authentication Service with Knex database integration
  */
 @injectable()
 export class AuthService {
+  private readonly passwordPolicy: PasswordPolicy;
+  private readonly loginThrottle: LoginThrottle;
+  private readonly totp = new Totp();
+  private readonly webAuthn: WebAuthn;
+  private readonly identityProviders = new Map<string, { config: IdentityProviderConfig; client: OidcClient }>();
+
   constructor(
     private userRepository: UserRepository,
-    private tokenService: TokenService
-  ) {}
+    private tokenService: TokenService,
+    private securityEvents: SecurityEvents = new SecurityEvents(),
+    private mailSender: MailSender = new InMemoryMailSender(),
+    private options: AuthServiceOptions = {}
+  ) {
+    this.passwordPolicy = options.passwordPolicy ?? new PasswordPolicy();
+    this.loginThrottle = options.loginThrottle ?? new LoginThrottle({ maxAttempts: 5, lockoutDuration: 30 });
+    this.webAuthn = new WebAuthn(
+      options.webAuthn ?? {
+        rpId: 'localhost',
+        rpName: 'AegisX',
+        origins: ['http://localhost:4200']
+      }
+    );
+    for (const config of options.identityProviders ?? []) {
+      this.identityProviders.set(config.id, { config, client: new OidcClient(config) });
+    }
+  }
 
   /**
    * Authenticate user and return tokens
    */
-  async login(credentials: LoginCredentials): Promise<AuthResult> {
+  async login(
+    credentials: LoginCredentials,
+    context: SessionContext = {}
+  ): Promise<AuthResult | MfaChallengeResult> {
     const { email, password } = credentials;
 
     // Validate input
@@ -67,234 +331,1651 @@ export class AuthService {
 
     // Find user by email
     const user = await this.userRepository.findByEmail(email.toLowerCase());
-    if (!user) {
-      throw new UnauthorizedError('Invalid email or password');
-    }
 
-    // Check if account is locked
-    const isLocked = await this.userRepository.isAccountLocked(user);
-    if (isLocked) {
-      throw new UnauthorizedError('Account is temporarily locked due to multiple failed login attempts');
+    // Locked or backing off: refuse before checking the password
+    await this.assertLoginAllowed(user, context.ipAddress);
+    if (!user) {
+      return this.recordFailedLogin(null, 'Invalid email or password', context);
     }
 
     // Verify password
     const isPasswordValid = await this.userRepository.verifyPassword(user, password);
     if (!isPasswordValid) {
-      // Increment login attempts
-      await this.userRepository.incrementLoginAttempts(user.id);
-      
-      // Lock account after 5 failed attempts
-      if (user.login_attempts >= 4) { // 4 because we just incremented
-        await this.userRepository.lockAccount(user.id, 30); // 30 minutes
-        throw new UnauthorizedError('Account locked due to multiple failed login attempts');
-      }
-      
-      throw new UnauthorizedError('Invalid email or password');
+      await this.recordFailedLogin(user, 'Invalid email or password', context);
     }
 
-    // Generate tokens using core service
-    const accessToken = this.tokenService.generateAccessToken(
-      user.id,
-      user.email
-    );
-    
-    const refreshToken = this.tokenService.generateRefreshToken(
-      user.id,
-      user.email
-    );
-
-    // Store refresh token hash in database
-    const refreshTokenHash = this.hashToken(refreshToken);
-    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-    await this.userRepository.storeRefreshToken(user.id, refreshTokenHash, expiresAt);
-
-    // Update last login
-    await this.userRepository.updateLastLogin(user.id);
+    if (this.options.requireEmailVerification && !user.email_verified) {
+      throw new EmailNotVerifiedError();
+    }
 
-    return {
-      accessToken,
-      refreshToken,
-      expiresIn: 15 * 60, // 15 minutes in seconds
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.first_name,
-        lastName: user.last_name
-      }
-    };
+    return this.signIn(user, context);
   }
 
   /**
-   * Register new user
+   * Finish a login that returned an MFA challenge.
+   * Wrong codes count as failed login attempts.
    */
-  async register(userData: CreateUserInput): Promise<AuthResult> {
-    const { email, password, firstName, lastName } = userData;
+  async completeMfaLogin(request: MfaLoginRequest, context: SessionContext = {}): Promise<AuthResult> {
+    const { challengeToken, code, recoveryCode, passkey } = request;
 
-    // Validate input
-    if (!email || !password || !firstName || !lastName) {
-      throw new ValidationError('All fields are required');
+    if (!challengeToken || (!code && !recoveryCode && !passkey)) {
+      throw new ValidationError('Challenge token and a verification code, recovery code or passkey are required');
     }
 
-    if (password.length < 6) {
-      throw new ValidationError('Password must be at least 6 characters long');
+    const payload = await this.verifyMfaChallenge(challengeToken);
+    const user = await this.userRepository.findById(payload.sub);
+    const mfa = user && (await this.userRepository.findMfa(user.id));
+    if (!user || !mfa?.confirmed_at) {
+      throw new InvalidTokenError('Invalid or expired MFA challenge');
     }
 
-    // Check if user already exists
-    const existingUser = await this.userRepository.findByEmail(email.toLowerCase());
-    if (existingUser) {
-      throw new ConflictError('User with this email already exists');
+    await this.assertLoginAllowed(user, context.ipAddress);
+
+    let verified: boolean;
+    if (code) {
+      verified = await this.useTotpCode(mfa, code);
+    } else if (recoveryCode) {
+      verified = await this.useRecoveryCode(user.id, recoveryCode);
+    } else {
+      verified = await this.usePasskey(passkey as AuthenticationResponseJSON, user.id);
+    }
+    if (!verified) {
+      await this.recordFailedLogin(user, 'Invalid verification code', context);
     }
 
-    // Create user
-    const newUser = await this.userRepository.create({
-      email: email.toLowerCase(),
-      password,
-      firstName,
-      lastName
-    });
+    // Challenges are single-use where a denylist is available
+    if (this.tokenService.denylist && payload.jti) {
+      await this.tokenService.revokeTokenId(payload.jti);
+    }
 
-    // Generate tokens
-    const accessToken = this.tokenService.generateAccessToken(
-      newUser.id,
-      newUser.email
-    );
-    
-    const refreshToken = this.tokenService.generateRefreshToken(
-      newUser.id,
-      newUser.email
-    );
+    if (recoveryCode && !code) {
+      await this.securityEvents.emit('mfa_recovery_code_used', user.id, {
+        remaining: await this.userRepository.countRecoveryCodes(user.id)
+      });
+    }
 
-    // Store refresh token
-    const refreshTokenHash = this.hashToken(refreshToken);
-    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-    await this.userRepository.storeRefreshToken(newUser.id, refreshTokenHash, expiresAt);
+    const result = await this.startSession(user, context);
+    await this.recordSuccessfulLogin(user.id);
 
-    return {
-      accessToken,
-      refreshToken,
-      expiresIn: 15 * 60, // 15 minutes in seconds
-      user: {
-        id: newUser.id,
-        email: newUser.email,
-        firstName: newUser.first_name,
-        lastName: newUser.last_name
-      }
-    };
+    return result;
   }
 
   /**
-   * Refresh access token
+   * Failed sign-ins, backoff and lock of an account and/or IP address
    */
-  async refreshToken(refreshToken: string): Promise<{ accessToken: string; refreshToken: string; expiresIn: number }> {
-    if (!refreshToken) {
-      throw new ValidationError('Refresh token is required');
+  async getLockoutStatus(query: LockoutQuery): Promise<LockoutStatus> {
+    const user = await this.findLockoutUser(query);
+    const status: LockoutStatus = {};
+
+    if (user) {
+      status.account = { userId: user.id, email: user.email, ...(await this.getAccountLockout(user)) };
+    }
+    if (query.ipAddress) {
+      status.ip = { ipAddress: query.ipAddress, ...(await this.loginThrottle.status('ip', query.ipAddress)) };
     }
 
-    // Hash the token to find in database
-    const tokenHash = this.hashToken(refreshToken);
-    
-    // Find refresh token in database
-    const dbToken = await this.userRepository.findRefreshToken(tokenHash);
-    if (!dbToken) {
-      throw new InvalidTokenError('Invalid or expired refresh token');
+    return status;
+  }
+
+  /**
+   * Lift the lock and forget the failed sign-ins of an account and/or
+   * IP address (admin action); returns the new status
+   */
+  async unlock(query: LockoutQuery, unlockedBy: string): Promise<LockoutStatus> {
+    const user = await this.findLockoutUser(query);
+
+    if (user) {
+      await this.loginThrottle.reset('account', user.id);
+      await this.userRepository.unlockAccount(user.id);
+      await this.securityEvents.emit('account_unlocked', user.id, { unlockedBy });
+    }
+    if (query.ipAddress) {
+      await this.loginThrottle.reset('ip', query.ipAddress);
+      await this.securityEvents.emit('ip_unlocked', '', { ipAddress: query.ipAddress, unlockedBy });
     }
 
-    // Get user
-    const user = await this.userRepository.findById(dbToken.user_id);
+    return this.getLockoutStatus(query);
+  }
+
+  /**
+   * Start TOTP enrollment; MFA is enabled once a code is confirmed.
+   * Starting again replaces a pending (unconfirmed) secret.
+   */
+  async startTotpEnrollment(userId: string): Promise<TotpEnrollment> {
+    const user = await this.userRepository.findById(userId);
     if (!user) {
-      throw new InvalidTokenError('User not found');
+      throw new UnauthorizedError('User not found');
     }
 
-    // Generate new tokens
-    const newAccessToken = this.tokenService.generateAccessToken(
-      user.id,
-      user.email
-    );
-    
-    const newRefreshToken = this.tokenService.generateRefreshToken(
-      user.id,
-      user.email
-    );
-
-    // Revoke old refresh token
-    await this.userRepository.revokeRefreshToken(tokenHash);
+    const mfa = await this.userRepository.findMfa(user.id);
+    if (mfa?.confirmed_at) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
 
-    // Store new refresh token
-    const newRefreshTokenHash = this.hashToken(newRefreshToken);
-    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-    await this.userRepository.storeRefreshToken(user.id, newRefreshTokenHash, expiresAt);
+    const secret = Totp.generateSecret();
+    await this.userRepository.savePendingTotpSecret(user.id, secret);
 
     return {
-      accessToken: newAccessToken,
-      refreshToken: newRefreshToken,
-      expiresIn: 15 * 60 // 15 minutes in seconds
+      secret,
+      otpauthUri: this.totp.keyUri({
+        secret,
+        accountName: user.email,
+        issuer: this.options.mfaIssuer ?? 'AegisX'
+      })
     };
   }
 
   /**
-   * Logout user
+   * Confirm enrollment with a code from the authenticator app.
+   * Returns the recovery codes; they are only shown this once.
    */
-  async logout(refreshToken?: string): Promise<void> {
-    if (refreshToken) {
-      const tokenHash = this.hashToken(refreshToken);
-      await this.userRepository.revokeRefreshToken(tokenHash);
+  async confirmTotpEnrollment(userId: string, code: string): Promise<string[]> {
+    if (!code) {
+      throw new ValidationError('Verification code is required', 'code');
+    }
+
+    const mfa = await this.userRepository.findMfa(userId);
+    if (!mfa) {
+      throw new NotFoundError('No pending two-factor enrollment');
+    }
+    if (mfa.confirmed_at) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    const step = this.totp.verify(mfa.totp_secret, code);
+    if (step === null) {
+      throw new ValidationError('Invalid verification code', 'code');
     }
+
+    await this.userRepository.confirmTotp(userId, step);
+    const recoveryCodes = await this.issueRecoveryCodes(userId);
+
+    await this.securityEvents.emit('mfa_enabled', userId);
+
+    return recoveryCodes;
   }
 
   /**
-   * Logout all devices
+   * Replace the recovery codes (requires a current TOTP code)
    */
-  async logoutAll(userId: string): Promise<void> {
-    await this.userRepository.revokeAllUserTokens(userId);
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    if (!code) {
+      throw new ValidationError('Verification code is required', 'code');
+    }
+
+    const mfa = await this.userRepository.findMfa(userId);
+    if (!mfa?.confirmed_at) {
+      throw new NotFoundError('Two-factor authentication is not enabled');
+    }
+
+    if (!(await this.useTotpCode(mfa, code))) {
+      throw new ValidationError('Invalid verification code', 'code');
+    }
+
+    return this.issueRecoveryCodes(userId);
   }
 
   /**
-   * Get user by access token
+   * Turn MFA off after confirming the password
    */
-  async getCurrentUser(accessToken: string): Promise<UserData> {
-    try {
-      const payload = this.tokenService.verifyAccessToken(accessToken);
-      
-      const user = await this.userRepository.findById(payload.sub);
-      if (!user) {
-        throw new UnauthorizedError('User not found');
-      }
+  async disableMfa(userId: string, password: string): Promise<void> {
+    if (!password) {
+      throw new ValidationError('Password is required', 'password');
+    }
 
-      return {
-        id: user.id,
-        email: user.email,
-        firstName: user.first_name,
-        lastName: user.last_name,
-        emailVerified: user.email_verified,
-        lastLoginAt: user.last_login_at || undefined,
-        createdAt: user.created_at
-      };
-    } catch (error) {
-      if ((error as Error).message.includes('TOKEN') || (error as Error).message.includes('token')) {
-        throw new UnauthorizedError('Invalid or expired token');
-      }
-      throw error;
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
     }
+
+    if (!(await this.userRepository.verifyPassword(user, password))) {
+      throw new ValidationError('Password is incorrect', 'password');
+    }
+
+    const mfa = await this.userRepository.findMfa(user.id);
+    if (!mfa?.confirmed_at) {
+      throw new NotFoundError('Two-factor authentication is not enabled');
+    }
+
+    await this.userRepository.deleteMfa(user.id);
+    await this.securityEvents.emit('mfa_disabled', user.id);
   }
 
   /**
-   * Verify if user has valid session
+   * Whether MFA is on and how many recovery codes are left
    */
-  async verifySession(accessToken: string): Promise<boolean> {
-    try {
-      const payload = this.tokenService.verifyAccessToken(accessToken);
-      const user = await this.userRepository.findById(payload.sub);
-      return !!user && user.is_active;
-    } catch {
-      return false;
+  async getMfaStatus(userId: string): Promise<MfaStatus> {
+    const mfa = await this.userRepository.findMfa(userId);
+    if (!mfa?.confirmed_at) {
+      return { totpEnabled: false, recoveryCodesRemaining: 0 };
     }
+
+    return {
+      totpEnabled: true,
+      recoveryCodesRemaining: await this.userRepository.countRecoveryCodes(userId)
+    };
   }
 
   /**
-   * Clean up expired tokens (maintenance task)
+   * Options for registering a passkey of a signed-in user
    */
-  async cleanupExpiredTokens(): Promise<number> {
-    return this.userRepository.cleanupExpiredTokens();
+  async startPasskeyRegistration(userId: string): Promise<RegistrationOptionsJSON> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    const passkeys = await this.userRepository.listWebAuthnCredentials(user.id);
+    const challenge = await this.createWebAuthnChallenge('registration', user.id);
+
+    return this.webAuthn.registrationOptions({
+      challenge,
+      userId: user.id,
+      userName: user.email,
+      displayName: `${user.first_name} ${user.last_name}`,
+      excludeCredentials: passkeys.map((passkey) => this.toWebAuthnCredential(passkey))
+    });
+  }
+
+  /**
+   * Verify the authenticator's response and store the passkey
+   */
+  async finishPasskeyRegistration(
+    userId: string,
+    response: RegistrationResponseJSON,
+    name?: string
+  ): Promise<PasskeyData> {
+    const challenge = await this.consumeWebAuthnChallenge(response, 'registration');
+    if (!challenge || challenge.userId !== userId) {
+      throw new InvalidTokenError('Invalid or expired passkey challenge');
+    }
+
+    let registration;
+    try {
+      registration = this.webAuthn.verifyRegistration(response, challenge.value);
+    } catch (error) {
+      throw new ValidationError('Passkey could not be verified', (error as Error).message);
+    }
+
+    if (await this.userRepository.findWebAuthnCredential(registration.credentialId)) {
+      throw new ConflictError('Passkey is already registered');
+    }
+
+    const passkey = await this.userRepository.createWebAuthnCredential({
+      userId,
+      credentialId: registration.credentialId,
+      publicKey: registration.publicKey,
+      signCount: registration.counter,
+      transports: registration.transports,
+      name,
+      aaguid: registration.aaguid
+    });
+
+    await this.securityEvents.emit('passkey_registered', userId, { passkeyId: passkey.id });
+
+    return this.toPasskeyData(passkey);
+  }
+
+  /**
+   * Passkeys of a user
+   */
+  async listPasskeys(userId: string): Promise<PasskeyData[]> {
+    const passkeys = await this.userRepository.listWebAuthnCredentials(userId);
+    return passkeys.map((passkey) => this.toPasskeyData(passkey));
+  }
+
+  /**
+   * Remove a passkey of a user
+   */
+  async deletePasskey(userId: string, passkeyId: string): Promise<void> {
+    if (!(await this.userRepository.deleteWebAuthnCredential(userId, passkeyId))) {
+      throw new NotFoundError('Passkey not found');
+    }
+
+    await this.securityEvents.emit('passkey_removed', userId, { passkeyId });
+  }
+
+  /**
+   * Options for signing in with a passkey. Without a challenge token any
+   * discoverable passkey may answer (passwordless login); with an MFA
+   * challenge token only the user's passkeys are allowed (second factor).
+   */
+  async startPasskeyLogin(challengeToken?: string): Promise<AuthenticationOptionsJSON> {
+    if (!challengeToken) {
+      const challenge = await this.createWebAuthnChallenge('authentication', null);
+      return this.webAuthn.authenticationOptions({ challenge });
+    }
+
+    const payload = await this.verifyMfaChallenge(challengeToken);
+    const passkeys = await this.userRepository.listWebAuthnCredentials(payload.sub);
+    if (passkeys.length === 0) {
+      throw new NotFoundError('No passkeys registered');
+    }
+
+    const challenge = await this.createWebAuthnChallenge('authentication', payload.sub);
+    return this.webAuthn.authenticationOptions({
+      challenge,
+      allowCredentials: passkeys.map((passkey) => this.toWebAuthnCredential(passkey))
+    });
+  }
+
+  /**
+   * Passwordless login with a passkey (replaces password and second factor)
+   */
+  async finishPasskeyLogin(
+    response: AuthenticationResponseJSON,
+    context: SessionContext = {}
+  ): Promise<AuthResult> {
+    const passkey = response?.id && (await this.userRepository.findWebAuthnCredential(response.id));
+    const user = passkey && (await this.userRepository.findById(passkey.user_id));
+    if (!passkey || !user) {
+      throw new UnauthorizedError('Passkey not recognized');
+    }
+
+    await this.assertAccountUnlocked(user);
+
+    if (!(await this.usePasskey(response, null))) {
+      throw new UnauthorizedError('Passkey verification failed');
+    }
+
+    if (this.options.requireEmailVerification && !user.email_verified) {
+      throw new EmailNotVerifiedError();
+    }
+
+    const result = await this.startSession(user, context);
+    await this.recordSuccessfulLogin(user.id);
+
+    return result;
+  }
+
+  /**
+   * Identity providers configured for external login
+   */
+  listIdentityProviders(): IdentityProviderData[] {
+    return [...this.identityProviders.values()].map(({ config }) => ({
+      id: config.id,
+      name: config.name ?? config.id
+    }));
+  }
+
+  /**
+   * Start an external login: returns the provider URL to redirect the user to.
+   * State, nonce and PKCE verifier are kept until the callback.
+   */
+  async startExternalLogin(providerId: string): Promise<{ authorizationUrl: string }> {
+    const { client } = this.getIdentityProvider(providerId);
+
+    let request;
+    try {
+      request = await client.createAuthorizationRequest();
+    } catch {
+      throw new IdentityProviderError();
+    }
+
+    const ttlSeconds = this.options.oidcLoginStateTtl ?? 600;
+    await this.userRepository.storeOidcLoginState(
+      this.hashToken(request.state),
+      providerId,
+      request.nonce,
+      request.codeVerifier,
+      new Date(Date.now() + ttlSeconds * 1000)
+    );
+
+    return { authorizationUrl: request.url };
+  }
+
+  /**
+   * Finish an external login with the code and state from the provider.
+   * Known identities sign in their user; otherwise the identity is linked to
+   * the account with the same verified email, or a new account is created.
+   */
+  async completeExternalLogin(
+    providerId: string,
+    callback: ExternalLoginCallback,
+    context: SessionContext = {}
+  ): Promise<AuthResult | MfaChallengeResult> {
+    const provider = this.getIdentityProvider(providerId);
+
+    if (!callback?.code || !callback?.state) {
+      throw new ValidationError('Authorization code and state are required');
+    }
+
+    const loginState = await this.userRepository.consumeOidcLoginState(
+      this.hashToken(callback.state),
+      providerId
+    );
+    if (!loginState) {
+      throw new InvalidTokenError('Invalid or expired login state');
+    }
+
+    let claims: OidcIdTokenClaims;
+    try {
+      const tokens = await provider.client.exchangeCode(callback.code, loginState.code_verifier);
+      claims = await provider.client.verifyIdToken(tokens.id_token, loginState.nonce);
+    } catch (error) {
+      if ((error as Error).message === 'OIDC_DISCOVERY_FAILED') {
+        throw new IdentityProviderError();
+      }
+      throw new UnauthorizedError('External login failed');
+    }
+
+    const user = await this.findOrLinkExternalUser(provider.config, claims);
+
+    await this.assertAccountUnlocked(user);
+
+    return this.signIn(user, context);
+  }
+
+  /**
+   * External accounts linked to a user
+   */
+  async listIdentities(userId: string): Promise<IdentityData[]> {
+    const identities = await this.userRepository.listIdentities(userId);
+    return identities.map((identity) => this.toIdentityData(identity));
+  }
+
+  /**
+   * Unlink an external account from a user
+   */
+  async unlinkIdentity(userId: string, identityId: string): Promise<void> {
+    if (!(await this.userRepository.deleteIdentity(userId, identityId))) {
+      throw new NotFoundError('Identity not found');
+    }
+
+    await this.securityEvents.emit('identity_unlinked', userId, { identityId });
+  }
+
+  /**
+   * Create an account without starting a session (registration,
+   * administrators) and email a verification link
+   */
+  async createAccount(userData: CreateUserInput): Promise<DbUser> {
+    const { email, password, firstName, lastName } = userData;
+
+    // Validate input
+    if (!email || !password || !firstName || !lastName) {
+      throw new ValidationError('All fields are required');
+    }
+
+    this.validatePassword(password, email);
+
+    // Check if user already exists, deactivated accounts included
+    if (await this.userRepository.emailExists(email.toLowerCase())) {
+      throw new ConflictError('User with this email already exists');
+    }
+
+    // Create user
+    const newUser = await this.userRepository.create({
+      email: email.toLowerCase(),
+      password,
+      firstName,
+      lastName
+    });
+    await this.recordPasswordHistory(newUser.id, newUser.password_hash);
+
+    await this.sendVerificationEmail(newUser);
+
+    return newUser;
+  }
+
+  /**
+   * Register new user and email a verification link.
+   * No session is started while verification is required.
+   */
+  async register(
+    userData: CreateUserInput,
+    context: SessionContext = {}
+  ): Promise<AuthResult | PendingVerificationResult> {
+    const newUser = await this.createAccount(userData);
+
+    if (this.options.requireEmailVerification) {
+      return {
+        user: {
+          id: newUser.id,
+          email: newUser.email,
+          firstName: newUser.first_name,
+          lastName: newUser.last_name
+        },
+        emailVerificationRequired: true
+      };
+    }
+
+    return this.startSession(newUser, context);
+  }
+
+  /**
+   * Verify an email address with a token from the verification email
+   */
+  async verifyEmail(token: string): Promise<void> {
+    if (!token) {
+      throw new ValidationError('Verification token is required');
+    }
+
+    const verificationToken = await this.userRepository.consumeEmailVerificationToken(
+      this.hashToken(token)
+    );
+    if (!verificationToken) {
+      throw new InvalidTokenError('Invalid or expired verification token');
+    }
+
+    const user = await this.userRepository.findById(verificationToken.user_id);
+    if (!user) {
+      throw new InvalidTokenError('Invalid or expired verification token');
+    }
+
+    await this.userRepository.markEmailVerified(user.id);
+    await this.userRepository.invalidateEmailVerificationTokens(user.id);
+  }
+
+  /**
+   * Send a new verification email, replacing outstanding tokens.
+   * Completes silently for unknown or already verified emails.
+   */
+  async resendVerificationEmail(email: string): Promise<void> {
+    if (!email) {
+      throw new ValidationError('Email is required');
+    }
+
+    const user = await this.userRepository.findByEmail(email.toLowerCase());
+    if (!user || user.email_verified) {
+      return;
+    }
+
+    const cooldownMs = (this.options.emailVerificationResendCooldown ?? 60) * 1000;
+    const maxPerHour = this.options.emailVerificationMaxPerHour ?? 5;
+    const recent = await this.userRepository.findEmailVerificationTokensSince(
+      user.id,
+      new Date(Date.now() - 60 * 60 * 1000)
+    );
+
+    const [latest] = recent;
+    if (
+      recent.length >= maxPerHour ||
+      (latest && Date.now() - new Date(latest.created_at).getTime() < cooldownMs)
+    ) {
+      throw new TooManyRequestsError('Please wait before requesting another verification email');
+    }
+
+    await this.userRepository.invalidateEmailVerificationTokens(user.id);
+    await this.sendVerificationEmail(user);
+  }
+
+  /**
+   * Refresh access token.
+   * Presenting a token that was already rotated means it leaked: the
+   * whole token family is revoked and a security event is emitted.
+   */
+  async refreshToken(refreshToken: string): Promise<{ accessToken: string; refreshToken: string; expiresIn: number }> {
+    if (!refreshToken) {
+      throw new ValidationError('Refresh token is required');
+    }
+
+    // Hash the token to find in database
+    const tokenHash = this.hashToken(refreshToken);
+    
+    // Find refresh token in database
+    const dbToken = await this.userRepository.findRefreshTokenByHash(tokenHash);
+    if (!dbToken) {
+      throw new InvalidTokenError('Invalid or expired refresh token');
+    }
+
+    if (dbToken.rotated_at) {
+      await this.handleRefreshTokenReuse(dbToken);
+    }
+
+    if (dbToken.is_revoked || new Date(dbToken.expires_at) <= new Date()) {
+      throw new InvalidTokenError('Invalid or expired refresh token');
+    }
+
+    // Rotate the old token; losing a race with another refresh counts as reuse
+    const rotated = await this.userRepository.markRefreshTokenRotated(tokenHash);
+    if (!rotated) {
+      await this.handleRefreshTokenReuse(dbToken);
+    }
+
+    // Get user
+    const user = await this.userRepository.findById(dbToken.user_id);
+    if (!user) {
+      throw new InvalidTokenError('User not found');
+    }
+
+    // Generate new tokens (the family id is the session id)
+    const newAccessToken = this.tokenService.generateAccessToken(
+      user.id,
+      user.email,
+      dbToken.family_id,
+      await this.accessTokenClaims(user)
+    );
+    
+    const newRefreshToken = this.tokenService.generateRefreshToken(
+      user.id,
+      user.email
+    );
+
+    // Store new refresh token in the same family
+    const newRefreshTokenHash = this.hashToken(newRefreshToken);
+    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+    await this.userRepository.storeRefreshToken(
+      user.id,
+      newRefreshTokenHash,
+      expiresAt,
+      dbToken.family_id
+    );
+    await this.userRepository.touchSession(dbToken.family_id, expiresAt);
+
+    return {
+      accessToken: newAccessToken,
+      refreshToken: newRefreshToken,
+      expiresIn: 15 * 60 // 15 minutes in seconds
+    };
+  }
+
+  /**
+   * Logout user: revoke the refresh token and deny the access token
+   */
+  async logout(refreshToken?: string, accessToken?: string): Promise<void> {
+    if (refreshToken) {
+      const tokenHash = this.hashToken(refreshToken);
+      const dbToken = await this.userRepository.findRefreshTokenByHash(tokenHash);
+
+      if (dbToken) {
+        await this.userRepository.revokeSessions([dbToken.family_id]);
+      } else {
+        await this.userRepository.revokeRefreshToken(tokenHash);
+      }
+    }
+
+    if (accessToken && this.tokenService.denylist) {
+      await this.tokenService.revokeToken(accessToken);
+    }
+  }
+
+  /**
+   * Logout all devices
+   */
+  async logoutAll(userId: string): Promise<void> {
+    await this.userRepository.revokeAllUserTokens(userId);
+
+    if (this.tokenService.denylist) {
+      await this.tokenService.revokeAllUserTokens(userId);
+    }
+  }
+
+  /**
+   * List active sessions (devices) of a user
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionData[]> {
+    const sessions = await this.userRepository.listActiveSessions(userId);
+    return sessions.map((session) => this.toSessionData(session, currentSessionId));
+  }
+
+  /**
+   * Revoke one session of a user (e.g. a lost device)
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const session = await this.userRepository.findActiveSession(userId, sessionId);
+    if (!session) {
+      throw new NotFoundError('Session not found');
+    }
+
+    await this.endSessions([session.id]);
+  }
+
+  /**
+   * Revoke every session of a user except the current one
+   */
+  async revokeOtherSessions(userId: string, currentSessionId?: string): Promise<number> {
+    const sessions = await this.userRepository.listActiveSessions(userId);
+    const others = sessions
+      .filter((session) => session.id !== currentSessionId)
+      .map((session) => session.id);
+
+    await this.endSessions(others);
+    return others.length;
+  }
+
+  /**
+   * Email a single-use password reset token.
+   * Completes silently for unknown emails so callers cannot probe accounts.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    if (!email) {
+      throw new ValidationError('Email is required');
+    }
+
+    const user = await this.userRepository.findByEmail(email.toLowerCase());
+    if (!user) {
+      return;
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const ttlMinutes = this.options.passwordResetTokenTtl ?? 60;
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+    await this.userRepository.storePasswordResetToken(user.id, this.hashToken(token), expiresAt);
+
+    const link = this.createLink(this.options.passwordResetUrl, token);
+
+    await this.mailSender.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.first_name},`,
+        '',
+        'We received a request to reset your password.',
+        link ? `Open this link to choose a new password: ${link}` : `Your reset token: ${token}`,
+        '',
+        `The ${link ? 'link' : 'token'} expires in ${ttlMinutes} minutes and can only be used once.`,
+        'If you did not request a reset, you can ignore this email.'
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Set a new password with a reset token and sign out every session
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    if (!token || !newPassword) {
+      throw new ValidationError('Token and new password are required');
+    }
+
+    const tokenHash = this.hashToken(token);
+    const resetToken = await this.userRepository.findPasswordResetToken(tokenHash);
+    const user = resetToken && (await this.userRepository.findById(resetToken.user_id));
+    if (!user) {
+      throw new InvalidTokenError('Invalid or expired password reset token');
+    }
+
+    // Checked before the token is used up so the user can retry
+    this.validatePassword(newPassword, user.email);
+
+    if (!(await this.userRepository.consumePasswordResetToken(tokenHash))) {
+      throw new InvalidTokenError('Invalid or expired password reset token');
+    }
+
+    const passwordHash = await this.userRepository.updatePassword(user.id, newPassword);
+    await this.recordPasswordHistory(user.id, passwordHash);
+    await this.userRepository.invalidatePasswordResetTokens(user.id);
+    await this.logoutAll(user.id);
+
+    await this.securityEvents.emit('password_reset', user.id);
+  }
+
+  /**
+   * Set a password without the current one (administrators) and sign out
+   * every session. Callers raise their own security event.
+   */
+  async setPassword(user: Pick<DbUser, 'id' | 'email'>, newPassword: string): Promise<void> {
+    if (!newPassword) {
+      throw new ValidationError('New password is required');
+    }
+
+    this.validatePassword(newPassword, user.email);
+
+    const passwordHash = await this.userRepository.updatePassword(user.id, newPassword);
+    await this.recordPasswordHistory(user.id, passwordHash);
+    await this.userRepository.invalidatePasswordResetTokens(user.id);
+    await this.logoutAll(user.id);
+  }
+
+  /**
+   * Change the password of a signed-in user.
+   * Other sessions are revoked unless revokeOtherSessions is false.
+   */
+  async changePassword(
+    userId: string,
+    request: ChangePasswordRequest,
+    options: ChangePasswordOptions = {}
+  ): Promise<void> {
+    const { currentPassword, newPassword } = request;
+
+    if (!currentPassword || !newPassword) {
+      throw new ValidationError('Current and new password are required');
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    const isPasswordValid = await this.userRepository.verifyPassword(user, currentPassword);
+    if (!isPasswordValid) {
+      throw new ValidationError('Current password is incorrect', 'currentPassword');
+    }
+
+    this.validatePassword(newPassword, user.email);
+
+    const historySize = this.options.passwordHistorySize ?? 5;
+    if (historySize > 0) {
+      const recentHashes = [
+        user.password_hash,
+        ...(await this.userRepository.getPasswordHistory(user.id, historySize))
+      ];
+      if (await this.userRepository.matchesAnyPasswordHash(newPassword, recentHashes)) {
+        throw new ValidationError(
+          `Password must not match any of your last ${historySize} passwords`,
+          PasswordRuleCode.REUSED
+        );
+      }
+    }
+
+    const passwordHash = await this.userRepository.updatePassword(user.id, newPassword);
+    await this.recordPasswordHistory(user.id, passwordHash);
+
+    if (options.revokeOtherSessions !== false) {
+      await this.revokeOtherSessions(user.id, options.currentSessionId);
+    }
+
+    await this.securityEvents.emit('password_changed', user.id);
+  }
+
+  /**
+   * Get user by access token
+   */
+  async getCurrentUser(accessToken: string): Promise<UserData> {
+    try {
+      const payload = await this.tokenService.verifyActiveAccessToken(accessToken);
+      return await this.getUser(payload.sub);
+    } catch (error) {
+      if ((error as Error).message.includes('TOKEN') || (error as Error).message.includes('token')) {
+        throw new UnauthorizedError('Invalid or expired token');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get an authenticated user's account
+   */
+  async getUser(userId: string): Promise<UserData> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    return this.toUserData(user);
+  }
+
+  /**
+   * Change the names and preferences of the signed-in user
+   */
+  async updateProfile(userId: string, request: UpdateProfileRequest): Promise<UserData> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    const changes: UpdateProfileInput = {};
+    if (request.firstName !== undefined) {
+      changes.firstName = this.requireName(request.firstName, 'firstName');
+    }
+    if (request.lastName !== undefined) {
+      changes.lastName = this.requireName(request.lastName, 'lastName');
+    }
+    if (request.avatarUrl !== undefined) {
+      changes.avatarUrl = request.avatarUrl === null ? null : this.normalizeAvatarUrl(request.avatarUrl);
+    }
+    if (request.locale !== undefined) {
+      changes.locale = request.locale === null ? null : this.normalizeLocale(request.locale);
+    }
+    if (request.timezone !== undefined) {
+      changes.timezone = request.timezone === null ? null : this.normalizeTimezone(request.timezone);
+    }
+
+    return this.toUserData(await this.userRepository.updateProfile(user.id, changes));
+  }
+
+  /**
+   * Email a confirmation link to a new address. The address only changes
+   * once the link is used; the current address is told about the request.
+   */
+  async requestEmailChange(userId: string, newEmail: string, password: string): Promise<void> {
+    if (!newEmail || !password) {
+      throw new ValidationError('New email and password are required');
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+    if (!(await this.userRepository.verifyPassword(user, password))) {
+      throw new ValidationError('Password is incorrect', 'password');
+    }
+
+    const email = newEmail.trim().toLowerCase();
+    if (email === user.email) {
+      throw new ValidationError('New email must differ from the current one', 'newEmail');
+    }
+    if (await this.userRepository.emailExists(email)) {
+      throw new ConflictError('User with this email already exists');
+    }
+
+    // Only the latest request can be confirmed
+    await this.userRepository.invalidateEmailChangeTokens(user.id);
+
+    const token = randomBytes(32).toString('hex');
+    const ttlHours = this.options.emailChangeTokenTtl ?? 24;
+    const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+    await this.userRepository.storeEmailChangeToken(user.id, email, this.hashToken(token), expiresAt);
+
+    const link = this.createLink(this.options.emailChangeUrl, token);
+
+    await this.mailSender.send({
+      to: email,
+      subject: 'Confirm your new email address',
+      text: [
+        `Hi ${user.first_name},`,
+        '',
+        'Please confirm that this is the new email address of your account.',
+        link ? `Open this link to confirm it: ${link}` : `Your confirmation token: ${token}`,
+        '',
+        `The ${link ? 'link' : 'token'} expires in ${ttlHours} hours.`
+      ].join('\n')
+    });
+    await this.mailSender.send({
+      to: user.email,
+      subject: 'Your email address is being changed',
+      text: [
+        `Hi ${user.first_name},`,
+        '',
+        `We received a request to change the email address of your account to ${email}.`,
+        'Nothing changes until the new address is confirmed.',
+        'If you did not request this, change your password now.'
+      ].join('\n')
+    });
+
+    await this.securityEvents.emit('email_change_requested', user.id, { newEmail: email });
+  }
+
+  /**
+   * Swap in the new email address with the token sent to it
+   */
+  async confirmEmailChange(token: string): Promise<void> {
+    if (!token) {
+      throw new ValidationError('Confirmation token is required');
+    }
+
+    const changeToken = await this.userRepository.consumeEmailChangeToken(this.hashToken(token));
+    const user = changeToken && (await this.userRepository.findById(changeToken.user_id));
+    if (!changeToken || !user) {
+      throw new InvalidTokenError('Invalid or expired email change token');
+    }
+
+    // Taken by someone else since the request
+    if (await this.userRepository.emailExists(changeToken.new_email)) {
+      throw new ConflictError('User with this email already exists');
+    }
+
+    const previousEmail = user.email;
+    await this.userRepository.changeEmail(user.id, changeToken.new_email);
+    await this.userRepository.invalidateEmailChangeTokens(user.id);
+    await this.userRepository.invalidateEmailVerificationTokens(user.id);
+    await this.userRepository.invalidatePasswordResetTokens(user.id);
+
+    await this.securityEvents.emit('email_changed', user.id, {
+      previousEmail,
+      newEmail: changeToken.new_email
+    });
+  }
+
+  /**
+   * Schedule the deletion of the signed-in user's account after the grace
+   * period and sign out every other session. Requesting again keeps the
+   * original date.
+   */
+  async requestAccountDeletion(
+    userId: string,
+    password: string,
+    currentSessionId?: string
+  ): Promise<AccountDeletionResult> {
+    if (!password) {
+      throw new ValidationError('Password is required');
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+    if (!(await this.userRepository.verifyPassword(user, password))) {
+      throw new ValidationError('Password is incorrect', 'password');
+    }
+    if (user.deletion_scheduled_at) {
+      return { deletionScheduledAt: new Date(user.deletion_scheduled_at) };
+    }
+
+    const graceDays = this.options.accountDeletionGracePeriod ?? 30;
+    const deletionScheduledAt = new Date(Date.now() + graceDays * 24 * 60 * 60 * 1000);
+    await this.userRepository.scheduleDeletion(user.id, deletionScheduledAt);
+    await this.revokeOtherSessions(user.id, currentSessionId);
+
+    await this.mailSender.send({
+      to: user.email,
+      subject: 'Your account will be deleted',
+      text: [
+        `Hi ${user.first_name},`,
+        '',
+        `Your account and its data will be deleted on ${deletionScheduledAt.toUTCString()}.`,
+        'Sign in and cancel the deletion before then to keep your account.'
+      ].join('\n')
+    });
+
+    await this.securityEvents.emit('account_deletion_requested', user.id, { deletionScheduledAt });
+    return { deletionScheduledAt };
+  }
+
+  /**
+   * Keep the account: withdraw a pending deletion
+   */
+  async cancelAccountDeletion(userId: string): Promise<void> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+    if (!user.deletion_scheduled_at) {
+      throw new ValidationError('No account deletion is pending');
+    }
+
+    await this.userRepository.cancelDeletion(user.id);
+
+    await this.securityEvents.emit('account_deletion_cancelled', user.id);
+  }
+
+  /**
+   * Delete the accounts whose grace period ended (run periodically,
+   * like cleanupExpiredTokens); returns the number of deleted accounts
+   */
+  async purgeDeletedAccounts(): Promise<number> {
+    const userIds = await this.userRepository.deleteUsersScheduledBefore(new Date());
+
+    for (const userId of userIds) {
+      if (this.tokenService.denylist) {
+        await this.tokenService.revokeAllUserTokens(userId);
+      }
+      await this.securityEvents.emit('account_deleted', userId);
+    }
+
+    return userIds.length;
+  }
+
+  /**
+   * Verify if user has valid session
+   */
+  async verifySession(accessToken: string): Promise<boolean> {
+    try {
+      const payload = await this.tokenService.verifyActiveAccessToken(accessToken);
+      const user = await this.userRepository.findById(payload.sub);
+      return !!user && user.is_active;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Clean up expired tokens (maintenance task)
+   */
+  async cleanupExpiredTokens(): Promise<number> {
+    return this.userRepository.cleanupExpiredTokens();
+  }
+
+  /**
+   * Issue a verification token and email it
+   */
+  private async sendVerificationEmail(user: DbUser): Promise<void> {
+    const token = randomBytes(32).toString('hex');
+    const ttlHours = this.options.emailVerificationTokenTtl ?? 24;
+    const expiresAt = new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+    await this.userRepository.storeEmailVerificationToken(user.id, this.hashToken(token), expiresAt);
+
+    const link = this.createLink(this.options.emailVerificationUrl, token);
+
+    await this.mailSender.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${user.first_name},`,
+        '',
+        'Please confirm your email address.',
+        link ? `Open this link to verify it: ${link}` : `Your verification token: ${token}`,
+        '',
+        `The ${link ? 'link' : 'token'} expires in ${ttlHours} hours.`
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Start a session once the first factor succeeded, or return an MFA
+   * challenge when two-factor authentication is enabled
+   */
+  private async signIn(user: DbUser, context: SessionContext): Promise<AuthResult | MfaChallengeResult> {
+    // Second factor: no session until the code step succeeds
+    const mfa = await this.userRepository.findMfa(user.id);
+    if (mfa?.confirmed_at) {
+      const expiresIn = this.options.mfaChallengeTtl ?? 300;
+      const passkeys = await this.userRepository.listWebAuthnCredentials(user.id);
+      return {
+        mfaRequired: true,
+        challengeToken: this.tokenService.generateMfaChallengeToken(user.id, user.email, `${expiresIn}s`),
+        expiresIn,
+        methods: passkeys.length > 0 ? ['totp', 'recovery_code', 'passkey'] : ['totp', 'recovery_code']
+      };
+    }
+
+    const result = await this.startSession(user, context);
+
+    // Update last login
+    await this.recordSuccessfulLogin(user.id);
+
+    return result;
+  }
+
+  private getIdentityProvider(providerId: string): { config: IdentityProviderConfig; client: OidcClient } {
+    const provider = this.identityProviders.get(providerId);
+    if (!provider) {
+      throw new NotFoundError('Identity provider not found');
+    }
+    return provider;
+  }
+
+  /**
+   * User of an external identity. Linking by email requires the address to
+   * be verified by the provider and, for existing accounts, by us as well
+   * (an unverified account may have been registered by someone else).
+   */
+  private async findOrLinkExternalUser(
+    provider: IdentityProviderConfig,
+    claims: OidcIdTokenClaims
+  ): Promise<DbUser> {
+    const email = claims.email?.toLowerCase();
+
+    const identity = await this.userRepository.findIdentity(provider.id, claims.sub);
+    if (identity) {
+      const user = await this.userRepository.findById(identity.user_id);
+      if (!user) {
+        throw new UnauthorizedError('User not found');
+      }
+      await this.userRepository.touchIdentity(identity.id, email);
+      return user;
+    }
+
+    if (!email || claims.email_verified !== true) {
+      throw new UnauthorizedError('The identity provider did not confirm a verified email address');
+    }
+
+    let user = await this.userRepository.findByEmail(email);
+    if (user && !user.email_verified) {
+      throw new ConflictError('An account with this email exists; verify it before signing in with this provider');
+    }
+    if (!user) {
+      if (provider.autoProvision === false) {
+        throw new UnauthorizedError('No account is linked to this identity');
+      }
+      // A deactivated account keeps its email
+      if (await this.userRepository.emailExists(email)) {
+        throw new ConflictError('User with this email already exists');
+      }
+      user = await this.userRepository.create({
+        email,
+        password: randomBytes(32).toString('base64url'), // Unknown to anyone; reset to set one
+        firstName: claims.given_name ?? claims.name ?? '',
+        lastName: claims.family_name ?? ''
+      });
+      await this.userRepository.markEmailVerified(user.id);
+      user = { ...user, email_verified: true };
+    }
+
+    const linked = await this.userRepository.createIdentity({
+      userId: user.id,
+      provider: provider.id,
+      subject: claims.sub,
+      email
+    });
+    await this.securityEvents.emit('identity_linked', user.id, {
+      identityId: linked.id,
+      provider: provider.id
+    });
+
+    return user;
+  }
+
+  private toIdentityData(identity: DbIdentity): IdentityData {
+    return {
+      id: identity.id,
+      provider: identity.provider,
+      email: identity.email ?? undefined,
+      createdAt: identity.created_at,
+      lastLoginAt: identity.last_login_at ?? undefined
+    };
+  }
+
+  /**
+   * Refuse sign-in while the account or IP is locked or waiting out
+   * its backoff delay
+   */
+  private async assertLoginAllowed(user: DbUser | null, ipAddress?: string): Promise<void> {
+    const account = user ? await this.assertAccountUnlocked(user) : null;
+    const ip = ipAddress ? await this.loginThrottle.status('ip', ipAddress) : null;
+
+    const retryAfter = Math.max(account?.retryAfter ?? 0, ip?.retryAfter ?? 0);
+    if (retryAfter > 0) {
+      throw new TooManyRequestsError('Too many failed login attempts, please try again later', retryAfter);
+    }
+  }
+
+  /**
+   * Refuse sign-in to a locked account, whatever the method
+   */
+  private async assertAccountUnlocked(user: DbUser): Promise<LoginThrottleStatus> {
+    const account = await this.loginThrottle.status('account', user.id);
+    if (account.locked || (await this.userRepository.isAccountLocked(user))) {
+      throw new UnauthorizedError('Account is temporarily locked due to multiple failed login attempts');
+    }
+    return account;
+  }
+
+  /**
+   * Count a failed attempt against the account and the IP, locking
+   * whichever reaches its limit. Always throws.
+   */
+  private async recordFailedLogin(user: DbUser | null, message: string, context: SessionContext): Promise<never> {
+    if (context.ipAddress) {
+      const ip = await this.loginThrottle.recordFailure('ip', context.ipAddress);
+      if (ip.locked) {
+        await this.securityEvents.emit('ip_locked', '', {
+          ipAddress: context.ipAddress,
+          lockedUntil: ip.lockedUntil
+        });
+      }
+    }
+
+    if (!user) {
+      throw new UnauthorizedError(message);
+    }
+
+    await this.userRepository.incrementLoginAttempts(user.id);
+    const account = await this.loginThrottle.recordFailure('account', user.id);
+    if (account.locked) {
+      // Also kept on the user row, so the lock survives restarts
+      await this.userRepository.lockAccount(user.id, this.loginThrottle.lockoutDuration);
+      await this.securityEvents.emit('account_locked', user.id, {
+        failedAttempts: account.failedAttempts,
+        lockedUntil: account.lockedUntil,
+        ipAddress: context.ipAddress
+      });
+      throw new UnauthorizedError('Account locked due to multiple failed login attempts');
+    }
+
+    throw new UnauthorizedError(message);
+  }
+
+  /**
+   * Account named by a lockout query; at least an account or an IP is required
+   */
+  private async findLockoutUser(query: LockoutQuery): Promise<DbUser | null> {
+    if (!query.userId && !query.email) {
+      if (!query.ipAddress) {
+        throw new ValidationError('A user id, email or IP address is required');
+      }
+      return null;
+    }
+
+    const user = query.userId
+      ? await this.userRepository.findById(query.userId)
+      : await this.userRepository.findByEmail((query.email as string).toLowerCase());
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+
+  /**
+   * Throttle state of an account, including a lock stored on the user row
+   */
+  private async getAccountLockout(user: DbUser): Promise<LoginThrottleStatus> {
+    const status = await this.loginThrottle.status('account', user.id);
+    const lockedUntil = user.locked_until ? new Date(user.locked_until) : undefined;
+
+    if (!lockedUntil || lockedUntil.getTime() <= Date.now() || (status.lockedUntil && status.lockedUntil >= lockedUntil)) {
+      return status;
+    }
+
+    return {
+      failedAttempts: Math.max(status.failedAttempts, user.login_attempts),
+      locked: true,
+      lockedUntil,
+      retryAfter: Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)
+    };
+  }
+
+  /**
+   * Reset the failure count once a sign-in completes
+   */
+  private async recordSuccessfulLogin(userId: string): Promise<void> {
+    await this.userRepository.updateLastLogin(userId);
+    await this.loginThrottle.reset('account', userId);
+  }
+
+  /**
+   * Accept a TOTP code once: codes at or before the last used step are replays
+   */
+  private async useTotpCode(mfa: DbUserMfa, code: string): Promise<boolean> {
+    const step = this.totp.verify(mfa.totp_secret, code);
+    return step !== null && this.userRepository.useTotpStep(mfa.user_id, step);
+  }
+
+  /**
+   * Verify a passkey assertion against its single-use challenge and store
+   * the new signature counter. userId is the user the challenge was issued
+   * for (null for passwordless login).
+   */
+  private async usePasskey(response: AuthenticationResponseJSON, userId: string | null): Promise<boolean> {
+    const challenge = await this.consumeWebAuthnChallenge(response, 'authentication');
+    if (!challenge || challenge.userId !== userId) {
+      return false;
+    }
+
+    const passkey = await this.userRepository.findWebAuthnCredential(response.id);
+    if (!passkey || (userId && passkey.user_id !== userId)) {
+      return false;
+    }
+
+    try {
+      const { counter } = this.webAuthn.verifyAuthentication(
+        response,
+        challenge.value,
+        this.toWebAuthnCredential(passkey)
+      );
+      await this.userRepository.updateWebAuthnCredentialCounter(passkey.id, counter);
+      return true;
+    } catch (error) {
+      if ((error as Error).message === 'WEBAUTHN_COUNTER_REPLAY') {
+        await this.securityEvents.emit('passkey_counter_mismatch', passkey.user_id, {
+          passkeyId: passkey.id
+        });
+      }
+      return false;
+    }
+  }
+
+  private async createWebAuthnChallenge(
+    ceremony: WebAuthnCeremony,
+    userId: string | null
+  ): Promise<string> {
+    const challenge = WebAuthn.generateChallenge();
+    const ttlSeconds = this.options.webAuthnChallengeTtl ?? 300;
+    await this.userRepository.storeWebAuthnChallenge(
+      this.hashToken(challenge),
+      ceremony,
+      userId,
+      new Date(Date.now() + ttlSeconds * 1000)
+    );
+
+    return challenge;
+  }
+
+  /**
+   * Use up the challenge a response answers
+   */
+  private async consumeWebAuthnChallenge(
+    response: RegistrationResponseJSON | AuthenticationResponseJSON,
+    ceremony: WebAuthnCeremony
+  ): Promise<{ value: string; userId: string | null } | null> {
+    const value = response?.response && WebAuthn.challengeOf(response);
+    if (!value) {
+      return null;
+    }
+
+    const challenge = await this.userRepository.consumeWebAuthnChallenge(this.hashToken(value), ceremony);
+    return challenge ? { value, userId: challenge.user_id } : null;
+  }
+
+  private toWebAuthnCredential(passkey: DbWebAuthnCredential): WebAuthnCredential {
+    return {
+      credentialId: passkey.credential_id,
+      publicKey: passkey.public_key,
+      counter: Number(passkey.sign_count),
+      transports: passkey.transports ? passkey.transports.split(',') : undefined
+    };
+  }
+
+  private toPasskeyData(passkey: DbWebAuthnCredential): PasskeyData {
+    return {
+      id: passkey.id,
+      name: passkey.name ?? undefined,
+      transports: passkey.transports ? passkey.transports.split(',') : [],
+      createdAt: passkey.created_at,
+      lastUsedAt: passkey.last_used_at ?? undefined
+    };
+  }
+
+  /**
+   * Verify an MFA challenge token that was not used yet
+   */
+  private async verifyMfaChallenge(challengeToken: string): Promise<JwtPayload> {
+    let payload;
+    try {
+      payload = this.tokenService.verifyMfaChallengeToken(challengeToken);
+    } catch {
+      throw new InvalidTokenError('Invalid or expired MFA challenge');
+    }
+    if (await this.tokenService.isTokenRevoked(payload)) {
+      throw new InvalidTokenError('Invalid or expired MFA challenge');
+    }
+
+    return payload;
+  }
+
+  private async useRecoveryCode(userId: string, recoveryCode: string): Promise<boolean> {
+    return this.userRepository.consumeRecoveryCode(userId, this.hashRecoveryCode(recoveryCode));
+  }
+
+  /**
+   * Generate fresh recovery codes (xxxxx-xxxxx), storing only their hashes
+   */
+  private async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const count = this.options.recoveryCodeCount ?? 10;
+    const codes = Array.from({ length: count }, () => {
+      const value = randomBytes(5).toString('hex');
+      return `${value.slice(0, 5)}-${value.slice(5)}`;
+    });
+
+    await this.userRepository.replaceRecoveryCodes(
+      userId,
+      codes.map((code) => this.hashRecoveryCode(code))
+    );
+
+    return codes;
+  }
+
+  /**
+   * Recovery codes are compared without case, spaces or dashes
+   */
+  private hashRecoveryCode(code: string): string {
+    return this.hashToken(code.toLowerCase().replace(/[\s-]/g, ''));
+  }
+
+  private async recordPasswordHistory(userId: string, passwordHash: string): Promise<void> {
+    const historySize = this.options.passwordHistorySize ?? 5;
+    if (historySize > 0) {
+      await this.userRepository.addPasswordHistory(userId, passwordHash, historySize);
+    }
+  }
+
+  private createLink(baseUrl: string | undefined, token: string): string | undefined {
+    return baseUrl ? `${baseUrl}?token=${encodeURIComponent(token)}` : undefined;
+  }
+
+  private toUserData(user: DbUser): UserData {
+    return {
+      id: user.id,
+      email: user.email,
+      firstName: user.first_name,
+      lastName: user.last_name,
+      emailVerified: user.email_verified,
+      avatarUrl: user.avatar_url || undefined,
+      locale: user.locale || undefined,
+      timezone: user.timezone || undefined,
+      deletionScheduledAt: user.deletion_scheduled_at || undefined,
+      lastLoginAt: user.last_login_at || undefined,
+      createdAt: user.created_at
+    };
+  }
+
+  private requireName(name: string, field: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new ValidationError('Name cannot be empty', field);
+    }
+    return trimmed;
+  }
+
+  /**
+   * Avatars are embedded in pages served over https
+   */
+  private normalizeAvatarUrl(avatarUrl: string): string {
+    try {
+      const url = new URL(avatarUrl);
+      if (url.protocol === 'https:') {
+        return url.toString();
+      }
+    } catch {
+      // Reported below
+    }
+    throw new ValidationError('Avatar URL must be an https URL', 'avatarUrl');
+  }
+
+  /**
+   * Canonical BCP 47 language tag (th-th becomes th-TH)
+   */
+  private normalizeLocale(locale: string): string {
+    try {
+      const [canonical] = Intl.getCanonicalLocales(locale);
+      if (canonical) {
+        return canonical;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new ValidationError('Locale must be a BCP 47 language tag, e.g. th-TH', 'locale');
+  }
+
+  /**
+   * Canonical IANA time zone name (asia/bangkok becomes Asia/Bangkok)
+   */
+  private normalizeTimezone(timezone: string): string {
+    try {
+      return new Intl.DateTimeFormat('en-US', { timeZone: timezone }).resolvedOptions().timeZone;
+    } catch {
+      throw new ValidationError('Timezone must be an IANA time zone, e.g. Asia/Bangkok', 'timezone');
+    }
+  }
+
+  /**
+   * Apply the password policy; the rule code is reported as the error field
+   */
+  private validatePassword(password: string, email?: string): void {
+    const [violation] = this.passwordPolicy.evaluate(password, { email }).violations;
+    if (violation) {
+      throw new ValidationError(violation.message, violation.code);
+    }
+  }
+
+  /**
+   * Claims of the user's access tokens: the tenant they belong to and,
+   * with the RBAC plugin, their roles and permission version
+   */
+  private async accessTokenClaims(user: DbUser): Promise<AccessTokenClaims> {
+    const claims: AccessTokenClaims = user.tenant_id ? { tenantId: user.tenant_id } : {};
+
+    const source = this.options.permissionClaims;
+    if (source) {
+      const [{ roles }, permissionVersion] = await Promise.all([
+        source.getEffectivePermissions(user.id),
+        source.getPermissionVersion(user.id)
+      ]);
+      claims.roles = roles;
+      claims.permissionVersion = permissionVersion;
+    }
+
+    return claims;
+  }
+
+  /**
+   * Create a session and issue its first token pair
+   */
+  private async startSession(user: DbUser, context: SessionContext): Promise<AuthResult> {
+    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+    const session = await this.userRepository.createSession({
+      userId: user.id,
+      expiresAt,
+      ...context
+    });
+
+    // Generate tokens using core service; the access token jti is the session id
+    const accessToken = this.tokenService.generateAccessToken(
+      user.id,
+      user.email,
+      session.id,
+      await this.accessTokenClaims(user)
+    );
+    
+    const refreshToken = this.tokenService.generateRefreshToken(
+      user.id,
+      user.email
+    );
+
+    // Store refresh token hash in database, starting the session's token family
+    const refreshTokenHash = this.hashToken(refreshToken);
+    await this.userRepository.storeRefreshToken(user.id, refreshTokenHash, expiresAt, session.id);
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: 15 * 60, // 15 minutes in seconds
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.first_name,
+        lastName: user.last_name
+      }
+    };
+  }
+
+  /**
+   * Revoke sessions, their refresh tokens and their access tokens
+   */
+  private async endSessions(sessionIds: string[]): Promise<void> {
+    await this.userRepository.revokeSessions(sessionIds);
+
+    if (this.tokenService.denylist) {
+      for (const sessionId of sessionIds) {
+        await this.tokenService.revokeTokenId(sessionId);
+      }
+    }
+  }
+
+  private toSessionData(session: DbSession, currentSessionId?: string): SessionData {
+    return {
+      id: session.id,
+      deviceInfo: session.device_info ?? undefined,
+      ipAddress: session.ip_address ?? undefined,
+      userAgent: session.user_agent ?? undefined,
+      createdAt: session.created_at,
+      lastUsedAt: session.last_used_at,
+      expiresAt: session.expires_at,
+      current: session.id === currentSessionId
+    };
+  }
+
+  /**
+   * Revoke the family (session) of a replayed refresh token and report it
+   */
+  private async handleRefreshTokenReuse(dbToken: DbRefreshToken): Promise<never> {
+    await this.endSessions([dbToken.family_id]);
+    await this.securityEvents.emit('refresh_token_reuse', dbToken.user_id, {
+      familyId: dbToken.family_id,
+      tokenId: dbToken.id
+    });
+
+    throw new InvalidTokenError('Refresh token reuse detected');
   }
 
   /**
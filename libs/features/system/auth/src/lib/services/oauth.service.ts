@@ -0,0 +1,677 @@
+import { injectable } from 'tsyringe';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { JwtPayload, TokenService } from '@aegisx/core-auth';
+import {
+  DbOAuthClient,
+  DbOAuthConsent,
+  OAuthClientType,
+  OAuthGrantType,
+  OAuthRepository
+} from '../repositories/oauth.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { SecurityEvents } from '../events/security-events';
+import { NotFoundError, OAuthError, ValidationError } from '../errors/auth.errors';
+
+/**
+ * Client registration request
+ */
+export interface RegisterOAuthClientInput {
+  name: string;
+  clientType: OAuthClientType;
+  redirectUris?: string[]; // Required for the authorization_code grant
+  grantTypes?: OAuthGrantType[]; // default: authorization_code and refresh_token
+  scopes?: string[]; // default: every supported scope
+}
+
+/**
+ * Registered client (without secret)
+ */
+export interface OAuthClientData {
+  id: string;
+  clientId: string;
+  clientType: OAuthClientType;
+  name: string;
+  redirectUris: string[];
+  grantTypes: OAuthGrantType[];
+  scopes: string[];
+  createdAt: Date;
+}
+
+/**
+ * Registration result; the secret of a confidential client is shown once
+ */
+export interface RegisteredOAuthClient {
+  client: OAuthClientData;
+  clientSecret?: string;
+}
+
+/**
+ * Client authentication sent to the token, introspection and revocation
+ * endpoints (HTTP Basic or request body)
+ */
+export interface OAuthClientCredentials {
+  clientId?: string;
+  clientSecret?: string;
+}
+
+/**
+ * Authorization request parameters (RFC 6749 section 4.1.1, RFC 7636)
+ */
+export interface AuthorizationRequest {
+  responseType: string;
+  clientId: string;
+  redirectUri: string;
+  scope?: string;
+  state?: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+}
+
+/**
+ * What the consent screen shows for an authorization request
+ */
+export interface AuthorizationPrompt {
+  client: { clientId: string; name: string };
+  scopes: Array<{ name: string; description: string }>;
+  redirectUri: string;
+  consentRequired: boolean; // False when the user already granted these scopes
+}
+
+/**
+ * Token request parameters (RFC 6749 sections 4.1.3, 4.4.2 and 6)
+ */
+export interface TokenGrantRequest {
+  grantType: string;
+  code?: string;
+  redirectUri?: string;
+  codeVerifier?: string;
+  refreshToken?: string;
+  scope?: string;
+}
+
+/**
+ * Token endpoint response (RFC 6749 section 5.1)
+ */
+export interface OAuthTokens {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token?: string;
+  scope: string;
+}
+
+/**
+ * Introspection response (RFC 7662 section 2.2)
+ */
+export interface TokenIntrospection {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  token_type?: string;
+  exp?: number;
+  iat?: number;
+  sub?: string;
+  iss?: string;
+}
+
+/**
+ * Scopes a user granted a client
+ */
+export interface OAuthConsentData {
+  clientId: string;
+  clientName: string;
+  scopes: string[];
+  grantedAt: Date;
+}
+
+/**
+ * OAuth service settings
+ */
+export interface OAuthServiceOptions {
+  scopes?: Record<string, string>; // Supported scopes and their descriptions
+  accessTokenExpiry?: string; // default: jwt.accessTokenExpiry
+  authorizationCodeTtl?: number; // Seconds, default: 60
+  refreshTokenTtl?: number; // Days, default: 30
+}
+
+const DEFAULT_SCOPES: Record<string, string> = {
+  profile: 'Read your name',
+  email: 'Read your email address'
+};
+
+/**
+ * OAuth 2.0 authorization server for third-party clients.
+ * Access tokens are `oauth_access` JWTs from TokenService; refresh tokens
+ * and authorization codes are opaque and stored as hashes.
+ */
+@injectable()
+export class OAuthService {
+  private readonly scopes: Record<string, string>;
+
+  constructor(
+    private oauthRepository: OAuthRepository,
+    private userRepository: UserRepository,
+    private tokenService: TokenService,
+    private securityEvents: SecurityEvents = new SecurityEvents(),
+    private options: OAuthServiceOptions = {}
+  ) {
+    this.scopes = options.scopes ?? DEFAULT_SCOPES;
+  }
+
+  /**
+   * Register a client for a user. Public clients (SPAs, mobile apps) get
+   * no secret and must use PKCE.
+   */
+  async registerClient(ownerId: string, input: RegisterOAuthClientInput): Promise<RegisteredOAuthClient> {
+    const { name, clientType } = input;
+    const grantTypes = input.grantTypes ?? ['authorization_code', 'refresh_token'];
+    const redirectUris = input.redirectUris ?? [];
+    const scopes = input.scopes ?? Object.keys(this.scopes);
+
+    if (!name?.trim()) {
+      throw new ValidationError('Client name is required', 'name');
+    }
+    if (clientType !== 'confidential' && clientType !== 'public') {
+      throw new ValidationError('Client type must be confidential or public', 'clientType');
+    }
+    if (clientType === 'public' && grantTypes.includes('client_credentials')) {
+      throw new ValidationError('Public clients cannot use the client_credentials grant', 'grantTypes');
+    }
+    if (grantTypes.includes('authorization_code') && redirectUris.length === 0) {
+      throw new ValidationError('At least one redirect URI is required', 'redirectUris');
+    }
+    if (!redirectUris.every((uri) => this.isValidRedirectUri(uri))) {
+      throw new ValidationError('Redirect URIs must be absolute URLs without fragment', 'redirectUris');
+    }
+    const unknownScope = scopes.find((scope) => !this.scopes[scope]);
+    if (unknownScope) {
+      throw new ValidationError(`Unknown scope: ${unknownScope}`, 'scopes');
+    }
+
+    const clientSecret = clientType === 'confidential' ? randomBytes(32).toString('base64url') : undefined;
+    const client = await this.oauthRepository.createClient({
+      clientId: randomBytes(16).toString('hex'),
+      clientSecretHash: clientSecret && this.hash(clientSecret),
+      clientType,
+      name: name.trim(),
+      redirectUris,
+      grantTypes,
+      scopes,
+      ownerId
+    });
+
+    await this.securityEvents.emit('oauth_client_registered', ownerId, { clientId: client.client_id });
+
+    return { client: this.toClientData(client), clientSecret };
+  }
+
+  /**
+   * Clients registered by a user
+   */
+  async listClients(ownerId: string): Promise<OAuthClientData[]> {
+    const clients = await this.oauthRepository.listClients(ownerId);
+    return clients.map((client) => this.toClientData(client));
+  }
+
+  /**
+   * Delete a client; its tokens stop refreshing and its consents are removed
+   */
+  async deleteClient(ownerId: string, id: string): Promise<void> {
+    const client = await this.oauthRepository.deleteClient(ownerId, id);
+    if (!client) {
+      throw new NotFoundError('Client not found');
+    }
+
+    await this.securityEvents.emit('oauth_client_deleted', ownerId, { clientId: client.client_id });
+  }
+
+  /**
+   * Validate an authorization request for the signed-in user and describe
+   * it for the consent screen
+   */
+  async prepareAuthorization(userId: string, request: AuthorizationRequest): Promise<AuthorizationPrompt> {
+    const { client, scopes } = await this.validateAuthorizationRequest(request);
+    const consent = await this.oauthRepository.findConsent(userId, client.client_id);
+
+    return {
+      client: { clientId: client.client_id, name: client.name },
+      scopes: scopes.map((scope) => ({ name: scope, description: this.scopes[scope] })),
+      redirectUri: request.redirectUri,
+      consentRequired: !consent || !scopes.every((scope) => consent.scopes.includes(scope))
+    };
+  }
+
+  /**
+   * Record the user's decision and return where to send the browser:
+   * the client's redirect URI with a code, or with error=access_denied
+   */
+  async authorize(
+    userId: string,
+    request: AuthorizationRequest,
+    approved: boolean
+  ): Promise<{ redirectTo: string }> {
+    const { client, scopes } = await this.validateAuthorizationRequest(request);
+    const redirect = new URL(request.redirectUri);
+    if (request.state) {
+      redirect.searchParams.set('state', request.state);
+    }
+
+    if (!approved) {
+      redirect.searchParams.set('error', 'access_denied');
+      return { redirectTo: redirect.toString() };
+    }
+
+    const consent = await this.oauthRepository.findConsent(userId, client.client_id);
+    const granted = [...new Set([...(consent?.scopes ?? []), ...scopes])];
+    if (!consent || granted.length > consent.scopes.length) {
+      await this.oauthRepository.saveConsent(userId, client.client_id, granted);
+      await this.securityEvents.emit('oauth_consent_granted', userId, {
+        clientId: client.client_id,
+        scopes: granted
+      });
+    }
+
+    const code = randomBytes(32).toString('base64url');
+    const ttlSeconds = this.options.authorizationCodeTtl ?? 60;
+    await this.oauthRepository.storeAuthorizationCode({
+      codeHash: this.hash(code),
+      clientId: client.client_id,
+      userId,
+      redirectUri: request.redirectUri,
+      scope: scopes.join(' '),
+      codeChallenge: request.codeChallenge,
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000)
+    });
+
+    redirect.searchParams.set('code', code);
+    return { redirectTo: redirect.toString() };
+  }
+
+  /**
+   * Token endpoint: authorization_code, refresh_token and client_credentials grants
+   */
+  async token(request: TokenGrantRequest, credentials: OAuthClientCredentials): Promise<OAuthTokens> {
+    const client = await this.authenticateClient(credentials, true);
+
+    switch (request.grantType) {
+      case 'authorization_code':
+        return this.authorizationCodeGrant(client, request);
+      case 'refresh_token':
+        return this.refreshTokenGrant(client, request);
+      case 'client_credentials':
+        return this.clientCredentialsGrant(client, request);
+      default:
+        throw new OAuthError('unsupported_grant_type', 'Unsupported grant type');
+    }
+  }
+
+  /**
+   * Token introspection (RFC 7662) for confidential clients.
+   * Refresh tokens are only described to the client they were issued to.
+   */
+  async introspect(token: string, credentials: OAuthClientCredentials): Promise<TokenIntrospection> {
+    const client = await this.authenticateClient(credentials, false);
+    if (!token) {
+      throw new OAuthError('invalid_request', 'Token is required');
+    }
+
+    const payload = await this.verifyAccessToken(token);
+    if (payload) {
+      return {
+        active: true,
+        scope: payload.scope,
+        client_id: payload.client_id,
+        username: payload.email || undefined,
+        token_type: 'Bearer',
+        exp: payload.exp,
+        iat: payload.iat,
+        sub: payload.sub,
+        iss: payload.iss
+      };
+    }
+
+    const refreshToken = await this.oauthRepository.findRefreshToken(this.hash(token));
+    if (
+      !refreshToken ||
+      refreshToken.client_id !== client.client_id ||
+      refreshToken.rotated_at ||
+      refreshToken.revoked_at ||
+      refreshToken.expires_at <= new Date()
+    ) {
+      return { active: false };
+    }
+
+    return {
+      active: true,
+      scope: refreshToken.scope,
+      client_id: refreshToken.client_id,
+      token_type: 'refresh_token',
+      exp: Math.floor(refreshToken.expires_at.getTime() / 1000),
+      iat: Math.floor(refreshToken.created_at.getTime() / 1000),
+      sub: refreshToken.user_id
+    };
+  }
+
+  /**
+   * Token revocation (RFC 7009). Unknown tokens and tokens of other clients
+   * are ignored, so the response never reveals whether a token exists.
+   */
+  async revoke(token: string, credentials: OAuthClientCredentials): Promise<void> {
+    const client = await this.authenticateClient(credentials, true);
+    if (!token) {
+      throw new OAuthError('invalid_request', 'Token is required');
+    }
+
+    const refreshToken = await this.oauthRepository.findRefreshToken(this.hash(token));
+    if (refreshToken) {
+      if (refreshToken.client_id === client.client_id) {
+        await this.oauthRepository.revokeRefreshTokenFamily(refreshToken.family_id);
+      }
+      return;
+    }
+
+    const payload = await this.verifyAccessToken(token);
+    if (payload?.client_id === client.client_id && this.tokenService.denylist) {
+      await this.tokenService.revokeToken(token);
+    }
+  }
+
+  /**
+   * Clients a user has granted access to
+   */
+  async listConsents(userId: string): Promise<OAuthConsentData[]> {
+    const consents = await this.oauthRepository.listConsents(userId);
+    return consents.map((consent) => this.toConsentData(consent));
+  }
+
+  /**
+   * Withdraw a client's access: the consent and its refresh tokens are revoked
+   */
+  async revokeConsent(userId: string, clientId: string): Promise<void> {
+    if (!(await this.oauthRepository.deleteConsent(userId, clientId))) {
+      throw new NotFoundError('Consent not found');
+    }
+    await this.oauthRepository.revokeRefreshTokens(userId, clientId);
+
+    await this.securityEvents.emit('oauth_consent_revoked', userId, { clientId });
+  }
+
+  /**
+   * Clean up expired authorization codes and refresh tokens (maintenance task)
+   */
+  async cleanupExpiredTokens(): Promise<number> {
+    return this.oauthRepository.cleanupExpiredTokens();
+  }
+
+  private async authorizationCodeGrant(
+    client: DbOAuthClient,
+    request: TokenGrantRequest
+  ): Promise<OAuthTokens> {
+    this.requireGrant(client, 'authorization_code');
+    if (!request.code || !request.redirectUri) {
+      throw new OAuthError('invalid_request', 'Code and redirect_uri are required');
+    }
+
+    const code = await this.oauthRepository.consumeAuthorizationCode(this.hash(request.code));
+    if (!code || code.client_id !== client.client_id || code.redirect_uri !== request.redirectUri) {
+      throw new OAuthError('invalid_grant', 'Invalid or expired authorization code');
+    }
+
+    // PKCE (RFC 7636): the verifier must match the challenge of the authorization request
+    if (
+      code.code_challenge &&
+      (!request.codeVerifier || !this.safeEqual(this.codeChallenge(request.codeVerifier), code.code_challenge))
+    ) {
+      throw new OAuthError('invalid_grant', 'Invalid code verifier');
+    }
+
+    const user = await this.userRepository.findById(code.user_id);
+    if (!user) {
+      throw new OAuthError('invalid_grant', 'Invalid or expired authorization code');
+    }
+
+    return this.issueTokens(client, user.id, user.email, code.scope);
+  }
+
+  private async refreshTokenGrant(
+    client: DbOAuthClient,
+    request: TokenGrantRequest
+  ): Promise<OAuthTokens> {
+    this.requireGrant(client, 'refresh_token');
+    if (!request.refreshToken) {
+      throw new OAuthError('invalid_request', 'Refresh token is required');
+    }
+
+    const tokenHash = this.hash(request.refreshToken);
+    const refreshToken = await this.oauthRepository.findRefreshToken(tokenHash);
+    if (!refreshToken || refreshToken.client_id !== client.client_id) {
+      throw new OAuthError('invalid_grant', 'Invalid refresh token');
+    }
+
+    // A rotated token used again was probably stolen: end the whole grant
+    if (refreshToken.rotated_at && !refreshToken.revoked_at) {
+      await this.oauthRepository.revokeRefreshTokenFamily(refreshToken.family_id);
+      await this.securityEvents.emit('oauth_refresh_token_reuse', refreshToken.user_id, {
+        clientId: client.client_id,
+        familyId: refreshToken.family_id
+      });
+      throw new OAuthError('invalid_grant', 'Invalid refresh token');
+    }
+    if (refreshToken.revoked_at || refreshToken.expires_at <= new Date()) {
+      throw new OAuthError('invalid_grant', 'Invalid refresh token');
+    }
+
+    const granted = refreshToken.scope.split(' ').filter(Boolean);
+    const scopes = request.scope ? this.parseScope(request.scope) : granted;
+    if (!scopes.every((scope) => granted.includes(scope))) {
+      throw new OAuthError('invalid_scope', 'Scope exceeds the original grant');
+    }
+
+    const user = await this.userRepository.findById(refreshToken.user_id);
+    if (!user || !(await this.oauthRepository.markRefreshTokenRotated(tokenHash))) {
+      throw new OAuthError('invalid_grant', 'Invalid refresh token');
+    }
+
+    return this.issueTokens(client, user.id, user.email, scopes.join(' '), refreshToken.family_id);
+  }
+
+  private async clientCredentialsGrant(
+    client: DbOAuthClient,
+    request: TokenGrantRequest
+  ): Promise<OAuthTokens> {
+    if (client.client_type !== 'confidential') {
+      throw new OAuthError('unauthorized_client', 'Public clients cannot use this grant');
+    }
+    this.requireGrant(client, 'client_credentials');
+
+    const scopes = request.scope ? this.parseScope(request.scope) : client.scopes;
+    this.requireClientScopes(client, scopes);
+
+    const accessToken = this.tokenService.generateOAuthAccessToken({
+      subject: client.client_id,
+      clientId: client.client_id,
+      scope: scopes.join(' '),
+      expiresIn: this.options.accessTokenExpiry
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.tokenService.getTimeToExpiry(accessToken),
+      scope: scopes.join(' ')
+    };
+  }
+
+  /**
+   * Access token for a user, plus a refresh token when the client may refresh
+   */
+  private async issueTokens(
+    client: DbOAuthClient,
+    userId: string,
+    email: string,
+    scope: string,
+    familyId?: string
+  ): Promise<OAuthTokens> {
+    const accessToken = this.tokenService.generateOAuthAccessToken({
+      subject: userId,
+      clientId: client.client_id,
+      scope,
+      email,
+      expiresIn: this.options.accessTokenExpiry
+    });
+
+    let refreshToken: string | undefined;
+    if (client.grant_types.includes('refresh_token')) {
+      refreshToken = randomBytes(32).toString('base64url');
+      const ttlDays = this.options.refreshTokenTtl ?? 30;
+      await this.oauthRepository.storeRefreshToken({
+        tokenHash: this.hash(refreshToken),
+        familyId,
+        clientId: client.client_id,
+        userId,
+        scope,
+        expiresAt: new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000)
+      });
+    }
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.tokenService.getTimeToExpiry(accessToken),
+      ...(refreshToken ? { refresh_token: refreshToken } : {}),
+      scope
+    };
+  }
+
+  /**
+   * Client and scopes of a valid authorization request. Public clients
+   * must send a PKCE challenge; only S256 is accepted.
+   */
+  private async validateAuthorizationRequest(
+    request: AuthorizationRequest
+  ): Promise<{ client: DbOAuthClient; scopes: string[] }> {
+    const client = request.clientId ? await this.oauthRepository.findClient(request.clientId) : null;
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Unknown client');
+    }
+    if (!client.redirect_uris.includes(request.redirectUri)) {
+      throw new OAuthError('invalid_request', 'Redirect URI is not registered for this client');
+    }
+    if (request.responseType !== 'code') {
+      throw new OAuthError('unsupported_response_type', 'Only the code response type is supported');
+    }
+    this.requireGrant(client, 'authorization_code');
+
+    if (request.codeChallenge || client.client_type === 'public') {
+      if (!request.codeChallenge || request.codeChallengeMethod !== 'S256') {
+        throw new OAuthError('invalid_request', 'A PKCE code challenge (S256) is required');
+      }
+    }
+
+    const scopes = request.scope ? this.parseScope(request.scope) : client.scopes;
+    this.requireClientScopes(client, scopes);
+
+    return { client, scopes };
+  }
+
+  /**
+   * Active client for the credentials. Confidential clients must present
+   * their secret; public clients only their id, where allowPublic.
+   */
+  private async authenticateClient(
+    credentials: OAuthClientCredentials,
+    allowPublic: boolean
+  ): Promise<DbOAuthClient> {
+    const client = credentials.clientId ? await this.oauthRepository.findClient(credentials.clientId) : null;
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+    }
+
+    if (client.client_type === 'confidential') {
+      if (
+        !credentials.clientSecret ||
+        !client.client_secret_hash ||
+        !this.safeEqual(this.hash(credentials.clientSecret), client.client_secret_hash)
+      ) {
+        throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+      }
+    } else if (!allowPublic) {
+      throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+    }
+
+    return client;
+  }
+
+  /**
+   * Verified, non-revoked OAuth access token, or null
+   */
+  private async verifyAccessToken(token: string): Promise<JwtPayload | null> {
+    try {
+      const payload = this.tokenService.verifyOAuthAccessToken(token);
+      return (await this.tokenService.isTokenRevoked(payload)) ? null : payload;
+    } catch {
+      return null;
+    }
+  }
+
+  private requireGrant(client: DbOAuthClient, grantType: OAuthGrantType): void {
+    if (!client.grant_types.includes(grantType)) {
+      throw new OAuthError('unauthorized_client', `Client is not allowed to use the ${grantType} grant`);
+    }
+  }
+
+  private requireClientScopes(client: DbOAuthClient, scopes: string[]): void {
+    if (scopes.length === 0 || !scopes.every((scope) => client.scopes.includes(scope))) {
+      throw new OAuthError('invalid_scope', 'Requested scope is not allowed for this client');
+    }
+  }
+
+  private parseScope(scope: string): string[] {
+    return [...new Set(scope.split(' ').filter(Boolean))];
+  }
+
+  private isValidRedirectUri(uri: string): boolean {
+    try {
+      return !new URL(uri).hash && !uri.includes('#');
+    } catch {
+      return false;
+    }
+  }
+
+  private codeChallenge(codeVerifier: string): string {
+    return createHash('sha256').update(codeVerifier).digest('base64url');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+
+  private toClientData(client: DbOAuthClient): OAuthClientData {
+    return {
+      id: client.id,
+      clientId: client.client_id,
+      clientType: client.client_type,
+      name: client.name,
+      redirectUris: client.redirect_uris,
+      grantTypes: client.grant_types,
+      scopes: client.scopes,
+      createdAt: client.created_at
+    };
+  }
+
+  private toConsentData(consent: DbOAuthConsent): OAuthConsentData {
+    return {
+      clientId: consent.client_id,
+      clientName: consent.client_name ?? consent.client_id,
+      scopes: consent.scopes,
+      grantedAt: consent.updated_at
+    };
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+}
@@ -0,0 +1,2 @@
+export * from './lib/tenants';
+export { default } from './lib/tenants';
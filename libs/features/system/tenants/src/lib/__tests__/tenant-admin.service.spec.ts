@@ -0,0 +1,189 @@
+import 'reflect-metadata';
+import { randomUUID } from 'crypto';
+import {
+  CreateTenantInput,
+  DbTenant,
+  TenantContext,
+  TenantListQuery,
+  TenantProvisioner,
+  TenantRegistryRepository,
+  TenantService,
+  UpdateTenantInput
+} from '@aegisx/core-database';
+import {
+  ConflictError,
+  NotFoundError,
+  SecurityEvent,
+  SecurityEvents,
+  ValidationError
+} from '@aegisx/features-system-auth';
+import { TenantAdminService } from '../services/tenant-admin.service';
+
+// The logger loads the application config on import, which the test environment does not provide
+jest.mock('@aegisx/core-logger', () => ({ logger: console }));
+
+/**
+ * In-memory stand-in for the Knex registry
+ */
+class InMemoryTenantRegistry {
+  tenants: DbTenant[] = [];
+  lastQuery?: TenantListQuery;
+
+  async findById(id: string) {
+    return this.tenants.find((tenant) => tenant.id === id) ?? null;
+  }
+
+  async findBySlug(slug: string) {
+    return this.tenants.find((tenant) => tenant.slug === slug) ?? null;
+  }
+
+  async findAll() {
+    return [...this.tenants];
+  }
+
+  async list(query: TenantListQuery) {
+    this.lastQuery = query;
+    const matches = this.tenants.filter((tenant) =>
+      (!query.status || tenant.status === query.status) &&
+      (!query.search || tenant.slug.includes(query.search.toLowerCase()))
+    );
+    const start = (query.page - 1) * query.limit;
+    return { tenants: matches.slice(start, start + query.limit), total: matches.length };
+  }
+
+  async create(input: CreateTenantInput) {
+    const tenant: DbTenant = {
+      id: randomUUID(),
+      slug: input.slug,
+      name: input.name,
+      status: input.status ?? 'active',
+      config: input.config ?? {},
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    this.tenants.push(tenant);
+    return tenant;
+  }
+
+  async update(id: string, changes: UpdateTenantInput) {
+    const tenant = await this.findById(id);
+    if (!tenant) return null;
+    Object.assign(tenant, changes, { updated_at: new Date() });
+    return tenant;
+  }
+
+  async delete(id: string) {
+    const before = this.tenants.length;
+    this.tenants = this.tenants.filter((tenant) => tenant.id !== id);
+    return this.tenants.length < before;
+  }
+}
+
+describe('TenantAdminService', () => {
+  let registry: InMemoryTenantRegistry;
+  let tenantService: TenantService;
+  let events: SecurityEvent[];
+  let service: TenantAdminService;
+
+  beforeEach(() => {
+    registry = new InMemoryTenantRegistry();
+    tenantService = new TenantService(registry as unknown as TenantRegistryRepository);
+
+    const securityEvents = new SecurityEvents();
+    events = [];
+    securityEvents.on((event) => {
+      events.push(event);
+    });
+
+    service = new TenantAdminService(tenantService, securityEvents, { maxPageSize: 2 });
+  });
+
+  it('should page with defaults and cap the page size', async () => {
+    for (const slug of ['company-a', 'company-b', 'company-c']) {
+      await tenantService.createTenant({ slug, name: slug });
+    }
+
+    const page = await service.listTenants({ limit: 50, search: '  COMPANY ' });
+
+    expect(registry.lastQuery).toEqual({ page: 1, limit: 2, status: undefined, search: 'COMPANY' });
+    expect(page.tenants).toHaveLength(2);
+    expect(page.pagination).toEqual({ page: 1, limit: 2, total: 3, totalPages: 2 });
+  });
+
+  it('should register tenants and audit the administrator', async () => {
+    const tenant = await service.createTenant({ slug: 'Company-A', name: 'Company A' }, 'admin-1');
+
+    expect(tenant).toMatchObject({ slug: 'company-a', status: 'active' });
+    expect(events).toEqual([expect.objectContaining({
+      type: 'tenant_created',
+      userId: 'admin-1',
+      details: { actorId: 'admin-1', tenantId: tenant.id, slug: 'company-a' }
+    })]);
+  });
+
+  it('should turn registry errors into HTTP errors', async () => {
+    await service.createTenant({ slug: 'company-a', name: 'Company A' }, 'admin-1');
+
+    await expect(service.createTenant({ slug: 'company-a', name: 'Again' }, 'admin-1'))
+      .rejects.toThrow(ConflictError);
+    await expect(service.createTenant({ slug: 'admin', name: 'Reserved' }, 'admin-1'))
+      .rejects.toMatchObject({ field: 'slug' });
+    await expect(service.getTenant(randomUUID())).rejects.toThrow(NotFoundError);
+  });
+
+  it('should suspend and activate, and stop resolving suspended tenants', async () => {
+    const tenant = await service.createTenant({ slug: 'company-a', name: 'Company A' }, 'admin-1');
+    await tenantService.resolve('company-a');
+
+    expect((await service.suspendTenant(tenant.id, 'admin-1')).status).toBe('suspended');
+    await expect(tenantService.resolve('company-a')).rejects.toThrow();
+
+    expect((await service.activateTenant(tenant.id, 'admin-1')).status).toBe('active');
+    expect(events.map((event) => event.type)).toEqual(['tenant_created', 'tenant_suspended', 'tenant_activated']);
+  });
+
+  it('should only delete tenants that are no longer served', async () => {
+    const tenant = await service.createTenant({ slug: 'company-a', name: 'Company A' }, 'admin-1');
+
+    await expect(service.deleteTenant(tenant.id, 'admin-1')).rejects.toThrow(ValidationError);
+
+    await service.suspendTenant(tenant.id, 'admin-1');
+    await service.deleteTenant(tenant.id, 'admin-1');
+
+    expect(registry.tenants).toHaveLength(0);
+    expect(events[events.length - 1]).toMatchObject({ type: 'tenant_deleted', details: { tenantId: tenant.id } });
+  });
+
+  it('should provision isolated tenants and only drop the data of tenants no longer served', async () => {
+    const provisioned: string[] = [];
+    const dropped: string[] = [];
+    const provisioner = {
+      provision: async (tenant: TenantContext) => { provisioned.push(tenant.slug); },
+      deprovision: async (tenant: TenantContext) => { dropped.push(tenant.slug); }
+    };
+    service = new TenantAdminService(
+      new TenantService(registry as unknown as TenantRegistryRepository, {
+        provisioner: provisioner as unknown as TenantProvisioner
+      }),
+      new SecurityEvents()
+    );
+
+    await expect(new TenantAdminService(tenantService).createTenant(
+      { slug: 'company-a', name: 'Company A', isolation: 'schema' },
+      'admin-1'
+    )).rejects.toMatchObject({ field: 'isolation' });
+
+    const tenant = await service.createTenant({ slug: 'company-a', name: 'Company A', isolation: 'schema' }, 'admin-1');
+
+    expect(tenant.config.database).toEqual({ strategy: 'schema', schema: 'tenant_company_a' });
+    expect(provisioned).toEqual(['company-a']);
+    await expect(service.updateTenant(tenant.id, { config: { database: { strategy: 'shared' } } }, 'admin-1'))
+      .rejects.toMatchObject({ field: 'config' });
+
+    await expect(service.deprovisionTenant(tenant.id, 'admin-1')).rejects.toThrow(ValidationError);
+    await service.suspendTenant(tenant.id, 'admin-1');
+    await service.deprovisionTenant(tenant.id, 'admin-1');
+
+    expect(dropped).toEqual(['company-a']);
+  });
+});
@@ -0,0 +1,142 @@
+import 'reflect-metadata';
+import Fastify, { FastifyInstance, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import { TokenDenylist, TokenService } from '@aegisx/core-auth';
+import { tenantRoutes } from '../routes/tenant.routes';
+
+describe('tenant routes', () => {
+  let app: FastifyInstance;
+  let tokenService: TokenService;
+  let listTenants: jest.Mock;
+  let createTenant: jest.Mock;
+  let migrateTenants: jest.Mock;
+
+  const tenant = {
+    id: '8d7a5f0e-4a43-4b8e-9f0e-2a1c3b4d5e6f',
+    slug: 'company-a',
+    name: 'Company A',
+    status: 'active',
+    config: { limits: { maxUsers: 10 } },
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z')
+  };
+
+  const build = async (permissions: string[]) => {
+    app = Fastify();
+    // Stand-in for the @aegisx/core-rbac plugin
+    app.decorate('authorize', (...required: string[]) => async (_request: unknown, reply: FastifyReply) => {
+      if (!required.every((permission) => permissions.includes(permission))) {
+        return reply.code(403).send({ error: 'ForbiddenError', message: 'Missing required permission' });
+      }
+    });
+    // Stand-in for the tenancy plugin of @aegisx/core-database
+    app.decorateRequest('tenant', null);
+    app.addHook('onRequest', async (request) => {
+      if (request.routeOptions.config?.tenant !== false && request.headers['x-tenant-id'] === tenant.slug) {
+        request.tenant = { ...tenant, status: 'active' };
+      }
+    });
+    await app.register(tenantRoutes, { prefix: '/api/tenants' });
+    await app.ready();
+  };
+
+  const bearer = () => ({
+    authorization: `Bearer ${tokenService.generateAccessToken('admin-1', 'admin@aegisx.com', 'session-1')}`
+  });
+
+  beforeEach(() => {
+    tokenService = new TokenService({
+      jwt: {
+        secret: 'test-secret-key-that-is-at-least-32-characters',
+        issuer: 'aegisx-platform',
+        algorithm: 'HS256',
+        accessTokenExpiry: '15m',
+        refreshTokenExpiry: '7d'
+      },
+      security: {
+        maxLoginAttempts: 5,
+        lockoutDuration: 30,
+        passwordMinLength: 6,
+        requireEmailVerification: false
+      }
+    }, { denylist: new TokenDenylist() });
+
+    listTenants = jest.fn(async () => ({
+      tenants: [tenant],
+      pagination: { page: 1, limit: 20, total: 1, totalPages: 1 }
+    }));
+    createTenant = jest.fn(async () => tenant);
+    migrateTenants = jest.fn(async () => ({
+      results: [{ tenantId: tenant.id, slug: 'company-a', status: 'migrated' }]
+    }));
+
+    container.registerInstance('TokenService', tokenService);
+    container.registerInstance('TenantAdminService', { listTenants, createTenant, migrateTenants });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should list tenants for tenants:read without resolving a tenant', async () => {
+    await build(['tenants:read']);
+
+    expect((await app.inject({ method: 'GET', url: '/api/tenants' })).statusCode).toBe(401);
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/tenants?status=active&search=company',
+      headers: { ...bearer(), 'x-tenant-id': 'company-a' }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(listTenants).toHaveBeenCalledWith({ page: 1, limit: 20, status: 'active', search: 'company' });
+    expect(response.json().tenants[0]).toMatchObject({
+      slug: 'company-a',
+      config: { limits: { maxUsers: 10 } },
+      createdAt: '2025-01-01T00:00:00.000Z'
+    });
+  });
+
+  it('should require tenants:create and pass the administrator as actor', async () => {
+    await build(['tenants:read']);
+    const payload = { slug: 'company-a', name: 'Company A' };
+
+    expect((await app.inject({ method: 'POST', url: '/api/tenants', headers: bearer(), payload })).statusCode).toBe(403);
+
+    await app.close();
+    await build(['tenants:create']);
+    const response = await app.inject({ method: 'POST', url: '/api/tenants', headers: bearer(), payload });
+
+    expect(response.statusCode).toBe(201);
+    expect(createTenant).toHaveBeenCalledWith(payload, 'admin-1');
+  });
+
+  it('should migrate tenants for tenants:provision only', async () => {
+    await build(['tenants:update']);
+
+    expect((await app.inject({ method: 'POST', url: '/api/tenants/migrate', headers: bearer() })).statusCode).toBe(403);
+
+    await app.close();
+    await build(['tenants:provision']);
+    const response = await app.inject({ method: 'POST', url: '/api/tenants/migrate', headers: bearer() });
+
+    expect(response.statusCode).toBe(200);
+    expect(migrateTenants).toHaveBeenCalledWith('admin-1');
+    expect(response.json().results).toEqual([{ tenantId: tenant.id, slug: 'company-a', status: 'migrated' }]);
+  });
+
+  it('should return the tenant the request was resolved to', async () => {
+    await build([]);
+
+    const resolved = await app.inject({
+      method: 'GET',
+      url: '/api/tenants/current',
+      headers: { ...bearer(), 'x-tenant-id': 'company-a' }
+    });
+    const missing = await app.inject({ method: 'GET', url: '/api/tenants/current', headers: bearer() });
+
+    expect(resolved.json()).toEqual({ id: tenant.id, slug: 'company-a', name: 'Company A' });
+    expect(missing.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,244 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import { NotFoundError, actorIdOf, handleAuthError } from '@aegisx/features-system-auth';
+import {
+  CreateTenantRequest,
+  TenantListQueryRequest,
+  TenantParams,
+  UpdateTenantRequest
+} from '../schemas';
+import { TenantAdminService } from '../services/tenant-admin.service';
+
+/**
+ * Tenant administration handlers
+ * Routes using these handlers must run requireAuth and requirePermission first
+ */
+export class TenantHandlers {
+
+  async listTenants(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const tenantAdminService = container.resolve<TenantAdminService>('TenantAdminService');
+
+      const page = await tenantAdminService.listTenants(request.query as TenantListQueryRequest);
+
+      return reply.code(200).send(page);
+
+    } catch (error) {
+      request.log.error('List tenants error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async getTenant(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const tenantAdminService = container.resolve<TenantAdminService>('TenantAdminService');
+      const { id } = request.params as TenantParams;
+
+      const tenant = await tenantAdminService.getTenant(id);
+
+      return reply.code(200).send(tenant);
+
+    } catch (error) {
+      request.log.error('Get tenant error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async createTenant(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const tenantAdminService = container.resolve<TenantAdminService>('TenantAdminService');
+      const actorId = actorIdOf(request);
+
+      const tenant = await tenantAdminService.createTenant(request.body as CreateTenantRequest, actorId);
+
+      request.log.info('Tenant created', { tenantId: tenant.id, actorId });
+
+      return reply.code(201).send(tenant);
+
+    } catch (error) {
+      request.log.error('Create tenant error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async updateTenant(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const tenantAdminService = container.resolve<TenantAdminService>('TenantAdminService');
+      const actorId = actorIdOf(request);
+      const { id } = request.params as TenantParams;
+
+      const tenant = await tenantAdminService.updateTenant(id, request.body as UpdateTenantRequest, actorId);
+
+      return reply.code(200).send(tenant);
+
+    } catch (error) {
+      request.log.error('Update tenant error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async suspendTenant(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const tenantAdminService = container.resolve<TenantAdminService>('TenantAdminService');
+      const actorId = actorIdOf(request);
+      const { id } = request.params as TenantParams;
+
+      const tenant = await tenantAdminService.suspendTenant(id, actorId);
+
+      request.log.info('Tenant suspended', { tenantId: id, actorId });
+
+      return reply.code(200).send(tenant);
+
+    } catch (error) {
+      request.log.error('Suspend tenant error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async activateTenant(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const tenantAdminService = container.resolve<TenantAdminService>('TenantAdminService');
+      const actorId = actorIdOf(request);
+      const { id } = request.params as TenantParams;
+
+      const tenant = await tenantAdminService.activateTenant(id, actorId);
+
+      return reply.code(200).send(tenant);
+
+    } catch (error) {
+      request.log.error('Activate tenant error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async deleteTenant(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const tenantAdminService = container.resolve<TenantAdminService>('TenantAdminService');
+      const actorId = actorIdOf(request);
+      const { id } = request.params as TenantParams;
+
+      await tenantAdminService.deleteTenant(id, actorId);
+
+      request.log.info('Tenant deleted', { tenantId: id, actorId });
+
+      return reply.code(200).send({ message: 'Tenant deleted' });
+
+    } catch (error) {
+      request.log.error('Delete tenant error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async provisionTenant(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const tenantAdminService = container.resolve<TenantAdminService>('TenantAdminService');
+      const actorId = actorIdOf(request);
+      const { id } = request.params as TenantParams;
+
+      const tenant = await tenantAdminService.provisionTenant(id, actorId);
+
+      request.log.info('Tenant provisioned', { tenantId: id, actorId });
+
+      return reply.code(200).send(tenant);
+
+    } catch (error) {
+      request.log.error('Provision tenant error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async deprovisionTenant(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const tenantAdminService = container.resolve<TenantAdminService>('TenantAdminService');
+      const actorId = actorIdOf(request);
+      const { id } = request.params as TenantParams;
+
+      const tenant = await tenantAdminService.deprovisionTenant(id, actorId);
+
+      request.log.info('Tenant deprovisioned', { tenantId: id, actorId });
+
+      return reply.code(200).send(tenant);
+
+    } catch (error) {
+      request.log.error('Deprovision tenant error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async migrateTenants(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const tenantAdminService = container.resolve<TenantAdminService>('TenantAdminService');
+      const actorId = actorIdOf(request);
+
+      const migration = await tenantAdminService.migrateTenants(actorId);
+
+      request.log.info('Tenants migrated', { tenants: migration.results.length, actorId });
+
+      return reply.code(200).send(migration);
+
+    } catch (error) {
+      request.log.error('Migrate tenants error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async getCurrentTenant(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      if (!request.tenant) {
+        throw new NotFoundError('No tenant in this request');
+      }
+
+      const { id, slug, name } = request.tenant;
+
+      return reply.code(200).send({ id, slug, name });
+
+    } catch (error) {
+      request.log.error('Get current tenant error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+}
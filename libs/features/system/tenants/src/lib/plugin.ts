@@ -0,0 +1,62 @@
+import fp from 'fastify-plugin';
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { container } from 'tsyringe';
+import { SecurityEvents } from '@aegisx/features-system-auth';
+import { tenantRoutes } from './routes/tenant.routes';
+import { TenantAdminService } from './services/tenant-admin.service';
+
+/**
+ * Tenants plugin options
+ */
+export interface TenantsPluginOptions {
+  /**
+   * Route prefix for tenant administration endpoints
+   * Default: '/api/tenants'
+   */
+  prefix?: string;
+
+  /**
+   * Largest page the tenant listing returns
+   * Default: 100
+   */
+  maxPageSize?: number;
+}
+
+/**
+ * Tenant administration plugin
+ * Requires the @aegisx/core-database tenancy plugin (fastify.tenants) and
+ * the auth plugin to be registered first, and @aegisx/core-rbac for the
+ * permission checks
+ */
+const tenants: FastifyPluginAsync<TenantsPluginOptions> = async (
+  fastify: FastifyInstance,
+  options: TenantsPluginOptions = {}
+) => {
+  const { prefix = '/api/tenants', maxPageSize } = options;
+
+  if (!fastify.hasDecorator('tenants')) {
+    throw new Error('Tenant registry not found. Please register the @aegisx/core-database tenancy plugin before tenants plugin.');
+  }
+  if (!container.isRegistered('SecurityEvents')) {
+    throw new Error('Auth services not found. Please register the auth plugin before tenants plugin.');
+  }
+
+  const tenantAdminService = new TenantAdminService(
+    fastify.tenants,
+    container.resolve<SecurityEvents>('SecurityEvents'),
+    { maxPageSize }
+  );
+  container.registerInstance('TenantAdminService', tenantAdminService);
+
+  await fastify.register(tenantRoutes, { prefix });
+
+  fastify.log.info(`Tenants plugin registered with prefix: ${prefix}`);
+};
+
+// Wrapped so the prefix option is applied once, by the routes
+export const tenantsPlugin = fp(tenants, {
+  name: 'aegisx-tenants',
+  fastify: '5.x'
+});
+
+export default tenantsPlugin;
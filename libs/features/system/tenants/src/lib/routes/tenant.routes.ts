@@ -0,0 +1,230 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import {
+  ErrorSchema,
+  MessageResponseSchema,
+  ValidationErrorSchema,
+  requireAuth,
+  requirePermission
+} from '@aegisx/features-system-auth';
+import { TenantHandlers } from '../handlers/tenant.handlers';
+import {
+  CreateTenantSchema,
+  CurrentTenantSchema,
+  TenantListQuerySchema,
+  TenantListResponseSchema,
+  TenantMigrationResponseSchema,
+  TenantParamsSchema,
+  TenantSchema,
+  UpdateTenantSchema
+} from '../schemas';
+
+/**
+ * Tenant administration routes
+ * They manage the registry itself, so no tenant is resolved for them
+ * (config.tenant = false); permissions are checked by the @aegisx/core-rbac plugin
+ */
+export const tenantRoutes: FastifyPluginAsync = async (
+  fastify: FastifyInstance
+) => {
+  const handlers = new TenantHandlers();
+
+  // GET /api/tenants/current
+  fastify.get('/current', {
+    schema: {
+      summary: 'Current tenant',
+      description: 'Tenant the request was resolved to from the header, subdomain or token',
+      tags: ['tenants'],
+      response: {
+        200: CurrentTenantSchema,
+        401: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: [requireAuth]
+  }, handlers.getCurrentTenant);
+
+  // GET /api/tenants
+  fastify.get('/', {
+    schema: {
+      summary: 'List tenants',
+      description: 'Paginated tenant listing with search and status filter (requires tenants:read)',
+      tags: ['tenants'],
+      querystring: TenantListQuerySchema,
+      response: {
+        200: TenantListResponseSchema,
+        400: ValidationErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema
+      }
+    },
+    config: { tenant: false },
+    preHandler: [requireAuth, requirePermission(fastify, 'tenants:read')]
+  }, handlers.listTenants);
+
+  // POST /api/tenants/migrate
+  fastify.post('/migrate', {
+    schema: {
+      summary: 'Migrate tenants',
+      description: 'Run pending migrations in the schema or database of every isolated tenant (requires tenants:provision)',
+      tags: ['tenants'],
+      response: {
+        200: TenantMigrationResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema
+      }
+    },
+    config: { tenant: false },
+    preHandler: [requireAuth, requirePermission(fastify, 'tenants:provision')]
+  }, handlers.migrateTenants);
+
+  // GET /api/tenants/:id
+  fastify.get('/:id', {
+    schema: {
+      summary: 'Get tenant',
+      description: 'A tenant, whatever its status (requires tenants:read)',
+      tags: ['tenants'],
+      params: TenantParamsSchema,
+      response: {
+        200: TenantSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    config: { tenant: false },
+    preHandler: [requireAuth, requirePermission(fastify, 'tenants:read')]
+  }, handlers.getTenant);
+
+  // POST /api/tenants
+  fastify.post('/', {
+    schema: {
+      summary: 'Create tenant',
+      description: 'Register an active tenant under a free slug (requires tenants:create)',
+      tags: ['tenants'],
+      body: CreateTenantSchema,
+      response: {
+        201: TenantSchema,
+        400: ValidationErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        409: ErrorSchema
+      }
+    },
+    config: { tenant: false },
+    preHandler: [requireAuth, requirePermission(fastify, 'tenants:create')]
+  }, handlers.createTenant);
+
+  // PATCH /api/tenants/:id
+  fastify.patch('/:id', {
+    schema: {
+      summary: 'Update tenant',
+      description: 'Change the name or settings of a tenant (requires tenants:update)',
+      tags: ['tenants'],
+      params: TenantParamsSchema,
+      body: UpdateTenantSchema,
+      response: {
+        200: TenantSchema,
+        400: ValidationErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    config: { tenant: false },
+    preHandler: [requireAuth, requirePermission(fastify, 'tenants:update')]
+  }, handlers.updateTenant);
+
+  // POST /api/tenants/:id/suspend
+  fastify.post('/:id/suspend', {
+    schema: {
+      summary: 'Suspend tenant',
+      description: 'Refuse every request of the tenant until it is activated (requires tenants:update)',
+      tags: ['tenants'],
+      params: TenantParamsSchema,
+      response: {
+        200: TenantSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    config: { tenant: false },
+    preHandler: [requireAuth, requirePermission(fastify, 'tenants:update')]
+  }, handlers.suspendTenant);
+
+  // POST /api/tenants/:id/activate
+  fastify.post('/:id/activate', {
+    schema: {
+      summary: 'Activate tenant',
+      description: 'Serve a suspended or inactive tenant again (requires tenants:update)',
+      tags: ['tenants'],
+      params: TenantParamsSchema,
+      response: {
+        200: TenantSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    config: { tenant: false },
+    preHandler: [requireAuth, requirePermission(fastify, 'tenants:update')]
+  }, handlers.activateTenant);
+
+  // POST /api/tenants/:id/provision
+  fastify.post('/:id/provision', {
+    schema: {
+      summary: 'Provision tenant',
+      description: 'Create the schema or database of an isolated tenant if missing and run its pending migrations (requires tenants:provision)',
+      tags: ['tenants'],
+      params: TenantParamsSchema,
+      response: {
+        200: TenantSchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    config: { tenant: false },
+    preHandler: [requireAuth, requirePermission(fastify, 'tenants:provision')]
+  }, handlers.provisionTenant);
+
+  // POST /api/tenants/:id/deprovision
+  fastify.post('/:id/deprovision', {
+    schema: {
+      summary: 'Deprovision tenant',
+      description: 'Drop the schema or database of a suspended or inactive tenant with all its data (requires tenants:delete)',
+      tags: ['tenants'],
+      params: TenantParamsSchema,
+      response: {
+        200: TenantSchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    config: { tenant: false },
+    preHandler: [requireAuth, requirePermission(fastify, 'tenants:delete')]
+  }, handlers.deprovisionTenant);
+
+  // DELETE /api/tenants/:id
+  fastify.delete('/:id', {
+    schema: {
+      summary: 'Delete tenant',
+      description: 'Remove a suspended or inactive tenant from the registry (requires tenants:delete)',
+      tags: ['tenants'],
+      params: TenantParamsSchema,
+      response: {
+        200: MessageResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    config: { tenant: false },
+    preHandler: [requireAuth, requirePermission(fastify, 'tenants:delete')]
+  }, handlers.deleteTenant);
+};
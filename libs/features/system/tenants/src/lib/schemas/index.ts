@@ -0,0 +1,2 @@
+// Tenant administration schemas
+export * from './tenants.schemas';
\ No newline at end of file
@@ -0,0 +1,172 @@
+import { Type, Static } from '@sinclair/typebox';
+
+/**
+ * Tenant Administration Request Schemas
+ */
+
+export const TenantStatusSchema = Type.Union([
+  Type.Literal('active'),
+  Type.Literal('suspended'),
+  Type.Literal('inactive')
+], {
+  $id: 'TenantStatus',
+  title: 'Tenant Status',
+  description: 'Only active tenants are served'
+});
+
+export const TenantIsolationSchema = Type.Union([
+  Type.Literal('shared'),
+  Type.Literal('schema'),
+  Type.Literal('database')
+], {
+  title: 'Tenant Isolation',
+  description: 'shared: tables shared by all tenants; schema: a Postgres schema per tenant; database: a database per tenant'
+});
+
+export const TenantConfigSchema = Type.Object({
+  database: Type.Optional(Type.Object({
+    strategy: TenantIsolationSchema,
+    schema: Type.Optional(Type.String()),
+    database: Type.Optional(Type.String())
+  }, { description: 'Where the data lives; fixed when the tenant is created' })),
+  limits: Type.Optional(Type.Object({
+    maxUsers: Type.Optional(Type.Integer({ minimum: 0 })),
+    maxStorage: Type.Optional(Type.Integer({ minimum: 0, description: 'Bytes' })),
+    apiRateLimit: Type.Optional(Type.Integer({ minimum: 0, description: 'Requests per minute' }))
+  }))
+}, {
+  $id: 'TenantConfig',
+  title: 'Tenant Config',
+  description: 'Tenant settings; keys other than limits are kept as they are',
+  additionalProperties: true
+});
+
+export const TenantListQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({
+    minimum: 1,
+    default: 1,
+    description: 'Page number, starting at 1'
+  })),
+  limit: Type.Optional(Type.Integer({
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+    description: 'Tenants per page'
+  })),
+  search: Type.Optional(Type.String({
+    maxLength: 100,
+    description: 'Part of the slug or name (case-insensitive)'
+  })),
+  status: Type.Optional(TenantStatusSchema)
+}, {
+  $id: 'TenantListQuery',
+  title: 'Tenant List Query',
+  description: 'Paging, search and status filter of the tenant listing'
+});
+
+export const TenantParamsSchema = Type.Object({
+  id: Type.String({
+    format: 'uuid',
+    description: 'Tenant identifier'
+  })
+}, {
+  $id: 'TenantParams',
+  title: 'Tenant Params',
+  description: 'Tenant route parameters'
+});
+
+export const CreateTenantSchema = Type.Object({
+  slug: Type.String({
+    minLength: 1,
+    maxLength: 63,
+    description: 'Subdomain and X-Tenant-ID value: lowercase letters, digits and inner hyphens'
+  }),
+  name: Type.String({ minLength: 1, maxLength: 255 }),
+  isolation: Type.Optional(TenantIsolationSchema),
+  config: Type.Optional(TenantConfigSchema)
+}, {
+  $id: 'CreateTenantRequest',
+  title: 'Create Tenant Request',
+  description: 'Register an active tenant; schema and database isolation provision a schema or database named tenant_<slug> (default: shared)'
+});
+
+export const UpdateTenantSchema = Type.Object({
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 255 })),
+  config: Type.Optional(TenantConfigSchema)
+}, {
+  $id: 'UpdateTenantRequest',
+  title: 'Update Tenant Request',
+  description: 'The slug never changes; use suspend and activate for the status',
+  minProperties: 1
+});
+
+/**
+ * Tenant Administration Response Schemas
+ */
+
+export const TenantSchema = Type.Object({
+  id: Type.String(),
+  slug: Type.String(),
+  name: Type.String(),
+  status: TenantStatusSchema,
+  config: TenantConfigSchema,
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' })
+}, {
+  $id: 'Tenant',
+  title: 'Tenant',
+  description: 'Tenant as stored in the registry'
+});
+
+export const TenantListResponseSchema = Type.Object({
+  tenants: Type.Array(TenantSchema),
+  pagination: Type.Object({
+    page: Type.Integer(),
+    limit: Type.Integer(),
+    total: Type.Integer({ description: 'Tenants matching the filters' }),
+    totalPages: Type.Integer()
+  })
+}, {
+  $id: 'TenantListResponse',
+  title: 'Tenant List Response'
+});
+
+export const CurrentTenantSchema = Type.Object({
+  id: Type.String(),
+  slug: Type.String(),
+  name: Type.String()
+}, {
+  $id: 'CurrentTenant',
+  title: 'Current Tenant',
+  description: 'Tenant the request was resolved to'
+});
+
+export const TenantMigrationResponseSchema = Type.Object({
+  results: Type.Array(Type.Object({
+    tenantId: Type.String(),
+    slug: Type.String(),
+    status: Type.Union([
+      Type.Literal('migrated'),
+      Type.Literal('skipped'),
+      Type.Literal('failed')
+    ], { description: 'skipped: shared tenant, migrated with the shared database' }),
+    error: Type.Optional(Type.String())
+  }))
+}, {
+  $id: 'TenantMigrationResponse',
+  title: 'Tenant Migration Response',
+  description: 'Outcome of the migrations per tenant'
+});
+
+/**
+ * TypeScript Types from Schemas
+ */
+
+export type TenantListQueryRequest = Static<typeof TenantListQuerySchema>;
+export type TenantParams = Static<typeof TenantParamsSchema>;
+export type CreateTenantRequest = Static<typeof CreateTenantSchema>;
+export type UpdateTenantRequest = Static<typeof UpdateTenantSchema>;
+export type TenantResponse = Static<typeof TenantSchema>;
+export type TenantListResponse = Static<typeof TenantListResponseSchema>;
+export type CurrentTenantResponse = Static<typeof CurrentTenantSchema>;
+export type TenantMigrationResponse = Static<typeof TenantMigrationResponseSchema>;
@@ -0,0 +1,240 @@
+import { injectable } from 'tsyringe';
+import {
+  TenantConfig,
+  TenantContext,
+  TenantError,
+  TenantIsolation,
+  TenantMigrationResult,
+  TenantService,
+  TenantStatus
+} from '@aegisx/core-database';
+import {
+  ConflictError,
+  NotFoundError,
+  SecurityEvents,
+  ValidationError
+} from '@aegisx/features-system-auth';
+
+/**
+ * Listing request; paging falls back to the defaults
+ */
+export interface TenantListOptions {
+  page?: number; // Default: 1
+  limit?: number; // Default: 20, at most maxPageSize
+  status?: TenantStatus;
+  search?: string;
+}
+
+/**
+ * One page of tenants
+ */
+export interface TenantPage {
+  tenants: TenantContext[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * Tenant registered by an administrator; it starts active
+ */
+export interface CreateManagedTenantRequest {
+  slug: string;
+  name: string;
+  isolation?: TenantIsolation; // Default: shared
+  config?: TenantConfig;
+}
+
+/**
+ * Name or settings changes; the slug never changes
+ */
+export interface UpdateManagedTenantRequest {
+  name?: string;
+  config?: TenantConfig;
+}
+
+/**
+ * Tenant administration settings
+ */
+export interface TenantAdminServiceOptions {
+  maxPageSize?: number; // Default: 100
+}
+
+/**
+ * Administration of the tenant registry: listing, registration, changes,
+ * suspension, provisioning and removal. Every change raises a security
+ * event naming the administrator (actorId) and the tenant (tenantId).
+ */
+@injectable()
+export class TenantAdminService {
+  private readonly maxPageSize: number;
+
+  constructor(
+    private tenantService: TenantService,
+    private securityEvents: SecurityEvents = new SecurityEvents(),
+    options: TenantAdminServiceOptions = {}
+  ) {
+    this.maxPageSize = options.maxPageSize ?? 100;
+  }
+
+  /**
+   * Paginated tenant listing, newest first
+   */
+  async listTenants(options: TenantListOptions = {}): Promise<TenantPage> {
+    const page = Math.max(1, Math.floor(options.page ?? 1));
+    const limit = Math.min(this.maxPageSize, Math.max(1, Math.floor(options.limit ?? 20)));
+
+    const { tenants, total } = await this.tenantService.listTenants({
+      page,
+      limit,
+      status: options.status,
+      search: options.search?.trim() || undefined
+    });
+
+    return {
+      tenants,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+    };
+  }
+
+  async getTenant(tenantId: string): Promise<TenantContext> {
+    return this.run(() => this.tenantService.getTenant(tenantId));
+  }
+
+  async createTenant(request: CreateManagedTenantRequest, actorId: string): Promise<TenantContext> {
+    const tenant = await this.run(() => this.tenantService.createTenant({
+      slug: request.slug,
+      name: request.name,
+      config: {
+        ...request.config,
+        ...(request.isolation && { database: { ...request.config?.database, strategy: request.isolation } })
+      }
+    }));
+
+    await this.securityEvents.emit('tenant_created', actorId, { actorId, tenantId: tenant.id, slug: tenant.slug });
+    return tenant;
+  }
+
+  async updateTenant(tenantId: string, request: UpdateManagedTenantRequest, actorId: string): Promise<TenantContext> {
+    if (request.name !== undefined && !request.name.trim()) {
+      throw new ValidationError('Name cannot be empty', 'name');
+    }
+
+    const tenant = await this.run(() => this.tenantService.updateTenant(tenantId, request));
+
+    await this.securityEvents.emit('tenant_updated', actorId, {
+      actorId,
+      tenantId: tenant.id,
+      fields: Object.keys(request)
+    });
+    return tenant;
+  }
+
+  /**
+   * Stop serving a tenant: its requests are refused until it is activated
+   */
+  async suspendTenant(tenantId: string, actorId: string): Promise<TenantContext> {
+    const tenant = await this.run(() => this.tenantService.updateTenant(tenantId, { status: 'suspended' }));
+
+    await this.securityEvents.emit('tenant_suspended', actorId, { actorId, tenantId: tenant.id });
+    return tenant;
+  }
+
+  async activateTenant(tenantId: string, actorId: string): Promise<TenantContext> {
+    const tenant = await this.run(() => this.tenantService.updateTenant(tenantId, { status: 'active' }));
+
+    await this.securityEvents.emit('tenant_activated', actorId, { actorId, tenantId: tenant.id });
+    return tenant;
+  }
+
+  /**
+   * Remove a tenant from the registry. Only suspended or inactive tenants
+   * can be removed, so a tenant in use is never deleted by accident.
+   */
+  async deleteTenant(tenantId: string, actorId: string): Promise<void> {
+    const tenant = await this.getTenant(tenantId);
+    if (tenant.status === 'active') {
+      throw new ValidationError('Suspend the tenant before deleting it');
+    }
+
+    await this.run(() => this.tenantService.deleteTenant(tenant.id));
+
+    await this.securityEvents.emit('tenant_deleted', actorId, { actorId, tenantId: tenant.id, slug: tenant.slug });
+  }
+
+  /**
+   * Create the schema or database of an isolated tenant if missing and run
+   * its pending migrations; nothing to do for shared tenants
+   */
+  async provisionTenant(tenantId: string, actorId: string): Promise<TenantContext> {
+    const tenant = await this.run(() => this.tenantService.provisionTenant(tenantId));
+
+    await this.securityEvents.emit('tenant_provisioned', actorId, { actorId, tenantId: tenant.id });
+    return tenant;
+  }
+
+  /**
+   * Drop the schema or database of an isolated tenant with all its data.
+   * Like deletion, only for tenants that are no longer served.
+   */
+  async deprovisionTenant(tenantId: string, actorId: string): Promise<TenantContext> {
+    const tenant = await this.getTenant(tenantId);
+    if (tenant.status === 'active') {
+      throw new ValidationError('Suspend the tenant before dropping its data');
+    }
+
+    await this.run(() => this.tenantService.deprovisionTenant(tenant.id));
+
+    await this.securityEvents.emit('tenant_deprovisioned', actorId, { actorId, tenantId: tenant.id, slug: tenant.slug });
+    return tenant;
+  }
+
+  /**
+   * Run pending migrations in every isolated tenant
+   */
+  async migrateTenants(actorId: string): Promise<{ results: TenantMigrationResult[] }> {
+    const results = await this.run(() => this.tenantService.migrateTenants());
+
+    await this.securityEvents.emit('tenants_migrated', actorId, {
+      actorId,
+      migrated: results.filter((result) => result.status === 'migrated').length,
+      failed: results.filter((result) => result.status === 'failed').map((result) => result.tenantId)
+    });
+    return { results };
+  }
+
+  /**
+   * Translate registry error codes into HTTP errors
+   */
+  private async run<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      switch ((error as Error).message) {
+        case TenantError.TENANT_NOT_FOUND:
+          throw new NotFoundError('Tenant not found');
+        case TenantError.TENANT_ALREADY_EXISTS:
+          throw new ConflictError('Tenant with this slug already exists');
+        case TenantError.INVALID_TENANT_SLUG:
+          throw new ValidationError(
+            'Slug must be lowercase letters, digits and inner hyphens, and not reserved',
+            'slug'
+          );
+        case TenantError.INVALID_ISOLATION:
+          throw new ValidationError(
+            'Isolation must be shared, schema or database, with a valid schema or database name',
+            'isolation'
+          );
+        case TenantError.ISOLATION_IMMUTABLE:
+          throw new ValidationError('The isolation of a tenant cannot be changed', 'config');
+        case TenantError.PROVISIONING_UNAVAILABLE:
+          throw new ValidationError('Schema and database isolation are not enabled', 'isolation');
+        default:
+          throw error;
+      }
+    }
+  }
+}
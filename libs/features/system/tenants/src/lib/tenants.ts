@@ -0,0 +1,23 @@
+// Tenant administration feature exports
+export { tenantsPlugin as default } from './plugin';
+export { tenantsPlugin } from './plugin';
+export type { TenantsPluginOptions } from './plugin';
+
+// Routes and handlers
+export { tenantRoutes } from './routes/tenant.routes';
+export { TenantHandlers } from './handlers/tenant.handlers';
+
+// Services
+export { TenantAdminService } from './services/tenant-admin.service';
+
+// Types and interfaces
+export type {
+  TenantListOptions,
+  TenantPage,
+  CreateManagedTenantRequest,
+  UpdateManagedTenantRequest,
+  TenantAdminServiceOptions
+} from './services/tenant-admin.service';
+
+// Export schemas and types
+export * from './schemas';
@@ -0,0 +1,8 @@
+import { Knex } from 'knex';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    knex?: Knex;
+    db?: Knex;
+  }
+}
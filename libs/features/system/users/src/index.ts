@@ -0,0 +1,2 @@
+export * from './lib/users';
+export { default } from './lib/users';
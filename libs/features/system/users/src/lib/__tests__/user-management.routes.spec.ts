@@ -0,0 +1,156 @@
+import 'reflect-metadata';
+import Fastify, { FastifyInstance, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import { TokenDenylist, TokenService } from '@aegisx/core-auth';
+import { userManagementRoutes } from '../routes/user-management.routes';
+
+describe('user management routes', () => {
+  let app: FastifyInstance;
+  let tokenService: TokenService;
+  let listUsers: jest.Mock;
+  let impersonate: jest.Mock;
+  let deactivateUser: jest.Mock;
+
+  const user = {
+    id: '8d7a5f0e-4a43-4b8e-9f0e-2a1c3b4d5e6f',
+    email: 'user@aegisx.com',
+    firstName: 'Test',
+    lastName: 'User',
+    isActive: true,
+    emailVerified: true,
+    locked: false,
+    passwordHash: 'never sent',
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z')
+  };
+
+  const build = async (permissions: string[]) => {
+    app = Fastify();
+    // Stand-in for the @aegisx/core-rbac plugin
+    app.decorate('authorize', (...required: string[]) => async (_request: unknown, reply: FastifyReply) => {
+      if (!required.every((permission) => permissions.includes(permission))) {
+        return reply.code(403).send({ error: 'ForbiddenError', message: 'Missing required permission' });
+      }
+    });
+    await app.register(userManagementRoutes, { prefix: '/api/users' });
+    await app.ready();
+  };
+
+  const bearer = (token = tokenService.generateAccessToken('admin-1', 'admin@aegisx.com', 'session-1')) => ({
+    authorization: `Bearer ${token}`
+  });
+
+  beforeEach(() => {
+    tokenService = new TokenService({
+      jwt: {
+        secret: 'test-secret-key-that-is-at-least-32-characters',
+        issuer: 'aegisx-platform',
+        algorithm: 'HS256',
+        accessTokenExpiry: '15m',
+        refreshTokenExpiry: '7d'
+      },
+      security: {
+        maxLoginAttempts: 5,
+        lockoutDuration: 30,
+        passwordMinLength: 6,
+        requireEmailVerification: false
+      }
+    }, { denylist: new TokenDenylist() });
+
+    listUsers = jest.fn(async () => ({
+      users: [user],
+      pagination: { page: 2, limit: 10, total: 11, totalPages: 2 }
+    }));
+    impersonate = jest.fn(async () => ({
+      accessToken: 'token',
+      tokenType: 'Bearer',
+      expiresIn: 900,
+      user,
+      actorId: 'admin-1'
+    }));
+
+    container.registerInstance('TokenService', tokenService);
+    deactivateUser = jest.fn(async () => user);
+
+    container.registerInstance('UserManagementService', { listUsers, impersonate, deactivateUser });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should list users with typed query parameters and without internal fields', async () => {
+    await build(['users:read']);
+
+    expect((await app.inject({ method: 'GET', url: '/api/users' })).statusCode).toBe(401);
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/users?page=2&limit=10&isActive=true&search=user&sortBy=email&sortOrder=asc',
+      headers: bearer()
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(listUsers).toHaveBeenCalledWith({
+      page: 2,
+      limit: 10,
+      isActive: true,
+      search: 'user',
+      sortBy: 'email',
+      sortOrder: 'asc'
+    });
+    expect(response.json().users[0]).toMatchObject({ id: user.id, createdAt: '2025-01-01T00:00:00.000Z' });
+    expect(response.json().users[0].passwordHash).toBeUndefined();
+  });
+
+  it('should reject page sizes above the maximum', async () => {
+    await build(['users:read']);
+
+    const response = await app.inject({ method: 'GET', url: '/api/users?limit=500', headers: bearer() });
+
+    expect(response.statusCode).toBe(400);
+    expect(listUsers).not.toHaveBeenCalled();
+  });
+
+  it('should require users:impersonate and pass the signed-in administrator as actor', async () => {
+    await build(['users:read']);
+    const url = `/api/users/${user.id}/impersonate`;
+
+    expect((await app.inject({ method: 'POST', url, headers: bearer() })).statusCode).toBe(403);
+
+    await app.close();
+    await build(['users:impersonate']);
+    const response = await app.inject({ method: 'POST', url, headers: bearer() });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ accessToken: 'token', actorId: 'admin-1' });
+    expect(impersonate).toHaveBeenCalledWith(user.id, expect.objectContaining({ userId: 'admin-1', email: 'admin@aegisx.com' }));
+  });
+
+  it('should pass the act claim of an impersonation token on as actorId', async () => {
+    await build(['users:impersonate']);
+    const token = tokenService.generateImpersonationToken({
+      userId: 'user-2',
+      email: 'other@aegisx.com',
+      actor: { sub: 'admin-1' }
+    });
+
+    await app.inject({ method: 'POST', url: `/api/users/${user.id}/impersonate`, headers: bearer(token) });
+
+    expect(impersonate).toHaveBeenCalledWith(user.id, expect.objectContaining({ userId: 'user-2', actorId: 'admin-1' }));
+  });
+
+  it('should record the administrator behind an impersonation as actor', async () => {
+    await build(['users:update']);
+    const token = tokenService.generateImpersonationToken({
+      userId: 'user-2',
+      email: 'other@aegisx.com',
+      actor: { sub: 'admin-1' }
+    });
+
+    const response = await app.inject({ method: 'POST', url: `/api/users/${user.id}/deactivate`, headers: bearer(token) });
+
+    expect(response.statusCode).toBe(200);
+    expect(deactivateUser).toHaveBeenCalledWith(user.id, 'admin-1');
+  });
+});
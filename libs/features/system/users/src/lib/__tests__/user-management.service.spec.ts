@@ -0,0 +1,329 @@
+import 'reflect-metadata';
+import { TokenDenylist, TokenService } from '@aegisx/core-auth';
+import {
+  AuthService,
+  ConflictError,
+  DbUser,
+  ForbiddenError,
+  SecurityEvent,
+  SecurityEvents,
+  ValidationError
+} from '@aegisx/features-system-auth';
+import {
+  UpdateUserInput,
+  UserListQuery,
+  UserManagementRepository
+} from '../repositories/user-management.repository';
+import { UserManagementService } from '../services/user-management.service';
+
+/**
+ * In-memory stand-in for the Knex repository
+ */
+class InMemoryUserManagementRepository {
+  users: DbUser[] = [];
+  lastQuery?: UserListQuery;
+
+  async list(query: UserListQuery) {
+    this.lastQuery = query;
+    const matches = this.users.filter((user) =>
+      (query.isActive === undefined || user.is_active === query.isActive) &&
+      (!query.search || user.email.includes(query.search.toLowerCase()))
+    );
+    const start = (query.page - 1) * query.limit;
+    return { users: matches.slice(start, start + query.limit), total: matches.length };
+  }
+
+  async findById(id: string) {
+    return this.users.find((user) => user.id === id) ?? null;
+  }
+
+  async findByEmail(email: string) {
+    return this.users.find((user) => user.email === email) ?? null;
+  }
+
+  async update(id: string, changes: UpdateUserInput) {
+    const user = await this.findById(id);
+    if (!user) return null;
+    if (changes.email !== undefined) user.email = changes.email;
+    if (changes.firstName !== undefined) user.first_name = changes.firstName;
+    if (changes.lastName !== undefined) user.last_name = changes.lastName;
+    if (changes.emailVerified !== undefined) user.email_verified = changes.emailVerified;
+    return user;
+  }
+
+  async setActive(id: string, isActive: boolean) {
+    const user = await this.findById(id);
+    if (!user) return null;
+    user.is_active = isActive;
+    return user;
+  }
+}
+
+/**
+ * Stand-in for the RBAC service: `*:*` covers everything, other grants match exactly
+ */
+class InMemoryPermissionLookup {
+  permissions: Record<string, string[]> = {};
+
+  async getEffectivePermissions(userId: string) {
+    return { permissions: this.permissions[userId] ?? [] };
+  }
+
+  async canAll(subject: { id: string }, required: string[]) {
+    const granted = this.permissions[subject.id] ?? [];
+    return granted.includes('*:*') || required.every((permission) => granted.includes(permission));
+  }
+}
+
+function createUser(id: string, email: string, overrides: Partial<DbUser> = {}): DbUser {
+  return {
+    id,
+    email,
+    password_hash: 'hash',
+    first_name: 'Test',
+    last_name: 'User',
+    is_active: true,
+    email_verified: true,
+    login_attempts: 0,
+    created_at: new Date('2025-01-01T00:00:00Z'),
+    updated_at: new Date('2025-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('UserManagementService', () => {
+  let repository: InMemoryUserManagementRepository;
+  let tokenService: TokenService;
+  let authService: {
+    createAccount: jest.Mock;
+    setPassword: jest.Mock;
+    requestPasswordReset: jest.Mock;
+    logoutAll: jest.Mock;
+    unlock: jest.Mock;
+  };
+  let events: SecurityEvent[];
+  let permissionLookup: InMemoryPermissionLookup;
+  let service: UserManagementService;
+
+  beforeEach(() => {
+    repository = new InMemoryUserManagementRepository();
+    repository.users = [
+      createUser('admin-1', 'admin@aegisx.com'),
+      createUser('user-1', 'alice@aegisx.com'),
+      createUser('user-2', 'bob@aegisx.com', { is_active: false })
+    ];
+
+    tokenService = new TokenService({
+      jwt: {
+        secret: 'test-secret-key-that-is-at-least-32-characters',
+        issuer: 'aegisx-platform',
+        algorithm: 'HS256',
+        accessTokenExpiry: '15m',
+        refreshTokenExpiry: '7d'
+      },
+      security: {
+        maxLoginAttempts: 5,
+        lockoutDuration: 30,
+        passwordMinLength: 6,
+        requireEmailVerification: false
+      }
+    }, { denylist: new TokenDenylist() });
+
+    authService = {
+      createAccount: jest.fn(async (input: { email: string }) => {
+        const user = createUser('user-3', input.email.toLowerCase(), { email_verified: false });
+        repository.users.push(user);
+        return user;
+      }),
+      setPassword: jest.fn(),
+      requestPasswordReset: jest.fn(),
+      logoutAll: jest.fn(),
+      unlock: jest.fn(async () => ({}))
+    };
+
+    const securityEvents = new SecurityEvents();
+    events = [];
+    securityEvents.on((event) => {
+      events.push(event);
+    });
+
+    permissionLookup = new InMemoryPermissionLookup();
+    permissionLookup.permissions = {
+      'admin-1': ['*:*'],
+      'user-1': ['reports:read']
+    };
+
+    service = new UserManagementService(
+      repository as unknown as UserManagementRepository,
+      authService as unknown as AuthService,
+      tokenService,
+      securityEvents,
+      { maxPageSize: 2, impersonationTokenExpiry: '5m' },
+      permissionLookup
+    );
+  });
+
+  describe('listing', () => {
+    it('should page with defaults and cap the page size', async () => {
+      const page = await service.listUsers({ limit: 50 });
+
+      expect(repository.lastQuery).toMatchObject({ page: 1, limit: 2, sortBy: 'createdAt', sortOrder: 'desc' });
+      expect(page.users).toHaveLength(2);
+      expect(page.pagination).toEqual({ page: 1, limit: 2, total: 3, totalPages: 2 });
+    });
+
+    it('should pass the search and filters to the repository', async () => {
+      const page = await service.listUsers({ search: '  ALICE ', isActive: true });
+
+      expect(repository.lastQuery).toMatchObject({ search: 'ALICE', isActive: true });
+      expect(page.users.map((user) => user.id)).toEqual(['user-1']);
+    });
+  });
+
+  describe('accounts', () => {
+    it('should refuse an email taken by a deactivated user', async () => {
+      await expect(service.createUser({
+        email: 'Bob@aegisx.com',
+        password: 'Secret123!',
+        firstName: 'Bob',
+        lastName: 'Again'
+      }, 'admin-1')).rejects.toThrow(ConflictError);
+
+      expect(authService.createAccount).not.toHaveBeenCalled();
+    });
+
+    it('should create through the auth service and audit the administrator', async () => {
+      const user = await service.createUser({
+        email: 'carol@aegisx.com',
+        password: 'Secret123!',
+        firstName: 'Carol',
+        lastName: 'User'
+      }, 'admin-1');
+
+      expect(user).toMatchObject({ id: 'user-3', isActive: true, emailVerified: false });
+      expect(events).toEqual([expect.objectContaining({ type: 'user_created', userId: 'user-3', details: { actorId: 'admin-1' } })]);
+    });
+
+    it('should mark a changed email address as unverified', async () => {
+      const user = await service.updateUser('user-1', { email: 'Alice.New@aegisx.com' }, 'admin-1');
+
+      expect(user).toMatchObject({ email: 'alice.new@aegisx.com', emailVerified: false });
+      expect(events[0].details).toEqual({ actorId: 'admin-1', fields: ['email', 'emailVerified'] });
+
+      await expect(service.updateUser('user-1', { email: 'bob@aegisx.com' }, 'admin-1'))
+        .rejects.toThrow(ConflictError);
+    });
+
+    it('should deactivate and sign out, but never the administrator themselves', async () => {
+      await expect(service.deactivateUser('admin-1', 'admin-1')).rejects.toThrow(ValidationError);
+
+      const user = await service.deactivateUser('user-1', 'admin-1');
+
+      expect(user.isActive).toBe(false);
+      expect(authService.logoutAll).toHaveBeenCalledWith('user-1');
+      expect(events.map((event) => event.type)).toEqual(['user_deactivated']);
+
+      expect((await service.activateUser('user-1', 'admin-1')).isActive).toBe(true);
+    });
+  });
+
+  describe('password reset and sessions', () => {
+    it('should set the given password or email a reset link', async () => {
+      await service.resetPassword('user-1', { password: 'N3w-Secret!' }, 'admin-1');
+      expect(authService.setPassword).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), 'N3w-Secret!');
+
+      await service.resetPassword('user-1', {}, 'admin-1');
+      expect(authService.requestPasswordReset).toHaveBeenCalledWith('alice@aegisx.com');
+      expect(authService.logoutAll).toHaveBeenCalledWith('user-1');
+
+      expect(events.map((event) => event.details?.['method'])).toEqual(['password', 'email']);
+    });
+
+    it('should not email a reset link to a deactivated user', async () => {
+      await expect(service.resetPassword('user-2', {}, 'admin-1')).rejects.toThrow(ValidationError);
+      expect(authService.requestPasswordReset).not.toHaveBeenCalled();
+    });
+
+    it('should not let administrators take over users holding permissions they lack', async () => {
+      repository.users.push(createUser('support-1', 'support@aegisx.com'));
+      permissionLookup.permissions['support-1'] = ['users:update', 'users:reset-password', 'reports:read'];
+
+      await expect(service.resetPassword('admin-1', { password: 'N3w-Secret!' }, 'support-1'))
+        .rejects.toThrow(ForbiddenError);
+      await expect(service.resetPassword('admin-1', {}, 'support-1')).rejects.toThrow(ForbiddenError);
+      await expect(service.updateUser('admin-1', { email: 'support+admin@aegisx.com', emailVerified: true }, 'support-1'))
+        .rejects.toThrow(ForbiddenError);
+      expect(authService.setPassword).not.toHaveBeenCalled();
+      expect(repository.users[0].email).toBe('admin@aegisx.com');
+
+      await service.resetPassword('user-1', { password: 'N3w-Secret!' }, 'support-1');
+      expect(authService.setPassword).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse updates and password resets without the permission lookup', async () => {
+      service = new UserManagementService(
+        repository as unknown as UserManagementRepository,
+        authService as unknown as AuthService,
+        tokenService
+      );
+
+      await expect(service.updateUser('user-1', { firstName: 'Al' }, 'admin-1')).rejects.toThrow(ForbiddenError);
+      await expect(service.resetPassword('user-1', {}, 'admin-1')).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should force a logout and unlock on behalf of the administrator', async () => {
+      await service.forceLogout('user-1', 'admin-1');
+      await service.unlockUser('user-1', 'admin-1');
+
+      expect(authService.logoutAll).toHaveBeenCalledWith('user-1');
+      expect(authService.unlock).toHaveBeenCalledWith({ userId: 'user-1' }, 'admin-1');
+      expect(events[0]).toMatchObject({ type: 'sessions_revoked_by_admin', details: { actorId: 'admin-1' } });
+    });
+  });
+
+  describe('impersonation', () => {
+    const admin = { userId: 'admin-1', email: 'admin@aegisx.com' };
+
+    it('should issue an audited access token with an act claim', async () => {
+      const result = await service.impersonate('user-1', admin);
+      const payload = tokenService.verifyAccessToken(result.accessToken);
+
+      expect(payload).toMatchObject({ sub: 'user-1', act: { sub: 'admin-1', email: 'admin@aegisx.com' } });
+      expect(result.expiresIn).toBeLessThanOrEqual(300);
+      expect(result.actorId).toBe('admin-1');
+      expect(events[0]).toMatchObject({
+        type: 'user_impersonated',
+        userId: 'user-1',
+        details: { actorId: 'admin-1', actorEmail: 'admin@aegisx.com' }
+      });
+    });
+
+    it('should refuse self, deactivated users and nested impersonation', async () => {
+      await expect(service.impersonate('admin-1', admin)).rejects.toThrow(ValidationError);
+      await expect(service.impersonate('user-2', admin)).rejects.toThrow(ValidationError);
+      await expect(service.impersonate('user-1', { userId: 'user-2', email: 'bob@aegisx.com', actorId: 'admin-1' }))
+        .rejects.toThrow(ForbiddenError);
+
+      expect(events).toHaveLength(0);
+    });
+
+    it('should refuse users holding permissions the administrator lacks', async () => {
+      repository.users.push(createUser('support-1', 'support@aegisx.com'));
+      permissionLookup.permissions['support-1'] = ['users:impersonate', 'reports:read'];
+      const support = { userId: 'support-1', email: 'support@aegisx.com' };
+
+      await expect(service.impersonate('admin-1', support)).rejects.toThrow(ForbiddenError);
+      await expect(service.impersonate('user-1', support)).resolves.toMatchObject({ actorId: 'support-1' });
+    });
+
+    it('should refuse every impersonation without the permission lookup', async () => {
+      service = new UserManagementService(
+        repository as unknown as UserManagementRepository,
+        authService as unknown as AuthService,
+        tokenService
+      );
+
+      await expect(service.impersonate('user-1', admin)).rejects.toThrow(ForbiddenError);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { container } from 'tsyringe';
+import { SessionRequest, actorIdOf, handleAuthError } from '@aegisx/features-system-auth';
+import {
+  AdminPasswordResetBody,
+  CreateUserRequest,
+  UpdateUserRequest,
+  UserListQueryRequest,
+  UserParams
+} from '../schemas';
+import { UserManagementService } from '../services/user-management.service';
+
+/**
+ * User management handlers for administrators
+ * Routes using these handlers must run requireAuth and requirePermission first
+ */
+export class UserManagementHandlers {
+
+  async listUsers(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const userManagementService = container.resolve<UserManagementService>('UserManagementService');
+
+      const page = await userManagementService.listUsers(request.query as UserListQueryRequest);
+
+      return reply.code(200).send(page);
+
+    } catch (error) {
+      request.log.error('List users error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async getUser(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const userManagementService = container.resolve<UserManagementService>('UserManagementService');
+      const { id } = request.params as UserParams;
+
+      const user = await userManagementService.getUser(id);
+
+      return reply.code(200).send(user);
+
+    } catch (error) {
+      request.log.error('Get user error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async createUser(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const userManagementService = container.resolve<UserManagementService>('UserManagementService');
+      const actorId = actorIdOf(request);
+
+      const user = await userManagementService.createUser(request.body as CreateUserRequest, actorId);
+
+      request.log.info('User created', { userId: user.id, actorId });
+
+      return reply.code(201).send(user);
+
+    } catch (error) {
+      request.log.error('Create user error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async updateUser(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const userManagementService = container.resolve<UserManagementService>('UserManagementService');
+      const actorId = actorIdOf(request);
+      const { id } = request.params as UserParams;
+
+      const user = await userManagementService.updateUser(id, request.body as UpdateUserRequest, actorId);
+
+      return reply.code(200).send(user);
+
+    } catch (error) {
+      request.log.error('Update user error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async deactivateUser(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const userManagementService = container.resolve<UserManagementService>('UserManagementService');
+      const actorId = actorIdOf(request);
+      const { id } = request.params as UserParams;
+
+      const user = await userManagementService.deactivateUser(id, actorId);
+
+      request.log.info('User deactivated', { userId: id, actorId });
+
+      return reply.code(200).send(user);
+
+    } catch (error) {
+      request.log.error('Deactivate user error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async activateUser(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const userManagementService = container.resolve<UserManagementService>('UserManagementService');
+      const actorId = actorIdOf(request);
+      const { id } = request.params as UserParams;
+
+      const user = await userManagementService.activateUser(id, actorId);
+
+      request.log.info('User activated', { userId: id, actorId });
+
+      return reply.code(200).send(user);
+
+    } catch (error) {
+      request.log.error('Activate user error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async resetPassword(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const userManagementService = container.resolve<UserManagementService>('UserManagementService');
+      const actorId = actorIdOf(request);
+      const { id } = request.params as UserParams;
+      const body = (request.body ?? {}) as AdminPasswordResetBody;
+
+      await userManagementService.resetPassword(id, body, actorId);
+
+      request.log.info('Password reset by administrator', { userId: id, actorId });
+
+      return reply.code(200).send({
+        message: body.password !== undefined
+          ? 'Password has been reset and all sessions signed out'
+          : 'Password reset link sent and all sessions signed out'
+      });
+
+    } catch (error) {
+      request.log.error('Admin password reset error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async forceLogout(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const userManagementService = container.resolve<UserManagementService>('UserManagementService');
+      const actorId = actorIdOf(request);
+      const { id } = request.params as UserParams;
+
+      await userManagementService.forceLogout(id, actorId);
+
+      request.log.info('User signed out by administrator', { userId: id, actorId });
+
+      return reply.code(200).send({ message: 'All sessions signed out' });
+
+    } catch (error) {
+      request.log.error('Force logout error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async unlockUser(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const userManagementService = container.resolve<UserManagementService>('UserManagementService');
+      const actorId = actorIdOf(request);
+      const { id } = request.params as UserParams;
+
+      const status = await userManagementService.unlockUser(id, actorId);
+
+      return reply.code(200).send(status);
+
+    } catch (error) {
+      request.log.error('Unlock user error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+
+  async impersonate(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    try {
+      const userManagementService = container.resolve<UserManagementService>('UserManagementService');
+      const { id } = request.params as UserParams;
+
+      const result = await userManagementService.impersonate(id, (request as SessionRequest).auth);
+
+      request.log.warn('Impersonation started', { userId: id, actorId: result.actorId });
+
+      return reply.code(200).send(result);
+
+    } catch (error) {
+      request.log.error('Impersonation error:', error);
+      const { statusCode, response } = handleAuthError(error as Error);
+      return reply.code(statusCode).send(response);
+    }
+  }
+}
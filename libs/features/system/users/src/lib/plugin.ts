@@ -0,0 +1,72 @@
+import fp from 'fastify-plugin';
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { container } from 'tsyringe';
+import { TokenService } from '@aegisx/core-auth';
+import { AuthService, SecurityEvents } from '@aegisx/features-system-auth';
+import { userManagementRoutes } from './routes/user-management.routes';
+import { UserManagementRepository } from './repositories/user-management.repository';
+import { UserManagementService, UserPermissionLookup } from './services/user-management.service';
+
+/**
+ * Users plugin options
+ */
+export interface UsersPluginOptions {
+  /**
+   * Route prefix for user management endpoints
+   * Default: '/api/users'
+   */
+  prefix?: string;
+
+  /**
+   * Largest page the user listing returns
+   * Default: 100
+   */
+  maxPageSize?: number;
+
+  /**
+   * Lifetime of impersonation tokens (e.g. '10m')
+   * Default: '15m'
+   */
+  impersonationTokenExpiry?: string;
+}
+
+/**
+ * User management plugin for administrators
+ * Requires @aegisx/core-database and the auth plugin (real implementation)
+ * to be registered first, and @aegisx/core-rbac for the permission checks
+ */
+const users: FastifyPluginAsync<UsersPluginOptions> = async (
+  fastify: FastifyInstance,
+  options: UsersPluginOptions = {}
+) => {
+  const { prefix = '/api/users', maxPageSize, impersonationTokenExpiry } = options;
+
+  if (!fastify.db) {
+    throw new Error('Database instance not found. Please register @aegisx/core-database plugin before users plugin.');
+  }
+  if (!container.isRegistered('AuthService')) {
+    throw new Error('Auth services not found. Please register the auth plugin (without useMock) before users plugin.');
+  }
+
+  const userManagementService = new UserManagementService(
+    new UserManagementRepository(fastify.db),
+    container.resolve<AuthService>('AuthService'),
+    container.resolve<TokenService>('TokenService'),
+    container.resolve<SecurityEvents>('SecurityEvents'),
+    { maxPageSize, impersonationTokenExpiry },
+    fastify.hasDecorator('rbac') ? (fastify as FastifyInstance & { rbac: UserPermissionLookup }).rbac : undefined
+  );
+  container.registerInstance('UserManagementService', userManagementService);
+
+  await fastify.register(userManagementRoutes, { prefix });
+
+  fastify.log.info(`Users plugin registered with prefix: ${prefix}`);
+};
+
+// Wrapped so the prefix option is applied once, by the routes
+export const usersPlugin = fp(users, {
+  name: 'aegisx-users',
+  fastify: '5.x'
+});
+
+export default usersPlugin;
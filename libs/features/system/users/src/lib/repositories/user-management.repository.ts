@@ -0,0 +1,177 @@
+import { injectable } from 'tsyringe';
+import { Knex } from 'knex';
+import type { DbUser } from '@aegisx/features-system-auth';
+
+/**
+ * Columns users can be sorted by
+ */
+export type UserSortField = 'email' | 'firstName' | 'lastName' | 'createdAt' | 'lastLoginAt';
+
+/**
+ * Filters of the user listing (all optional, combined with AND)
+ */
+export interface UserListFilter {
+  search?: string; // Part of the email, first or last name (case-insensitive)
+  isActive?: boolean;
+  emailVerified?: boolean;
+  locked?: boolean; // Sign-in lock still in effect
+  role?: string; // RBAC role name
+}
+
+/**
+ * One page of the user listing
+ */
+export interface UserListQuery extends UserListFilter {
+  page: number; // Starts at 1
+  limit: number;
+  sortBy: UserSortField;
+  sortOrder: 'asc' | 'desc';
+}
+
+/**
+ * Update User Input (only the given fields change)
+ */
+export interface UpdateUserInput {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  emailVerified?: boolean;
+}
+
+const SORT_COLUMNS: Record<UserSortField, string> = {
+  email: 'users.email',
+  firstName: 'users.first_name',
+  lastName: 'users.last_name',
+  createdAt: 'users.created_at',
+  lastLoginAt: 'users.last_login_at'
+};
+
+/**
+ * User queries for administrators. Unlike UserRepository, lookups
+ * include deactivated users.
+ */
+@injectable()
+export class UserManagementRepository {
+  constructor(
+    private knex: Knex
+  ) {}
+
+  /**
+   * One page of users matching the filter, and the number of matches
+   */
+  async list(query: UserListQuery): Promise<{ users: DbUser[]; total: number }> {
+    const { page, limit, sortBy, sortOrder } = query;
+
+    const counted = await this.filtered(query)
+      .count({ count: '*' })
+      .first();
+
+    const users = await this.filtered(query)
+      .select('users.*')
+      .orderBy(SORT_COLUMNS[sortBy], sortOrder, sortOrder === 'asc' ? 'first' : 'last')
+      .orderBy('users.id', 'asc')
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return { users, total: Number(counted?.['count'] ?? 0) };
+  }
+
+  /**
+   * Find user by ID, active or not
+   */
+  async findById(id: string): Promise<DbUser | null> {
+    const user = await this.knex('users')
+      .where({ id })
+      .first();
+
+    return user || null;
+  }
+
+  /**
+   * Find user by email, active or not
+   */
+  async findByEmail(email: string): Promise<DbUser | null> {
+    const user = await this.knex('users')
+      .where({ email })
+      .first();
+
+    return user || null;
+  }
+
+  /**
+   * Update profile fields; returns null for unknown users
+   */
+  async update(id: string, changes: UpdateUserInput): Promise<DbUser | null> {
+    const { email, firstName, lastName, emailVerified } = changes;
+
+    const [user] = await this.knex('users')
+      .where({ id })
+      .update({
+        ...(email !== undefined ? { email } : {}),
+        ...(firstName !== undefined ? { first_name: firstName } : {}),
+        ...(lastName !== undefined ? { last_name: lastName } : {}),
+        ...(emailVerified !== undefined
+          ? { email_verified: emailVerified, email_verified_at: emailVerified ? this.knex.fn.now() : null }
+          : {}),
+        updated_at: this.knex.fn.now()
+      })
+      .returning('*');
+
+    return user || null;
+  }
+
+  /**
+   * Activate or deactivate a user; returns null for unknown users
+   */
+  async setActive(id: string, isActive: boolean): Promise<DbUser | null> {
+    const [user] = await this.knex('users')
+      .where({ id })
+      .update({
+        is_active: isActive,
+        updated_at: this.knex.fn.now()
+      })
+      .returning('*');
+
+    return user || null;
+  }
+
+  private filtered(filter: UserListFilter): Knex.QueryBuilder {
+    const query = this.knex('users');
+    const { search, isActive, emailVerified, locked, role } = filter;
+
+    if (search) {
+      const pattern = `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+      query.where((builder) => {
+        builder
+          .whereILike('users.email', pattern)
+          .orWhereILike('users.first_name', pattern)
+          .orWhereILike('users.last_name', pattern);
+      });
+    }
+    if (isActive !== undefined) {
+      query.where('users.is_active', isActive);
+    }
+    if (emailVerified !== undefined) {
+      query.where('users.email_verified', emailVerified);
+    }
+    if (locked === true) {
+      query.where('users.locked_until', '>', this.knex.fn.now());
+    } else if (locked === false) {
+      query.where((builder) => {
+        builder.whereNull('users.locked_until').orWhere('users.locked_until', '<=', this.knex.fn.now());
+      });
+    }
+    if (role) {
+      query.whereExists((builder) => {
+        builder
+          .select(this.knex.raw('1'))
+          .from('user_roles')
+          .join('roles', 'roles.id', 'user_roles.role_id')
+          .whereRaw('user_roles.user_id = users.id')
+          .andWhere('roles.name', role);
+      });
+    }
+
+    return query;
+  }
+}
@@ -0,0 +1,208 @@
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import {
+  ErrorSchema,
+  LockoutStatusResponseSchema,
+  MessageResponseSchema,
+  ValidationErrorSchema,
+  requireAuth,
+  requirePermission
+} from '@aegisx/features-system-auth';
+import { UserManagementHandlers } from '../handlers/user-management.handlers';
+import {
+  AdminPasswordResetSchema,
+  CreateUserSchema,
+  ImpersonationResponseSchema,
+  ManagedUserSchema,
+  UpdateUserSchema,
+  UserListQuerySchema,
+  UserListResponseSchema,
+  UserParamsSchema
+} from '../schemas';
+
+/**
+ * User management routes for administrators
+ * Permissions are checked by the @aegisx/core-rbac plugin
+ */
+export const userManagementRoutes: FastifyPluginAsync = async (
+  fastify: FastifyInstance
+) => {
+  const handlers = new UserManagementHandlers();
+
+  // GET /api/users
+  fastify.get('/', {
+    schema: {
+      summary: 'List users',
+      description: 'Paginated user listing with search, filters and sorting (requires users:read)',
+      tags: ['users'],
+      querystring: UserListQuerySchema,
+      response: {
+        200: UserListResponseSchema,
+        400: ValidationErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema
+      }
+    },
+    preHandler: [requireAuth, requirePermission(fastify, 'users:read')]
+  }, handlers.listUsers);
+
+  // GET /api/users/:id
+  fastify.get('/:id', {
+    schema: {
+      summary: 'Get user',
+      description: 'A user, active or deactivated (requires users:read)',
+      tags: ['users'],
+      params: UserParamsSchema,
+      response: {
+        200: ManagedUserSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: [requireAuth, requirePermission(fastify, 'users:read')]
+  }, handlers.getUser);
+
+  // POST /api/users
+  fastify.post('/', {
+    schema: {
+      summary: 'Create user',
+      description: 'Create an active account and email a verification link (requires users:create)',
+      tags: ['users'],
+      body: CreateUserSchema,
+      response: {
+        201: ManagedUserSchema,
+        400: ValidationErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        409: ErrorSchema
+      }
+    },
+    preHandler: [requireAuth, requirePermission(fastify, 'users:create')]
+  }, handlers.createUser);
+
+  // PATCH /api/users/:id
+  fastify.patch('/:id', {
+    schema: {
+      summary: 'Update user',
+      description: 'Change the name, email address or email verification of a user (requires users:update)',
+      tags: ['users'],
+      params: UserParamsSchema,
+      body: UpdateUserSchema,
+      response: {
+        200: ManagedUserSchema,
+        400: ValidationErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema,
+        409: ErrorSchema
+      }
+    },
+    preHandler: [requireAuth, requirePermission(fastify, 'users:update')]
+  }, handlers.updateUser);
+
+  // POST /api/users/:id/deactivate
+  fastify.post('/:id/deactivate', {
+    schema: {
+      summary: 'Deactivate user',
+      description: 'Block sign-in and sign out every session; the account is kept (requires users:update)',
+      tags: ['users'],
+      params: UserParamsSchema,
+      response: {
+        200: ManagedUserSchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: [requireAuth, requirePermission(fastify, 'users:update')]
+  }, handlers.deactivateUser);
+
+  // POST /api/users/:id/activate
+  fastify.post('/:id/activate', {
+    schema: {
+      summary: 'Activate user',
+      description: 'Allow a deactivated user to sign in again (requires users:update)',
+      tags: ['users'],
+      params: UserParamsSchema,
+      response: {
+        200: ManagedUserSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: [requireAuth, requirePermission(fastify, 'users:update')]
+  }, handlers.activateUser);
+
+  // POST /api/users/:id/reset-password
+  fastify.post('/:id/reset-password', {
+    schema: {
+      summary: 'Reset password',
+      description: 'Set a new password or email a reset link; signs out every session (requires users:reset-password)',
+      tags: ['users'],
+      params: UserParamsSchema,
+      body: AdminPasswordResetSchema,
+      response: {
+        200: MessageResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: [requireAuth, requirePermission(fastify, 'users:reset-password')]
+  }, handlers.resetPassword);
+
+  // POST /api/users/:id/logout
+  fastify.post('/:id/logout', {
+    schema: {
+      summary: 'Force logout',
+      description: 'Sign out every session of a user (requires users:logout)',
+      tags: ['users'],
+      params: UserParamsSchema,
+      response: {
+        200: MessageResponseSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: [requireAuth, requirePermission(fastify, 'users:logout')]
+  }, handlers.forceLogout);
+
+  // POST /api/users/:id/unlock
+  fastify.post('/:id/unlock', {
+    schema: {
+      summary: 'Unlock user',
+      description: 'Lift the sign-in lock and forget the failed attempts (requires users:unlock)',
+      tags: ['users'],
+      params: UserParamsSchema,
+      response: {
+        200: LockoutStatusResponseSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: [requireAuth, requirePermission(fastify, 'users:unlock')]
+  }, handlers.unlockUser);
+
+  // POST /api/users/:id/impersonate
+  fastify.post('/:id/impersonate', {
+    schema: {
+      summary: 'Impersonate user',
+      description: 'Short-lived access token to act as the user, marked with an act claim and audited (requires users:impersonate)',
+      tags: ['users'],
+      params: UserParamsSchema,
+      response: {
+        200: ImpersonationResponseSchema,
+        400: ErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: [requireAuth, requirePermission(fastify, 'users:impersonate')]
+  }, handlers.impersonate);
+};
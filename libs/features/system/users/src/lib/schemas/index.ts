@@ -0,0 +1,2 @@
+// User management schemas
+export * from './users.schemas';
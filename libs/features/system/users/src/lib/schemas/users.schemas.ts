@@ -0,0 +1,177 @@
+import { Type, Static } from '@sinclair/typebox';
+
+/**
+ * User Management Request Schemas
+ */
+
+export const UserListQuerySchema = Type.Object({
+  page: Type.Optional(Type.Integer({
+    minimum: 1,
+    default: 1,
+    description: 'Page number, starting at 1'
+  })),
+  limit: Type.Optional(Type.Integer({
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+    description: 'Users per page'
+  })),
+  search: Type.Optional(Type.String({
+    maxLength: 100,
+    description: 'Part of the email, first or last name (case-insensitive)'
+  })),
+  isActive: Type.Optional(Type.Boolean()),
+  emailVerified: Type.Optional(Type.Boolean()),
+  locked: Type.Optional(Type.Boolean({
+    description: 'Only users whose sign-in lock is (or is not) in effect'
+  })),
+  role: Type.Optional(Type.String({
+    minLength: 1,
+    description: 'Only users with this RBAC role'
+  })),
+  sortBy: Type.Optional(Type.Union([
+    Type.Literal('email'),
+    Type.Literal('firstName'),
+    Type.Literal('lastName'),
+    Type.Literal('createdAt'),
+    Type.Literal('lastLoginAt')
+  ], { default: 'createdAt' })),
+  sortOrder: Type.Optional(Type.Union([
+    Type.Literal('asc'),
+    Type.Literal('desc')
+  ], { default: 'desc' }))
+}, {
+  $id: 'UserListQuery',
+  title: 'User List Query',
+  description: 'Paging, search, filters and sorting of the user listing'
+});
+
+export const UserParamsSchema = Type.Object({
+  id: Type.String({
+    format: 'uuid',
+    description: 'User identifier'
+  })
+}, {
+  $id: 'UserParams',
+  title: 'User Params',
+  description: 'User route parameters'
+});
+
+export const CreateUserSchema = Type.Object({
+  email: Type.String({
+    format: 'email',
+    description: 'User email address'
+  }),
+  password: Type.String({
+    minLength: 1,
+    description: 'Initial password (checked against the password policy)'
+  }),
+  firstName: Type.String({
+    minLength: 1,
+    maxLength: 50
+  }),
+  lastName: Type.String({
+    minLength: 1,
+    maxLength: 50
+  })
+}, {
+  $id: 'CreateUserRequest',
+  title: 'Create User Request',
+  description: 'Account created by an administrator'
+});
+
+export const UpdateUserSchema = Type.Object({
+  email: Type.Optional(Type.String({
+    format: 'email',
+    description: 'A new address is unverified unless emailVerified is set'
+  })),
+  firstName: Type.Optional(Type.String({
+    minLength: 1,
+    maxLength: 50
+  })),
+  lastName: Type.Optional(Type.String({
+    minLength: 1,
+    maxLength: 50
+  })),
+  emailVerified: Type.Optional(Type.Boolean())
+}, {
+  $id: 'UpdateUserRequest',
+  title: 'Update User Request',
+  description: 'Profile changes; omitted fields stay unchanged',
+  minProperties: 1
+});
+
+export const AdminPasswordResetSchema = Type.Object({
+  password: Type.Optional(Type.String({
+    minLength: 1,
+    description: 'New password; omit to email the user a reset link instead'
+  }))
+}, {
+  $id: 'AdminPasswordResetRequest',
+  title: 'Admin Password Reset Request'
+});
+
+/**
+ * User Management Response Schemas
+ */
+
+export const ManagedUserSchema = Type.Object({
+  id: Type.String(),
+  email: Type.String({ format: 'email' }),
+  firstName: Type.String(),
+  lastName: Type.String(),
+  isActive: Type.Boolean(),
+  emailVerified: Type.Boolean(),
+  locked: Type.Boolean({ description: 'Sign-in lock in effect' }),
+  lockedUntil: Type.Optional(Type.String({ format: 'date-time' })),
+  lastLoginAt: Type.Optional(Type.String({ format: 'date-time' })),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' })
+}, {
+  $id: 'ManagedUser',
+  title: 'Managed User',
+  description: 'User as seen by administrators'
+});
+
+export const UserListResponseSchema = Type.Object({
+  users: Type.Array(ManagedUserSchema),
+  pagination: Type.Object({
+    page: Type.Integer(),
+    limit: Type.Integer(),
+    total: Type.Integer({ description: 'Users matching the filters' }),
+    totalPages: Type.Integer()
+  })
+}, {
+  $id: 'UserListResponse',
+  title: 'User List Response'
+});
+
+export const ImpersonationResponseSchema = Type.Object({
+  accessToken: Type.String({
+    description: 'Access token for the user with an act claim naming the administrator'
+  }),
+  tokenType: Type.Literal('Bearer'),
+  expiresIn: Type.Integer({
+    description: 'Seconds until the token expires; it cannot be refreshed'
+  }),
+  user: ManagedUserSchema,
+  actorId: Type.String({
+    description: 'Administrator acting as the user'
+  })
+}, {
+  $id: 'ImpersonationResponse',
+  title: 'Impersonation Response'
+});
+
+/**
+ * TypeScript Types from Schemas
+ */
+
+export type UserListQueryRequest = Static<typeof UserListQuerySchema>;
+export type UserParams = Static<typeof UserParamsSchema>;
+export type CreateUserRequest = Static<typeof CreateUserSchema>;
+export type UpdateUserRequest = Static<typeof UpdateUserSchema>;
+export type AdminPasswordResetBody = Static<typeof AdminPasswordResetSchema>;
+export type ManagedUserResponse = Static<typeof ManagedUserSchema>;
+export type UserListResponse = Static<typeof UserListResponseSchema>;
+export type ImpersonationResponse = Static<typeof ImpersonationResponseSchema>;
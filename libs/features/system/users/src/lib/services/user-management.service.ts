@@ -0,0 +1,375 @@
+import { injectable } from 'tsyringe';
+import { TokenService } from '@aegisx/core-auth';
+import {
+  AuthService,
+  ConflictError,
+  DbUser,
+  ForbiddenError,
+  LockoutStatus,
+  NotFoundError,
+  SecurityEvents,
+  ValidationError
+} from '@aegisx/features-system-auth';
+import {
+  UpdateUserInput,
+  UserListFilter,
+  UserManagementRepository,
+  UserSortField
+} from '../repositories/user-management.repository';
+
+/**
+ * User as seen by administrators
+ */
+export interface ManagedUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  isActive: boolean;
+  emailVerified: boolean;
+  locked: boolean;
+  lockedUntil?: Date;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Listing request; paging and sorting fall back to the defaults
+ */
+export interface UserListOptions extends UserListFilter {
+  page?: number; // Default: 1
+  limit?: number; // Default: 20, at most maxPageSize
+  sortBy?: UserSortField; // Default: createdAt
+  sortOrder?: 'asc' | 'desc'; // Default: desc
+}
+
+/**
+ * One page of users
+ */
+export interface UserPage {
+  users: ManagedUser[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * Account created by an administrator
+ */
+export interface CreateManagedUserRequest {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * Profile changes; a new email address is unverified unless emailVerified is set
+ */
+export type UpdateManagedUserRequest = UpdateUserInput;
+
+/**
+ * Set the password, or email a reset link when it is omitted
+ */
+export interface AdminPasswordResetRequest {
+  password?: string;
+}
+
+/**
+ * Signed-in administrator starting an impersonation
+ */
+export interface ImpersonationActor {
+  userId: string;
+  email: string;
+  actorId?: string; // Set when the administrator is impersonating someone already
+}
+
+/**
+ * Access token to act as another user; there is no refresh token
+ */
+export interface ImpersonationResult {
+  accessToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number; // Seconds
+  user: ManagedUser;
+  actorId: string;
+}
+
+/**
+ * Permission lookup of the RBAC plugin (`fastify.rbac`), used to keep
+ * impersonation from granting more than the administrator holds
+ */
+export interface UserPermissionLookup {
+  getEffectivePermissions(userId: string): Promise<{ permissions: string[] }>;
+  canAll(subject: { id: string }, required: string[]): Promise<boolean>;
+}
+
+/**
+ * User management settings
+ */
+export interface UserManagementServiceOptions {
+  maxPageSize?: number; // Default: 100
+  impersonationTokenExpiry?: string; // Default: 15m
+}
+
+/**
+ * Administration of user accounts: listing, profile changes, activation,
+ * password resets, forced logout, unlocking and impersonation.
+ * Every change raises a security event naming the administrator (actorId).
+ */
+@injectable()
+export class UserManagementService {
+  private readonly maxPageSize: number;
+
+  constructor(
+    private userManagementRepository: UserManagementRepository,
+    private authService: AuthService,
+    private tokenService: TokenService,
+    private securityEvents: SecurityEvents = new SecurityEvents(),
+    private options: UserManagementServiceOptions = {},
+    private permissionLookup?: UserPermissionLookup
+  ) {
+    this.maxPageSize = options.maxPageSize ?? 100;
+  }
+
+  /**
+   * Paginated, filterable and searchable user listing
+   */
+  async listUsers(options: UserListOptions = {}): Promise<UserPage> {
+    const page = Math.max(1, Math.floor(options.page ?? 1));
+    const limit = Math.min(this.maxPageSize, Math.max(1, Math.floor(options.limit ?? 20)));
+
+    const { users, total } = await this.userManagementRepository.list({
+      ...options,
+      search: options.search?.trim() || undefined,
+      page,
+      limit,
+      sortBy: options.sortBy ?? 'createdAt',
+      sortOrder: options.sortOrder ?? 'desc'
+    });
+
+    return {
+      users: users.map((user) => this.toManagedUser(user)),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+    };
+  }
+
+  async getUser(userId: string): Promise<ManagedUser> {
+    return this.toManagedUser(await this.requireUser(userId));
+  }
+
+  /**
+   * Create an active account; the user is emailed a verification link
+   */
+  async createUser(request: CreateManagedUserRequest, actorId: string): Promise<ManagedUser> {
+    if (request.email && (await this.userManagementRepository.findByEmail(request.email.toLowerCase()))) {
+      throw new ConflictError('User with this email already exists');
+    }
+
+    const user = await this.authService.createAccount(request);
+
+    await this.securityEvents.emit('user_created', user.id, { actorId });
+    return this.toManagedUser(user);
+  }
+
+  /**
+   * Change the profile of a user whose permissions the administrator holds
+   * as well; a verified email address would let them reset its password
+   */
+  async updateUser(userId: string, request: UpdateManagedUserRequest, actorId: string): Promise<ManagedUser> {
+    const user = await this.requireUser(userId);
+    await this.assertHoldsPermissionsOf(user, actorId, 'update');
+    const changes: UpdateUserInput = { ...request };
+
+    if (request.email !== undefined) {
+      changes.email = request.email.trim().toLowerCase();
+      if (!changes.email) {
+        throw new ValidationError('Email cannot be empty', 'email');
+      }
+
+      if (changes.email === user.email) {
+        delete changes.email;
+      } else {
+        if (await this.userManagementRepository.findByEmail(changes.email)) {
+          throw new ConflictError('User with this email already exists');
+        }
+        changes.emailVerified = request.emailVerified ?? false;
+      }
+    }
+
+    const updated = await this.userManagementRepository.update(user.id, changes);
+    if (!updated) {
+      throw new NotFoundError('User not found');
+    }
+
+    await this.securityEvents.emit('user_updated', user.id, {
+      actorId,
+      fields: Object.keys(changes)
+    });
+    return this.toManagedUser(updated);
+  }
+
+  /**
+   * Deactivate a user (is_active = false) and sign out every session.
+   * Deactivated users cannot sign in and their API keys stop working.
+   */
+  async deactivateUser(userId: string, actorId: string): Promise<ManagedUser> {
+    if (userId === actorId) {
+      throw new ValidationError('You cannot deactivate your own account');
+    }
+
+    const user = await this.setActive(userId, false);
+    await this.authService.logoutAll(user.id);
+
+    await this.securityEvents.emit('user_deactivated', user.id, { actorId });
+    return this.toManagedUser(user);
+  }
+
+  async activateUser(userId: string, actorId: string): Promise<ManagedUser> {
+    const user = await this.setActive(userId, true);
+
+    await this.securityEvents.emit('user_activated', user.id, { actorId });
+    return this.toManagedUser(user);
+  }
+
+  /**
+   * Set a new password (checked against the password policy) or email a
+   * reset link. Either way every session of the user is signed out.
+   * Like updateUser, only for users whose permissions the administrator holds.
+   */
+  async resetPassword(userId: string, request: AdminPasswordResetRequest, actorId: string): Promise<void> {
+    const user = await this.requireUser(userId);
+    await this.assertHoldsPermissionsOf(user, actorId, 'reset the password of');
+
+    if (request.password !== undefined) {
+      await this.authService.setPassword(user, request.password);
+    } else {
+      if (!user.is_active) {
+        throw new ValidationError('Activate the user before emailing a password reset link');
+      }
+      await this.authService.requestPasswordReset(user.email);
+      await this.authService.logoutAll(user.id);
+    }
+
+    await this.securityEvents.emit('password_reset_by_admin', user.id, {
+      actorId,
+      method: request.password !== undefined ? 'password' : 'email'
+    });
+  }
+
+  /**
+   * Sign out every session of a user
+   */
+  async forceLogout(userId: string, actorId: string): Promise<void> {
+    const user = await this.requireUser(userId);
+
+    await this.authService.logoutAll(user.id);
+
+    await this.securityEvents.emit('sessions_revoked_by_admin', user.id, { actorId });
+  }
+
+  /**
+   * Lift the sign-in lock of a user and forget the failed attempts
+   */
+  async unlockUser(userId: string, actorId: string): Promise<LockoutStatus> {
+    const user = await this.requireUser(userId);
+
+    return this.authService.unlock({ userId: user.id }, actorId);
+  }
+
+  /**
+   * Issue a short-lived access token to act as another user. The token
+   * carries an `act` claim naming the administrator and is audited.
+   * Only users whose permissions the administrator holds as well can be
+   * impersonated, so without the RBAC lookup nobody can.
+   */
+  async impersonate(userId: string, actor: ImpersonationActor): Promise<ImpersonationResult> {
+    if (actor.actorId) {
+      throw new ForbiddenError('An impersonation cannot start another impersonation');
+    }
+    if (userId === actor.userId) {
+      throw new ValidationError('You cannot impersonate yourself');
+    }
+
+    const user = await this.requireUser(userId);
+    if (!user.is_active) {
+      throw new ValidationError('Deactivated users cannot be impersonated');
+    }
+    await this.assertHoldsPermissionsOf(user, actor.userId, 'impersonate');
+
+    const accessToken = this.tokenService.generateImpersonationToken({
+      userId: user.id,
+      email: user.email,
+      actor: { sub: actor.userId, email: actor.email },
+      expiresIn: this.options.impersonationTokenExpiry ?? '15m'
+    });
+    const expiresIn = this.tokenService.getTimeToExpiry(accessToken);
+
+    await this.securityEvents.emit('user_impersonated', user.id, {
+      actorId: actor.userId,
+      actorEmail: actor.email,
+      expiresAt: this.tokenService.getTokenExpiration(accessToken)
+    });
+
+    return {
+      accessToken,
+      tokenType: 'Bearer',
+      expiresIn,
+      user: this.toManagedUser(user),
+      actorId: actor.userId
+    };
+  }
+
+  /**
+   * Keep administrators from taking over accounts more privileged than
+   * their own; without the RBAC lookup the check cannot pass
+   */
+  private async assertHoldsPermissionsOf(user: DbUser, actorId: string, action: string): Promise<void> {
+    if (!this.permissionLookup) {
+      throw new ForbiddenError(`You cannot ${action} users without the RBAC plugin`);
+    }
+    const { permissions } = await this.permissionLookup.getEffectivePermissions(user.id);
+    if (!(await this.permissionLookup.canAll({ id: actorId }, permissions))) {
+      throw new ForbiddenError(`You cannot ${action} a user with permissions you do not hold`);
+    }
+  }
+
+  private async requireUser(userId: string): Promise<DbUser> {
+    const user = await this.userManagementRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+
+  private async setActive(userId: string, isActive: boolean): Promise<DbUser> {
+    const user = await this.userManagementRepository.setActive(userId, isActive);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return user;
+  }
+
+  private toManagedUser(user: DbUser): ManagedUser {
+    const lockedUntil = user.locked_until ? new Date(user.locked_until) : undefined;
+    const locked = !!lockedUntil && lockedUntil.getTime() > Date.now();
+
+    return {
+      id: user.id,
+      email: user.email,
+      firstName: user.first_name,
+      lastName: user.last_name,
+      isActive: user.is_active,
+      emailVerified: user.email_verified,
+      locked,
+      lockedUntil: locked ? lockedUntil : undefined,
+      lastLoginAt: user.last_login_at || undefined,
+      createdAt: user.created_at,
+      updatedAt: user.updated_at
+    };
+  }
+}
@@ -0,0 +1,36 @@
+// User management feature exports
+export { usersPlugin as default } from './plugin';
+export { usersPlugin } from './plugin';
+export type { UsersPluginOptions } from './plugin';
+
+// Routes and handlers
+export { userManagementRoutes } from './routes/user-management.routes';
+export { UserManagementHandlers } from './handlers/user-management.handlers';
+
+// Services and repositories
+export { UserManagementService } from './services/user-management.service';
+export { UserManagementRepository } from './repositories/user-management.repository';
+
+// Types and interfaces
+export type {
+  ManagedUser,
+  UserListOptions,
+  UserPage,
+  CreateManagedUserRequest,
+  UpdateManagedUserRequest,
+  AdminPasswordResetRequest,
+  ImpersonationActor,
+  ImpersonationResult,
+  UserPermissionLookup,
+  UserManagementServiceOptions
+} from './services/user-management.service';
+
+export type {
+  UserSortField,
+  UserListFilter,
+  UserListQuery,
+  UpdateUserInput
+} from './repositories/user-management.repository';
+
+// Export schemas and types
+export * from './schemas';